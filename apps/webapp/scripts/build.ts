@@ -0,0 +1,44 @@
+/**
+ * Production build of the server, run after `vite build` (see package.json)
+ *
+ * Produces a dist/ folder that runs the whole webapp as one process with `bun dist/server.js`:
+ *   server.js               backend with all workspace packages and dependencies bundled
+ *   renderer/               frontend (Vite), served by the backend
+ *   claude-agent-sdk/       Claude Code CLI - agents run it as a subprocess, so it can't be bundled
+ *   network-interceptor.ts  preloaded into that subprocess
+ *   assets/docs/            docs the agent reads about sources, skills and permissions
+ */
+
+import { cpSync, existsSync, rmSync } from 'fs'
+import { createRequire } from 'module'
+import { dirname, join } from 'path'
+
+const appDir = join(import.meta.dir, '..')
+const distDir = join(appDir, 'dist')
+const sharedDir = join(appDir, '..', '..', 'packages', 'shared')
+
+if (!existsSync(join(distDir, 'renderer', 'index.html'))) {
+  console.error('dist/renderer is missing - run `vite build` first')
+  process.exit(1)
+}
+
+const result = await Bun.build({
+  entrypoints: [join(appDir, 'src', 'server.ts')],
+  outdir: distDir,
+  target: 'bun',
+  minify: true,
+  sourcemap: 'linked',
+})
+if (!result.success) {
+  for (const log of result.logs) console.error(log)
+  process.exit(1)
+}
+
+const require = createRequire(join(sharedDir, 'package.json'))
+const sdkDir = dirname(require.resolve('@anthropic-ai/claude-agent-sdk/cli.js'))
+rmSync(join(distDir, 'claude-agent-sdk'), { recursive: true, force: true })
+cpSync(sdkDir, join(distDir, 'claude-agent-sdk'), { recursive: true, dereference: true })
+cpSync(join(sharedDir, 'src', 'network-interceptor.ts'), join(distDir, 'network-interceptor.ts'))
+cpSync(join(sharedDir, 'assets', 'docs'), join(distDir, 'assets', 'docs'), { recursive: true })
+
+console.log(`Built ${distDir} - start it with: bun ${join(distDir, 'server.js')}`)
@@ -1,37 +1,347 @@
 /**
  * Web adapter for window.electronAPI
- * Routes all ElectronAPI calls to backend /api/rpc endpoint
- * and listens to /api/events SSE for streaming events
+ * Routes all ElectronAPI calls and streaming events over the /api/ws WebSocket,
+ * falling back to the /api/rpc endpoint plus /api/events SSE when the socket can't connect
  */
 
 import type { ElectronAPI, SessionEvent } from '../../electron/src/shared/types'
+import type { RpcMethodName, RpcArgs, RpcResult } from '../api/rpc'
+import type { RpcErrorCode } from '../api/rpc-registry'
+import { showFolderPicker } from './folder-picker'
+import { connectSocket, type RealtimeSocket, type RpcResponse } from './socket'
 
-const API_BASE = import.meta.env.DEV ? 'http://localhost:3001' : ''
+// Development: the backend runs beside the Vite dev server (VITE_API_URL, default port 3001).
+// Production: the backend serves this page, under the base path it puts in index.html.
+const API_BASE = import.meta.env.DEV
+  ? import.meta.env.VITE_API_URL || 'http://localhost:3001'
+  : document.querySelector<HTMLMetaElement>('meta[name="craft-base-path"]')?.content ?? ''
 
-// SSE connection for streaming events
+// Set localStorage['craft-webapp-transport'] = 'http' to always use POST + SSE
+const TRANSPORT_STORAGE_KEY = 'craft-webapp-transport'
+
+// Whether to try the WebSocket transport - cleared if the first socket fails to connect
+let useWebSocket = typeof WebSocket !== 'undefined' && localStorage.getItem(TRANSPORT_STORAGE_KEY) !== 'http'
+// Set once a socket has connected - later failures are outages, not a blocked transport
+let webSocketWorks = false
+
+// Event connection: a WebSocket (which also carries RPC calls) or an SSE stream
+let socket: RealtimeSocket | null = null
 let eventSource: EventSource | null = null
 const eventListeners: Map<string, Set<(event: SessionEvent) => void>> = new Map()
 
 // Generic event listeners (menu events, theme changes, etc.)
 const genericListeners: Map<string, Set<(...args: unknown[]) => void>> = new Map()
 
+// Server events that feed a generic listener, and the event field passed to its callbacks
+const changeEvents: Record<string, { listener: string; field: string }> = {
+  sources_changed: { listener: 'sourcesChanged', field: 'sources' },
+  skills_changed: { listener: 'skillsChanged', field: 'skills' },
+  label_config_changed: { listener: 'labelsChanged', field: 'workspaceId' },
+  status_config_changed: { listener: 'statusesChanged', field: 'workspaceId' },
+  view_config_changed: { listener: 'viewsChanged', field: 'workspaceId' },
+}
+
+// Session folder changes pushed by watchSessionFiles
+const sessionFileEvents = new Set(['session_file_added', 'session_file_changed', 'session_file_removed'])
+
+// CSRF token for the current login session (sent with every RPC call)
+let csrfToken: string | null = null
+
+/**
+ * Send the browser to the server's login page, returning here afterwards
+ */
+function redirectToLogin(): void {
+  window.location.href = `${API_BASE}/login?next=${encodeURIComponent(window.location.href)}`
+}
+
 /**
- * Make an RPC call to the backend
+ * Check the login session and fetch its CSRF token
  */
-async function rpc<T>(method: string, ...args: unknown[]): Promise<T> {
-  const response = await fetch(`${API_BASE}/api/rpc`, {
+async function loadAuthSession(): Promise<void> {
+  const response = await fetch(`${API_BASE}/api/auth/session`, { credentials: 'include' })
+  if (response.status === 401) {
+    redirectToLogin()
+    // Never resolve - the page is navigating away
+    return new Promise(() => {})
+  }
+  const data = await response.json() as { csrfToken?: string }
+  csrfToken = data.csrfToken ?? null
+}
+
+const authReady = loadAuthSession()
+
+/**
+ * Error returned by an RPC call, with the server's error code
+ */
+export class RpcCallError extends Error {
+  readonly code: RpcErrorCode
+  readonly details?: unknown
+
+  constructor(code: RpcErrorCode, message: string, details?: unknown) {
+    super(message)
+    this.name = 'RpcCallError'
+    this.code = code
+    this.details = details
+  }
+}
+
+/**
+ * POST an RPC call to /api/rpc
+ */
+async function postRpc(method: string, args: unknown[], signal?: AbortSignal): Promise<RpcResponse> {
+  const send = () => fetch(`${API_BASE}/api/rpc`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(csrfToken ? { 'X-CSRF-Token': csrfToken } : {}),
+    },
     body: JSON.stringify({ method, args }),
+    signal,
   })
+
+  let response = await send()
+  if (response.status === 403) {
+    // CSRF token may be stale (e.g. logged in again in another tab) - refresh once
+    await loadAuthSession()
+    response = await send()
+  }
+  if (response.status === 401) {
+    redirectToLogin()
+    throw new Error('Not authenticated')
+  }
   
-  const data = await response.json() as { result?: T; error?: string }
+  return await response.json() as RpcResponse
+}
+
+/**
+ * Make an RPC call to the backend - over the WebSocket when it is connected, otherwise
+ * as a POST. Argument and result types come from the server's method registry.
+ */
+async function call<M extends RpcMethodName>(
+  method: M,
+  args: RpcArgs<M>,
+  options?: { signal?: AbortSignal }
+): Promise<RpcResult<M>> {
+  await authReady
+
+  const data = socket?.isOpen
+    ? await socket.call(method, args, options?.signal)
+    : await postRpc(method, args, options?.signal)
   
   if (data.error) {
-    throw new Error(data.error)
+    throw new RpcCallError(data.error.code, data.error.message, data.error.details)
   }
   
-  return data.result as T
+  return data.result as RpcResult<M>
+}
+
+/**
+ * call() with spread arguments, matching the ElectronAPI method signatures
+ */
+function rpc<M extends RpcMethodName>(method: M, ...args: RpcArgs<M>): Promise<RpcResult<M>> {
+  return call(method, args)
+}
+
+// Event client ID assigned by the server (changes on every reconnect)
+let eventClientId: string | null = null
+
+// Event subscriptions for this tab - kept across reconnects and sent when connecting.
+// Sessions are kept in most-recently-used order and capped so background tabs stay cheap.
+const MAX_SESSION_SUBSCRIPTIONS = 8
+const subscribedSessions: string[] = []
+const subscribedWorkspaces = new Set<string>()
+let connectedSubscriptions = ''
+
+// Last event ID seen per session - sent on reconnect so the server replays missed events
+const lastEventIds = new Map<string, string>()
+
+function subscriptionKey(): string {
+  return `${[...subscribedSessions].sort().join(',')}|${[...subscribedWorkspaces].sort().join(',')}`
+}
+
+/**
+ * Send subscription changes for the current event connection.
+ * Before the connection is established, changes are picked up when connecting.
+ */
+async function updateSubscriptions(
+  subscribe?: { sessionIds?: string[]; workspaceIds?: string[] },
+  unsubscribe?: { sessionIds?: string[]; workspaceIds?: string[] }
+): Promise<void> {
+  if (!eventClientId) return
+  if (socket) {
+    socket.updateSubscriptions(subscribe, unsubscribe)
+    return
+  }
+  await authReady
+  try {
+    await fetch(`${API_BASE}/api/events/subscriptions`, {
+      method: 'POST',
+      credentials: 'include',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(csrfToken ? { 'X-CSRF-Token': csrfToken } : {}),
+      },
+      body: JSON.stringify({ clientId: eventClientId, subscribe, unsubscribe }),
+    })
+  } catch (err) {
+    console.warn('Failed to update SSE subscriptions:', err)
+  }
+}
+
+/**
+ * Receive streaming events for a session (e.g. when it is opened or a message is sent)
+ */
+function subscribeSession(sessionId: string): void {
+  const index = subscribedSessions.indexOf(sessionId)
+  if (index !== -1) {
+    // Already subscribed - just mark as most recently used
+    subscribedSessions.splice(index, 1)
+    subscribedSessions.push(sessionId)
+    return
+  }
+  subscribedSessions.push(sessionId)
+  const evicted = subscribedSessions.length > MAX_SESSION_SUBSCRIPTIONS
+    ? subscribedSessions.splice(0, subscribedSessions.length - MAX_SESSION_SUBSCRIPTIONS)
+    : []
+  for (const id of evicted) lastEventIds.delete(id)
+  void updateSubscriptions(
+    { sessionIds: [sessionId] },
+    evicted.length > 0 ? { sessionIds: evicted } : undefined
+  )
+}
+
+/**
+ * Receive session list updates for the workspace this tab is showing
+ */
+function subscribeWorkspace(workspaceId: string): void {
+  if (subscribedWorkspaces.has(workspaceId)) return
+  const previous = [...subscribedWorkspaces]
+  subscribedWorkspaces.clear()
+  subscribedWorkspaces.add(workspaceId)
+  void updateSubscriptions(
+    { workspaceIds: [workspaceId] },
+    previous.length > 0 ? { workspaceIds: previous } : undefined
+  )
+}
+
+/**
+ * Query string for a new event connection: current subscriptions and replay cursors
+ */
+function connectParams(): URLSearchParams {
+  const params = new URLSearchParams()
+  if (subscribedSessions.length > 0) params.set('sessions', subscribedSessions.join(','))
+  if (subscribedWorkspaces.size > 0) params.set('workspaces', [...subscribedWorkspaces].join(','))
+  const cursors = subscribedSessions.map(id => lastEventIds.get(id)).filter((id): id is string => !!id)
+  if (cursors.length > 0) params.set('lastEventIds', cursors.join(','))
+  connectedSubscriptions = subscriptionKey()
+  return params
+}
+
+/**
+ * Handle one event from either transport (`data` is the event JSON)
+ */
+function handleEvent(data: string, eventId?: string): void {
+  try {
+    const event = JSON.parse(data) as SessionEvent | { type: 'connected'; clientId: string }
+    
+    if (event.type === 'connected') {
+      eventClientId = (event as { clientId: string }).clientId
+      // Subscriptions changed while connecting - send the full set
+      if (subscriptionKey() !== connectedSubscriptions) {
+        void updateSubscriptions({ sessionIds: subscribedSessions, workspaceIds: [...subscribedWorkspaces] })
+      }
+      // A flow may have finished while disconnected - its event isn't replayed
+      for (const flowId of pendingOAuthFlows.keys()) {
+        void checkOAuthFlow(flowId)
+      }
+      return
+    }
+    
+    if (event.type === 'oauth_complete') {
+      const { flowId, ...result } = event as unknown as { flowId: string } & OAuthResult
+      finishOAuthFlow(flowId, result)
+      return
+    }
+    
+    const change = changeEvents[event.type]
+    if (change) {
+      const payload = (event as unknown as Record<string, unknown>)[change.field]
+      for (const listener of genericListeners.get(change.listener) ?? []) {
+        listener(payload)
+      }
+      return
+    }
+    
+    // Remember the stream position for this session (replayed from here on reconnect)
+    const sessionId = (event as { sessionId?: string }).sessionId
+    if (sessionId && eventId) {
+      lastEventIds.set(sessionId, eventId)
+    }
+    
+    // File watch events also reach onSessionFilesChanged (called with the session ID)
+    if (sessionId && sessionFileEvents.has(event.type)) {
+      for (const listener of genericListeners.get('sessionFilesChanged') ?? []) {
+        listener(sessionId)
+      }
+    }
+    
+    // A `resync_required` event (gap larger than the server's replay buffer) is passed
+    // through like any other - listeners re-fetch the session with getSessionMessages
+    if (event.type === 'resync_required' && sessionId) {
+      lastEventIds.delete(sessionId)
+    }
+    
+    // Notify all session event listeners
+    const listeners = eventListeners.get('session') || new Set()
+    for (const listener of listeners) {
+      listener(event as SessionEvent)
+    }
+  } catch (err) {
+    console.error('Error parsing event:', err)
+  }
+}
+
+/**
+ * Re-check the login session (redirects if it expired), then reconnect after 1 second
+ */
+function reconnectEvents(): void {
+  setTimeout(() => {
+    loadAuthSession().then(connectEvents).catch(() => setTimeout(connectEvents, 1000))
+  }, 1000)
+}
+
+/**
+ * Connect the WebSocket transport. If the first socket never opens (e.g. a proxy that
+ * doesn't forward upgrades), fall back to POST + SSE for this page.
+ */
+function connectWebSocket(): void {
+  if (socket) return
+  
+  const params = connectParams()
+  if (csrfToken) params.set('csrf_token', csrfToken)
+  const base = API_BASE.startsWith('http') ? API_BASE : `${window.location.origin}${API_BASE}`
+  const url = `${base.replace(/^http/, 'ws')}/api/ws?${params}`
+  
+  socket = connectSocket(url, {
+    onEvent: handleEvent,
+    onOpen: () => {
+      webSocketWorks = true
+    },
+    onClose: (opened) => {
+      socket = null
+      eventClientId = null
+      if (!opened && !webSocketWorks) {
+        console.warn('WebSocket unavailable, falling back to HTTP + SSE')
+        useWebSocket = false
+        connectEvents()
+        return
+      }
+      // Also covers the server closing the socket after logout - reconnecting re-checks the login
+      console.warn('WebSocket connection lost, reconnecting...')
+      reconnectEvents()
+    },
+  })
 }
 
 /**
@@ -40,29 +350,144 @@ async function rpc<T>(method: string, ...args: unknown[]): Promise<T> {
 function connectSSE(): void {
   if (eventSource) return
   
-  eventSource = new EventSource(`${API_BASE}/api/events`)
+  eventSource = new EventSource(`${API_BASE}/api/events?${connectParams()}`, { withCredentials: true })
   
-  eventSource.onmessage = (event) => {
-    try {
-      const data = JSON.parse(event.data) as SessionEvent
-      
-      // Notify all session event listeners
-      const listeners = eventListeners.get('session') || new Set()
-      for (const listener of listeners) {
-        listener(data)
-      }
-    } catch (err) {
-      console.error('Error parsing SSE event:', err)
-    }
-  }
+  eventSource.onmessage = (event) => handleEvent(event.data, event.lastEventId || undefined)
   
   eventSource.onerror = () => {
     console.warn('SSE connection error, reconnecting...')
     eventSource?.close()
     eventSource = null
-    // Reconnect after 1 second
-    setTimeout(connectSSE, 1000)
+    eventClientId = null
+    reconnectEvents()
+  }
+}
+
+/**
+ * Connect the event stream over the preferred transport
+ */
+function connectEvents(): void {
+  if (useWebSocket) {
+    connectWebSocket()
+  } else {
+    connectSSE()
+  }
+}
+
+/**
+ * Let the user pick files in the browser and upload them to the session's attachments
+ * folder. Returns the server paths, which the chat input then reads with readFileAttachment.
+ * Files go to the most recently opened session (the one whose input opened the picker).
+ */
+function pickAndUploadFiles(): Promise<string[]> {
+  const sessionId = subscribedSessions[subscribedSessions.length - 1]
+  if (!sessionId) {
+    return Promise.reject(new Error('Open a session before attaching files'))
+  }
+
+  return new Promise((resolve, reject) => {
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.multiple = true
+    input.addEventListener('cancel', () => resolve([]))
+    input.addEventListener('change', async () => {
+      const files = [...(input.files ?? [])]
+      if (files.length === 0) {
+        resolve([])
+        return
+      }
+      try {
+        const attachments = await uploadFiles(sessionId, files)
+        resolve(attachments.map(attachment => attachment.storedPath ?? attachment.path))
+      } catch (err) {
+        reject(err)
+      }
+    })
+    input.click()
+  })
+}
+
+/**
+ * Upload files to a session's attachments folder (multipart)
+ */
+async function uploadFiles(sessionId: string, files: File[]): Promise<Array<{ path: string; storedPath?: string }>> {
+  await authReady
+  const form = new FormData()
+  form.append('sessionId', sessionId)
+  for (const file of files) form.append('file', file)
+
+  const response = await fetch(`${API_BASE}/api/attachments`, {
+    method: 'POST',
+    credentials: 'include',
+    headers: csrfToken ? { 'X-CSRF-Token': csrfToken } : {},
+    body: form,
+  })
+  const data = await response.json() as { result?: Array<{ path: string; storedPath?: string }>; error?: string }
+  if (data.error) {
+    throw new Error(data.error)
+  }
+  return data.result ?? []
+}
+
+/**
+ * Browser URL for a file in a session's attachments folder, or null for other paths
+ */
+function attachmentUrl(path: string): string | null {
+  const match = path.match(/[\\/]sessions[\\/]([^\\/]+)[\\/]attachments[\\/]([^\\/]+)$/)
+  if (!match) return null
+  return `${API_BASE}/api/attachments/${encodeURIComponent(match[1]!)}/${encodeURIComponent(match[2]!)}`
+}
+
+type OAuthResult = NonNullable<RpcResult<'getOAuthResult'>>
+
+// Give up on a flow after the server's flow expiry
+const OAUTH_TIMEOUT_MS = 10 * 60 * 1000
+
+// OAuth flows waiting for their `oauth_complete` event, by flow ID
+const pendingOAuthFlows = new Map<string, (result: OAuthResult) => void>()
+
+function finishOAuthFlow(flowId: string, result: OAuthResult): void {
+  const resolve = pendingOAuthFlows.get(flowId)
+  if (!resolve) return
+  pendingOAuthFlows.delete(flowId)
+  resolve(result)
+}
+
+async function checkOAuthFlow(flowId: string): Promise<void> {
+  try {
+    const result = await rpc('getOAuthResult', flowId)
+    if (result) finishOAuthFlow(flowId, result)
+  } catch (err) {
+    console.warn('Failed to check OAuth flow:', err)
+  }
+}
+
+/**
+ * Open a provider's authorization page in a new tab and wait until the server has handled
+ * the redirect. Like the desktop app, failures resolve with `success: false`.
+ */
+async function runOAuthFlow(start: () => Promise<{ flowId: string; authUrl: string }>): Promise<OAuthResult> {
+  // Popup blockers only allow window.open while handling the click - open the tab first
+  const popup = window.open('', '_blank')
+  let flow: { flowId: string; authUrl: string }
+  try {
+    flow = await start()
+  } catch (err) {
+    popup?.close()
+    return { success: false, error: err instanceof Error ? err.message : String(err) }
+  }
+
+  if (popup) {
+    popup.opener = null
+    popup.location.href = flow.authUrl
+  } else {
+    window.open(flow.authUrl, '_blank', 'noopener')
   }
+
+  return new Promise((resolve) => {
+    pendingOAuthFlows.set(flow.flowId, resolve)
+    setTimeout(() => finishOAuthFlow(flow.flowId, { success: false, error: 'Authorization timed out' }), OAUTH_TIMEOUT_MS)
+  })
 }
 
 /**
@@ -79,8 +504,8 @@ function addListener(type: string, callback: (...args: unknown[]) => void): () =
   }
 }
 
-// Initialize SSE connection
-connectSSE()
+// Initialize the event connection once the login session is confirmed
+authReady.then(connectEvents)
 
 /**
  * Web implementation of ElectronAPI
@@ -88,14 +513,23 @@ connectSSE()
 export const webElectronAPI: ElectronAPI = {
   // Session management
   getSessions: () => rpc('getSessions'),
-  getSessionMessages: (sessionId) => rpc('getSessionMessages', sessionId),
+  getSessionMessages: (sessionId) => {
+    subscribeSession(sessionId)
+    return rpc('getSessionMessages', sessionId)
+  },
   createSession: (workspaceId, options) => rpc('createSession', workspaceId, options),
   deleteSession: (sessionId) => rpc('deleteSession', sessionId),
-  sendMessage: (sessionId, message, attachments, storedAttachments, options) => 
-    rpc('sendMessage', sessionId, message, attachments, storedAttachments, options),
+  sendMessage: (sessionId, message, attachments, storedAttachments, options, delivery) => {
+    subscribeSession(sessionId)
+    return rpc('sendMessage', sessionId, message, attachments, storedAttachments, options, delivery)
+  },
+  getQueuedMessages: (sessionId) => rpc('getQueuedMessages', sessionId),
+  updateQueuedMessage: (sessionId, messageId, message) => rpc('updateQueuedMessage', sessionId, messageId, message),
+  cancelQueuedMessage: (sessionId, messageId) => rpc('cancelQueuedMessage', sessionId, messageId),
   cancelProcessing: (sessionId, silent) => rpc('cancelProcessing', sessionId, silent),
   killShell: (sessionId, shellId) => rpc('killShell', sessionId, shellId),
   getTaskOutput: (taskId) => rpc('getTaskOutput', taskId),
+  getBackgroundJobs: (sessionId) => rpc('getBackgroundJobs', sessionId),
   respondToPermission: (sessionId, requestId, allowed, alwaysAllow) => 
     rpc('respondToPermission', sessionId, requestId, allowed, alwaysAllow),
   respondToCredential: (sessionId, requestId, response) => 
@@ -104,6 +538,10 @@ export const webElectronAPI: ElectronAPI = {
   // Session commands
   sessionCommand: (sessionId, command) => rpc('sessionCommand', sessionId, command),
   getPendingPlanExecution: (sessionId) => rpc('getPendingPlanExecution', sessionId),
+  getPlan: (sessionId, planPath) => rpc('getPlan', sessionId, planPath),
+  acceptPlan: (sessionId, planPath, compact) => rpc('acceptPlan', sessionId, planPath, compact),
+  refinePlan: (sessionId, planPath, feedback) => rpc('refinePlan', sessionId, planPath, feedback),
+  resumeInterruptedTurn: (sessionId) => rpc('resumeInterruptedTurn', sessionId),
   
   // Workspace management
   getWorkspaces: () => rpc('getWorkspaces'),
@@ -111,11 +549,20 @@ export const webElectronAPI: ElectronAPI = {
   checkWorkspaceSlug: (slug) => rpc('checkWorkspaceSlug', slug),
   
   // Window management (stubs for web)
-  getWindowWorkspace: () => rpc('getWindowWorkspace'),
+  getWindowWorkspace: () => rpc('getWindowWorkspace').then((workspaceId) => {
+    if (workspaceId) subscribeWorkspace(workspaceId)
+    return workspaceId
+  }),
   getWindowMode: () => rpc('getWindowMode'),
-  openWorkspace: (workspaceId) => rpc('openWorkspace', workspaceId),
+  openWorkspace: (workspaceId) => {
+    subscribeWorkspace(workspaceId)
+    return rpc('openWorkspace', workspaceId)
+  },
   openSessionInNewWindow: (workspaceId, sessionId) => rpc('openSessionInNewWindow', workspaceId, sessionId),
-  switchWorkspace: (workspaceId) => rpc('switchWorkspace', workspaceId),
+  switchWorkspace: (workspaceId) => {
+    subscribeWorkspace(workspaceId)
+    return rpc('switchWorkspace', workspaceId)
+  },
   closeWindow: () => rpc('closeWindow'),
   confirmCloseWindow: () => rpc('confirmCloseWindow'),
   onCloseRequested: (callback) => addListener('closeRequested', callback),
@@ -135,7 +582,7 @@ export const webElectronAPI: ElectronAPI = {
   
   // File operations
   readFile: (path) => rpc('readFile', path),
-  openFileDialog: () => rpc('openFileDialog'),
+  openFileDialog: () => pickAndUploadFiles(),
   readFileAttachment: (path) => rpc('readFileAttachment', path),
   storeAttachment: (sessionId, attachment) => rpc('storeAttachment', sessionId, attachment),
   generateThumbnail: (base64, mimeType) => rpc('generateThumbnail', base64, mimeType),
@@ -173,7 +620,15 @@ export const webElectronAPI: ElectronAPI = {
     window.open(url, '_blank')
     return Promise.resolve()
   },
-  openFile: (path) => rpc('openFile', path),
+  openFile: (path) => {
+    // Attachments can be viewed through the download route; other server files can't be opened
+    const url = attachmentUrl(path)
+    if (url) {
+      window.open(url, '_blank')
+      return Promise.resolve()
+    }
+    return rpc('openFile', path)
+  },
   showInFolder: (path) => rpc('showInFolder', path),
   
   // Menu event listeners
@@ -192,12 +647,28 @@ export const webElectronAPI: ElectronAPI = {
   // Onboarding
   getAuthState: () => rpc('getAuthState'),
   getSetupNeeds: () => rpc('getSetupNeeds'),
-  startWorkspaceMcpOAuth: () => Promise.reject(new Error('OAuth not supported in webapp')),
+  startWorkspaceMcpOAuth: (mcpUrl) => runOAuthFlow(() => rpc('startWorkspaceMcpOAuth', mcpUrl)),
   saveOnboardingConfig: (config) => rpc('saveOnboardingConfig', config),
-  startClaudeOAuth: () => Promise.reject(new Error('OAuth not supported in webapp')),
-  exchangeClaudeCode: () => Promise.reject(new Error('OAuth not supported in webapp')),
-  hasClaudeOAuthState: () => Promise.resolve(false),
-  clearClaudeOAuthState: () => Promise.resolve({ success: true }),
+  startClaudeOAuth: async () => {
+    // The login page shows a code to paste back into exchangeClaudeCode
+    const popup = window.open('', '_blank')
+    try {
+      const result = await rpc('startClaudeOAuth')
+      if (popup) {
+        popup.opener = null
+        popup.location.href = result.authUrl!
+      } else {
+        window.open(result.authUrl, '_blank', 'noopener')
+      }
+      return result
+    } catch (err) {
+      popup?.close()
+      return { success: false, error: err instanceof Error ? err.message : String(err) }
+    }
+  },
+  exchangeClaudeCode: (code) => rpc('exchangeClaudeCode', code),
+  hasClaudeOAuthState: () => rpc('hasClaudeOAuthState'),
+  clearClaudeOAuthState: () => rpc('clearClaudeOAuthState'),
   
   // Settings - API Setup
   getApiSetup: () => rpc('getApiSetup'),
@@ -211,13 +682,18 @@ export const webElectronAPI: ElectronAPI = {
   setModel: (model) => rpc('setModel', model),
   getSessionModel: (sessionId, workspaceId) => rpc('getSessionModel', sessionId, workspaceId),
   setSessionModel: (sessionId, workspaceId, model) => rpc('setSessionModel', sessionId, workspaceId, model),
+  getSessionThinkingLevel: (sessionId) => rpc('getSessionThinkingLevel', sessionId),
+  setSessionThinkingLevel: (sessionId, level) => rpc('setSessionThinkingLevel', sessionId, level),
+  getSessionPermissionMode: (sessionId) => rpc('getSessionPermissionMode', sessionId),
+  setSessionPermissionMode: (sessionId, mode) => rpc('setSessionPermissionMode', sessionId, mode),
+  cycleSessionPermissionMode: (sessionId) => rpc('cycleSessionPermissionMode', sessionId),
   
   // Workspace Settings
   getWorkspaceSettings: (workspaceId) => rpc('getWorkspaceSettings', workspaceId),
   updateWorkspaceSetting: (workspaceId, key, value) => rpc('updateWorkspaceSetting', workspaceId, key, value),
   
   // Folder dialog
-  openFolderDialog: () => rpc('openFolderDialog'),
+  openFolderDialog: () => showFolderPicker((path, signal) => call('listDirectory', [path], { signal })),
   
   // User Preferences
   readPreferences: () => rpc('readPreferences'),
@@ -233,15 +709,16 @@ export const webElectronAPI: ElectronAPI = {
   getSessionFiles: (sessionId) => rpc('getSessionFiles', sessionId),
   getSessionNotes: (sessionId) => rpc('getSessionNotes', sessionId),
   setSessionNotes: (sessionId, content) => rpc('setSessionNotes', sessionId, content),
-  watchSessionFiles: () => Promise.resolve(),
-  unwatchSessionFiles: () => Promise.resolve(),
-  onSessionFilesChanged: () => () => {},
+  watchSessionFiles: (sessionId) => rpc('watchSessionFiles', sessionId),
+  unwatchSessionFiles: (sessionId) => rpc('unwatchSessionFiles', sessionId),
+  onSessionFilesChanged: (callback) => addListener('sessionFilesChanged', callback),
   
   // Sources
   getSources: (workspaceId) => rpc('getSources', workspaceId),
   createSource: (workspaceId, config) => rpc('createSource', workspaceId, config),
   deleteSource: (workspaceId, sourceSlug) => rpc('deleteSource', workspaceId, sourceSlug),
-  startSourceOAuth: () => Promise.reject(new Error('OAuth not supported in webapp')),
+  startSourceOAuth: (workspaceId, sourceSlug) =>
+    runOAuthFlow(() => rpc('startSourceOAuth', workspaceId, sourceSlug)),
   saveSourceCredentials: (workspaceId, sourceSlug, credential) => 
     rpc('saveSourceCredentials', workspaceId, sourceSlug, credential),
   getSourcePermissionsConfig: (workspaceId, sourceSlug) => 
@@ -249,12 +726,19 @@ export const webElectronAPI: ElectronAPI = {
   getWorkspacePermissionsConfig: (workspaceId) => rpc('getWorkspacePermissionsConfig', workspaceId),
   getDefaultPermissionsConfig: () => rpc('getDefaultPermissionsConfig'),
   getMcpTools: (workspaceId, sourceSlug) => rpc('getMcpTools', workspaceId, sourceSlug),
+  testSource: (workspaceId: string, sourceSlug: string) => rpc('testSource', workspaceId, sourceSlug),
   onSourcesChanged: (callback) => addListener('sourcesChanged', callback),
   onDefaultPermissionsChanged: (callback) => addListener('defaultPermissionsChanged', callback),
   
   // Skills
   getSkills: (workspaceId) => rpc('getSkills', workspaceId),
   getSkillFiles: (workspaceId, skillSlug) => rpc('getSkillFiles', workspaceId, skillSlug),
+  readSkillFile: (workspaceId: string, skillSlug: string, filePath: string) =>
+    rpc('readSkillFile', workspaceId, skillSlug, filePath),
+  writeSkillFile: (workspaceId: string, skillSlug: string, filePath: string, content: string) =>
+    rpc('writeSkillFile', workspaceId, skillSlug, filePath, content),
+  createSkill: (workspaceId: string, skillSlug: string, content?: string) =>
+    rpc('createSkill', workspaceId, skillSlug, content),
   deleteSkill: (workspaceId, skillSlug) => rpc('deleteSkill', workspaceId, skillSlug),
   openSkillInEditor: (workspaceId, skillSlug) => rpc('openSkillInEditor', workspaceId, skillSlug),
   openSkillInFinder: (workspaceId, skillSlug) => rpc('openSkillInFinder', workspaceId, skillSlug),
@@ -262,18 +746,27 @@ export const webElectronAPI: ElectronAPI = {
   
   // Statuses
   listStatuses: (workspaceId) => rpc('listStatuses', workspaceId),
+  createStatus: (workspaceId, input) => rpc('createStatus', workspaceId, input),
+  updateStatus: (workspaceId, statusId, updates) => rpc('updateStatus', workspaceId, statusId, updates),
+  deleteStatus: (workspaceId, statusId) => rpc('deleteStatus', workspaceId, statusId),
   reorderStatuses: (workspaceId, orderedIds) => rpc('reorderStatuses', workspaceId, orderedIds),
+  resetStatuses: (workspaceId) => rpc('resetStatuses', workspaceId),
   onStatusesChanged: (callback) => addListener('statusesChanged', callback),
   
   // Labels
   listLabels: (workspaceId) => rpc('listLabels', workspaceId),
   createLabel: (workspaceId, input) => rpc('createLabel', workspaceId, input),
+  updateLabel: (workspaceId, labelId, updates) => rpc('updateLabel', workspaceId, labelId, updates),
   deleteLabel: (workspaceId, labelId) => rpc('deleteLabel', workspaceId, labelId),
+  moveLabel: (workspaceId, labelId, parentId) => rpc('moveLabel', workspaceId, labelId, parentId),
+  reorderLabels: (workspaceId, parentId, orderedIds) => rpc('reorderLabels', workspaceId, parentId, orderedIds),
   onLabelsChanged: (callback) => addListener('labelsChanged', callback),
   
   // Views
   listViews: (workspaceId) => rpc('listViews', workspaceId),
   saveViews: (workspaceId, views) => rpc('saveViews', workspaceId, views),
+  validateViewExpression: (expression) => rpc('validateViewExpression', expression),
+  onViewsChanged: (callback) => addListener('viewsChanged', callback),
   
   // Workspace images
   readWorkspaceImage: (workspaceId, relativePath) => rpc('readWorkspaceImage', workspaceId, relativePath),
@@ -0,0 +1,135 @@
+/**
+ * Folder picker for the web adapter
+ * Stands in for the native folder dialog: a modal that browses the server's file system
+ * through the listDirectory RPC (limited to the server's allowed roots)
+ */
+
+import type { DirectoryListing } from '../api/directories'
+
+type ListDirectory = (path: string | undefined, signal: AbortSignal) => Promise<DirectoryListing>
+
+const styles = {
+  overlay: 'position:fixed;inset:0;z-index:10000;display:flex;align-items:center;justify-content:center;background:rgba(0,0,0,0.4);font:13px Inter,system-ui,sans-serif',
+  dialog: 'width:560px;max-width:calc(100vw - 32px);max-height:70vh;display:flex;flex-direction:column;border-radius:10px;overflow:hidden;background:var(--background,#fff);color:var(--foreground,#111);box-shadow:0 12px 40px rgba(0,0,0,0.3)',
+  header: 'display:flex;align-items:center;gap:8px;padding:12px 14px;border-bottom:1px solid rgba(128,128,128,0.2)',
+  path: 'flex:1;overflow:hidden;text-overflow:ellipsis;white-space:nowrap;font-family:"JetBrains Mono",monospace;font-size:12px',
+  list: 'flex:1;overflow-y:auto;padding:4px 0;min-height:200px',
+  row: 'display:flex;align-items:center;gap:8px;width:100%;padding:6px 14px;border:0;background:none;color:inherit;font:inherit;text-align:left;cursor:pointer',
+  badge: 'padding:1px 6px;border-radius:4px;font-size:11px;background:rgba(128,128,128,0.15);white-space:nowrap',
+  message: 'padding:12px 14px;opacity:0.6',
+  footer: 'display:flex;justify-content:flex-end;gap:8px;padding:10px 14px;border-top:1px solid rgba(128,128,128,0.2)',
+  button: 'padding:6px 12px;border-radius:6px;border:1px solid rgba(128,128,128,0.3);background:none;color:inherit;font:inherit;cursor:pointer',
+  primary: 'padding:6px 12px;border-radius:6px;border:0;background:var(--foreground,#111);color:var(--background,#fff);font:inherit;cursor:pointer',
+}
+
+function element<K extends keyof HTMLElementTagNameMap>(tag: K, style: string, text?: string): HTMLElementTagNameMap[K] {
+  const el = document.createElement(tag)
+  el.style.cssText = style
+  if (text !== undefined) el.textContent = text
+  return el
+}
+
+/**
+ * Show the folder picker. Resolves with the chosen folder, or null if cancelled.
+ */
+export function showFolderPicker(listDirectory: ListDirectory): Promise<string | null> {
+  return new Promise((resolve) => {
+    const overlay = element('div', styles.overlay)
+    const dialog = element('div', styles.dialog)
+    const header = element('div', styles.header)
+    const upButton = element('button', styles.button, '↑')
+    upButton.title = 'Parent folder'
+    const pathLabel = element('div', styles.path)
+    const list = element('div', styles.list)
+    const footer = element('div', styles.footer)
+    const cancelButton = element('button', styles.button, 'Cancel')
+    const selectButton = element('button', styles.primary, 'Select Folder')
+
+    header.append(upButton, pathLabel)
+    footer.append(cancelButton, selectButton)
+    dialog.append(header, list, footer)
+    overlay.append(dialog)
+
+    let current: DirectoryListing | null = null
+    // Listing in flight - cancelled when navigating elsewhere before it returns
+    let loading: AbortController | null = null
+
+    const close = (result: string | null) => {
+      loading?.abort()
+      document.removeEventListener('keydown', onKeyDown, true)
+      overlay.remove()
+      resolve(result)
+    }
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        event.stopPropagation()
+        close(null)
+      }
+    }
+
+    const render = (listing: DirectoryListing) => {
+      current = listing
+      pathLabel.textContent = listing.path ?? 'Choose a folder'
+      pathLabel.title = listing.path ?? ''
+      upButton.disabled = !listing.path
+      selectButton.disabled = !listing.path
+      selectButton.style.opacity = listing.path ? '1' : '0.4'
+
+      list.replaceChildren()
+      if (listing.gitBranch || listing.isWorkspace) {
+        const info = element('div', styles.message)
+        info.textContent = [
+          listing.isWorkspace ? 'Existing workspace' : null,
+          listing.gitBranch ? `Git branch: ${listing.gitBranch}` : null,
+        ].filter(Boolean).join(' · ')
+        list.append(info)
+      }
+      if (listing.entries.length === 0) {
+        list.append(element('div', styles.message, 'No subfolders'))
+      }
+      for (const entry of listing.entries) {
+        const row = element('button', styles.row)
+        row.append(element('span', 'flex:1;overflow:hidden;text-overflow:ellipsis;white-space:nowrap', `📁 ${entry.name}`))
+        if (entry.isWorkspace) row.append(element('span', styles.badge, 'Workspace'))
+        if (entry.gitBranch) row.append(element('span', styles.badge, entry.gitBranch))
+        row.addEventListener('mouseenter', () => { row.style.background = 'rgba(128,128,128,0.12)' })
+        row.addEventListener('mouseleave', () => { row.style.background = 'none' })
+        row.addEventListener('click', () => { void navigate(entry.path) })
+        list.append(row)
+      }
+      if (listing.truncated) {
+        list.append(element('div', styles.message, 'Only the first entries are shown'))
+      }
+    }
+
+    const navigate = async (path?: string) => {
+      loading?.abort()
+      const controller = new AbortController()
+      loading = controller
+      try {
+        const listing = await listDirectory(path, controller.signal)
+        if (!controller.signal.aborted) render(listing)
+      } catch (err) {
+        if (controller.signal.aborted) return
+        list.replaceChildren(element('div', styles.message, err instanceof Error ? err.message : 'Failed to list folder'))
+      } finally {
+        if (loading === controller) loading = null
+      }
+    }
+
+    upButton.addEventListener('click', () => {
+      // At a root, go back to the list of roots
+      void navigate(current?.parent ?? undefined)
+    })
+    cancelButton.addEventListener('click', () => close(null))
+    selectButton.addEventListener('click', () => close(current?.path ?? null))
+    overlay.addEventListener('click', (event) => {
+      if (event.target === overlay) close(null)
+    })
+    document.addEventListener('keydown', onKeyDown, true)
+
+    document.body.append(overlay)
+    void navigate()
+  })
+}
@@ -0,0 +1,114 @@
+/**
+ * WebSocket transport for the web adapter
+ * Carries RPC calls and session events over one /api/ws connection (protocol in api/ws.ts)
+ */
+
+import type { RpcErrorCode } from '../api/rpc-registry'
+
+export interface RpcResponse {
+  result?: unknown
+  error?: { code: RpcErrorCode; message: string; details?: unknown }
+}
+
+export interface SocketCallbacks {
+  onOpen(): void
+  /** A session event (the same JSON as an SSE `data:` line) and its replay ID */
+  onEvent(data: string, eventId?: string): void
+  /** The socket closed. `opened` is false if it never connected (e.g. blocked by a proxy). */
+  onClose(opened: boolean): void
+}
+
+export interface RealtimeSocket {
+  readonly isOpen: boolean
+  call(method: string, args: unknown[], signal?: AbortSignal): Promise<RpcResponse>
+  updateSubscriptions(
+    subscribe?: { sessionIds?: string[]; workspaceIds?: string[] },
+    unsubscribe?: { sessionIds?: string[]; workspaceIds?: string[] }
+  ): void
+  close(): void
+}
+
+/**
+ * Open a socket. Calls made before it is open are rejected - check isOpen first.
+ */
+export function connectSocket(url: string, callbacks: SocketCallbacks): RealtimeSocket {
+  const ws = new WebSocket(url)
+  const pending = new Map<string, { resolve: (response: RpcResponse) => void; reject: (error: Error) => void }>()
+  let nextId = 1
+  let opened = false
+
+  ws.addEventListener('open', () => {
+    opened = true
+    callbacks.onOpen()
+  })
+
+  ws.addEventListener('message', (message) => {
+    let data: { type: string; id?: string; event?: unknown } & RpcResponse
+    try {
+      data = JSON.parse(String(message.data))
+    } catch (err) {
+      console.error('Error parsing WebSocket message:', err)
+      return
+    }
+
+    switch (data.type) {
+      case 'event':
+        // Re-encode so both transports hand the adapter the same event JSON
+        callbacks.onEvent(JSON.stringify(data.event), data.id)
+        return
+      case 'result': {
+        const call = data.id ? pending.get(data.id) : undefined
+        if (!call) return
+        pending.delete(data.id!)
+        call.resolve({ result: data.result, error: data.error })
+        return
+      }
+    }
+  })
+
+  ws.addEventListener('close', () => {
+    for (const call of pending.values()) {
+      call.reject(new Error('Connection lost'))
+    }
+    pending.clear()
+    callbacks.onClose(opened)
+  })
+
+  const send = (message: unknown) => ws.send(JSON.stringify(message))
+
+  return {
+    get isOpen() {
+      return ws.readyState === WebSocket.OPEN
+    },
+
+    call(method, args, signal) {
+      if (ws.readyState !== WebSocket.OPEN) {
+        return Promise.reject(new Error('WebSocket is not connected'))
+      }
+      if (signal?.aborted) {
+        return Promise.resolve({ error: { code: 'cancelled', message: `${method} was cancelled` } })
+      }
+      const id = String(nextId++)
+      return new Promise((resolve, reject) => {
+        pending.set(id, { resolve, reject })
+        send({ type: 'rpc', id, method, args })
+        // The server answers a cancelled call with a `cancelled` error
+        signal?.addEventListener('abort', () => {
+          if (pending.has(id) && ws.readyState === WebSocket.OPEN) {
+            send({ type: 'cancel', id })
+          }
+        }, { once: true })
+      })
+    },
+
+    updateSubscriptions(subscribe, unsubscribe) {
+      if (ws.readyState === WebSocket.OPEN) {
+        send({ type: 'subscribe', subscribe, unsubscribe })
+      }
+    },
+
+    close() {
+      ws.close()
+    },
+  }
+}
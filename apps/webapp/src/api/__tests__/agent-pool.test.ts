@@ -0,0 +1,78 @@
+/**
+ * Tests for the concurrent turn limit (CRAFT_WEBAPP_MAX_CONCURRENT_AGENTS=1, see setup.ts)
+ *
+ * These tests verify:
+ * - Turns beyond the limit wait, and get the slot in the order they asked for it
+ * - A cancelled wait resolves false and gives up its place in line
+ * - Only a session holding the slot can release it
+ */
+import { describe, it, expect, afterEach } from 'bun:test'
+import { acquireTurnSlot, cancelTurnWait, getAgentPoolStatus, hasFreeTurnSlot, releaseTurnSlot } from '../agent-pool'
+
+/** Acquire a slot, recording when it was granted */
+function acquire(sessionId: string, granted: string[]): Promise<boolean> {
+  return acquireTurnSlot(sessionId).then(ok => {
+    if (ok) granted.push(sessionId)
+    return ok
+  })
+}
+
+const sessions = ['session-a', 'session-b', 'session-c']
+
+afterEach(() => {
+  for (const sessionId of sessions) {
+    cancelTurnWait(sessionId)
+    releaseTurnSlot(sessionId)
+  }
+})
+
+describe('turn slots', () => {
+  it('grants the slot in the order turns asked for it', async () => {
+    const granted: string[] = []
+    expect(await acquire('session-a', granted)).toBe(true)
+    expect(hasFreeTurnSlot()).toBe(false)
+
+    const b = acquire('session-b', granted)
+    const c = acquire('session-c', granted)
+    expect(getAgentPoolStatus()).toMatchObject({ runningTurns: 1, waitingTurns: 2 })
+
+    releaseTurnSlot('session-a')
+    expect(await b).toBe(true)
+    expect(granted).toEqual(['session-a', 'session-b'])
+
+    releaseTurnSlot('session-b')
+    expect(await c).toBe(true)
+    expect(granted).toEqual(['session-a', 'session-b', 'session-c'])
+
+    releaseTurnSlot('session-c')
+    expect(hasFreeTurnSlot()).toBe(true)
+  })
+
+  it('lets a cancelled turn leave the line', async () => {
+    const granted: string[] = []
+    await acquire('session-a', granted)
+    const b = acquire('session-b', granted)
+    const c = acquire('session-c', granted)
+
+    expect(cancelTurnWait('session-b')).toBe(true)
+    expect(await b).toBe(false)
+    expect(cancelTurnWait('session-b')).toBe(false)
+
+    releaseTurnSlot('session-a')
+    expect(await c).toBe(true)
+    expect(granted).toEqual(['session-a', 'session-c'])
+  })
+
+  it('ignores releases from sessions without the slot', async () => {
+    const granted: string[] = []
+    await acquire('session-a', granted)
+    const b = acquire('session-b', granted)
+
+    releaseTurnSlot('session-c')
+    releaseTurnSlot('session-b')
+    expect(getAgentPoolStatus()).toMatchObject({ runningTurns: 1, waitingTurns: 1 })
+
+    releaseTurnSlot('session-a')
+    expect(await b).toBe(true)
+  })
+})
@@ -0,0 +1,161 @@
+/**
+ * Tests for the attachment pipeline
+ *
+ * These tests verify:
+ * - Image dimensions are read from PNG, GIF, BMP, WebP and JPEG headers, and unknown or
+ *   truncated data gives none
+ * - Attachments are only stored inside the session's attachments folder, whatever their name
+ *   or the path the client claims they are stored at
+ * - Files over the 20 MB limit and attachments without content are rejected
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { dirname, join } from 'path'
+import { getSessionAttachmentsPath } from '@craft-agent/shared/sessions'
+import type { FileAttachment } from '../../../../electron/src/shared/types'
+import { getImageDimensions, resolveAttachmentPath, storeAttachment } from '../attachments'
+import { RpcError } from '../rpc-registry'
+
+const SESSION_ID = '261019-test-session'
+
+function header(size: number, write: (buffer: Buffer) => void): Buffer {
+  const buffer = Buffer.alloc(size)
+  write(buffer)
+  return buffer
+}
+
+describe('getImageDimensions', () => {
+  it('reads PNG', () => {
+    const png = header(32, b => {
+      b.writeUInt32BE(0x89504e47, 0)
+      b.writeUInt32BE(640, 16)
+      b.writeUInt32BE(480, 20)
+    })
+    expect(getImageDimensions(png)).toEqual({ width: 640, height: 480 })
+  })
+
+  it('reads GIF', () => {
+    const gif = header(32, b => {
+      b.write('GIF89a', 0, 'ascii')
+      b.writeUInt16LE(100, 6)
+      b.writeUInt16LE(50, 8)
+    })
+    expect(getImageDimensions(gif)).toEqual({ width: 100, height: 50 })
+  })
+
+  it('reads BMP, also stored top-down', () => {
+    const bmp = header(32, b => {
+      b.write('BM', 0, 'ascii')
+      b.writeInt32LE(300, 18)
+      b.writeInt32LE(-200, 22)
+    })
+    expect(getImageDimensions(bmp)).toEqual({ width: 300, height: 200 })
+  })
+
+  it('reads extended WebP', () => {
+    const webp = header(32, b => {
+      b.write('RIFF', 0, 'ascii')
+      b.write('WEBPVP8X', 8, 'ascii')
+      b.writeUIntLE(1919, 24, 3)
+      b.writeUIntLE(1079, 27, 3)
+    })
+    expect(getImageDimensions(webp)).toEqual({ width: 1920, height: 1080 })
+  })
+
+  it('reads JPEG after other segments', () => {
+    const jpeg = header(40, b => {
+      b.writeUInt16BE(0xffd8, 0)
+      // APP0 segment of 16 bytes
+      b.writeUInt16BE(0xffe0, 2)
+      b.writeUInt16BE(16, 4)
+      // SOF0: length, precision, height, width
+      b.writeUInt16BE(0xffc0, 20)
+      b.writeUInt16BE(17, 22)
+      b.writeUInt16BE(768, 25)
+      b.writeUInt16BE(1024, 27)
+    })
+    expect(getImageDimensions(jpeg)).toEqual({ width: 1024, height: 768 })
+  })
+
+  it('gives none for unknown or truncated data', () => {
+    expect(getImageDimensions(Buffer.alloc(64))).toBeNull()
+    expect(getImageDimensions(Buffer.from([0x89, 0x50, 0x4e, 0x47]))).toBeNull()
+    expect(getImageDimensions(header(32, b => b.writeUInt16BE(0xffd8, 0)))).toBeNull()
+  })
+})
+
+describe('storeAttachment', () => {
+  let workspaceRoot: string
+  let attachmentsDir: string
+
+  beforeEach(() => {
+    workspaceRoot = mkdtempSync(join(tmpdir(), 'attachments-test-'))
+    attachmentsDir = getSessionAttachmentsPath(workspaceRoot, SESSION_ID)
+  })
+
+  afterEach(() => {
+    rmSync(workspaceRoot, { recursive: true, force: true })
+  })
+
+  function textAttachment(overrides: Partial<FileAttachment> = {}): FileAttachment {
+    return { type: 'text', path: '', name: 'notes.txt', mimeType: 'text/plain', size: 5, text: 'hello', ...overrides } as FileAttachment
+  }
+
+  async function rejection(promise: Promise<unknown>): Promise<string | undefined> {
+    try {
+      await promise
+    } catch (error) {
+      return error instanceof RpcError ? error.code : 'not an RpcError'
+    }
+    return undefined
+  }
+
+  it('stores content in the session\'s attachments folder', async () => {
+    const stored = await storeAttachment(workspaceRoot, SESSION_ID, textAttachment())
+    expect(dirname(stored.storedPath)).toBe(attachmentsDir)
+    expect(readFileSync(stored.storedPath, 'utf-8')).toBe('hello')
+    expect(stored.size).toBe(5)
+  })
+
+  it('keeps names that climb out of the folder inside it', async () => {
+    const stored = await storeAttachment(workspaceRoot, SESSION_ID, textAttachment({ name: '../../../escape.txt' }))
+    expect(dirname(stored.storedPath)).toBe(attachmentsDir)
+    expect(existsSync(join(workspaceRoot, 'escape.txt'))).toBe(false)
+  })
+
+  it('does not read files outside the folder the client claims are stored', async () => {
+    const outside = join(workspaceRoot, 'secret.txt')
+    writeFileSync(outside, 'secret')
+    const stored = await storeAttachment(workspaceRoot, SESSION_ID, textAttachment({ storedPath: outside, path: outside }))
+    expect(stored.storedPath).not.toBe(outside)
+    expect(readFileSync(stored.storedPath, 'utf-8')).toBe('hello')
+
+    expect(await rejection(storeAttachment(workspaceRoot, SESSION_ID, textAttachment({ storedPath: outside, text: undefined })))).toBe('invalid_args')
+  })
+
+  it('reuses a file already stored in the folder', async () => {
+    const first = await storeAttachment(workspaceRoot, SESSION_ID, textAttachment())
+    const again = await storeAttachment(workspaceRoot, SESSION_ID, textAttachment({ storedPath: first.storedPath, text: undefined }))
+    expect(again.storedPath).toBe(first.storedPath)
+  })
+
+  it('rejects files over the size limit', async () => {
+    const large = textAttachment({ type: 'unknown', text: undefined, base64: Buffer.alloc(20 * 1024 * 1024 + 1).toString('base64') })
+    expect(await rejection(storeAttachment(workspaceRoot, SESSION_ID, large))).toBe('invalid_args')
+    expect(existsSync(attachmentsDir)).toBe(false)
+  })
+})
+
+describe('resolveAttachmentPath', () => {
+  it('only resolves plain file names in the folder', () => {
+    const workspaceRoot = mkdtempSync(join(tmpdir(), 'attachments-test-'))
+    try {
+      expect(resolveAttachmentPath(workspaceRoot, SESSION_ID, '../session.jsonl')).toBeNull()
+      expect(resolveAttachmentPath(workspaceRoot, SESSION_ID, '.hidden')).toBeNull()
+      expect(resolveAttachmentPath(workspaceRoot, SESSION_ID, 'missing.txt')).toBeNull()
+    } finally {
+      rmSync(workspaceRoot, { recursive: true, force: true })
+    }
+  })
+})
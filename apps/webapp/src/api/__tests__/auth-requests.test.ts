@@ -0,0 +1,155 @@
+/**
+ * Tests for in-chat authentication requests (with a stand-in agent)
+ *
+ * These tests verify:
+ * - A credential answer needs the fields of the request's mode, and is saved for the source
+ * - Cancelling completes the request, and only pending requests can be answered
+ * - OAuth requests can't be answered with a credential, and complete when the source's
+ *   OAuth flow finishes - only in the source's workspace
+ * - The agent resumes with the outcome
+ */
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'bun:test'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { addWorkspace, loadStoredConfig, saveConfig, type Workspace } from '@craft-agent/shared/config'
+import { loadSource } from '@craft-agent/shared/sources'
+import type { AgentEvent, AuthRequest, CraftAgent } from '@craft-agent/shared/agent'
+import { SessionManager } from '../session-manager'
+import { createSource } from '../sources'
+import { RpcError } from '../rpc-registry'
+
+let workspaceRoot: string
+let workspace: Workspace
+let sm: SessionManager
+let sessionId: string
+let requestCount = 0
+const events: { type: string; [key: string]: unknown }[] = []
+// Messages the agent resumed with
+const resumed: string[] = []
+
+// An auth request of any type, without the IDs requestAuth fills in
+type NewAuthRequest<R = AuthRequest> = R extends AuthRequest ? Omit<R, 'requestId' | 'sessionId'> : never
+
+/** Have the agent ask for authentication, as its source tools do */
+async function requestAuth(request: NewAuthRequest): Promise<string> {
+  const requestId = `auth-request-${++requestCount}`
+  const manager = sm as unknown as {
+    getOrCreateManagedSession: (id: string) => Promise<unknown>
+    onAgentAuthRequest: (managed: unknown, request: AuthRequest) => void
+  }
+  const managed = await manager.getOrCreateManagedSession(sessionId)
+  manager.onAgentAuthRequest(managed, { ...request, requestId, sessionId } as AuthRequest)
+  return requestId
+}
+
+async function authStatus(requestId: string): Promise<string | undefined> {
+  const session = await sm.getSession(sessionId)
+  return session?.messages.find((message: { authRequestId?: string }) => message.authRequestId === requestId)?.authStatus
+}
+
+async function rejection(promise: Promise<unknown>): Promise<RpcError | undefined> {
+  try {
+    await promise
+  } catch (error) {
+    if (error instanceof RpcError) return error
+    throw error
+  }
+  return undefined
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  while (!condition()) await Bun.sleep(1)
+}
+
+beforeAll(async () => {
+  workspaceRoot = mkdtempSync(join(tmpdir(), 'craft-auth-requests-'))
+  if (!loadStoredConfig()) {
+    saveConfig({ workspaces: [], activeWorkspaceId: null, activeSessionId: null })
+  }
+  workspace = addWorkspace({ name: 'Auth requests', rootPath: workspaceRoot })
+  sm = new SessionManager(event => { events.push(event as (typeof events)[number]) })
+  sessionId = (await sm.createSession(workspace.id)).id
+  // Emoji icons, so no logo is fetched for the URLs
+  await createSource(workspaceRoot, { name: 'Tickets', icon: '🎫', type: 'api', api: { baseUrl: 'https://tickets.example.com/', authType: 'basic' } })
+  await createSource(workspaceRoot, { name: 'Docs', icon: '📚', type: 'mcp', mcp: { transport: 'http', url: 'https://docs.example.com/mcp', authType: 'oauth' } })
+
+  const manager = sm as unknown as { getOrCreateAgent: () => Promise<Partial<CraftAgent>> }
+  manager.getOrCreateAgent = async () => ({
+    chat: async function* (message: string): AsyncGenerator<AgentEvent> {
+      resumed.push(message)
+      yield { type: 'complete' }
+    } as CraftAgent['chat'],
+    getModel: () => 'stub',
+    getTemporaryClarifications: () => null,
+    setTemporaryClarifications: () => {},
+    forceAbort: () => {},
+  })
+})
+
+beforeEach(() => {
+  events.length = 0
+  resumed.length = 0
+})
+
+afterAll(() => {
+  rmSync(workspaceRoot, { recursive: true, force: true })
+})
+
+describe('credential requests', () => {
+  it('need the fields of the request\'s mode', async () => {
+    const requestId = await requestAuth({ type: 'credential', mode: 'basic', sourceSlug: 'tickets', sourceName: 'Tickets' })
+
+    const noPassword = await rejection(sm.respondToCredential(sessionId, requestId, { type: 'credential', username: 'alice', cancelled: false }))
+    expect(noPassword?.details).toEqual([{ path: ['password'], message: 'Required' }])
+    const noUsername = await rejection(sm.respondToCredential(sessionId, requestId, { type: 'credential', value: 'token', cancelled: false }))
+    expect(noUsername?.details).toEqual([{ path: ['username'], message: 'Required' }])
+    expect(await authStatus(requestId)).toBe('pending')
+  })
+
+  it('save the credential and resume the agent', async () => {
+    const requestId = await requestAuth({ type: 'credential', mode: 'basic', sourceSlug: 'tickets', sourceName: 'Tickets' })
+    expect(await sm.respondToCredential(sessionId, requestId, { type: 'credential', username: 'alice', password: 'secret', cancelled: false })).toBe(true)
+
+    expect(await authStatus(requestId)).toBe('completed')
+    expect(loadSource(workspaceRoot, 'tickets')?.config.isAuthenticated).toBe(true)
+    expect(events).toContainEqual(expect.objectContaining({ type: 'auth_completed', sessionId, requestId, success: true }))
+    await waitFor(() => resumed.length === 1)
+    expect(resumed).toEqual(['Authentication completed for Tickets. Credentials have been saved.'])
+  })
+
+  it('can be cancelled once', async () => {
+    const requestId = await requestAuth({ type: 'credential', mode: 'bearer', sourceSlug: 'tickets', sourceName: 'Tickets' })
+    expect(await sm.respondToCredential(sessionId, requestId, { type: 'credential', cancelled: true })).toBe(true)
+    expect(await authStatus(requestId)).toBe('cancelled')
+    await waitFor(() => resumed.length === 1)
+
+    expect(await sm.respondToCredential(sessionId, requestId, { type: 'credential', value: 'token', cancelled: false })).toBe(false)
+    expect(await sm.respondToCredential(sessionId, 'unknown', { type: 'credential', value: 'token', cancelled: false })).toBe(false)
+  })
+})
+
+describe('OAuth requests', () => {
+  it('can\'t be answered with a credential', async () => {
+    const requestId = await requestAuth({ type: 'oauth', sourceSlug: 'docs', sourceName: 'Docs' })
+    expect((await rejection(sm.respondToCredential(sessionId, requestId, { type: 'credential', value: 'token', cancelled: false })))?.code).toBe('invalid_args')
+    expect(await authStatus(requestId)).toBe('pending')
+
+    // Cancelling works for any request
+    expect(await sm.respondToCredential(sessionId, requestId, { type: 'credential', cancelled: true })).toBe(true)
+    await waitFor(() => resumed.length === 1)
+  })
+
+  it('complete when the source\'s OAuth flow finishes in their workspace', async () => {
+    const requestId = await requestAuth({ type: 'oauth', sourceSlug: 'docs', sourceName: 'Docs' })
+
+    sm.completeSourceAuthRequests('another-workspace', 'docs', { success: true })
+    sm.completeSourceAuthRequests(workspace.id, 'tickets', { success: true })
+    expect(await authStatus(requestId)).toBe('pending')
+
+    sm.completeSourceAuthRequests(workspace.id, 'docs', { success: false, error: 'access_denied' })
+    expect(await authStatus(requestId)).toBe('failed')
+    await waitFor(() => resumed.length === 1)
+    expect(resumed).toEqual(['Authentication failed for Docs: access_denied'])
+  })
+})
@@ -0,0 +1,194 @@
+/**
+ * Tests for login and request authentication
+ *
+ * These tests verify:
+ * - Redirects after login stay on the site or go to allowlisted origins (no `//host`, `/\host`)
+ * - Cookie logins need the CSRF token (header, or ?csrf_token= for WebSockets) for mutating
+ *   RPC calls but not for read-only ones; bearer tokens don't
+ * - An address is locked out after 5 failed logins - behind a trusted proxy per browser
+ * - The cookie's Secure flag follows the scheme the proxy forwards
+ * - Cross-origin requests need an allowlisted origin
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test'
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { CONFIG_DIR } from '@craft-agent/shared/config'
+import {
+  authenticate,
+  initializeAuth,
+  isOriginAllowed,
+  loginHandler,
+  loginPageHandler,
+  verifyCsrf,
+  CSRF_HEADER,
+  SESSION_COOKIE,
+  type AuthContext,
+} from '../auth'
+import { isReadOnlyMethod } from '../rpc'
+
+const PORT = 3001
+const PASSWORD = 'correct horse battery staple'
+const PROXY = '10.0.0.2'
+
+let accessToken: string
+
+function login(password: string, peerAddress: string, headers: Record<string, string> = {}): Promise<Response> {
+  return loginHandler(new Request('http://localhost:3001/api/auth/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify({ password }),
+  }), peerAddress)
+}
+
+/** Where the login page sends the browser after signing in */
+async function redirectAfterLogin(next: string): Promise<string> {
+  const page = loginPageHandler(new Request(`http://localhost:3001/login?next=${encodeURIComponent(next)}`), PORT)
+  return JSON.parse((await page.text()).match(/const next = (.*)\n/)![1]!)
+}
+
+/** Log in and authenticate a follow-up request with the session cookie */
+async function cookieLogin(peerAddress: string): Promise<{ auth: AuthContext; csrfToken: string }> {
+  const response = await login(PASSWORD, peerAddress)
+  const { csrfToken } = await response.json() as { csrfToken: string }
+  const cookie = response.headers.get('Set-Cookie')!.split(';')[0]!
+  const auth = authenticate(new Request('http://localhost:3001/api/rpc', { headers: { Cookie: cookie } }))!
+  return { auth, csrfToken }
+}
+
+let previousEnv: Record<string, string | undefined>
+
+beforeAll(async () => {
+  previousEnv = {
+    CRAFT_WEBAPP_PASSWORD: process.env.CRAFT_WEBAPP_PASSWORD,
+    CRAFT_WEBAPP_TRUSTED_PROXIES: process.env.CRAFT_WEBAPP_TRUSTED_PROXIES,
+  }
+  process.env.CRAFT_WEBAPP_PASSWORD = PASSWORD
+  process.env.CRAFT_WEBAPP_TRUSTED_PROXIES = PROXY
+  await initializeAuth()
+  accessToken = JSON.parse(readFileSync(join(CONFIG_DIR, 'webapp', 'auth.json'), 'utf-8')).accessToken
+})
+
+afterAll(() => {
+  for (const [key, value] of Object.entries(previousEnv)) {
+    if (value === undefined) delete process.env[key]
+    else process.env[key] = value
+  }
+})
+
+describe('redirect after login', () => {
+  it('keeps paths on the site', async () => {
+    expect(await redirectAfterLogin('/sessions/abc?x=1#top')).toBe('/sessions/abc?x=1#top')
+  })
+
+  it('does not leave the site', async () => {
+    expect(await redirectAfterLogin('//evil.example.com/')).toBe('./')
+    expect(await redirectAfterLogin('/\\evil.example.com/')).toBe('./')
+    expect(await redirectAfterLogin('/\t/evil.example.com/')).toBe('./')
+    expect(await redirectAfterLogin('https://evil.example.com/')).toBe('./')
+    expect(await redirectAfterLogin('javascript:alert(1)')).toBe('./')
+  })
+
+  it('allows allowlisted origins', async () => {
+    expect(await redirectAfterLogin('http://localhost:5173/sessions')).toBe('http://localhost:5173/sessions')
+  })
+})
+
+describe('authentication', () => {
+  it('accepts the access token as a bearer token', () => {
+    const request = new Request('http://localhost:3001/api/rpc', { headers: { Authorization: `Bearer ${accessToken}` } })
+    expect(authenticate(request)?.method).toBe('bearer')
+    expect(authenticate(new Request('http://localhost:3001/api/rpc', { headers: { Authorization: 'Bearer wrong' } }))).toBeNull()
+  })
+
+  it('accepts the token on the URL only where allowed', () => {
+    const request = new Request(`http://localhost:3001/api/events?access_token=${accessToken}`)
+    expect(authenticate(request)).toBeNull()
+    expect(authenticate(request, { allowQueryToken: true })?.method).toBe('bearer')
+  })
+
+  it('accepts the session cookie of a login', async () => {
+    const { auth } = await cookieLogin('192.0.2.1')
+    expect(auth.method).toBe('cookie')
+    expect(authenticate(new Request('http://localhost:3001/api/rpc', { headers: { Cookie: `${SESSION_COOKIE}=unknown` } }))).toBeNull()
+  })
+})
+
+describe('CSRF', () => {
+  it('is required for mutating RPC calls with a cookie login', async () => {
+    const { auth, csrfToken } = await cookieLogin('192.0.2.2')
+    const rpc = (headers: Record<string, string> = {}) => new Request('http://localhost:3001/api/rpc', { method: 'POST', headers })
+
+    expect(isReadOnlyMethod('sendMessage')).toBe(false)
+    expect(verifyCsrf(rpc(), auth)).toBe(false)
+    expect(verifyCsrf(rpc({ [CSRF_HEADER]: 'wrong' }), auth)).toBe(false)
+    expect(verifyCsrf(rpc({ [CSRF_HEADER]: csrfToken }), auth)).toBe(true)
+  })
+
+  it('is not required for read-only RPC calls', () => {
+    expect(isReadOnlyMethod('getSessions')).toBe(true)
+    expect(isReadOnlyMethod('notAMethod')).toBe(false)
+  })
+
+  it('is accepted on the URL only for WebSocket upgrades', async () => {
+    const { auth, csrfToken } = await cookieLogin('192.0.2.3')
+    const upgrade = new Request(`http://localhost:3001/api/ws?csrf_token=${csrfToken}`)
+    expect(verifyCsrf(upgrade, auth)).toBe(false)
+    expect(verifyCsrf(upgrade, auth, { allowQueryToken: true })).toBe(true)
+  })
+
+  it('is not needed with a bearer token', () => {
+    expect(verifyCsrf(new Request('http://localhost:3001/api/rpc', { method: 'POST' }), { method: 'bearer' })).toBe(true)
+  })
+})
+
+describe('login lockout', () => {
+  it('locks an address out after 5 failed logins', async () => {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      expect((await login('wrong', '198.51.100.1')).status).toBe(401)
+    }
+    expect((await login(PASSWORD, '198.51.100.1')).status).toBe(429)
+    expect((await login(PASSWORD, '198.51.100.2')).status).toBe(200)
+  })
+
+  it('counts failures per browser behind a trusted proxy', async () => {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      expect((await login('wrong', PROXY, { 'X-Forwarded-For': '203.0.113.1' })).status).toBe(401)
+    }
+    expect((await login(PASSWORD, PROXY, { 'X-Forwarded-For': '203.0.113.1' })).status).toBe(429)
+    expect((await login(PASSWORD, PROXY, { 'X-Forwarded-For': '203.0.113.2' })).status).toBe(200)
+  })
+
+  it('ignores forwarded addresses from other peers', async () => {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await login('wrong', '198.51.100.3', { 'X-Forwarded-For': `203.0.113.${10 + attempt}` })
+    }
+    expect((await login(PASSWORD, '198.51.100.3', { 'X-Forwarded-For': '203.0.113.20' })).status).toBe(429)
+  })
+})
+
+describe('session cookie', () => {
+  it('is Secure when the trusted proxy forwards HTTPS', async () => {
+    const response = await login(PASSWORD, PROXY, { 'X-Forwarded-For': '203.0.113.30', 'X-Forwarded-Proto': 'https' })
+    expect(response.headers.get('Set-Cookie')).toContain('Secure')
+  })
+
+  it('is not Secure over plain HTTP', async () => {
+    expect((await login(PASSWORD, '198.51.100.4')).headers.get('Set-Cookie')).not.toContain('Secure')
+    expect((await login(PASSWORD, '198.51.100.5', { 'X-Forwarded-Proto': 'https' })).headers.get('Set-Cookie')).not.toContain('Secure')
+  })
+})
+
+describe('origin allowlist', () => {
+  const fromOrigin = (origin: string) => new Request('http://localhost:3001/api/rpc', { method: 'POST', headers: { Origin: origin } })
+
+  it('allows the server itself, the dev server and requests without an origin', () => {
+    expect(isOriginAllowed(fromOrigin('http://localhost:3001'), PORT)).toBe(true)
+    expect(isOriginAllowed(fromOrigin('http://localhost:5173'), PORT)).toBe(true)
+    expect(isOriginAllowed(new Request('http://localhost:3001/api/rpc'), PORT)).toBe(true)
+  })
+
+  it('rejects other origins', () => {
+    expect(isOriginAllowed(fromOrigin('https://evil.example.com'), PORT)).toBe(false)
+    expect(isOriginAllowed(fromOrigin('null'), PORT)).toBe(false)
+  })
+})
@@ -0,0 +1,156 @@
+/**
+ * Tests for background shells and their output
+ *
+ * These tests verify:
+ * - A shell claims only the process running exactly its command, one process per shell,
+ *   however long the command is
+ * - Killing a shell terminates its own process and leaves others alone
+ * - Output is read one chunk at a time, and only a capped tail is returned in full
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import type { Subprocess } from 'bun'
+import {
+  isShellRunning,
+  killShellProcesses,
+  listDescendantProcesses,
+  readJobOutput,
+  readJobOutputTail,
+  releaseShellProcess,
+  type TrackedBackgroundJob,
+} from '../background-jobs'
+
+function shellJob(id: string, command: string): TrackedBackgroundJob {
+  return { id, kind: 'shell', toolUseId: `tool-${id}`, command, status: 'running', startedAt: Date.now(), outputFile: '', outputOffset: 0 }
+}
+
+// Process listings are shared for half a second - wait for a fresh one
+const freshProcesses = async () => {
+  await Bun.sleep(600)
+  return listDescendantProcesses()
+}
+
+describe('shell processes', () => {
+  let children: Subprocess[] = []
+
+  afterEach(async () => {
+    for (const child of children) child.kill()
+    await Promise.all(children.map(child => child.exited))
+    children = []
+  })
+
+  it('claims the process running exactly the command', async () => {
+    const longer = Bun.spawn(['sleep', '300'])
+    const exact = Bun.spawn(['sleep', '30'])
+    children = [longer, exact]
+
+    const job = shellJob('a', 'sleep 30')
+    expect(isShellRunning(job, await freshProcesses())).toBe(true)
+    expect(job.pid).toBe(exact.pid)
+    releaseShellProcess(job)
+  })
+
+  it('gives two shells with the same command a process each', async () => {
+    children = [Bun.spawn(['sleep', '31']), Bun.spawn(['sleep', '31'])]
+
+    const first = shellJob('a', 'sleep 31')
+    const second = shellJob('b', 'sleep 31')
+    const processes = await freshProcesses()
+    expect(isShellRunning(first, processes)).toBe(true)
+    expect(isShellRunning(second, processes)).toBe(true)
+    expect(first.pid).not.toBe(second.pid)
+    releaseShellProcess(first)
+    releaseShellProcess(second)
+  })
+
+  it('kills only the shell\'s own process', async () => {
+    const other = Bun.spawn(['sleep', '32'])
+    const own = Bun.spawn(['sleep', '32'])
+    children = [other, own]
+
+    const otherJob = shellJob('a', 'sleep 32')
+    const ownJob = shellJob('b', 'sleep 32')
+    const processes = await freshProcesses()
+    isShellRunning(otherJob, processes)
+    isShellRunning(ownJob, processes)
+
+    await Bun.sleep(600)
+    expect(await killShellProcesses(ownJob)).toBe(true)
+    const killed = ownJob.pid === own.pid ? own : other
+    const kept = killed === own ? other : own
+    await killed.exited
+    expect(kept.killed).toBe(false)
+    expect(isShellRunning(ownJob, await freshProcesses())).toBe(false)
+    releaseShellProcess(otherJob)
+    releaseShellProcess(ownJob)
+  })
+
+  it('matches commands longer than a terminal line', async () => {
+    const command = `sleep 34 && echo ${'a-long-argument '.repeat(6).trim()}`
+    children = [Bun.spawn(['sh', '-c', command])]
+
+    // ps cuts lines off at COLUMNS unless told not to
+    const previousColumns = process.env.COLUMNS
+    process.env.COLUMNS = '80'
+    try {
+      const job = shellJob('a', command)
+      expect(command.length).toBeGreaterThan(80)
+      expect(isShellRunning(job, await freshProcesses())).toBe(true)
+      releaseShellProcess(job)
+    } finally {
+      if (previousColumns === undefined) delete process.env.COLUMNS
+      else process.env.COLUMNS = previousColumns
+    }
+  })
+
+  it('does not find a shell whose command is not running', async () => {
+    const job = shellJob('a', 'sleep 33')
+    expect(isShellRunning(job, await freshProcesses())).toBe(false)
+    expect(await killShellProcesses(job)).toBe(false)
+  })
+})
+
+describe('job output', () => {
+  let dir: string
+  let outputFile: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'background-jobs-test-'))
+    outputFile = join(dir, 'job.output')
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('returns nothing before the file exists', async () => {
+    expect(await readJobOutput(outputFile, 0)).toEqual({ output: '', offset: 0 })
+    expect(await readJobOutputTail(outputFile)).toBe('')
+  })
+
+  it('reads one chunk per call', async () => {
+    writeFileSync(outputFile, 'x'.repeat(300 * 1024))
+    const first = await readJobOutput(outputFile, 0)
+    expect(first.offset).toBe(256 * 1024)
+    const second = await readJobOutput(outputFile, first.offset)
+    expect(second.offset).toBe(300 * 1024)
+    expect(await readJobOutput(outputFile, second.offset)).toEqual({ output: '', offset: second.offset })
+  })
+
+  it('does not split a multi-byte character between chunks', async () => {
+    writeFileSync(outputFile, 'x'.repeat(256 * 1024 - 1) + 'é')
+    const first = await readJobOutput(outputFile, 0)
+    expect(first.offset).toBe(256 * 1024 - 1)
+    expect((await readJobOutput(outputFile, first.offset)).output).toBe('é')
+  })
+
+  it('returns only the latest output in full', async () => {
+    writeFileSync(outputFile, 'a'.repeat(1024 * 1024) + 'end')
+    const tail = await readJobOutputTail(outputFile)
+    expect(tail.startsWith('[Earlier output truncated]\n')).toBe(true)
+    expect(tail.endsWith('end')).toBe(true)
+    expect(tail.length).toBe('[Earlier output truncated]\n'.length + 1024 * 1024)
+  })
+})
@@ -0,0 +1,132 @@
+/**
+ * Tests for the server-side directory browser
+ *
+ * These tests verify:
+ * - Only absolute paths inside the browse roots are allowed, with symlinks resolved - also for
+ *   paths that don't exist yet
+ * - Listings only follow symlinks that stay inside the roots
+ * - In multi-user mode another user's config folder is off limits, but shared workspaces in
+ *   the config directory are not
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test'
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, symlinkSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { CONFIG_DIR } from '@craft-agent/shared/config'
+import { isPathAllowed, listDirectory } from '../directories'
+import { RpcError } from '../rpc-registry'
+import { addSharedWorkspace, getUserConfigDir, runAsUser, type WebappUser } from '../users'
+
+const noBranch = () => null
+
+let base: string
+let root: string
+let outside: string
+let previousEnv: Record<string, string | undefined>
+
+beforeAll(() => {
+  previousEnv = {
+    CRAFT_WEBAPP_BROWSE_ROOTS: process.env.CRAFT_WEBAPP_BROWSE_ROOTS,
+    CRAFT_WEBAPP_MULTI_USER: process.env.CRAFT_WEBAPP_MULTI_USER,
+  }
+  base = realpathSync(mkdtempSync(join(tmpdir(), 'directories-test-')))
+  root = join(base, 'root')
+  outside = join(base, 'outside')
+  mkdirSync(join(root, 'project'), { recursive: true })
+  mkdirSync(outside)
+  symlinkSync(outside, join(root, 'escape'))
+  symlinkSync(join(root, 'project'), join(root, 'alias'))
+  process.env.CRAFT_WEBAPP_BROWSE_ROOTS = root
+})
+
+afterAll(() => {
+  for (const [key, value] of Object.entries(previousEnv)) {
+    if (value === undefined) delete process.env[key]
+    else process.env[key] = value
+  }
+  rmSync(base, { recursive: true, force: true })
+})
+
+describe('isPathAllowed', () => {
+  it('allows paths inside the roots', () => {
+    expect(isPathAllowed(root)).toBe(true)
+    expect(isPathAllowed(join(root, 'project'))).toBe(true)
+    expect(isPathAllowed(join(root, 'alias'))).toBe(true)
+    expect(isPathAllowed(join(root, 'project', 'new', 'folder'))).toBe(true)
+  })
+
+  it('rejects paths outside the roots', () => {
+    expect(isPathAllowed(outside)).toBe(false)
+    expect(isPathAllowed(join(root, '..', 'outside'))).toBe(false)
+  })
+
+  it('rejects symlinks pointing outside the roots', () => {
+    expect(isPathAllowed(join(root, 'escape'))).toBe(false)
+  })
+
+  it('rejects new paths under a symlink pointing outside the roots', () => {
+    expect(isPathAllowed(join(root, 'escape', 'new', 'folder'))).toBe(false)
+  })
+
+  it('rejects relative paths', () => {
+    expect(isPathAllowed('project')).toBe(false)
+    expect(isPathAllowed('./root/project')).toBe(false)
+  })
+})
+
+describe('listDirectory', () => {
+  it('lists the roots without a path', () => {
+    const listing = listDirectory(undefined, noBranch)
+    expect(listing.path).toBeNull()
+    expect(listing.roots).toContain(root)
+  })
+
+  it('follows only symlinks that stay inside the roots', () => {
+    const listing = listDirectory(root, noBranch)
+    expect(listing.entries.map(entry => entry.name)).toEqual(['alias', 'project'])
+    expect(listing.parent).toBeNull()
+  })
+
+  it('refuses to list through a symlink pointing outside the roots', () => {
+    expect(() => listDirectory(join(root, 'escape'), noBranch)).toThrow(RpcError)
+  })
+})
+
+describe('multi-user mode', () => {
+  const dana: WebappUser = { id: 'dana', admin: false, configDir: getUserConfigDir('dana') }
+  const erin: WebappUser = { id: 'erin', admin: false, configDir: getUserConfigDir('erin') }
+  let sharedRoot: string
+
+  beforeAll(() => {
+    process.env.CRAFT_WEBAPP_MULTI_USER = '1'
+    // Browsing the whole config directory, which holds every user's config root
+    process.env.CRAFT_WEBAPP_BROWSE_ROOTS = CONFIG_DIR
+    for (const user of [dana, erin]) runAsUser(user, () => {})
+    sharedRoot = join(CONFIG_DIR, 'shared', 'directories-test')
+    addSharedWorkspace(sharedRoot, 'Shared', ['dana'])
+  })
+
+  afterAll(() => {
+    process.env.CRAFT_WEBAPP_BROWSE_ROOTS = root
+  })
+
+  it('allows the user\'s own config folder', () => {
+    runAsUser(dana, () => {
+      expect(isPathAllowed(dana.configDir)).toBe(true)
+      expect(isPathAllowed(join(dana.configDir, 'workspaces', 'new'))).toBe(true)
+    })
+  })
+
+  it('rejects another user\'s config folder', () => {
+    runAsUser(dana, () => {
+      expect(isPathAllowed(erin.configDir)).toBe(false)
+      expect(isPathAllowed(join(erin.configDir, 'config.json'))).toBe(false)
+      expect(() => listDirectory(erin.configDir, noBranch)).toThrow(RpcError)
+    })
+  })
+
+  it('allows shared workspaces in the config directory only to their members', () => {
+    expect(runAsUser(dana, () => isPathAllowed(sharedRoot))).toBe(true)
+    expect(runAsUser(erin, () => isPathAllowed(sharedRoot))).toBe(false)
+  })
+})
@@ -0,0 +1,118 @@
+/**
+ * Tests for label, status and view management
+ *
+ * These tests verify:
+ * - Invalid fields are rejected with the field they belong to
+ * - Missing items are not_found, broken rules (fixed statuses, moving a label into its
+ *   own child) invalid_args
+ * - Changes are broadcast to the workspace, and deleting a label or status updates the
+ *   sessions that used it
+ */
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'bun:test'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { addWorkspace, loadStoredConfig, saveConfig, type Workspace } from '@craft-agent/shared/config'
+import { SessionManager } from '../session-manager'
+import { rpcHandler } from '../rpc'
+import { RpcError } from '../rpc-registry'
+
+let workspaceRoot: string
+let workspace: Workspace
+let sm: SessionManager
+const events: { type: string; [key: string]: unknown }[] = []
+
+async function rejection(promise: Promise<unknown> | (() => unknown)): Promise<RpcError | undefined> {
+  try {
+    await (typeof promise === 'function' ? promise() : promise)
+  } catch (error) {
+    if (error instanceof RpcError) return error
+    throw error
+  }
+  return undefined
+}
+
+/** Fields named by an invalid_args error */
+function invalidFields(error: RpcError | undefined): string[] {
+  return (error?.details as { path: string[] }[] | undefined ?? []).map(issue => issue.path.join('.'))
+}
+
+beforeAll(() => {
+  workspaceRoot = mkdtempSync(join(tmpdir(), 'craft-labels-'))
+  if (!loadStoredConfig()) {
+    saveConfig({ workspaces: [], activeWorkspaceId: null, activeSessionId: null })
+  }
+  workspace = addWorkspace({ name: 'Labels', rootPath: workspaceRoot })
+  sm = new SessionManager(event => { events.push(event as (typeof events)[number]) })
+})
+
+beforeEach(() => {
+  events.length = 0
+})
+
+afterAll(() => {
+  rmSync(workspaceRoot, { recursive: true, force: true })
+})
+
+describe('validation', () => {
+  const call = (method: string, args: unknown[]) => rejection(rpcHandler(method, args, () => {}))
+
+  it('names the invalid field', async () => {
+    expect(invalidFields(await call('createLabel', [workspace.id, { name: 'Bug', color: 'not a color' }]))).toEqual(['1.color'])
+    expect(invalidFields(await call('createLabel', [workspace.id, { name: '  ' }]))).toEqual(['1.name'])
+    expect(invalidFields(await call('createStatus', [workspace.id, { label: 'Review', category: 'maybe' }]))).toEqual(['1.category'])
+  })
+
+  it('checks view expressions and IDs', async () => {
+    const view = { id: 'open', name: 'Open', expression: 'isFlagged == true' }
+    expect(await call('validateViewExpression', ['isFlagged == true'])).toBeUndefined()
+    expect(invalidFields(await call('saveViews', [workspace.id, [{ ...view, expression: '((' }]]))).toEqual(['1.0.expression'])
+    expect(invalidFields(await call('saveViews', [workspace.id, [view, view]]))).toEqual(['1.1.id'])
+  })
+})
+
+describe('labels', () => {
+  it('broadcasts changes to the workspace', () => {
+    sm.createLabel(workspace.id, { name: 'Area' })
+    expect(events).toEqual([{ type: 'label_config_changed', workspaceId: workspace.id }])
+  })
+
+  it('reports missing labels and broken moves', async () => {
+    const parent = sm.createLabel(workspace.id, { name: 'Parent' })
+    const child = sm.createLabel(workspace.id, { name: 'Child', parentId: parent.id })
+    expect((await rejection(() => sm.updateLabel(workspace.id, 'missing', { name: 'X' })))?.code).toBe('not_found')
+    expect((await rejection(() => sm.moveLabel(workspace.id, parent.id, child.id)))?.code).toBe('invalid_args')
+  })
+
+  it('removes a deleted label and its children from sessions', async () => {
+    const parent = sm.createLabel(workspace.id, { name: 'Project' })
+    const child = sm.createLabel(workspace.id, { name: 'Subproject', parentId: parent.id })
+    const keep = sm.createLabel(workspace.id, { name: 'Keep' })
+    const session = await sm.createSession(workspace.id)
+    await sm.handleSessionCommand(session.id, { type: 'setLabels', labels: [child.id, keep.id] })
+    events.length = 0
+
+    expect(await sm.deleteLabel(workspace.id, parent.id)).toEqual({ stripped: 1 })
+    expect((await sm.getSession(session.id))?.labels).toEqual([keep.id])
+    expect(events).toContainEqual({ type: 'labels_changed', sessionId: session.id, labels: [keep.id] })
+  })
+})
+
+describe('statuses', () => {
+  it('refuses to delete fixed statuses', async () => {
+    expect((await rejection(sm.deleteStatus(workspace.id, 'todo')))?.code).toBe('invalid_args')
+    expect((await rejection(sm.deleteStatus(workspace.id, 'missing')))?.code).toBe('not_found')
+  })
+
+  it('moves sessions in a deleted status to todo', async () => {
+    const status = sm.createStatus(workspace.id, { label: 'Waiting', category: 'open' })
+    const session = await sm.createSession(workspace.id)
+    await sm.handleSessionCommand(session.id, { type: 'setTodoState', state: status.id })
+    events.length = 0
+
+    expect(await sm.deleteStatus(workspace.id, status.id)).toEqual({ migrated: 1 })
+    expect((await sm.getSession(session.id))?.todoState).toBe('todo')
+    expect(events).toContainEqual({ type: 'todo_state_changed', sessionId: session.id, todoState: 'todo' })
+    expect(events).toContainEqual({ type: 'status_config_changed', workspaceId: workspace.id })
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * Tests for the Prometheus metrics
+ *
+ * These tests verify:
+ * - Every metric has HELP and TYPE lines before its samples, and samples are `name{labels} value`
+ * - Label values are escaped
+ * - Turn durations fill cumulative histogram buckets, with +Inf, sum and count
+ * - Tool calls, agent errors and token usage are counted by their labels
+ */
+import { describe, it, expect } from 'bun:test'
+import { metricsHandler, recordAgentError, recordTokenUsage, recordToolCall, recordTurn, renderMetrics } from '../metrics'
+
+/** Sample values by `name{labels}` - counters are global, so tests compare before and after */
+function samples(): Map<string, number> {
+  const values = new Map<string, number>()
+  for (const line of renderMetrics().split('\n')) {
+    if (!line || line.startsWith('#')) continue
+    const space = line.lastIndexOf(' ')
+    values.set(line.slice(0, space), Number(line.slice(space + 1)))
+  }
+  return values
+}
+
+function increase(before: Map<string, number>, after: Map<string, number>, key: string): number {
+  return (after.get(key) ?? NaN) - (before.get(key) ?? 0)
+}
+
+describe('format', () => {
+  it('announces each metric before its samples', () => {
+    recordTurn('completed', 1000)
+    const lines = renderMetrics().split('\n')
+    expect(lines.at(-1)).toBe('')
+
+    let current: string | undefined
+    for (const line of lines.slice(0, -1)) {
+      const help = line.match(/^# HELP (\w+) .+$/)
+      if (help) {
+        current = help[1]
+        continue
+      }
+      const type = line.match(/^# TYPE (\w+) (counter|gauge|histogram|summary)$/)
+      if (type) {
+        expect(type[1]).toBe(current!)
+        continue
+      }
+      const sample = line.match(/^(\w+)(\{(\w+="(?:[^"\\]|\\.)*",?)+\})? -?[\d.e+-]+$/)
+      expect(sample).not.toBeNull()
+      expect(sample![1]!.startsWith(current!)).toBe(true)
+    }
+    expect(lines).toContain('# TYPE craft_turn_duration_seconds histogram')
+  })
+
+  it('escapes label values', () => {
+    recordToolCall('say "hi"\\\n', false)
+    expect(renderMetrics()).toContain('craft_tool_calls_total{tool="say \\"hi\\"\\\\\\n"} 1')
+  })
+
+  it('is served as text/plain', async () => {
+    const response = metricsHandler({})
+    expect(response.headers.get('Content-Type')).toBe('text/plain; version=0.0.4; charset=utf-8')
+    expect(await response.text()).toContain('# TYPE craft_uptime_seconds gauge')
+  })
+})
+
+describe('counters', () => {
+  it('fill cumulative duration buckets', () => {
+    const before = samples()
+    recordTurn('stopped', 3000)
+    recordTurn('error', 45_000)
+    const after = samples()
+
+    expect(increase(before, after, 'craft_turns_total{outcome="stopped"}')).toBe(1)
+    expect(increase(before, after, 'craft_turns_total{outcome="error"}')).toBe(1)
+    expect(increase(before, after, 'craft_turn_duration_seconds_bucket{le="1"}')).toBe(0)
+    expect(increase(before, after, 'craft_turn_duration_seconds_bucket{le="5"}')).toBe(1)
+    expect(increase(before, after, 'craft_turn_duration_seconds_bucket{le="30"}')).toBe(1)
+    expect(increase(before, after, 'craft_turn_duration_seconds_bucket{le="60"}')).toBe(2)
+    expect(increase(before, after, 'craft_turn_duration_seconds_bucket{le="+Inf"}')).toBe(2)
+    expect(increase(before, after, 'craft_turn_duration_seconds_count')).toBe(2)
+    expect(increase(before, after, 'craft_turn_duration_seconds_sum')).toBeCloseTo(48)
+  })
+
+  it('count tool calls, agent errors and tokens by label', () => {
+    const before = samples()
+    recordToolCall('Bash', false)
+    recordToolCall('Bash', true)
+    recordAgentError('rate_limited')
+    recordTokenUsage({ inputTokens: 100, outputTokens: 20, totalTokens: 120, contextTokens: 100, costUsd: 0.5, cacheReadTokens: 70 })
+    const after = samples()
+
+    expect(increase(before, after, 'craft_tool_calls_total{tool="Bash"}')).toBe(2)
+    expect(increase(before, after, 'craft_tool_errors_total{tool="Bash"}')).toBe(1)
+    expect(increase(before, after, 'craft_agent_errors_total{code="rate_limited"}')).toBe(1)
+    expect(increase(before, after, 'craft_tokens_total{type="input"}')).toBe(100)
+    expect(increase(before, after, 'craft_tokens_total{type="output"}')).toBe(20)
+    expect(increase(before, after, 'craft_tokens_total{type="cache_read"}')).toBe(70)
+    expect(increase(before, after, 'craft_tokens_total{type="cache_creation"}')).toBe(0)
+    expect(increase(before, after, 'craft_cost_usd_total')).toBeCloseTo(0.5)
+  })
+})
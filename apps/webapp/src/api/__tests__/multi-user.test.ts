@@ -0,0 +1,94 @@
+/**
+ * Tests for multi-user access to shared workspace sessions
+ *
+ * These tests verify:
+ * - Members of a shared workspace share one live session
+ * - Users outside the workspace can't reach a session another member loaded
+ * - Members removed after the session was loaded lose access
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { SessionManager } from '../session-manager'
+import { RpcError } from '../rpc-registry'
+import { addSharedWorkspace, getUserConfigDir, runAsUser, setSharedWorkspaceUsers, type SharedWorkspace, type WebappUser } from '../users'
+
+function makeUser(id: string): WebappUser {
+  return { id, admin: false, configDir: getUserConfigDir(id) }
+}
+
+const alice = makeUser('alice')
+const bob = makeUser('bob')
+const carol = makeUser('carol')
+
+const managers = new Map<string, SessionManager>()
+
+/** Run a call as a user, against that user's SessionManager */
+function as<T>(user: WebappUser, fn: (sm: SessionManager) => T): T {
+  return runAsUser(user, () => {
+    let sm = managers.get(user.id)
+    if (!sm) {
+      sm = new SessionManager(() => {}, user.id)
+      managers.set(user.id, sm)
+    }
+    return fn(sm)
+  })
+}
+
+async function rejectionCode(promise: Promise<unknown>): Promise<string | undefined> {
+  try {
+    await promise
+  } catch (error) {
+    return error instanceof RpcError ? error.code : 'not an RpcError'
+  }
+  return undefined
+}
+
+let sharedRoot: string
+let workspace: SharedWorkspace
+let sessionId: string
+let previousMultiUser: string | undefined
+
+beforeAll(async () => {
+  previousMultiUser = process.env.CRAFT_WEBAPP_MULTI_USER
+  process.env.CRAFT_WEBAPP_MULTI_USER = '1'
+  sharedRoot = mkdtempSync(join(tmpdir(), 'craft-shared-'))
+  workspace = addSharedWorkspace(sharedRoot, 'Team', ['alice', 'bob'])
+  for (const user of [alice, bob, carol]) as(user, () => {})
+  sessionId = (await as(alice, sm => sm.createSession(workspace.id))).id
+  // Loads the session into memory (nothing to cancel, so it answers false)
+  expect(await as(alice, sm => sm.respondToCredential(sessionId, 'none', { type: 'credential', cancelled: true }))).toBe(false)
+})
+
+afterAll(() => {
+  if (previousMultiUser === undefined) delete process.env.CRAFT_WEBAPP_MULTI_USER
+  else process.env.CRAFT_WEBAPP_MULTI_USER = previousMultiUser
+  rmSync(sharedRoot, { recursive: true, force: true })
+})
+
+describe('shared workspace sessions', () => {
+  it('are visible to every member', async () => {
+    expect(as(bob, sm => sm.getWorkspaces()).map(w => w.id)).toContain(workspace.id)
+    expect((await as(bob, sm => sm.getSession(sessionId)))?.id).toBe(sessionId)
+    expect(await as(bob, sm => sm.respondToCredential(sessionId, 'none', { type: 'credential', cancelled: true }))).toBe(false)
+  })
+
+  it('are not reachable by users outside the workspace', async () => {
+    expect(as(carol, sm => sm.getWorkspaces()).map(w => w.id)).not.toContain(workspace.id)
+    expect(await as(carol, sm => sm.getSession(sessionId))).toBeNull()
+    expect(await rejectionCode(as(carol, sm => sm.respondToCredential(sessionId, 'none', { type: 'credential', cancelled: true })))).toBe('not_found')
+    expect(await rejectionCode(as(carol, sm => sm.sendMessage(sessionId, 'hello')))).toBe('not_found')
+    expect(await as(carol, sm => sm.killShell(sessionId, 'shell-1'))).toMatchObject({ success: false })
+    expect(await as(carol, sm => sm.respondToPermission(sessionId, 'request-1', true, false))).toBe(false)
+    expect(() => as(carol, sm => sm.getQueuedMessages(sessionId))).toThrow()
+    expect(as(carol, sm => sm.getWorkspaceIdForSession(sessionId))).toBeUndefined()
+  })
+
+  it('are no longer reachable once a member is removed', async () => {
+    setSharedWorkspaceUsers(workspace.id, ['alice'])
+    expect(await as(bob, sm => sm.getSession(sessionId))).toBeNull()
+    expect(await rejectionCode(as(bob, sm => sm.respondToCredential(sessionId, 'none', { type: 'credential', cancelled: true })))).toBe('not_found')
+    expect(await as(alice, sm => sm.respondToCredential(sessionId, 'none', { type: 'credential', cancelled: true }))).toBe(false)
+  })
+})
@@ -0,0 +1,113 @@
+/**
+ * Tests for OAuth callbacks
+ *
+ * These tests verify:
+ * - A callback completes its flow as the user who started it and broadcasts the result
+ * - Callbacks for another provider, expired flows and replayed states don't complete a flow
+ * - Declined and failed authorizations finish the flow with the error
+ * - A finished flow's result can only be fetched by the user who started it
+ */
+import { describe, it, expect, spyOn } from 'bun:test'
+import type { SessionEvent } from '../../../../electron/src/shared/types'
+import { getOAuthFlowResult, oauthCallbackHandler, registerFlow, type OAuthFlowResult } from '../oauth'
+import { getCurrentUser, getUserConfigDir, runAsUser, type WebappUser } from '../users'
+
+const alice: WebappUser = { id: 'oauth-alice', admin: false, configDir: getUserConfigDir('oauth-alice') }
+const bob: WebappUser = { id: 'oauth-bob', admin: false, configDir: getUserConfigDir('oauth-bob') }
+
+let flowCount = 0
+
+interface TestFlow {
+  flowId: string
+  /** Codes `complete` was called with, and as whom */
+  completions: Array<{ code: string; userId?: string }>
+  finished: OAuthFlowResult[]
+}
+
+/** Start a flow as alice whose `complete` records its calls (and fails if `fail` is set) */
+function startFlow(options: { fail?: string } = {}): TestFlow {
+  const flow: TestFlow = { flowId: `oauth-test-state-${++flowCount}`, completions: [], finished: [] }
+  runAsUser(alice, () => registerFlow(flow.flowId, 'https://provider.example.com/authorize', 'google', { sourceSlug: 'gmail' }, async (code) => {
+    flow.completions.push({ code, userId: getCurrentUser()?.id })
+    if (options.fail) throw new Error(options.fail)
+    return { email: 'alice@example.com' }
+  }, result => flow.finished.push(result)))
+  return flow
+}
+
+function callback(provider: string, params: Record<string, string>) {
+  const events: SessionEvent[] = []
+  const url = new URL(`http://localhost:3001/oauth/callback/${provider}?${new URLSearchParams(params)}`)
+  const response = oauthCallbackHandler(url, provider, event => events.push(event))
+  return { response, events }
+}
+
+describe('oauthCallbackHandler', () => {
+  it('completes the flow as the user who started it', async () => {
+    const flow = startFlow()
+    const { response, events } = callback('google', { state: flow.flowId, code: 'the-code' })
+
+    expect((await response).status).toBe(200)
+    expect(flow.completions).toEqual([{ code: 'the-code', userId: alice.id }])
+    expect(flow.finished).toEqual([{ success: true, email: 'alice@example.com' }])
+    expect(events).toEqual([{ type: 'oauth_complete', flowId: flow.flowId, provider: 'google', sourceSlug: 'gmail', success: true, email: 'alice@example.com' } as unknown as SessionEvent])
+  })
+
+  it('ignores callbacks for another provider', async () => {
+    const flow = startFlow()
+    const { response, events } = callback('slack', { state: flow.flowId, code: 'the-code' })
+
+    expect((await response).status).toBe(400)
+    expect(events).toEqual([])
+    expect(flow.completions).toEqual([])
+    // The flow is still waiting for its own provider
+    expect((await callback('google', { state: flow.flowId, code: 'the-code' }).response).status).toBe(200)
+  })
+
+  it('does not complete an expired flow', async () => {
+    const flow = startFlow()
+    const now = Date.now()
+    const clock = spyOn(Date, 'now').mockReturnValue(now + 11 * 60 * 1000)
+    const { response, events } = callback('google', { state: flow.flowId, code: 'the-code' })
+    const status = (await response).status
+    clock.mockRestore()
+
+    expect(status).toBe(400)
+    expect(flow.completions).toEqual([])
+    expect(flow.finished).toEqual([{ success: false, error: 'Authorization request expired. Please start again.' }])
+    expect(events).toHaveLength(1)
+  })
+
+  it('completes a flow only once', async () => {
+    const flow = startFlow()
+    await callback('google', { state: flow.flowId, code: 'the-code' }).response
+    const replay = callback('google', { state: flow.flowId, code: 'the-code' })
+
+    expect((await replay.response).status).toBe(400)
+    expect(replay.events).toEqual([])
+    expect(flow.completions).toHaveLength(1)
+  })
+
+  it('finishes declined and failed authorizations with the error', async () => {
+    const declined = startFlow()
+    await callback('google', { state: declined.flowId, error: 'access_denied', error_description: 'The user declined' }).response
+    expect(declined.completions).toEqual([])
+    expect(declined.finished).toEqual([{ success: false, error: 'The user declined' }])
+
+    const failed = startFlow({ fail: 'invalid_grant' })
+    expect((await callback('google', { state: failed.flowId, code: 'the-code' }).response).status).toBe(400)
+    expect(failed.finished).toEqual([{ success: false, error: 'invalid_grant' }])
+  })
+})
+
+describe('getOAuthFlowResult', () => {
+  it('returns the result only to the user who started the flow', async () => {
+    const flow = startFlow()
+    expect(runAsUser(alice, () => getOAuthFlowResult(flow.flowId))).toBeNull()
+
+    await callback('google', { state: flow.flowId, code: 'the-code' }).response
+    expect(runAsUser(alice, () => getOAuthFlowResult(flow.flowId))).toEqual({ success: true, email: 'alice@example.com' })
+    expect(runAsUser(bob, () => getOAuthFlowResult(flow.flowId))).toBeNull()
+    expect(getOAuthFlowResult(flow.flowId)).toBeNull()
+  })
+})
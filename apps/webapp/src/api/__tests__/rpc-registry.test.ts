@@ -0,0 +1,106 @@
+/**
+ * Tests for the RPC registry
+ *
+ * These tests verify:
+ * - Error codes map to HTTP statuses, unknown errors become `internal`
+ * - Arguments are validated against the method's tuple before the handler runs
+ * - Optional arguments accept null (JSON's encoding of undefined)
+ * - Stubs fail with not_implemented
+ */
+import { describe, it, expect } from 'bun:test'
+import { z } from 'zod'
+import { RpcError, toRpcError, optionalArg, stubMethod, noopMethod } from '../rpc-registry'
+import { rpcHandler, isReadOnlyMethod, listRpcMethods } from '../rpc'
+
+const broadcast = () => {}
+
+async function rpcErrorOf(promise: Promise<unknown>): Promise<RpcError> {
+  try {
+    await promise
+  } catch (error) {
+    expect(error).toBeInstanceOf(RpcError)
+    return error as RpcError
+  }
+  throw new Error('Expected the call to fail')
+}
+
+describe('RpcError', () => {
+  it('maps codes to HTTP statuses', () => {
+    expect(new RpcError('not_found', 'x').status).toBe(404)
+    expect(new RpcError('invalid_args', 'x').status).toBe(400)
+    expect(new RpcError('unauthorized', 'x').status).toBe(403)
+    expect(new RpcError('conflict', 'x').status).toBe(409)
+    expect(new RpcError('not_implemented', 'x').status).toBe(501)
+    expect(new RpcError('cancelled', 'x').status).toBe(499)
+    expect(new RpcError('internal', 'x').status).toBe(500)
+  })
+
+  it('serializes details only when present', () => {
+    expect(new RpcError('conflict', 'busy').toJSON()).toEqual({ code: 'conflict', message: 'busy' })
+    expect(new RpcError('invalid_args', 'bad', [1]).toJSON()).toEqual({ code: 'invalid_args', message: 'bad', details: [1] })
+  })
+
+  it('wraps other errors as internal', () => {
+    const original = new RpcError('not_found', 'missing')
+    expect(toRpcError(original)).toBe(original)
+    expect(toRpcError(new Error('boom')).toJSON()).toEqual({ code: 'internal', message: 'boom' })
+    expect(toRpcError('boom').code).toBe('internal')
+  })
+})
+
+describe('method primitives', () => {
+  it('optionalArg turns null into undefined', () => {
+    const schema = z.tuple([z.string(), optionalArg(z.number())])
+    expect(schema.parse(['a', null])).toEqual(['a', undefined])
+    expect(schema.parse(['a', 2])).toEqual(['a', 2])
+    expect(schema.safeParse(['a', 'b']).success).toBe(false)
+  })
+
+  it('stubMethod throws not_implemented with its reason', () => {
+    const method = stubMethod('Not in the browser')
+    expect(method.stub).toBe('Not in the browser')
+    expect(() => method.handler([], { sm: undefined as never, broadcast })).toThrow('Not in the browser')
+  })
+
+  it('noopMethod returns its value', () => {
+    expect(noopMethod(true, z.boolean()).handler([], { sm: undefined as never, broadcast })).toBe(true)
+  })
+})
+
+describe('rpcHandler', () => {
+  it('rejects unknown methods with not_found', async () => {
+    const error = await rpcErrorOf(rpcHandler('noSuchMethod', [], broadcast))
+    expect(error.code).toBe('not_found')
+    expect(error.status).toBe(404)
+  })
+
+  it('does not resolve methods through the prototype', async () => {
+    expect((await rpcErrorOf(rpcHandler('toString', [], broadcast))).code).toBe('not_found')
+    expect(isReadOnlyMethod('constructor')).toBe(false)
+  })
+
+  it('rejects invalid arguments before running the handler', async () => {
+    const error = await rpcErrorOf(rpcHandler('getSessionMessages', [42], broadcast))
+    expect(error.code).toBe('invalid_args')
+    expect(error.status).toBe(400)
+    expect(error.details).toEqual([expect.objectContaining({ path: ['0'] })])
+  })
+
+  it('rejects a missing required argument', async () => {
+    expect((await rpcErrorOf(rpcHandler('getSessionMessages', [], broadcast))).code).toBe('invalid_args')
+  })
+})
+
+describe('method table', () => {
+  it('marks read-only methods', () => {
+    expect(isReadOnlyMethod('getSessionMessages')).toBe(true)
+    expect(isReadOnlyMethod('sendMessage')).toBe(false)
+  })
+
+  it('lists every method with its argument schema', () => {
+    const methods = listRpcMethods()
+    const sendMessage = methods.find(method => method.name === 'sendMessage')
+    expect(sendMessage).toMatchObject({ readOnly: false, stub: null })
+    expect(sendMessage?.args).toHaveProperty('type', 'array')
+  })
+})
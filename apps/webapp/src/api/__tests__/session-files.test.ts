@@ -0,0 +1,82 @@
+/**
+ * Tests for serving session files
+ *
+ * These tests verify that only listed files inside the session folder resolve:
+ * - Paths that climb out of the folder don't
+ * - Hidden, temporary and internal files (session.jsonl, notes) don't
+ * - Malformed URL escapes get a 404 instead of an error
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { resolveSessionFilePath, sessionFileHandler } from '../session-files'
+import type { SessionManager } from '../session-manager'
+
+const SESSION_ID = '261019-test-session'
+
+let workspaceRoot: string
+let sessionDir: string
+
+beforeEach(() => {
+  workspaceRoot = mkdtempSync(join(tmpdir(), 'session-files-test-'))
+  sessionDir = join(workspaceRoot, 'sessions', SESSION_ID)
+  mkdirSync(join(sessionDir, 'plans'), { recursive: true })
+  writeFileSync(join(sessionDir, 'plans', 'plan.md'), '# Plan')
+  writeFileSync(join(sessionDir, 'session.jsonl'), '{}')
+  writeFileSync(join(sessionDir, 'notes.md'), 'notes')
+  writeFileSync(join(sessionDir, '.hidden'), 'x')
+  writeFileSync(join(sessionDir, 'draft.md.tmp'), 'x')
+  writeFileSync(join(workspaceRoot, 'sessions', 'other.md'), 'x')
+})
+
+afterEach(() => {
+  rmSync(workspaceRoot, { recursive: true, force: true })
+})
+
+describe('resolveSessionFilePath', () => {
+  it('resolves listed files', () => {
+    expect(resolveSessionFilePath(workspaceRoot, SESSION_ID, 'plans/plan.md')).toBe(join(sessionDir, 'plans', 'plan.md'))
+  })
+
+  it('rejects paths outside the session folder', () => {
+    expect(resolveSessionFilePath(workspaceRoot, SESSION_ID, '../other.md')).toBeNull()
+    expect(resolveSessionFilePath(workspaceRoot, SESSION_ID, 'plans/../../other.md')).toBeNull()
+    expect(resolveSessionFilePath(workspaceRoot, SESSION_ID, join(workspaceRoot, 'sessions', 'other.md'))).toBeNull()
+  })
+
+  it('rejects files that are not listed', () => {
+    expect(resolveSessionFilePath(workspaceRoot, SESSION_ID, 'session.jsonl')).toBeNull()
+    expect(resolveSessionFilePath(workspaceRoot, SESSION_ID, 'notes.md')).toBeNull()
+    expect(resolveSessionFilePath(workspaceRoot, SESSION_ID, '.hidden')).toBeNull()
+    expect(resolveSessionFilePath(workspaceRoot, SESSION_ID, 'draft.md.tmp')).toBeNull()
+  })
+
+  it('rejects folders and missing files', () => {
+    expect(resolveSessionFilePath(workspaceRoot, SESSION_ID, 'plans')).toBeNull()
+    expect(resolveSessionFilePath(workspaceRoot, SESSION_ID, 'plans/missing.md')).toBeNull()
+  })
+})
+
+describe('sessionFileHandler', () => {
+  const sm = {
+    getSessionFilePath: (sessionId: string, path: string) =>
+      sessionId === SESSION_ID ? resolveSessionFilePath(workspaceRoot, sessionId, path) : null,
+  } as unknown as SessionManager
+
+  it('serves a listed file', async () => {
+    const response = sessionFileHandler(new URL(`http://localhost/api/session-files/${SESSION_ID}/plans/plan.md`), sm, {})
+    expect(response.status).toBe(200)
+    expect(await response.text()).toBe('# Plan')
+  })
+
+  it('answers 404 for malformed escapes', () => {
+    const response = sessionFileHandler(new URL(`http://localhost/api/session-files/${SESSION_ID}/%E0`), sm, {})
+    expect(response.status).toBe(404)
+  })
+
+  it('answers 404 for encoded traversal', () => {
+    const response = sessionFileHandler(new URL(`http://localhost/api/session-files/${SESSION_ID}/..%2F..%2Fother.md`), sm, {})
+    expect(response.status).toBe(404)
+  })
+})
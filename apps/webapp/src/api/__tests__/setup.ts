@@ -0,0 +1,17 @@
+/**
+ * Test preload (see bunfig.toml): config, credentials and workspaces go to a temporary
+ * config root instead of ~/.craft-agent, and turns run one at a time
+ */
+import { afterAll } from 'bun:test'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+const configDir = mkdtempSync(join(tmpdir(), 'craft-webapp-test-'))
+process.env.CRAFT_CONFIG_DIR = configDir
+// One turn at a time, so the agent pool tests can fill the limit (read when agent-pool loads)
+process.env.CRAFT_WEBAPP_MAX_CONCURRENT_AGENTS = '1'
+
+afterAll(() => {
+  rmSync(configDir, { recursive: true, force: true })
+})
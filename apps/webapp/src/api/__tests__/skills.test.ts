@@ -0,0 +1,79 @@
+/**
+ * Tests for skill file editing
+ *
+ * These tests verify that reads and writes stay inside the skill folder:
+ * - Relative paths that climb out of it are rejected
+ * - Symlinks leading out of it are rejected, also when writing a new file below one
+ * - Dangling symlinks are rejected
+ * - New files in new subfolders are created normally
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, symlinkSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { readSkillFile, writeSkillFile } from '../skills'
+import { RpcError } from '../rpc-registry'
+
+let root: string
+let workspaceRoot: string
+let skillDir: string
+let outside: string
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), 'skills-test-'))
+  workspaceRoot = join(root, 'workspace')
+  skillDir = join(workspaceRoot, 'skills', 'my-skill')
+  outside = join(root, 'outside')
+  mkdirSync(skillDir, { recursive: true })
+  mkdirSync(outside)
+  writeFileSync(join(skillDir, 'SKILL.md'), '---\nname: My Skill\ndescription: Test\n---\n')
+  writeFileSync(join(outside, 'secret.md'), 'secret')
+  symlinkSync(outside, join(skillDir, 'link'))
+  symlinkSync(join(outside, 'missing.md'), join(skillDir, 'dangling.md'))
+})
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true })
+})
+
+async function rejection(promise: Promise<unknown>): Promise<string | undefined> {
+  try {
+    await promise
+  } catch (error) {
+    return error instanceof RpcError ? error.code : 'not an RpcError'
+  }
+  return undefined
+}
+
+describe('skill file paths', () => {
+  it('reads files in the skill folder', async () => {
+    expect(await readSkillFile(workspaceRoot, 'my-skill', 'SKILL.md')).toContain('name: My Skill')
+  })
+
+  it('rejects paths that climb out of the folder', async () => {
+    expect(await rejection(readSkillFile(workspaceRoot, 'my-skill', '../../../outside/secret.md'))).toBe('invalid_args')
+    expect(await rejection(writeSkillFile(workspaceRoot, 'my-skill', '../escape.md', 'x'))).toBe('invalid_args')
+    expect(existsSync(join(workspaceRoot, 'skills', 'escape.md'))).toBe(false)
+  })
+
+  it('rejects reading through a symlink that leads out', async () => {
+    expect(await rejection(readSkillFile(workspaceRoot, 'my-skill', 'link/secret.md'))).toBe('invalid_args')
+  })
+
+  it('rejects writing a new file below a symlink that leads out', async () => {
+    expect(await rejection(writeSkillFile(workspaceRoot, 'my-skill', 'link/new.md', 'x'))).toBe('invalid_args')
+    expect(await rejection(writeSkillFile(workspaceRoot, 'my-skill', 'link/nested/new.md', 'x'))).toBe('invalid_args')
+    expect(existsSync(join(outside, 'new.md'))).toBe(false)
+    expect(existsSync(join(outside, 'nested'))).toBe(false)
+  })
+
+  it('rejects writing through a dangling symlink', async () => {
+    expect(await rejection(writeSkillFile(workspaceRoot, 'my-skill', 'dangling.md', 'x'))).toBe('invalid_args')
+    expect(existsSync(join(outside, 'missing.md'))).toBe(false)
+  })
+
+  it('creates new files in new subfolders', async () => {
+    expect(await writeSkillFile(workspaceRoot, 'my-skill', 'scripts/run.sh', 'echo hi')).toEqual({ saved: true, errors: [], warnings: [] })
+    expect(readFileSync(join(skillDir, 'scripts', 'run.sh'), 'utf-8')).toBe('echo hi')
+  })
+})
@@ -0,0 +1,89 @@
+/**
+ * Tests for source management
+ *
+ * These tests verify:
+ * - Source configs are validated before anything is written, with per-field details
+ * - Username/password credentials are only accepted for basic auth sources
+ * - MCP tools are only listed for MCP sources that connected
+ * - Permissions files are read as JSON, and broken ones are reported
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test'
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { createWorkspaceAtPath } from '@craft-agent/shared/workspaces'
+import { getSourcePath, loadSource, type FolderSourceConfig, type LoadedSource } from '@craft-agent/shared/sources'
+import { createSource, getMcpTools, getSourcePermissionsConfig, saveSourceCredentials } from '../sources'
+import { RpcError } from '../rpc-registry'
+
+let workspaceRoot: string
+
+beforeAll(() => {
+  workspaceRoot = join(mkdtempSync(join(tmpdir(), 'sources-test-')), 'workspace')
+  createWorkspaceAtPath(workspaceRoot, 'Sources')
+})
+
+afterAll(() => {
+  rmSync(join(workspaceRoot, '..'), { recursive: true, force: true })
+})
+
+async function rejection(promise: Promise<unknown>): Promise<RpcError | undefined> {
+  try {
+    await promise
+  } catch (error) {
+    if (error instanceof RpcError) return error
+    throw error
+  }
+  return undefined
+}
+
+function withConfig(source: LoadedSource, config: Partial<FolderSourceConfig>): LoadedSource {
+  return { ...source, config: { ...source.config, ...config } }
+}
+
+describe('createSource', () => {
+  it('creates a valid source', async () => {
+    // An emoji icon, so no logo is fetched for the URL
+    const config = await createSource(workspaceRoot, { name: 'Docs', icon: '📚', type: 'mcp', mcp: { transport: 'http', url: 'https://mcp.example.com/mcp', authType: 'none' } })
+    expect(config.slug).toBe('docs')
+    expect(loadSource(workspaceRoot, 'docs')?.config.mcp?.url).toBe('https://mcp.example.com/mcp')
+  })
+
+  it('rejects an invalid config with per-field details, writing nothing', async () => {
+    const error = await rejection(createSource(workspaceRoot, { name: 'Broken', icon: '📚', type: 'mcp', mcp: { transport: 'http', url: 'not a url', authType: 'none' } }))
+    expect(error?.code).toBe('invalid_args')
+    expect(error?.details).toBeArray()
+    expect(existsSync(getSourcePath(workspaceRoot, 'broken'))).toBe(false)
+  })
+})
+
+describe('saveSourceCredentials', () => {
+  it('accepts a username and password only for basic auth', async () => {
+    const source = loadSource(workspaceRoot, 'docs')!
+    const error = await rejection(saveSourceCredentials(source, { username: 'alice', password: 'secret' }))
+    expect(error?.code).toBe('invalid_args')
+  })
+})
+
+describe('getMcpTools', () => {
+  it('only lists tools of connected MCP sources', async () => {
+    const source = loadSource(workspaceRoot, 'docs')!
+    expect(await getMcpTools(withConfig(source, { type: 'api' }))).toEqual({ success: false, error: 'Source is not an MCP server' })
+    expect(await getMcpTools(source)).toEqual({ success: false, error: 'Source has not been tested yet' })
+    expect(await getMcpTools(withConfig(source, { connectionStatus: 'needs_auth' }))).toEqual({ success: false, error: 'Source requires authentication' })
+    expect(await getMcpTools(withConfig(source, { connectionStatus: 'failed', connectionError: 'ECONNREFUSED' }))).toEqual({ success: false, error: 'ECONNREFUSED' })
+  })
+})
+
+describe('getSourcePermissionsConfig', () => {
+  it('reads permissions.json, or null without one', () => {
+    expect(getSourcePermissionsConfig(workspaceRoot, 'docs')).toBeNull()
+    writeFileSync(join(getSourcePath(workspaceRoot, 'docs'), 'permissions.json'), JSON.stringify({ allowedMcpPatterns: ['search'] }))
+    expect(getSourcePermissionsConfig(workspaceRoot, 'docs')).toEqual({ allowedMcpPatterns: ['search'] })
+  })
+
+  it('reports broken JSON', () => {
+    writeFileSync(join(getSourcePath(workspaceRoot, 'docs'), 'permissions.json'), '{')
+    expect(() => getSourcePermissionsConfig(workspaceRoot, 'docs')).toThrow(RpcError)
+  })
+})
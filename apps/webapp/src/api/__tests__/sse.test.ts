@@ -0,0 +1,216 @@
+/**
+ * Tests for SSE event routing and replay
+ *
+ * These tests verify:
+ * - Session events only reach subscribed clients, list events also reach workspace subscribers
+ * - Workspace events only reach that workspace's subscribers, app-wide events reach everyone
+ * - A reconnecting client gets the events it missed, in order
+ * - Unknown cursors, cursors from a previous process and gaps larger than the buffer
+ *   ask the client to resync
+ * - Unloaded sessions lose their buffer, and the least recently active ones once too many
+ *   sessions have one
+ */
+import { describe, it, expect, beforeEach } from 'bun:test'
+import type { SessionEvent } from '../../../../electron/src/shared/types'
+import {
+  broadcastEvent,
+  connectClient,
+  disconnectClient,
+  dropSessionEventLogs,
+  setWorkspaceResolver,
+  type EventClient,
+} from '../sse'
+
+interface Received {
+  data: { type: string; sessionId?: string; text?: string }
+  eventId?: string
+}
+
+let clientCount = 0
+
+function connect(options: { sessionIds?: string[]; workspaceIds?: string[]; lastEventIds?: string[] } = {}) {
+  const received: Received[] = []
+  const client: EventClient = {
+    id: `client-${++clientCount}`,
+    send: (data, eventId) => received.push({ data: JSON.parse(data), eventId }),
+    sessionIds: new Set(options.sessionIds ?? []),
+    workspaceIds: new Set(options.workspaceIds ?? []),
+  }
+  connectClient(client, options.lastEventIds ?? [])
+  // Drop the `connected` event
+  received.shift()
+  return { client, received }
+}
+
+function emit(sessionId: string, text: string): void {
+  broadcastEvent({ type: 'text_delta', sessionId, delta: text, text } as unknown as SessionEvent)
+}
+
+// Session IDs are unique per test so buffers don't leak between them
+let sessionCount = 0
+let sessionId = ''
+
+beforeEach(() => {
+  sessionId = `session-${++sessionCount}`
+  setWorkspaceResolver(id => id.startsWith('session-') ? 'ws-1' : undefined)
+})
+
+describe('routing', () => {
+  it('delivers session events to subscribers only', () => {
+    const subscribed = connect({ sessionIds: [sessionId] })
+    const other = connect({ sessionIds: ['elsewhere'] })
+    emit(sessionId, 'hi')
+    expect(subscribed.received.map(r => r.data.text)).toEqual(['hi'])
+    expect(other.received).toEqual([])
+    disconnectClient(subscribed.client.id)
+    disconnectClient(other.client.id)
+  })
+
+  it('delivers list events to workspace subscribers', () => {
+    const viewer = connect({ workspaceIds: ['ws-1'] })
+    emit(sessionId, 'streaming')
+    broadcastEvent({ type: 'title_generated', sessionId, title: 'Title' } as SessionEvent)
+    expect(viewer.received.map(r => r.data.type)).toEqual(['title_generated'])
+    disconnectClient(viewer.client.id)
+  })
+
+  it('delivers workspace events to that workspace\'s subscribers only', () => {
+    const viewer = connect({ workspaceIds: ['ws-1'] })
+    const otherViewer = connect({ workspaceIds: ['ws-2'] })
+    const sessionViewer = connect({ sessionIds: [sessionId] })
+    broadcastEvent({ type: 'sources_changed', workspaceId: 'ws-1', sources: [] } as unknown as SessionEvent)
+    broadcastEvent({ type: 'labels_config_changed', workspaceId: 'ws-2' } as unknown as SessionEvent)
+    expect(viewer.received.map(r => r.data.type)).toEqual(['sources_changed'])
+    expect(otherViewer.received.map(r => r.data.type)).toEqual(['labels_config_changed'])
+    expect(sessionViewer.received).toEqual([])
+    for (const { client } of [viewer, otherViewer, sessionViewer]) disconnectClient(client.id)
+  })
+
+  it('delivers app-wide events to everyone', () => {
+    const viewer = connect({ workspaceIds: ['ws-1'] })
+    const idle = connect()
+    broadcastEvent({ type: 'oauth_complete', flowId: 'flow-1', provider: 'mcp', success: true } as unknown as SessionEvent)
+    expect(viewer.received.map(r => r.data.type)).toEqual(['oauth_complete'])
+    expect(idle.received.map(r => r.data.type)).toEqual(['oauth_complete'])
+    disconnectClient(viewer.client.id)
+    disconnectClient(idle.client.id)
+  })
+})
+
+describe('replay', () => {
+  it('replays events missed since the last seen ID', () => {
+    const first = connect({ sessionIds: [sessionId] })
+    emit(sessionId, 'a')
+    const lastSeen = first.received[0]!.eventId!
+    disconnectClient(first.client.id)
+
+    emit(sessionId, 'b')
+    emit(sessionId, 'c')
+
+    const second = connect({ sessionIds: [sessionId], lastEventIds: [lastSeen] })
+    expect(second.received.map(r => r.data.text)).toEqual(['b', 'c'])
+    expect(second.received.map(r => r.eventId!.split(':')[2])).toEqual(['2', '3'])
+
+    emit(sessionId, 'd')
+    expect(second.received.map(r => r.data.text)).toEqual(['b', 'c', 'd'])
+    disconnectClient(second.client.id)
+  })
+
+  it('replays nothing for a client that is up to date', () => {
+    const first = connect({ sessionIds: [sessionId] })
+    emit(sessionId, 'a')
+    disconnectClient(first.client.id)
+    const second = connect({ sessionIds: [sessionId], lastEventIds: [first.received[0]!.eventId!] })
+    expect(second.received).toEqual([])
+    disconnectClient(second.client.id)
+  })
+
+  it('only replays sessions the client is subscribed to', () => {
+    const first = connect({ sessionIds: [sessionId] })
+    emit(sessionId, 'a')
+    disconnectClient(first.client.id)
+    emit(sessionId, 'b')
+    const second = connect({ sessionIds: [], lastEventIds: [first.received[0]!.eventId!] })
+    expect(second.received).toEqual([])
+    disconnectClient(second.client.id)
+  })
+
+  it('asks for a resync when the ID is from a previous server process', () => {
+    emit(sessionId, 'a')
+    const client = connect({ sessionIds: [sessionId], lastEventIds: [`oldboot:${sessionId}:1`] })
+    expect(client.received.map(r => r.data)).toEqual([{ type: 'resync_required', sessionId }])
+    expect(client.received[0]!.eventId).toBeUndefined()
+    disconnectClient(client.client.id)
+  })
+
+  it('asks for a resync when the missed events no longer fit in the buffer', () => {
+    const first = connect({ sessionIds: [sessionId] })
+    emit(sessionId, 'start')
+    const lastSeen = first.received[0]!.eventId!
+    disconnectClient(first.client.id)
+    for (let i = 0; i < 1001; i++) emit(sessionId, `event ${i}`)
+
+    const second = connect({ sessionIds: [sessionId], lastEventIds: [lastSeen] })
+    expect(second.received.map(r => r.data.type)).toEqual(['resync_required'])
+    disconnectClient(second.client.id)
+  })
+
+  it('asks for a resync once the buffer exceeds its size limit', () => {
+    const first = connect({ sessionIds: [sessionId] })
+    emit(sessionId, 'start')
+    const lastSeen = first.received[0]!.eventId!
+    disconnectClient(first.client.id)
+    // Five 1 MB events exceed the 4 MB limit
+    for (let i = 0; i < 5; i++) emit(sessionId, 'x'.repeat(1024 * 1024))
+
+    const second = connect({ sessionIds: [sessionId], lastEventIds: [lastSeen] })
+    expect(second.received.map(r => r.data.type)).toEqual(['resync_required'])
+    disconnectClient(second.client.id)
+  })
+
+  it('asks for a resync after the session was unloaded', () => {
+    const first = connect({ sessionIds: [sessionId] })
+    emit(sessionId, 'a')
+    disconnectClient(first.client.id)
+    dropSessionEventLogs(sessionId)
+
+    const second = connect({ sessionIds: [sessionId], lastEventIds: [first.received[0]!.eventId!] })
+    expect(second.received.map(r => r.data.type)).toEqual(['resync_required'])
+    disconnectClient(second.client.id)
+  })
+
+  it('asks for a resync once too many other sessions were active since', () => {
+    const first = connect({ sessionIds: [sessionId] })
+    emit(sessionId, 'a')
+    disconnectClient(first.client.id)
+    // List updates on 500 sessions that are never loaded
+    for (let i = 0; i < 500; i++) {
+      broadcastEvent({ type: 'session_flagged', sessionId: `listed-${sessionCount}-${i}` } as SessionEvent)
+    }
+
+    const second = connect({ sessionIds: [sessionId], lastEventIds: [first.received[0]!.eventId!] })
+    expect(second.received.map(r => r.data.type)).toEqual(['resync_required'])
+    disconnectClient(second.client.id)
+  })
+
+  it('keeps the buffers of recently active sessions', () => {
+    const first = connect({ sessionIds: [sessionId] })
+    emit(sessionId, 'a')
+    disconnectClient(first.client.id)
+    for (let i = 0; i < 499; i++) {
+      broadcastEvent({ type: 'session_flagged', sessionId: `listed-${sessionCount}-${i}` } as SessionEvent)
+    }
+    emit(sessionId, 'b')
+
+    const second = connect({ sessionIds: [sessionId], lastEventIds: [first.received[0]!.eventId!] })
+    expect(second.received.map(r => r.data.text)).toEqual(['b'])
+    disconnectClient(second.client.id)
+  })
+
+  it('ignores malformed event IDs', () => {
+    emit(sessionId, 'a')
+    const client = connect({ sessionIds: [sessionId], lastEventIds: ['garbage', `x:${sessionId}:nope`] })
+    expect(client.received).toEqual([])
+    disconnectClient(client.client.id)
+  })
+})
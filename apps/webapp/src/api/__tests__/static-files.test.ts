@@ -0,0 +1,66 @@
+/**
+ * Tests for serving the built frontend
+ *
+ * These tests verify:
+ * - Only files inside the build folder are served - climbing out, also URL-escaped, doesn't work
+ * - Client routes get index.html with the base path, missing files with an extension get nothing
+ * - Only Vite's hashed files under assets/ are cached for good
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { staticFileResponse } from '../static-files'
+
+let root: string
+let staticDir: string
+
+function get(pathname: string, basePath = ''): Promise<Response | null> {
+  return staticFileResponse(new Request(`http://localhost${basePath}/`), pathname, staticDir, basePath)
+}
+
+beforeAll(() => {
+  root = mkdtempSync(join(tmpdir(), 'static-files-test-'))
+  staticDir = join(root, 'renderer')
+  mkdirSync(join(staticDir, 'assets'), { recursive: true })
+  writeFileSync(join(staticDir, 'index.html'), '<html><head></head><body></body></html>')
+  writeFileSync(join(staticDir, 'assets', 'index-Bx3kQ9aZ.js'), 'console.log(1)')
+  writeFileSync(join(staticDir, 'apple-touch-icon.png'), 'png')
+  writeFileSync(join(root, 'secret.txt'), 'secret')
+  writeFileSync(join(root, 'renderer-other.txt'), 'other')
+})
+
+afterAll(() => {
+  rmSync(root, { recursive: true, force: true })
+})
+
+describe('staticFileResponse', () => {
+  it('serves files in the build folder', async () => {
+    expect(await (await get('/assets/index-Bx3kQ9aZ.js'))?.text()).toBe('console.log(1)')
+  })
+
+  it('does not serve files outside the build folder', async () => {
+    expect(await get('/../secret.txt')).toBeNull()
+    expect(await get('/%2e%2e/secret.txt')).toBeNull()
+    expect(await get('/..%2fsecret.txt')).toBeNull()
+    expect(await get('/../renderer-other.txt')).toBeNull()
+  })
+
+  it('answers malformed escapes with nothing', async () => {
+    expect(await get('/%E0%A4%A')).toBeNull()
+  })
+
+  it('serves index.html with the base path for client routes', async () => {
+    const response = await get('/sessions/abc', '/craft')
+    const html = await response?.text()
+    expect(html).toContain('<base href="/craft/">')
+    expect(html).toContain('<meta name="craft-base-path" content="/craft">')
+    expect(await get('/assets/missing-Bx3kQ9aZ.js')).toBeNull()
+  })
+
+  it('caches only hashed assets for good', async () => {
+    expect((await get('/assets/index-Bx3kQ9aZ.js'))?.headers.get('Cache-Control')).toBe('public, max-age=31536000, immutable')
+    expect((await get('/apple-touch-icon.png'))?.headers.get('Cache-Control')).toBe('no-cache')
+    expect((await get('/'))?.headers.get('Cache-Control')).toBe('no-cache')
+  })
+})
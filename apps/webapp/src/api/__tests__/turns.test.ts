@@ -0,0 +1,221 @@
+/**
+ * Tests for running turns (with a stand-in agent instead of the Claude Code subprocess)
+ *
+ * These tests verify:
+ * - A turn whose agent can't be created gives its slot back and stops processing
+ * - Queued messages run one per turn in order, interrupting ones first
+ * - Messages queued behind a failed turn still run
+ * - "Accept & Compact" executes the plan after compacting, but not when compaction is
+ *   stopped or fails
+ * - Token usage adds up over a session's turns, with the context size of the latest turn
+ */
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'bun:test'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { addWorkspace, loadStoredConfig, saveConfig } from '@craft-agent/shared/config'
+import type { AgentEvent, CraftAgent } from '@craft-agent/shared/agent'
+import type { AgentEventUsage } from '@craft-agent/core/types'
+import { SessionManager } from '../session-manager'
+import { hasFreeTurnSlot } from '../agent-pool'
+
+type ChatFn = (message: string) => AsyncGenerator<AgentEvent>
+
+let workspaceRoot: string
+let workspaceId: string
+let sm: SessionManager
+let sessionId: string
+const events: { type: string; [key: string]: unknown }[] = []
+
+/** Replace the session's agent with one answering through `chat` (or failing to start) */
+function stubAgent(create: () => Promise<ChatFn>): void {
+  const manager = sm as unknown as { getOrCreateAgent: (managed: { agent?: Partial<CraftAgent> }) => Promise<Partial<CraftAgent>> }
+  manager.getOrCreateAgent = async (managed) => {
+    const chat = await create()
+    managed.agent = {
+      chat: chat as CraftAgent['chat'],
+      getModel: () => 'stub',
+      getTemporaryClarifications: () => null,
+      setTemporaryClarifications: () => {},
+      forceAbort: () => {},
+    }
+    return managed.agent
+  }
+}
+
+/** Have the agent submit a plan, as its SubmitPlan tool does */
+async function submitPlan(): Promise<string> {
+  const planPath = join(workspaceRoot, `plan-${Date.now()}.md`)
+  writeFileSync(planPath, '# Plan\n\n## Steps\n\n1. Do it\n')
+  const manager = sm as unknown as {
+    getOrCreateManagedSession: (id: string) => Promise<unknown>
+    onAgentPlanSubmitted: (managed: unknown, planPath: string) => void
+  }
+  manager.onAgentPlanSubmitted(await manager.getOrCreateManagedSession(sessionId), planPath)
+  return planPath
+}
+
+/**
+ * Chats that wait for `finish` before completing (or failing, for messages in `failing`),
+ * recording the messages they were started with
+ */
+function gatedChats(failing: string[] = []) {
+  const started: string[] = []
+  const gates: (() => void)[] = []
+  const chat: ChatFn = async function* (message) {
+    started.push(message)
+    await new Promise<void>(resolve => gates.push(resolve))
+    if (failing.includes(message)) throw new Error(`Failed: ${message}`)
+    yield { type: 'complete' }
+  }
+  return { started, chat, finish: () => gates.shift()!() }
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  while (!condition()) await Bun.sleep(1)
+}
+
+beforeAll(async () => {
+  workspaceRoot = mkdtempSync(join(tmpdir(), 'craft-turns-'))
+  if (!loadStoredConfig()) {
+    saveConfig({ workspaces: [], activeWorkspaceId: null, activeSessionId: null })
+  }
+  workspaceId = addWorkspace({ name: 'Turns', rootPath: workspaceRoot }).id
+  sm = new SessionManager(event => { events.push(event as (typeof events)[number]) })
+  sessionId = (await sm.createSession(workspaceId)).id
+})
+
+beforeEach(() => {
+  events.length = 0
+})
+
+afterAll(() => {
+  rmSync(workspaceRoot, { recursive: true, force: true })
+})
+
+describe('turns', () => {
+  it('give the turn slot back when the agent can\'t be created', async () => {
+    stubAgent(() => Promise.reject(new Error('No credentials')))
+    await sm.sendMessage(sessionId, 'hello')
+
+    expect(hasFreeTurnSlot()).toBe(true)
+    expect((await sm.getSession(sessionId))?.isProcessing).toBe(false)
+    expect(events).toContainEqual(expect.objectContaining({ type: 'error', sessionId, error: 'No credentials' }))
+    expect(events.at(-1)).toMatchObject({ type: 'complete', sessionId })
+  })
+
+  it('run queued messages in order, interrupting ones first', async () => {
+    const { started, chat, finish } = gatedChats()
+    stubAgent(async () => chat)
+    const first = sm.sendMessage(sessionId, 'first')
+    await waitFor(() => started.length === 1)
+
+    await sm.sendMessage(sessionId, 'second')
+    await sm.sendMessage(sessionId, 'third')
+    await sm.sendMessage(sessionId, 'urgent', undefined, undefined, undefined, 'interrupt')
+    expect(sm.getQueuedMessages(sessionId).map(queued => queued.message)).toEqual(['urgent', 'second', 'third'])
+
+    for (let turn = 1; turn < 4; turn++) {
+      finish()
+      await waitFor(() => started.length === turn + 1)
+    }
+    finish()
+    await first
+    await waitFor(() => events.filter(event => event.type === 'complete').length === 4)
+
+    expect(started).toEqual(['first', 'urgent', 'second', 'third'])
+    expect(sm.getQueuedMessages(sessionId)).toEqual([])
+    expect(hasFreeTurnSlot()).toBe(true)
+  })
+
+  it('run messages queued behind a failed turn', async () => {
+    const { started, chat, finish } = gatedChats(['fails'])
+    stubAgent(async () => chat)
+    const failing = sm.sendMessage(sessionId, 'fails')
+    await waitFor(() => started.length === 1)
+    await sm.sendMessage(sessionId, 'after')
+
+    finish()
+    await failing
+    await waitFor(() => started.length === 2)
+    finish()
+    await waitFor(() => events.filter(event => event.type === 'complete').length === 2)
+
+    expect(started).toEqual(['fails', 'after'])
+    expect(events).toContainEqual(expect.objectContaining({ type: 'error', sessionId, error: 'Failed: fails' }))
+    expect((await sm.getSession(sessionId))?.isProcessing).toBe(false)
+    expect(hasFreeTurnSlot()).toBe(true)
+  })
+})
+
+describe('Accept & Compact', () => {
+  it('executes the plan after compacting', async () => {
+    const { started, chat, finish } = gatedChats()
+    stubAgent(async () => chat)
+    const planPath = await submitPlan()
+    await sm.acceptPlan(sessionId, planPath, true)
+    await waitFor(() => started.length === 1)
+    expect(await sm.getPendingPlanExecution(sessionId)).toEqual({ planPath, awaitingCompaction: true })
+
+    finish()
+    await waitFor(() => started.length === 2)
+    expect(started).toEqual(['/compact', `Plan approved. Read the plan at ${planPath} and execute it.`])
+    expect(await sm.getPendingPlanExecution(sessionId)).toBeNull()
+    finish()
+    await waitFor(() => events.filter(event => event.type === 'complete').length === 2)
+    expect(hasFreeTurnSlot()).toBe(true)
+  })
+
+  it('does not execute the plan when compaction is stopped', async () => {
+    const { started, chat, finish } = gatedChats()
+    stubAgent(async () => chat)
+    const planPath = await submitPlan()
+    await sm.acceptPlan(sessionId, planPath, true)
+    await waitFor(() => started.length === 1)
+
+    await sm.cancelProcessing(sessionId)
+    finish()
+    await waitFor(() => hasFreeTurnSlot())
+    await Bun.sleep(10)
+
+    expect(started).toEqual(['/compact'])
+    expect(await sm.getPendingPlanExecution(sessionId)).toBeNull()
+    expect(events).not.toContainEqual(expect.objectContaining({ type: 'compaction_complete' }))
+  })
+
+  it('does not execute the plan when compaction fails', async () => {
+    const { started, chat, finish } = gatedChats(['/compact'])
+    stubAgent(async () => chat)
+    const planPath = await submitPlan()
+    await sm.acceptPlan(sessionId, planPath, true)
+    await waitFor(() => started.length === 1)
+
+    finish()
+    await waitFor(() => events.some(event => event.type === 'error'))
+    await Bun.sleep(10)
+
+    expect(started).toEqual(['/compact'])
+    expect(await sm.getPendingPlanExecution(sessionId)).toBeNull()
+    expect(hasFreeTurnSlot()).toBe(true)
+  })
+})
+
+describe('token usage', () => {
+  it('adds up over the session\'s turns', async () => {
+    const usages: AgentEventUsage[] = [
+      { inputTokens: 1000, outputTokens: 200, costUsd: 0.01, cacheReadTokens: 800, contextWindow: 200000 },
+      { inputTokens: 1500, outputTokens: 300, cacheCreationTokens: 100 },
+    ]
+    stubAgent(async () => async function* () {
+      yield { type: 'complete', usage: usages.shift() }
+    })
+    const { id } = await sm.createSession(workspaceId)
+    await sm.sendMessage(id, 'first')
+    await sm.sendMessage(id, 'second')
+    await waitFor(() => events.filter(event => event.type === 'complete').length === 2)
+
+    const total = { inputTokens: 2500, outputTokens: 500, totalTokens: 3000, contextTokens: 1500, costUsd: 0.01, cacheReadTokens: 800, cacheCreationTokens: 100, contextWindow: 200000 }
+    expect((await sm.getSession(id))?.tokenUsage).toEqual(total)
+    expect(events.at(-1)).toMatchObject({ type: 'complete', sessionId: id, tokenUsage: total, turnUsage: { inputTokens: 1500, totalTokens: 1800, costUsd: 0 } })
+  })
+})
@@ -0,0 +1,102 @@
+/**
+ * Tests for workspace settings
+ *
+ * These tests verify:
+ * - Invalid values are rejected with invalid_args naming the setting, without saving
+ * - Defaults for new sessions are saved in `defaults` and cleared with null
+ * - A default working directory must be a directory inside the browse roots, and is
+ *   saved like the other defaults
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test'
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { createWorkspaceAtPath, loadWorkspaceConfig } from '@craft-agent/shared/workspaces'
+import { getWorkspaceSettings, updateWorkspaceSetting, type WorkspaceSettingKey } from '../workspace-settings'
+import { RpcError } from '../rpc-registry'
+
+let base: string
+let workspaceRoot: string
+let previousRoots: string | undefined
+
+beforeAll(() => {
+  previousRoots = process.env.CRAFT_WEBAPP_BROWSE_ROOTS
+  base = realpathSync(mkdtempSync(join(tmpdir(), 'workspace-settings-test-')))
+  workspaceRoot = join(base, 'workspace')
+  createWorkspaceAtPath(workspaceRoot, 'Settings')
+  mkdirSync(join(base, 'project'))
+  writeFileSync(join(base, 'notes.txt'), '')
+  process.env.CRAFT_WEBAPP_BROWSE_ROOTS = base
+})
+
+afterAll(() => {
+  if (previousRoots === undefined) delete process.env.CRAFT_WEBAPP_BROWSE_ROOTS
+  else process.env.CRAFT_WEBAPP_BROWSE_ROOTS = previousRoots
+  rmSync(base, { recursive: true, force: true })
+})
+
+function rejection(key: WorkspaceSettingKey, value: unknown): RpcError | undefined {
+  try {
+    updateWorkspaceSetting(workspaceRoot, key, value)
+  } catch (error) {
+    if (error instanceof RpcError) return error
+    throw error
+  }
+  return undefined
+}
+
+describe('validation', () => {
+  it('rejects invalid values, naming the setting', () => {
+    const error = rejection('thinkingLevel', 'maximum')
+    expect(error?.code).toBe('invalid_args')
+    expect(error?.details).toEqual([{ path: ['thinkingLevel'], message: expect.any(String) }])
+    expect(rejection('name', '   ')?.code).toBe('invalid_args')
+    expect(rejection('localMcpEnabled', 'no')?.code).toBe('invalid_args')
+    expect(rejection('enabledSourceSlugs', [''])?.code).toBe('invalid_args')
+    expect(getWorkspaceSettings(workspaceRoot).name).toBe('Settings')
+  })
+
+  it('needs two different modes to cycle through', () => {
+    expect(rejection('cyclablePermissionModes', ['ask', 'ask'])?.code).toBe('invalid_args')
+    expect(rejection('cyclablePermissionModes', ['ask', 'yolo'])?.code).toBe('invalid_args')
+    expect(rejection('cyclablePermissionModes', ['ask', 'allow-all'])).toBeUndefined()
+  })
+})
+
+describe('saving', () => {
+  it('saves the name and local MCP switch', () => {
+    updateWorkspaceSetting(workspaceRoot, 'name', '  Renamed  ')
+    updateWorkspaceSetting(workspaceRoot, 'localMcpEnabled', false)
+    expect(getWorkspaceSettings(workspaceRoot)).toMatchObject({ name: 'Renamed', localMcpEnabled: false })
+  })
+
+  it('saves defaults and clears them with null', () => {
+    updateWorkspaceSetting(workspaceRoot, 'model', 'claude-sonnet-4-5')
+    updateWorkspaceSetting(workspaceRoot, 'permissionMode', 'safe')
+    expect(loadWorkspaceConfig(workspaceRoot)?.defaults).toMatchObject({ model: 'claude-sonnet-4-5', permissionMode: 'safe' })
+
+    updateWorkspaceSetting(workspaceRoot, 'model', null)
+    expect(loadWorkspaceConfig(workspaceRoot)?.defaults?.model).toBeUndefined()
+    expect(getWorkspaceSettings(workspaceRoot).permissionMode).toBe('safe')
+  })
+})
+
+describe('working directory', () => {
+  it('is saved with the other defaults', () => {
+    updateWorkspaceSetting(workspaceRoot, 'workingDirectory', join(base, 'project'))
+    expect(loadWorkspaceConfig(workspaceRoot)?.defaults?.workingDirectory).toBe(join(base, 'project'))
+
+    updateWorkspaceSetting(workspaceRoot, 'workingDirectory', null)
+    expect(loadWorkspaceConfig(workspaceRoot)?.defaults?.workingDirectory).toBeUndefined()
+  })
+
+  it('must be a directory', () => {
+    expect(rejection('workingDirectory', join(base, 'notes.txt'))?.details).toEqual([{ path: ['workingDirectory'], message: 'Not a directory' }])
+    expect(rejection('workingDirectory', join(base, 'missing'))?.code).toBe('invalid_args')
+  })
+
+  it('must be inside the browse roots', () => {
+    expect(rejection('workingDirectory', tmpdir())?.code).toBe('unauthorized')
+    expect(loadWorkspaceConfig(workspaceRoot)?.defaults?.workingDirectory).toBeUndefined()
+  })
+})
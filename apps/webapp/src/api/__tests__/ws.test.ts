@@ -0,0 +1,128 @@
+/**
+ * Tests for the WebSocket transport
+ *
+ * These tests verify:
+ * - RPC calls are answered with their request ID, errors included
+ * - Events reach the socket for its subscriptions, which can change on the socket
+ * - Invalid messages close the socket, and so does a login that has ended
+ */
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'bun:test'
+import type { Server } from 'bun'
+import type { SessionEvent } from '../../../../electron/src/shared/types'
+import type { AuthContext } from '../auth'
+import { broadcastEvent } from '../sse'
+import { createWebSocketHandler, createWsData, type WsData } from '../ws'
+
+interface Message {
+  type: string
+  id?: string
+  error?: { code: string }
+  event?: { type: string; sessionId?: string }
+  sessionIds?: string[]
+}
+
+interface TestSocket {
+  socket: WebSocket
+  /** Next message matching `match`, waiting for it if needed */
+  next(match: (message: Message) => boolean): Promise<Message>
+  closed: Promise<number>
+}
+
+let server: Server<WsData>
+let auth: AuthContext = { method: 'bearer' }
+let sockets: WebSocket[] = []
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    fetch(req, server) {
+      if (server.upgrade(req, { data: createWsData(req, auth) })) return undefined
+      return new Response('Expected a WebSocket upgrade', { status: 400 })
+    },
+    websocket: createWebSocketHandler(broadcastEvent),
+  })
+})
+
+afterAll(() => {
+  server.stop(true)
+})
+
+afterEach(() => {
+  for (const socket of sockets) socket.close()
+  sockets = []
+  auth = { method: 'bearer' }
+})
+
+async function connect(query = ''): Promise<TestSocket> {
+  const socket = new WebSocket(`ws://localhost:${server.port}/api/ws${query}`)
+  sockets.push(socket)
+  const messages: Message[] = []
+  const waiters: Array<() => void> = []
+  socket.onmessage = (message) => {
+    messages.push(JSON.parse(message.data as string))
+    for (const waiter of waiters.splice(0)) waiter()
+  }
+  const closed = new Promise<number>(resolve => { socket.onclose = (event) => resolve(event.code) })
+  await new Promise(resolve => { socket.onopen = resolve })
+
+  const next = async (match: (message: Message) => boolean): Promise<Message> => {
+    for (;;) {
+      const index = messages.findIndex(match)
+      if (index >= 0) return messages.splice(index, 1)[0]!
+      await new Promise<void>(resolve => waiters.push(resolve))
+    }
+  }
+  // The connected event comes first
+  await next(message => message.event?.type === 'connected')
+  return { socket, next, closed }
+}
+
+function event(sessionId: string): SessionEvent {
+  return { type: 'text_delta', sessionId, delta: 'hello' } as SessionEvent
+}
+
+describe('RPC calls', () => {
+  it('answers errors with the request ID', async () => {
+    const ws = await connect()
+    ws.socket.send(JSON.stringify({ type: 'rpc', id: 'a', method: 'notAMethod', args: [] }))
+    ws.socket.send(JSON.stringify({ type: 'rpc', id: 'b', method: 'setModel', args: [42] }))
+    expect((await ws.next(message => message.id === 'a')).error?.code).toBe('not_found')
+    expect((await ws.next(message => message.id === 'b')).error?.code).toBe('invalid_args')
+  })
+})
+
+describe('events', () => {
+  it('are delivered for the initial subscriptions', async () => {
+    const ws = await connect('?sessions=ws-session-1')
+    broadcastEvent(event('ws-session-2'))
+    broadcastEvent(event('ws-session-1'))
+    const received = await ws.next(message => message.type === 'event')
+    expect(received.event?.sessionId).toBe('ws-session-1')
+    expect(received.id).toBeString()
+  })
+
+  it('follow subscription changes', async () => {
+    const ws = await connect('?sessions=ws-session-3')
+    ws.socket.send(JSON.stringify({ type: 'subscribe', subscribe: { sessionIds: ['ws-session-4'] }, unsubscribe: { sessionIds: ['ws-session-3'] } }))
+    expect((await ws.next(message => message.type === 'subscriptions')).sessionIds).toEqual(['ws-session-4'])
+
+    broadcastEvent(event('ws-session-3'))
+    broadcastEvent(event('ws-session-4'))
+    expect((await ws.next(message => message.type === 'event')).event?.sessionId).toBe('ws-session-4')
+  })
+})
+
+describe('closing', () => {
+  it('closes on invalid messages', async () => {
+    const ws = await connect()
+    ws.socket.send('not json')
+    expect(await ws.closed).toBe(1002)
+  })
+
+  it('closes once the login has ended', async () => {
+    auth = { method: 'cookie', session: { id: 'logged-out', csrfToken: '', createdAt: 0, expiresAt: 0 } }
+    const ws = await connect()
+    ws.socket.send(JSON.stringify({ type: 'rpc', id: 'a', method: 'getSessions', args: [] }))
+    expect(await ws.closed).toBe(4401)
+  })
+})
@@ -0,0 +1,193 @@
+/**
+ * Live sessions and agents for the webapp
+ *
+ * A session loaded into a SessionManager keeps its messages in memory, and once it runs a
+ * turn a CraftAgent with a ConfigWatcher, MCP connections and SDK subprocess state. The pool
+ * tracks them for all users' managers so that:
+ * - sessions left idle for CRAFT_WEBAPP_IDLE_TIMEOUT_MINUTES are evicted - the agent is
+ *   disposed and the session reloaded from disk on next use, resuming its SDK session
+ * - at most CRAFT_WEBAPP_MAX_CONCURRENT_AGENTS turns run at once; further turns wait in order
+ * - admins can list what is loaded (listLiveAgents)
+ */
+
+const DEFAULT_IDLE_TIMEOUT_MINUTES = 30
+
+// How often idle sessions are looked for
+const SWEEP_INTERVAL_MS = 60 * 1000
+
+function readLimit(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+// 0 disables eviction / the limit
+const IDLE_TIMEOUT_MINUTES = readLimit('CRAFT_WEBAPP_IDLE_TIMEOUT_MINUTES', DEFAULT_IDLE_TIMEOUT_MINUTES)
+const MAX_CONCURRENT_AGENTS = Math.floor(readLimit('CRAFT_WEBAPP_MAX_CONCURRENT_AGENTS', 0))
+
+/**
+ * What a loaded session holds, as reported by its session manager
+ */
+export interface LiveSessionUsage {
+  processing: boolean
+  /** A CraftAgent was created (the session ran a turn since it was loaded) */
+  agentLoaded: boolean
+  queuedMessages: number
+  runningBackgroundJobs: number
+  messageCount: number
+  contextTokens?: number
+}
+
+/**
+ * A loaded session as listLiveAgents returns it
+ */
+export interface LiveAgent extends LiveSessionUsage {
+  sessionId: string
+  workspaceId: string
+  userId: string | null
+  status: 'idle' | 'processing' | 'waiting'
+  loadedAt: number
+  lastActiveAt: number
+}
+
+export interface AgentPoolStatus {
+  /** 0 when unlimited */
+  maxConcurrentAgents: number
+  /** 0 when sessions are never evicted */
+  idleTimeoutMinutes: number
+  runningTurns: number
+  waitingTurns: number
+  /** Server process memory in bytes */
+  memory: { rss: number; heapUsed: number }
+  agents: LiveAgent[]
+}
+
+interface LiveSessionHooks {
+  workspaceId: string
+  userId?: string
+  describe: () => LiveSessionUsage
+  /** Whether eviction would cut something short (turn, queued messages, background jobs) */
+  isBusy: () => boolean
+  /** Drop the session from memory - the manager unregisters it if it went through */
+  evict: () => Promise<void>
+}
+
+interface LiveSession extends LiveSessionHooks {
+  loadedAt: number
+  lastActiveAt: number
+}
+
+const liveSessions = new Map<string, LiveSession>()
+const runningTurns = new Set<string>()
+const waitingTurns: { sessionId: string; resolve: (started: boolean) => void }[] = []
+let sweepTimer: ReturnType<typeof setInterval> | null = null
+
+// ============================================================
+// Live sessions
+// ============================================================
+
+export function registerLiveSession(sessionId: string, hooks: LiveSessionHooks): void {
+  const now = Date.now()
+  liveSessions.set(sessionId, { ...hooks, loadedAt: now, lastActiveAt: now })
+  if (!sweepTimer && IDLE_TIMEOUT_MINUTES > 0) {
+    sweepTimer = setInterval(() => void evictIdleSessions(), SWEEP_INTERVAL_MS)
+    sweepTimer.unref?.()
+  }
+}
+
+export function unregisterLiveSession(sessionId: string): void {
+  liveSessions.delete(sessionId)
+}
+
+/**
+ * Record use of a session - eviction counts idle time from the last use
+ */
+export function touchLiveSession(sessionId: string): void {
+  const session = liveSessions.get(sessionId)
+  if (session) session.lastActiveAt = Date.now()
+}
+
+async function evictIdleSessions(): Promise<void> {
+  const cutoff = Date.now() - IDLE_TIMEOUT_MINUTES * 60 * 1000
+  for (const [sessionId, session] of [...liveSessions]) {
+    if (session.lastActiveAt > cutoff || runningTurns.has(sessionId) || isWaiting(sessionId) || session.isBusy()) continue
+    try {
+      await session.evict()
+    } catch (error) {
+      console.error(`[AgentPool] Failed to evict session ${sessionId}:`, error)
+    }
+  }
+}
+
+// ============================================================
+// Concurrent turns
+// ============================================================
+
+function isWaiting(sessionId: string): boolean {
+  return waitingTurns.some(turn => turn.sessionId === sessionId)
+}
+
+export function hasFreeTurnSlot(): boolean {
+  return MAX_CONCURRENT_AGENTS === 0 || runningTurns.size < MAX_CONCURRENT_AGENTS
+}
+
+/**
+ * Wait until the session's turn may run. Resolves false if the wait was cancelled.
+ */
+export function acquireTurnSlot(sessionId: string): Promise<boolean> {
+  if (hasFreeTurnSlot()) {
+    runningTurns.add(sessionId)
+    return Promise.resolve(true)
+  }
+  return new Promise(resolve => waitingTurns.push({ sessionId, resolve }))
+}
+
+/**
+ * The session's turn ended - start the longest waiting one
+ */
+export function releaseTurnSlot(sessionId: string): void {
+  if (!runningTurns.delete(sessionId)) return
+  const next = waitingTurns.shift()
+  if (next) {
+    runningTurns.add(next.sessionId)
+    next.resolve(true)
+  }
+}
+
+/**
+ * Give up a session's place in line. Returns false if it wasn't waiting.
+ */
+export function cancelTurnWait(sessionId: string): boolean {
+  const index = waitingTurns.findIndex(turn => turn.sessionId === sessionId)
+  if (index === -1) return false
+  waitingTurns.splice(index, 1)[0]!.resolve(false)
+  return true
+}
+
+// ============================================================
+// Status
+// ============================================================
+
+export function getAgentPoolStatus(): AgentPoolStatus {
+  const { rss, heapUsed } = process.memoryUsage()
+  const agents = [...liveSessions].map(([sessionId, session]): LiveAgent => {
+    const usage = session.describe()
+    return {
+      sessionId,
+      workspaceId: session.workspaceId,
+      userId: session.userId ?? null,
+      status: isWaiting(sessionId) ? 'waiting' : usage.processing ? 'processing' : 'idle',
+      loadedAt: session.loadedAt,
+      lastActiveAt: session.lastActiveAt,
+      ...usage,
+    }
+  })
+  return {
+    maxConcurrentAgents: MAX_CONCURRENT_AGENTS,
+    idleTimeoutMinutes: IDLE_TIMEOUT_MINUTES,
+    runningTurns: runningTurns.size,
+    waitingTurns: waitingTurns.length,
+    memory: { rss, heapUsed },
+    // Most recently used first
+    agents: agents.sort((a, b) => b.lastActiveAt - a.lastActiveAt),
+  }
+}
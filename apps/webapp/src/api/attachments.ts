@@ -0,0 +1,420 @@
+/**
+ * Attachment pipeline for the webapp
+ *
+ * Browsers can't hand the server a file path, so files are uploaded (multipart) straight
+ * into the session's attachments folder and then go through the same FileAttachment /
+ * StoredAttachment flow as the Electron app. Thumbnails and image resizing use the
+ * platform's image tools (sips/qlmanage on macOS, ImageMagick elsewhere) when available;
+ * without them attachments still work, the UI just shows a file icon.
+ */
+
+import { existsSync, mkdtempSync, readFileSync, rmSync, statSync } from 'fs'
+import { readFile, rename, writeFile } from 'fs/promises'
+import { basename, dirname, join, resolve, sep } from 'path'
+import { tmpdir } from 'os'
+import { execFile } from 'child_process'
+import { promisify } from 'util'
+import type { FileAttachment, StoredAttachment } from '../../../electron/src/shared/types'
+import { ensureAttachmentsDir, getSessionAttachmentsPath } from '@craft-agent/shared/sessions'
+import {
+  IMAGE_LIMITS,
+  validateImageForClaudeAPI,
+  readFileAttachment,
+  getMimeType,
+} from '@craft-agent/shared/utils'
+import { RpcError } from './rpc-registry'
+import type { SessionManager } from './session-manager'
+
+// Same limit as readFileAttachment()
+const MAX_UPLOAD_SIZE = 20 * 1024 * 1024
+
+// Longest edge of generated thumbnails
+const THUMBNAIL_SIZE = 200
+
+// Timeout for external image tools
+const TOOL_TIMEOUT_MS = 15_000
+
+const execFileAsync = promisify(execFile)
+
+// ============================================================
+// Image inspection
+// ============================================================
+
+/**
+ * Read image dimensions from the file header (PNG, GIF, JPEG, WebP, BMP).
+ * Returns null for formats we can't parse - size limits are still enforced.
+ */
+export function getImageDimensions(buffer: Buffer): { width: number; height: number } | null {
+  if (buffer.length < 26) return null
+
+  // PNG: IHDR chunk follows the 8-byte signature
+  if (buffer.readUInt32BE(0) === 0x89504e47) {
+    return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) }
+  }
+
+  // GIF
+  if (buffer.toString('ascii', 0, 3) === 'GIF') {
+    return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) }
+  }
+
+  // BMP
+  if (buffer.toString('ascii', 0, 2) === 'BM') {
+    return { width: buffer.readInt32LE(18), height: Math.abs(buffer.readInt32LE(22)) }
+  }
+
+  // WebP: lossy (VP8), lossless (VP8L) or extended (VP8X)
+  if (buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+    const chunk = buffer.toString('ascii', 12, 16)
+    if (chunk === 'VP8 ' && buffer.length >= 30) {
+      return { width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff }
+    }
+    if (chunk === 'VP8L') {
+      const bits = buffer.readUInt32LE(21)
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 }
+    }
+    if (chunk === 'VP8X' && buffer.length >= 30) {
+      return { width: buffer.readUIntLE(24, 3) + 1, height: buffer.readUIntLE(27, 3) + 1 }
+    }
+    return null
+  }
+
+  // JPEG: walk segments until a start-of-frame marker
+  if (buffer[0] === 0xff && buffer[1] === 0xd8) {
+    let offset = 2
+    while (offset + 9 < buffer.length) {
+      if (buffer[offset] !== 0xff) return null
+      const marker = buffer[offset + 1]!
+      const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc
+      if (isStartOfFrame) {
+        return { width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) }
+      }
+      offset += 2 + buffer.readUInt16BE(offset + 2)
+    }
+  }
+
+  return null
+}
+
+// ============================================================
+// External image tools
+// ============================================================
+
+async function runTool(command: string, args: string[]): Promise<boolean> {
+  try {
+    await execFileAsync(command, args, { timeout: TOOL_TIMEOUT_MS })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Scale an image (or render the first page of a PDF) to fit within maxEdge, as PNG.
+ * Returns false if no suitable tool is installed or conversion failed.
+ */
+async function renderPng(sourcePath: string, outputPath: string, maxEdge: number, mimeType: string): Promise<boolean> {
+  if (process.platform === 'darwin') {
+    if (mimeType.startsWith('image/')) {
+      return runTool('sips', ['-Z', String(maxEdge), '-s', 'format', 'png', sourcePath, '--out', outputPath])
+    }
+    // Quick Look renders PDFs and Office documents as <name>.png in the output folder
+    const outDir = dirname(outputPath)
+    if (!await runTool('qlmanage', ['-t', '-s', String(maxEdge), '-o', outDir, sourcePath])) return false
+    const rendered = join(outDir, `${basename(sourcePath)}.png`)
+    return existsSync(rendered) && rename(rendered, outputPath).then(() => true, () => false)
+  }
+
+  // ImageMagick 7 ships `magick`, older versions `convert`. PDFs need Ghostscript.
+  const args = [`${sourcePath}[0]`, '-thumbnail', `${maxEdge}x${maxEdge}>`, `png:${outputPath}`]
+  return await runTool('magick', args) || await runTool('convert', args)
+}
+
+/**
+ * Generate a base64 PNG thumbnail for an image or document, or null if not possible
+ */
+async function thumbnailFromFile(sourcePath: string, mimeType: string): Promise<string | null> {
+  const supported = mimeType.startsWith('image/') || mimeType === 'application/pdf' || process.platform === 'darwin'
+  if (!supported) return null
+
+  const workDir = mkdtempSync(join(tmpdir(), 'craft-thumb-'))
+  try {
+    const outputPath = join(workDir, 'thumbnail.png')
+    if (!await renderPng(sourcePath, outputPath, THUMBNAIL_SIZE, mimeType) || !existsSync(outputPath)) {
+      return null
+    }
+    return (await readFile(outputPath)).toString('base64')
+  } finally {
+    rmSync(workDir, { recursive: true, force: true })
+  }
+}
+
+/**
+ * Generate a thumbnail from base64 file content (for previews before the file is stored)
+ */
+export async function generateThumbnail(base64: string, mimeType: string): Promise<string | null> {
+  const workDir = mkdtempSync(join(tmpdir(), 'craft-thumb-src-'))
+  try {
+    const sourcePath = join(workDir, `source${extensionForMime(mimeType)}`)
+    await writeFile(sourcePath, Buffer.from(base64, 'base64'))
+    return await thumbnailFromFile(sourcePath, mimeType)
+  } finally {
+    rmSync(workDir, { recursive: true, force: true })
+  }
+}
+
+function extensionForMime(mimeType: string): string {
+  const known: Record<string, string> = {
+    'image/png': '.png',
+    'image/jpeg': '.jpg',
+    'image/gif': '.gif',
+    'image/webp': '.webp',
+    'image/bmp': '.bmp',
+    'image/heic': '.heic',
+    'application/pdf': '.pdf',
+  }
+  return known[mimeType] ?? ''
+}
+
+// ============================================================
+// Storage
+// ============================================================
+
+/**
+ * Make an uploaded file name safe to use on disk
+ */
+function sanitizeFileName(name: string): string {
+  const cleaned = basename(name).replace(/[^\w.\- ()]/g, '_').trim()
+  return cleaned.slice(-120) || 'file'
+}
+
+/**
+ * Original file name of a stored attachment (without the "<id>_" prefix added when storing)
+ */
+export function getAttachmentDisplayName(filePath: string): string {
+  return basename(filePath).replace(/^[0-9a-f-]{36}_/, '')
+}
+
+/**
+ * Whether a path is inside the session's attachments folder
+ */
+export function isInAttachmentsDir(filePath: string, workspaceRootPath: string, sessionId: string): boolean {
+  const dir = resolve(getSessionAttachmentsPath(workspaceRootPath, sessionId))
+  return resolve(filePath).startsWith(dir + sep)
+}
+
+/**
+ * Resolve an attachment file name to its path, or null if it doesn't name a file in the folder
+ */
+export function resolveAttachmentPath(workspaceRootPath: string, sessionId: string, fileName: string): string | null {
+  if (!fileName || fileName !== basename(fileName) || fileName.startsWith('.')) return null
+  const filePath = join(getSessionAttachmentsPath(workspaceRootPath, sessionId), fileName)
+  return existsSync(filePath) && statSync(filePath).isFile() ? filePath : null
+}
+
+/**
+ * Validate an image against Claude API limits. Throws with the validation message
+ * if the image can never be sent.
+ */
+function validateImage(buffer: Buffer, name: string): ReturnType<typeof validateImageForClaudeAPI> {
+  const dimensions = getImageDimensions(buffer)
+  const validation = validateImageForClaudeAPI(buffer.length, dimensions?.width, dimensions?.height)
+  if (!validation.valid) {
+    throw new RpcError('invalid_args', `${name}: ${validation.error}`)
+  }
+  return validation
+}
+
+/**
+ * Save uploaded files into the session's attachments folder.
+ * Returns FileAttachment records (with content loaded, ready to send) for each file.
+ */
+export async function saveUploads(
+  workspaceRootPath: string,
+  sessionId: string,
+  files: File[]
+): Promise<FileAttachment[]> {
+  // Validate everything first so a bad file doesn't leave the others half-stored
+  const uploads: Array<{ file: File; buffer: Buffer }> = []
+  for (const file of files) {
+    if (file.size > MAX_UPLOAD_SIZE) {
+      throw new RpcError('invalid_args', `File too large: ${file.name} (${Math.round(file.size / 1024 / 1024)}MB > 20MB limit)`)
+    }
+    const buffer = Buffer.from(await file.arrayBuffer())
+    if (getMimeType(file.name).startsWith('image/')) {
+      validateImage(buffer, file.name)
+    }
+    uploads.push({ file, buffer })
+  }
+
+  const dir = ensureAttachmentsDir(workspaceRootPath, sessionId)
+  const attachments: FileAttachment[] = []
+  for (const { file, buffer } of uploads) {
+    const storedPath = join(dir, `${crypto.randomUUID()}_${sanitizeFileName(file.name)}`)
+    await writeFile(storedPath, buffer)
+    const attachment = readFileAttachment(storedPath)
+    if (!attachment) {
+      throw new Error(`Failed to read uploaded file: ${file.name}`)
+    }
+    attachments.push({ ...attachment, name: file.name, storedPath })
+  }
+  return attachments
+}
+
+/**
+ * Store an attachment for a session and build its StoredAttachment record.
+ * Files uploaded through saveUploads() are already in place; pasted or dropped content
+ * (base64/text) is written out first.
+ */
+export async function storeAttachment(
+  workspaceRootPath: string,
+  sessionId: string,
+  attachment: FileAttachment
+): Promise<StoredAttachment> {
+  const id = crypto.randomUUID()
+  let storedPath = attachment.storedPath ?? attachment.path
+
+  if (!storedPath || !isInAttachmentsDir(storedPath, workspaceRootPath, sessionId) || !existsSync(storedPath)) {
+    const content = attachment.base64 !== undefined
+      ? Buffer.from(attachment.base64, 'base64')
+      : attachment.text !== undefined ? Buffer.from(attachment.text, 'utf-8') : null
+    if (!content) {
+      throw new RpcError('invalid_args', `Attachment has no content: ${attachment.name}`)
+    }
+    if (content.length > MAX_UPLOAD_SIZE) {
+      throw new RpcError('invalid_args', `File too large: ${attachment.name} (${Math.round(content.length / 1024 / 1024)}MB > 20MB limit)`)
+    }
+    const dir = ensureAttachmentsDir(workspaceRootPath, sessionId)
+    storedPath = join(dir, `${id}_${sanitizeFileName(attachment.name)}`)
+    await writeFile(storedPath, content)
+  }
+
+  const buffer = readFileSync(storedPath)
+  const stored: StoredAttachment = {
+    id,
+    type: attachment.type,
+    name: attachment.name,
+    mimeType: attachment.mimeType,
+    size: buffer.length,
+    storedPath,
+  }
+
+  if (attachment.type === 'image') {
+    const validation = validateImage(buffer, attachment.name)
+    if (validation.needsResize) {
+      // Keep the original on disk, send the resized copy to Claude
+      const resized = await resizeImage(storedPath, attachment.mimeType)
+      if (resized) {
+        stored.wasResized = true
+        stored.originalSize = buffer.length
+        stored.size = resized.length
+        stored.resizedBase64 = resized.toString('base64')
+      }
+    }
+  }
+
+  if (attachment.type === 'image' || attachment.type === 'pdf' || attachment.type === 'office') {
+    const thumbnail = await thumbnailFromFile(storedPath, attachment.mimeType)
+    if (thumbnail) {
+      stored.thumbnailBase64 = thumbnail
+    }
+  }
+
+  if (attachment.markdownPath) {
+    stored.markdownPath = attachment.markdownPath
+  }
+
+  return stored
+}
+
+/**
+ * Downscale an image to the optimal edge for Claude, or null if no tool is available
+ */
+async function resizeImage(sourcePath: string, mimeType: string): Promise<Buffer | null> {
+  const workDir = mkdtempSync(join(tmpdir(), 'craft-resize-'))
+  try {
+    const outputPath = join(workDir, 'resized.png')
+    if (!await renderPng(sourcePath, outputPath, IMAGE_LIMITS.OPTIMAL_EDGE, mimeType) || !existsSync(outputPath)) {
+      return null
+    }
+    const resized = await readFile(outputPath)
+    return resized.length <= IMAGE_LIMITS.MAX_SIZE ? resized : null
+  } finally {
+    rmSync(workDir, { recursive: true, force: true })
+  }
+}
+
+/**
+ * Serve an attachment file. Inline by default so images/PDFs open in the browser;
+ * ?download=1 forces a download.
+ */
+export function attachmentResponse(filePath: string, download: boolean, headers: Record<string, string>): Response {
+  const name = getAttachmentDisplayName(filePath)
+  const mimeType = getMimeType(filePath)
+  // Never render active content (HTML, SVG) inline from our origin
+  const inlineSafe = !download && mimeType !== 'image/svg+xml' && mimeType !== 'application/octet-stream'
+  return new Response(Bun.file(filePath), {
+    headers: {
+      'Content-Type': mimeType === 'text/plain' ? 'text/plain; charset=utf-8' : mimeType,
+      'Content-Disposition': `${inlineSafe ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(name)}`,
+      'X-Content-Type-Options': 'nosniff',
+      'Cache-Control': 'private, max-age=3600',
+      ...headers,
+    },
+  })
+}
+
+// ============================================================
+// HTTP handlers
+// ============================================================
+
+/**
+ * POST /api/attachments - multipart form with `sessionId` and one or more `file` fields.
+ * Responds with the FileAttachment records for the stored files.
+ */
+export async function uploadHandler(
+  req: Request,
+  sm: SessionManager,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  let form: FormData
+  try {
+    form = await req.formData()
+  } catch {
+    return Response.json({ error: 'Expected multipart/form-data' }, { status: 400, headers: corsHeaders })
+  }
+
+  const sessionId = form.get('sessionId')
+  const files = form.getAll('file').filter((entry): entry is File => entry instanceof File)
+  if (typeof sessionId !== 'string' || !sessionId || files.length === 0) {
+    return Response.json({ error: 'sessionId and at least one file are required' }, { status: 400, headers: corsHeaders })
+  }
+
+  try {
+    const attachments = await sm.uploadAttachments(sessionId, files)
+    return Response.json({ result: attachments }, { headers: corsHeaders })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Upload failed'
+    return Response.json({ error: message }, { status: 400, headers: corsHeaders })
+  }
+}
+
+/**
+ * GET /api/attachments/:sessionId/:fileName[?download=1]
+ */
+export function downloadHandler(
+  url: URL,
+  sm: SessionManager,
+  corsHeaders: Record<string, string>
+): Response {
+  let filePath: string | null = null
+  try {
+    const [sessionId, fileName] = url.pathname.slice('/api/attachments/'.length).split('/').map(decodeURIComponent)
+    filePath = sessionId && fileName ? sm.getAttachmentPath(sessionId, fileName) : null
+  } catch {
+    // Malformed escape in the path, or unknown session
+  }
+  if (!filePath) {
+    return new Response('Not Found', { status: 404, headers: corsHeaders })
+  }
+  return attachmentResponse(filePath, url.searchParams.get('download') === '1', corsHeaders)
+}
@@ -0,0 +1,592 @@
+/**
+ * Authentication and access control for the webapp server
+ *
+ * - Login is backed by a password hash (CRAFT_WEBAPP_PASSWORD, hashed on startup)
+ *   or by a generated access token stored in ~/.craft-agent/webapp/auth.json
+ * - In multi-user mode (see users.ts) auth.json holds one account per user instead;
+ *   the first start creates an `admin` account that keeps the existing token, password
+ *   and config root
+ * - Browsers authenticate with an HttpOnly session cookie, scripts with a bearer token
+ * - Cookie-authenticated state-changing RPC calls must carry the session's CSRF token
+ * - CORS is restricted to an origin allowlist instead of '*'
+ * - Behind a reverse proxy listed in CRAFT_WEBAPP_TRUSTED_PROXIES, login throttling and the
+ *   cookie's Secure flag go by the browser's address and scheme the proxy forwards
+ */
+
+import { join, dirname } from 'path'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { randomBytes, timingSafeEqual } from 'crypto'
+import { CONFIG_DIR } from '@craft-agent/shared/config'
+import { RpcError } from './rpc-registry'
+import { isMultiUserMode, getUserConfigDir, type WebappUser } from './users'
+
+const AUTH_FILE = join(CONFIG_DIR, 'webapp', 'auth.json')
+
+export const SESSION_COOKIE = 'craft_session'
+export const CSRF_HEADER = 'X-CSRF-Token'
+
+// Session lifetime (sliding - refreshed on every authenticated request)
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+// Login throttling per client address
+const MAX_FAILED_LOGINS = 5
+const LOGIN_LOCKOUT_MS = 60 * 1000
+
+// User IDs double as directory names
+const USER_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/i
+
+// Account in multi-user mode
+interface UserAccount {
+  id: string
+  admin?: boolean
+  passwordHash?: string
+  accessToken: string
+  /** Config root, defaults to ~/.craft-agent/webapp/users/<id> */
+  configDir?: string
+}
+
+// Persisted auth config (never contains the plain-text password)
+interface AuthConfig {
+  passwordHash?: string
+  accessToken: string
+  users?: UserAccount[]
+}
+
+// Browser login session (in memory - a server restart requires logging in again)
+interface AuthSession {
+  id: string
+  csrfToken: string
+  createdAt: number
+  expiresAt: number
+  /** Logged-in user (multi-user mode) */
+  userId?: string
+}
+
+/**
+ * Result of authenticating a request
+ */
+export interface AuthContext {
+  method: 'cookie' | 'bearer'
+  session?: AuthSession
+  /** The user the request runs as (multi-user mode only) */
+  user?: WebappUser
+}
+
+let authConfig: AuthConfig | null = null
+const sessions = new Map<string, AuthSession>()
+const failedLogins = new Map<string, { count: number; lockedUntil: number }>()
+
+function generateToken(): string {
+  return randomBytes(32).toString('base64url')
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a)
+  const bufB = Buffer.from(b)
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB)
+}
+
+function toWebappUser(account: UserAccount): WebappUser {
+  return {
+    id: account.id,
+    admin: !!account.admin,
+    configDir: account.configDir ?? getUserConfigDir(account.id),
+  }
+}
+
+function findAccount(userId: string | undefined): UserAccount | undefined {
+  return userId ? authConfig?.users?.find(u => u.id === userId) : undefined
+}
+
+function saveAuthConfig(config: AuthConfig): void {
+  const dir = dirname(AUTH_FILE)
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true })
+  }
+  writeFileSync(AUTH_FILE, JSON.stringify(config, null, 2), { mode: 0o600 })
+}
+
+/**
+ * Load (or create) the auth config. Must be called once at server startup.
+ * If CRAFT_WEBAPP_PASSWORD is set, its hash replaces the stored password hash.
+ */
+export async function initializeAuth(): Promise<void> {
+  let config: AuthConfig | null = null
+  if (existsSync(AUTH_FILE)) {
+    try {
+      config = JSON.parse(readFileSync(AUTH_FILE, 'utf-8')) as AuthConfig
+    } catch (error) {
+      console.error('[Auth] Failed to read auth config, regenerating:', error)
+    }
+  }
+
+  let changed = false
+  const tokenGenerated = !config?.accessToken
+  if (!config?.accessToken) {
+    config = { ...config, accessToken: generateToken() }
+    changed = true
+  }
+
+  // Switching to multi-user mode: the existing login becomes the admin account and keeps
+  // the existing config root, so nothing set up in single-user mode is lost
+  const multiUser = isMultiUserMode()
+  if (multiUser && !config.users?.some(u => u.admin)) {
+    config.users = [
+      ...(config.users ?? []),
+      { id: 'admin', admin: true, passwordHash: config.passwordHash, accessToken: config.accessToken, configDir: CONFIG_DIR },
+    ]
+    changed = true
+  }
+
+  // In multi-user mode the password belongs to the first admin
+  const password = process.env.CRAFT_WEBAPP_PASSWORD
+  const passwordOwner = multiUser ? config.users!.find(u => u.admin)! : config
+  if (password) {
+    const alreadyCurrent = passwordOwner.passwordHash && await Bun.password.verify(password, passwordOwner.passwordHash)
+    if (!alreadyCurrent) {
+      passwordOwner.passwordHash = await Bun.password.hash(password)
+      changed = true
+    }
+  }
+
+  if (changed) {
+    saveAuthConfig(config)
+  }
+  authConfig = config
+
+  console.log(`  Auth config: ${AUTH_FILE}`)
+  if (multiUser) {
+    console.log(`  Multi-user mode: ${config.users!.length} user(s)`)
+  } else {
+    console.log(`  Login: ${config.passwordHash ? 'password or access token' : 'access token'}`)
+  }
+  // The token is a long-lived credential - keep it out of service logs after the first start
+  if (tokenGenerated || process.env.CRAFT_WEBAPP_SHOW_TOKEN === '1') {
+    console.log(`  Access token: ${multiUser ? passwordOwner.accessToken : config.accessToken}`)
+  } else {
+    console.log(`  Access token: stored in the auth config (CRAFT_WEBAPP_SHOW_TOKEN=1 prints it)`)
+  }
+}
+
+// ============================================================
+// User accounts (multi-user mode)
+// ============================================================
+
+/**
+ * Accounts without their secrets
+ */
+export function listUsers(): Array<{ id: string; admin: boolean; hasPassword: boolean }> {
+  return (authConfig?.users ?? []).map(u => ({ id: u.id, admin: !!u.admin, hasPassword: !!u.passwordHash }))
+}
+
+/**
+ * The accounts, as the users requests run as
+ */
+export function listAccountUsers(): WebappUser[] {
+  return (authConfig?.users ?? []).map(toWebappUser)
+}
+
+/**
+ * Add an account. Returns its generated access token - the only time it is shown.
+ */
+export async function createUser(
+  userId: string,
+  options?: { password?: string; admin?: boolean }
+): Promise<{ id: string; accessToken: string }> {
+  if (!authConfig) throw new Error('Auth not initialized')
+  if (!USER_ID_PATTERN.test(userId)) {
+    throw new RpcError('invalid_args', 'User IDs may only contain letters, digits, "-" and "_"')
+  }
+  if (findAccount(userId)) {
+    throw new RpcError('invalid_args', `User already exists: ${userId}`)
+  }
+
+  const account: UserAccount = {
+    id: userId,
+    admin: options?.admin || undefined,
+    passwordHash: options?.password ? await Bun.password.hash(options.password) : undefined,
+    accessToken: generateToken(),
+  }
+  authConfig.users = [...(authConfig.users ?? []), account]
+  saveAuthConfig(authConfig)
+  return { id: userId, accessToken: account.accessToken }
+}
+
+/**
+ * Remove an account and end its login sessions. Its config root is left on disk.
+ */
+export function deleteUser(userId: string): void {
+  if (!authConfig || !findAccount(userId)) {
+    throw new RpcError('not_found', `User not found: ${userId}`)
+  }
+  authConfig.users = authConfig.users!.filter(u => u.id !== userId)
+  saveAuthConfig(authConfig)
+  for (const [id, session] of sessions) {
+    if (session.userId === userId) sessions.delete(id)
+  }
+}
+
+// ============================================================
+// Origin allowlist / CORS
+// ============================================================
+
+let allowedOrigins: Set<string> | null = null
+
+/**
+ * Origins allowed to call the API. Configured via CRAFT_WEBAPP_ALLOWED_ORIGINS
+ * (comma-separated); defaults to the Vite dev server and the server itself on localhost,
+ * plus the origin of CRAFT_WEBAPP_PUBLIC_URL (the address behind a reverse proxy).
+ */
+export function getAllowedOrigins(port: number): Set<string> {
+  if (!allowedOrigins) {
+    const configured = process.env.CRAFT_WEBAPP_ALLOWED_ORIGINS
+    const origins = configured
+      ? configured.split(',').map(o => o.trim()).filter(Boolean)
+      : [
+          ...[5173, port].flatMap(p => [`http://localhost:${p}`, `http://127.0.0.1:${p}`]),
+          ...(URL.canParse(process.env.CRAFT_WEBAPP_PUBLIC_URL ?? '') ? [new URL(process.env.CRAFT_WEBAPP_PUBLIC_URL!).origin] : []),
+        ]
+    allowedOrigins = new Set(origins.map(o => o.replace(/\/$/, '')))
+  }
+  return allowedOrigins
+}
+
+/**
+ * Check the request's Origin header. Requests without an Origin (same-origin GETs,
+ * curl, scripts) are allowed; browsers always send it on cross-origin and POST requests.
+ */
+export function isOriginAllowed(req: Request, port: number): boolean {
+  const origin = req.headers.get('Origin')
+  if (!origin) return true
+  if (origin === new URL(req.url).origin) return true
+  return getAllowedOrigins(port).has(origin)
+}
+
+/**
+ * CORS headers for a request - only reflects origins on the allowlist
+ */
+export function getCorsHeaders(req: Request, port: number): Record<string, string> {
+  const origin = req.headers.get('Origin')
+  if (!origin || !getAllowedOrigins(port).has(origin)) {
+    return {}
+  }
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Credentials': 'true',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': `Content-Type, Authorization, ${CSRF_HEADER}`,
+    'Vary': 'Origin',
+  }
+}
+
+// ============================================================
+// Reverse proxies
+// ============================================================
+
+let trustedProxies: Set<string> | null = null
+
+// Bun reports IPv4 peers on dual-stack sockets as ::ffff:a.b.c.d
+function normalizeAddress(address: string): string {
+  return address.trim().replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '').toLowerCase()
+}
+
+/**
+ * Addresses of reverse proxies whose X-Forwarded-For / X-Forwarded-Proto headers are
+ * believed. Configured via CRAFT_WEBAPP_TRUSTED_PROXIES (comma-separated); none by default.
+ */
+function getTrustedProxies(): Set<string> {
+  if (!trustedProxies) {
+    const configured = process.env.CRAFT_WEBAPP_TRUSTED_PROXIES ?? ''
+    trustedProxies = new Set(configured.split(',').map(normalizeAddress).filter(Boolean))
+  }
+  return trustedProxies
+}
+
+/**
+ * The browser's address and whether it uses HTTPS. `peerAddress` is the connection's
+ * address; when that is a trusted proxy, the forwarded headers are used instead.
+ */
+export function getClientInfo(req: Request, peerAddress: string): { address: string; secure: boolean } {
+  const proxies = getTrustedProxies()
+  let address = normalizeAddress(peerAddress)
+  let protocol = new URL(req.url).protocol
+  if (proxies.has(address)) {
+    // Each proxy appends the address it got the request from - the last untrusted one is the browser
+    const forwarded = (req.headers.get('X-Forwarded-For') ?? '').split(',').map(normalizeAddress).filter(Boolean)
+    address = forwarded.reverse().find(hop => !proxies.has(hop)) ?? forwarded.at(-1) ?? address
+    const forwardedProto = req.headers.get('X-Forwarded-Proto')?.split(',')[0]?.trim().toLowerCase()
+    if (forwardedProto) protocol = `${forwardedProto}:`
+  }
+  // A public https:// address means TLS ends somewhere in front of this server
+  const publicUrl = process.env.CRAFT_WEBAPP_PUBLIC_URL ?? ''
+  const secure = protocol === 'https:' || (URL.canParse(publicUrl) && new URL(publicUrl).protocol === 'https:')
+  return { address, secure }
+}
+
+// ============================================================
+// Request authentication
+// ============================================================
+
+function getCookie(req: Request, name: string): string | null {
+  const header = req.headers.get('Cookie')
+  if (!header) return null
+  for (const part of header.split(';')) {
+    const [key, ...rest] = part.trim().split('=')
+    if (key === name) return decodeURIComponent(rest.join('='))
+  }
+  return null
+}
+
+function getValidSession(sessionId: string | null): AuthSession | null {
+  if (!sessionId) return null
+  const session = sessions.get(sessionId)
+  if (!session) return null
+  if (session.expiresAt < Date.now()) {
+    sessions.delete(sessionId)
+    return null
+  }
+  session.expiresAt = Date.now() + SESSION_TTL_MS
+  return session
+}
+
+/**
+ * Authenticate a request via bearer token or session cookie.
+ * EventSource cannot set headers, so `allowQueryToken` lets /api/events accept ?access_token=.
+ */
+export function authenticate(req: Request, options?: { allowQueryToken?: boolean }): AuthContext | null {
+  if (!authConfig) return null
+
+  const authorization = req.headers.get('Authorization')
+  let bearer = authorization?.startsWith('Bearer ') ? authorization.slice(7).trim() : null
+  if (!bearer && options?.allowQueryToken) {
+    bearer = new URL(req.url).searchParams.get('access_token')
+  }
+  if (bearer) {
+    if (isMultiUserMode()) {
+      const account = authConfig.users?.find(u => safeEqual(bearer!, u.accessToken))
+      return account ? { method: 'bearer', user: toWebappUser(account) } : null
+    }
+    return safeEqual(bearer, authConfig.accessToken) ? { method: 'bearer' } : null
+  }
+
+  const session = getValidSession(getCookie(req, SESSION_COOKIE))
+  if (!session) return null
+  if (isMultiUserMode()) {
+    const account = findAccount(session.userId)
+    return account ? { method: 'cookie', session, user: toWebappUser(account) } : null
+  }
+  return { method: 'cookie', session }
+}
+
+/**
+ * Verify the CSRF token for a state-changing request.
+ * Bearer-authenticated requests are exempt: browsers never attach bearer tokens implicitly.
+ * WebSocket upgrades cannot set headers, so `allowQueryToken` accepts ?csrf_token= instead.
+ */
+export function verifyCsrf(req: Request, auth: AuthContext, options?: { allowQueryToken?: boolean }): boolean {
+  if (auth.method === 'bearer') return true
+  let token = req.headers.get(CSRF_HEADER)
+  if (!token && options?.allowQueryToken) {
+    token = new URL(req.url).searchParams.get('csrf_token')
+  }
+  return !!token && !!auth.session && safeEqual(token, auth.session.csrfToken)
+}
+
+/**
+ * Whether an earlier authentication still holds - for long-lived connections,
+ * whose login session may have ended (logout, expiry) since they were opened
+ */
+export function isAuthValid(auth: AuthContext): boolean {
+  // A deleted account loses access right away
+  if (auth.user && !findAccount(auth.user.id)) return false
+  if (auth.method === 'bearer') return true
+  return !!auth.session && getValidSession(auth.session.id) !== null
+}
+
+// ============================================================
+// Login / logout
+// ============================================================
+
+async function verifyAccountSecret(account: { accessToken: string; passwordHash?: string }, secret: string): Promise<boolean> {
+  if (safeEqual(secret, account.accessToken)) return true
+  if (account.passwordHash) {
+    return Bun.password.verify(secret, account.passwordHash)
+  }
+  return false
+}
+
+/**
+ * Check a login. Returns the logged-in user's ID (undefined in single-user mode), or null
+ * if the credentials are wrong. In multi-user mode an access token identifies its user
+ * on its own; a password needs the username.
+ */
+async function verifyCredentials(username: string | undefined, secret: string): Promise<{ userId?: string } | null> {
+  if (!authConfig || !secret) return null
+  if (!isMultiUserMode()) {
+    return await verifyAccountSecret(authConfig, secret) ? {} : null
+  }
+
+  const users = authConfig.users ?? []
+  const account = username
+    ? users.find(u => u.id === username)
+    : users.find(u => safeEqual(secret, u.accessToken))
+  return account && await verifyAccountSecret(account, secret) ? { userId: account.id } : null
+}
+
+function sessionCookie(value: string, maxAgeSeconds: number, secure: boolean): string {
+  return [
+    `${SESSION_COOKIE}=${value}`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Strict',
+    `Max-Age=${maxAgeSeconds}`,
+    ...(secure ? ['Secure'] : []),
+  ].join('; ')
+}
+
+/**
+ * POST /api/auth/login - body: { username?, password } (the password or the access token;
+ * the username is only used in multi-user mode). Failed logins are counted per browser address.
+ */
+export async function loginHandler(req: Request, peerAddress: string): Promise<Response> {
+  const { address: clientAddress, secure } = getClientInfo(req, peerAddress)
+  const attempts = failedLogins.get(clientAddress)
+  if (attempts && attempts.lockedUntil > Date.now()) {
+    return Response.json({ error: 'Too many failed attempts, try again later' }, { status: 429 })
+  }
+
+  let body: { username?: string; password?: string }
+  try {
+    body = await req.json() as { username?: string; password?: string }
+  } catch {
+    return Response.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  const verified = await verifyCredentials(body.username?.trim() || undefined, body.password ?? '')
+  if (!verified) {
+    const count = (attempts?.count ?? 0) + 1
+    failedLogins.set(clientAddress, {
+      count: count >= MAX_FAILED_LOGINS ? 0 : count,
+      lockedUntil: count >= MAX_FAILED_LOGINS ? Date.now() + LOGIN_LOCKOUT_MS : 0,
+    })
+    return Response.json({ error: 'Invalid credentials' }, { status: 401 })
+  }
+  failedLogins.delete(clientAddress)
+
+  const now = Date.now()
+  const session: AuthSession = {
+    id: generateToken(),
+    csrfToken: generateToken(),
+    createdAt: now,
+    expiresAt: now + SESSION_TTL_MS,
+    userId: verified.userId,
+  }
+  sessions.set(session.id, session)
+
+  return Response.json({ csrfToken: session.csrfToken }, {
+    headers: { 'Set-Cookie': sessionCookie(session.id, SESSION_TTL_MS / 1000, secure) },
+  })
+}
+
+/**
+ * POST /api/auth/logout - ends the cookie session
+ */
+export function logoutHandler(req: Request, auth: AuthContext, peerAddress: string): Response {
+  if (auth.session) {
+    sessions.delete(auth.session.id)
+  }
+  const { secure } = getClientInfo(req, peerAddress)
+  return Response.json({ success: true }, {
+    headers: { 'Set-Cookie': sessionCookie('', 0, secure) },
+  })
+}
+
+/**
+ * GET /api/auth/session - lets the browser check its login state and fetch the CSRF token
+ */
+export function sessionInfoHandler(auth: AuthContext | null): Response {
+  if (!auth) {
+    return Response.json({ authenticated: false }, { status: 401 })
+  }
+  return Response.json({
+    authenticated: true,
+    method: auth.method,
+    csrfToken: auth.session?.csrfToken,
+    user: auth.user && { id: auth.user.id, admin: auth.user.admin },
+  })
+}
+
+/**
+ * Only redirect after login to relative paths or allowlisted origins (no open redirects)
+ */
+function getSafeRedirect(next: string | null, port: number): string {
+  if (!next) return './'
+  try {
+    // Resolve like a browser would - `//host`, `/\host` and `/<tab>/host` all leave the site
+    const base = 'http://webapp.invalid'
+    const url = new URL(next, base)
+    if (url.origin === base && next.startsWith('/')) return url.pathname + url.search + url.hash
+    return getAllowedOrigins(port).has(url.origin) ? url.href : './'
+  } catch {
+    return './'
+  }
+}
+
+/**
+ * GET /login - minimal standalone login page (the app bundle itself requires auth)
+ */
+export function loginPageHandler(req: Request, port: number): Response {
+  const next = getSafeRedirect(new URL(req.url).searchParams.get('next'), port)
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Craft Agents (Web) - Sign in</title>
+  <style>
+    body { font-family: system-ui, sans-serif; display:flex; align-items:center; justify-content:center; height:100vh; margin:0; background:#fafafa; color:#111; }
+    form { display:flex; flex-direction:column; gap:12px; width:320px; }
+    input, button { font-size:14px; padding:8px 10px; border-radius:6px; border:1px solid #ccc; }
+    button { background:#111; color:#fff; border:none; cursor:pointer; }
+    #error { color:#c00; font-size:13px; min-height:1em; }
+    @media (prefers-color-scheme:dark) { body { background:#111; color:#eee; } input { background:#222; color:#eee; border-color:#444; } button { background:#eee; color:#111; } }
+  </style>
+</head>
+<body>
+  <form id="login">
+    <h2>Craft Agents</h2>
+    ${isMultiUserMode() ? '<input id="username" type="text" placeholder="Username (not needed with an access token)" autofocus autocomplete="username">' : ''}
+    <input id="secret" type="password" placeholder="Password or access token" ${isMultiUserMode() ? '' : 'autofocus '}autocomplete="current-password">
+    <button type="submit">Sign in</button>
+    <div id="error"></div>
+  </form>
+  <script>
+    const next = ${JSON.stringify(next).replace(/</g, '\\u003c')}
+    document.getElementById('login').addEventListener('submit', async (e) => {
+      e.preventDefault()
+      const res = await fetch('api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          username: document.getElementById('username')?.value,
+          password: document.getElementById('secret').value,
+        }),
+      })
+      if (res.ok) {
+        location.href = next
+      } else {
+        const data = await res.json().catch(() => ({}))
+        document.getElementById('error').textContent = data.error || 'Sign in failed'
+      }
+    })
+  </script>
+</body>
+</html>`
+  return new Response(html, {
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Content-Security-Policy': "default-src 'none'; script-src 'unsafe-inline'; style-src 'unsafe-inline'; connect-src 'self'; form-action 'self'; frame-ancestors 'none'",
+    },
+  })
+}
@@ -0,0 +1,260 @@
+/**
+ * Background shells and tasks for the webapp
+ *
+ * Bash commands run in the background and async Task subagents are owned by the Claude Code
+ * subprocess, which writes their output to `<tmp>/claude/<cwd>/tasks/<id>.output`. The
+ * webapp follows those files to stream output, and claims each shell's own process among the
+ * server's descendants (by its command line) to tell whether it still runs and to kill it.
+ */
+
+import { realpathSync } from 'fs'
+import { open, type FileHandle } from 'fs/promises'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { execFile } from 'child_process'
+import { promisify } from 'util'
+
+const execFileAsync = promisify(execFile)
+
+// Largest output chunk read per poll - a chatty process catches up over several polls
+const MAX_CHUNK_BYTES = 256 * 1024
+// Most output returned at once for a job - older output stays in its file
+const MAX_TAIL_BYTES = 1024 * 1024
+// Reuse of one process listing across the sessions polling in the same tick
+const SNAPSHOT_MAX_AGE_MS = 500
+
+export type BackgroundJobKind = 'shell' | 'task'
+export type BackgroundJobStatus = 'running' | 'completed' | 'killed'
+
+/**
+ * A background shell (Bash run_in_background) or task (async Task subagent)
+ */
+export interface BackgroundJob {
+  /** Shell ID or task (agent) ID */
+  id: string
+  kind: BackgroundJobKind
+  /** Tool call that started the job */
+  toolUseId: string
+  intent?: string
+  /** Shell command line */
+  command?: string
+  status: BackgroundJobStatus
+  startedAt: number
+  /** Reported by task_progress while the task runs */
+  elapsedSeconds?: number
+}
+
+/**
+ * A job as the session manager tracks it - where its output is and how much was streamed
+ */
+export interface TrackedBackgroundJob extends BackgroundJob {
+  outputFile: string
+  outputOffset: number
+  /** Process claimed by a shell once seen running */
+  pid?: number
+}
+
+export function toBackgroundJob({ outputFile, outputOffset, pid, ...job }: TrackedBackgroundJob): BackgroundJob {
+  return job
+}
+
+// ============================================================
+// Output
+// ============================================================
+
+/**
+ * Output file the Claude Code subprocess writes for a background job. The tool result
+ * names it for recent versions; otherwise it is derived the same way the CLI does.
+ */
+export function getJobOutputFile(jobId: string, sdkCwd: string, toolResult?: string): string {
+  const named = toolResult?.match(new RegExp(`(/\\S+/tasks/${jobId}\\.output)`))
+  if (named) return named[1]!
+
+  let tempRoot = process.env.CLAUDE_CODE_TMPDIR || (process.platform === 'win32' ? tmpdir() : '/tmp')
+  try {
+    tempRoot = realpathSync(tempRoot)
+  } catch {
+    // Use as is
+  }
+  return join(tempRoot, 'claude', sdkCwd.replace(/[^a-zA-Z0-9]/g, '-'), 'tasks', `${jobId.replace(/[^a-zA-Z0-9_-]/g, '-')}.output`)
+}
+
+/**
+ * Output written since `offset`, at most one chunk (empty when there is nothing new or no file yet)
+ */
+export async function readJobOutput(outputFile: string, offset: number): Promise<{ output: string; offset: number }> {
+  let file: FileHandle
+  try {
+    file = await open(outputFile, 'r')
+  } catch {
+    return { output: '', offset }
+  }
+  try {
+    const { size } = await file.stat()
+    if (size <= offset) return { output: '', offset }
+
+    const length = Math.min(size - offset, MAX_CHUNK_BYTES)
+    // One byte past the chunk tells whether it ends inside a character
+    const buffer = Buffer.alloc(Math.min(size - offset, length + 1))
+    await file.read(buffer, 0, buffer.length, offset)
+    // Don't split a multi-byte character - the rest comes with the next read
+    let end = length
+    while (end > 0 && end < buffer.length && (buffer[end]! & 0xc0) === 0x80) end--
+    return { output: buffer.subarray(0, end).toString('utf-8'), offset: offset + end }
+  } finally {
+    await file.close()
+  }
+}
+
+/**
+ * Latest output of a job, up to MAX_TAIL_BYTES (empty if it wrote nothing yet)
+ */
+export async function readJobOutputTail(outputFile: string): Promise<string> {
+  let file: FileHandle
+  try {
+    file = await open(outputFile, 'r')
+  } catch {
+    return ''
+  }
+  try {
+    const { size } = await file.stat()
+    const start = Math.max(0, size - MAX_TAIL_BYTES)
+    const buffer = Buffer.alloc(size - start)
+    await file.read(buffer, 0, buffer.length, start)
+    if (start === 0) return buffer.toString('utf-8')
+    // Start at a character boundary
+    let begin = 0
+    while (begin < buffer.length && (buffer[begin]! & 0xc0) === 0x80) begin++
+    return `[Earlier output truncated]\n${buffer.subarray(begin).toString('utf-8')}`
+  } finally {
+    await file.close()
+  }
+}
+
+// ============================================================
+// Shell processes
+// ============================================================
+
+export interface ProcessInfo {
+  pid: number
+  ppid: number
+  /** Seconds since the process started */
+  elapsed: number
+  args: string
+}
+
+// Processes claimed by a tracked shell - two shells running the same command get one each
+const claimedPids = new Set<number>()
+
+let snapshot: { at: number; processes: Promise<ProcessInfo[]> } | undefined
+
+// The CLI wraps commands in `eval '...'` - compare without quoting
+function normalizeCommand(command: string): string {
+  return command.replace(/['"\\]/g, '').replace(/\s+/g, ' ').trim()
+}
+
+// ps prints elapsed time as [[dd-]hh:]mm:ss
+function parseElapsed(etime: string): number {
+  const [days, clock] = etime.includes('-') ? etime.split('-') : ['0', etime]
+  return Number(days) * 86400 + clock!.split(':').reduce((total, part) => total * 60 + Number(part), 0)
+}
+
+/**
+ * Processes started (directly or not) by this server. Sessions polling in the same
+ * second share one `ps` run.
+ */
+export function listDescendantProcesses(): Promise<ProcessInfo[]> {
+  if (!snapshot || Date.now() - snapshot.at >= SNAPSHOT_MAX_AGE_MS) {
+    snapshot = { at: Date.now(), processes: readProcessTable() }
+  }
+  return snapshot.processes
+}
+
+async function readProcessTable(): Promise<ProcessInfo[]> {
+  if (process.platform === 'win32') return []
+  let output: string
+  try {
+    // -ww: don't cut commands off at the terminal width (COLUMNS), or long ones never match
+    ({ stdout: output } = await execFileAsync('ps', ['-A', '-ww', '-o', 'pid=,ppid=,etime=,args='], { encoding: 'utf-8', timeout: 5000, maxBuffer: 16 * 1024 * 1024 }))
+  } catch {
+    return []
+  }
+
+  const processes = output.split('\n').flatMap(line => {
+    const match = line.match(/^\s*(\d+)\s+(\d+)\s+([\d:-]+)\s+(.*)$/)
+    return match ? [{ pid: Number(match[1]), ppid: Number(match[2]), elapsed: parseElapsed(match[3]!), args: match[4]! }] : []
+  })
+  const descendants: ProcessInfo[] = []
+  const parents = new Set([process.pid])
+  // ps lists parents before children in practice, but not reliably - repeat until stable
+  let found = true
+  while (found) {
+    found = false
+    for (const info of processes) {
+      if (!parents.has(info.pid) && parents.has(info.ppid)) {
+        parents.add(info.pid)
+        descendants.push(info)
+        found = true
+      }
+    }
+  }
+  return descendants
+}
+
+/**
+ * The process of a background shell: the most recently started topmost descendant running
+ * exactly its command that no other shell claimed yet
+ */
+function claimShellProcess(command: string, processes: ProcessInfo[]): number | undefined {
+  const wanted = normalizeCommand(command)
+  if (!wanted) return undefined
+  // The whole command, not a prefix of a longer one (`sleep 1` is not `sleep 10`)
+  const pattern = new RegExp(`(^|\\s)${wanted.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(\\s|$)`)
+  const matches = new Set(processes.filter(info => pattern.test(normalizeCommand(info.args))).map(info => info.pid))
+  const candidates = processes
+    .filter(info => matches.has(info.pid) && !matches.has(info.ppid) && !claimedPids.has(info.pid))
+    .sort((a, b) => a.elapsed - b.elapsed)
+  const pid = candidates[0]?.pid
+  if (pid !== undefined) claimedPids.add(pid)
+  return pid
+}
+
+/**
+ * Whether a background shell still runs. Its process is claimed the first time it is seen.
+ */
+export function isShellRunning(job: TrackedBackgroundJob, processes: ProcessInfo[]): boolean {
+  if (job.pid === undefined && job.command) job.pid = claimShellProcess(job.command, processes)
+  return job.pid !== undefined && processes.some(info => info.pid === job.pid)
+}
+
+/**
+ * Let another shell claim the process of a finished one
+ */
+export function releaseShellProcess(job: TrackedBackgroundJob): void {
+  if (job.pid !== undefined) claimedPids.delete(job.pid)
+}
+
+/**
+ * Terminate a background shell and the processes it started. Returns false if it was not running.
+ */
+export async function killShellProcesses(job: TrackedBackgroundJob): Promise<boolean> {
+  const processes = await listDescendantProcesses()
+  if (!isShellRunning(job, processes)) return false
+
+  const pids = new Set<number>()
+  const addTree = (pid: number) => {
+    pids.add(pid)
+    for (const child of processes) {
+      if (child.ppid === pid && !pids.has(child.pid)) addTree(child.pid)
+    }
+  }
+  addTree(job.pid!)
+  for (const pid of pids) {
+    try {
+      process.kill(pid, 'SIGTERM')
+    } catch {
+      // Already exited
+    }
+  }
+  return true
+}
@@ -0,0 +1,182 @@
+/**
+ * Server-side directory browser
+ *
+ * Browsers can't show native folder dialogs for the server's file system, so the web UI
+ * browses it through listDirectory instead. Browsing (and any path the UI hands back, e.g.
+ * a workspace folder or session working directory) is restricted to the configured roots:
+ * CRAFT_WEBAPP_BROWSE_ROOTS (comma-separated), defaulting to the home directory.
+ *
+ * In multi-user mode the config directory holds every user's config root, so a user
+ * can't reach into it beyond their own root and the shared workspaces they belong to.
+ */
+
+import { existsSync, readdirSync, realpathSync, statSync } from 'fs'
+import { homedir } from 'os'
+import { basename, dirname, isAbsolute, join, relative, resolve } from 'path'
+import { CONFIG_DIR } from '@craft-agent/shared/config'
+import { isValidWorkspace, getDefaultWorkspacesDir } from '@craft-agent/shared/workspaces'
+import { RpcError } from './rpc-registry'
+import { getCurrentUser, getSharedWorkspacesForUser } from './users'
+
+// Cap on entries returned for one directory
+const MAX_ENTRIES = 1000
+
+export interface DirectoryEntry {
+  name: string
+  path: string
+  isGitRepo: boolean
+  gitBranch: string | null
+  isWorkspace: boolean
+}
+
+export interface DirectoryListing {
+  /** Listed directory, or null when listing the roots */
+  path: string | null
+  /** Parent directory, or null at a root */
+  parent: string | null
+  roots: string[]
+  gitBranch: string | null
+  isWorkspace: boolean
+  entries: DirectoryEntry[]
+  /** True if entries were cut off at MAX_ENTRIES */
+  truncated: boolean
+}
+
+// Resolved CRAFT_WEBAPP_BROWSE_ROOTS, and the value they were resolved from
+let configuredRoots: { value: string; roots: string[] } | null = null
+
+/**
+ * Resolve symlinks for a path that may not exist yet (e.g. a new workspace folder),
+ * using its closest existing ancestor
+ */
+function realpathOrAncestor(path: string): string {
+  const absolute = resolve(path)
+  let existing = absolute
+  while (!existsSync(existing)) {
+    const parent = dirname(existing)
+    if (parent === existing) return absolute
+    existing = parent
+  }
+  return join(realpathSync(existing), relative(existing, absolute))
+}
+
+function isWithin(root: string, path: string): boolean {
+  const rel = relative(root, path)
+  return rel === '' || (!rel.startsWith('..') && !isAbsolute(rel))
+}
+
+function getSharedWorkspaceRoots(): string[] {
+  return getSharedWorkspacesForUser(getCurrentUser()?.id).map(workspace => realpathOrAncestor(workspace.rootPath))
+}
+
+/**
+ * Directories that can be browsed (symlinks resolved, nested roots removed)
+ */
+export function getBrowseRoots(): string[] {
+  const value = process.env.CRAFT_WEBAPP_BROWSE_ROOTS ?? ''
+  if (configuredRoots?.value !== value) {
+    const configured = value
+      .split(',')
+      .map(root => root.trim().replace(/^~(?=$|\/)/, homedir()))
+      .filter(Boolean)
+    configuredRoots = { value, roots: (configured.length > 0 ? configured : [homedir()]).map(realpathOrAncestor) }
+  }
+
+  // Workspaces are created in the user's default workspaces directory, so it is always browsable
+  const candidates = [...new Set(
+    [...configuredRoots.roots, realpathOrAncestor(getDefaultWorkspacesDir()), ...getSharedWorkspaceRoots()]
+  )]
+  return candidates.filter(root => !candidates.some(other => other !== root && isWithin(other, root)))
+}
+
+/**
+ * Whether a path is inside the config directory but belongs to someone else (multi-user mode)
+ */
+function isOtherUsersConfig(realPath: string): boolean {
+  const user = getCurrentUser()
+  if (!user || !isWithin(realpathOrAncestor(CONFIG_DIR), realPath)) return false
+  if (isWithin(realpathOrAncestor(user.configDir), realPath)) return false
+  return !getSharedWorkspaceRoots().some(root => isWithin(root, realPath))
+}
+
+/**
+ * Whether a path is inside one of the browse roots
+ */
+export function isPathAllowed(path: string): boolean {
+  if (!isAbsolute(path)) return false
+  const real = realpathOrAncestor(path)
+  return getBrowseRoots().some(root => isWithin(root, real)) && !isOtherUsersConfig(real)
+}
+
+/**
+ * Throw if a path from the client is outside the browse roots
+ */
+export function assertPathAllowed(path: string): void {
+  if (!isPathAllowed(path)) {
+    throw new RpcError('unauthorized', `Access denied: ${path} is outside the allowed directories`)
+  }
+}
+
+/**
+ * List the subdirectories of a directory, or the browse roots when no path is given
+ */
+export function listDirectory(
+  path: string | undefined,
+  getGitBranch: (dirPath: string) => string | null,
+  options?: { showHidden?: boolean }
+): DirectoryListing {
+  const roots = getBrowseRoots()
+
+  const toEntry = (entryPath: string, name = basename(entryPath)): DirectoryEntry => {
+    const isGitRepo = existsSync(join(entryPath, '.git'))
+    return {
+      name,
+      path: entryPath,
+      isGitRepo,
+      gitBranch: isGitRepo ? getGitBranch(entryPath) : null,
+      isWorkspace: isValidWorkspace(entryPath),
+    }
+  }
+
+  if (!path) {
+    return {
+      path: null,
+      parent: null,
+      roots,
+      gitBranch: null,
+      isWorkspace: false,
+      entries: roots.map(root => toEntry(root, root)),
+      truncated: false,
+    }
+  }
+
+  assertPathAllowed(path)
+  const dirPath = realpathSync(path)
+
+  const names = readdirSync(dirPath, { withFileTypes: true })
+    .filter(entry => options?.showHidden || !entry.name.startsWith('.'))
+    .filter(entry => {
+      if (entry.isDirectory()) return true
+      // Follow symlinks, but only to directories that stay inside the roots
+      if (!entry.isSymbolicLink()) return false
+      const target = join(dirPath, entry.name)
+      try {
+        return isPathAllowed(target) && statSync(target).isDirectory()
+      } catch {
+        return false
+      }
+    })
+    .map(entry => entry.name)
+    .sort((a, b) => a.localeCompare(b))
+
+  const isRoot = roots.includes(dirPath)
+  return {
+    path: dirPath,
+    parent: isRoot ? null : dirname(dirPath),
+    roots,
+    gitBranch: getGitBranch(dirPath),
+    isWorkspace: isValidWorkspace(dirPath),
+    entries: names.slice(0, MAX_ENTRIES).map(name => toEntry(join(dirPath, name))),
+    truncated: names.length > MAX_ENTRIES,
+  }
+}
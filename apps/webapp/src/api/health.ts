@@ -0,0 +1,70 @@
+/**
+ * Health check for the webapp
+ *
+ * GET /api/health answers without a login so load balancers can probe it. Logged-in requests
+ * (running as their user) also get what the agent needs to work: whether API credentials are
+ * set up, whether the encrypted credential store can be used, and config validation
+ * (validateAll) for the global config and the active workspace. The status is `degraded`
+ * when any of them fails - the server itself is still up.
+ */
+
+import { getAuthState } from '@craft-agent/shared/auth'
+import { getCredentialManager } from '@craft-agent/shared/credentials'
+import { validateAll, type ValidationIssue } from '@craft-agent/shared/config'
+
+export interface HealthReport {
+  status: 'ok' | 'degraded'
+  timestamp: number
+  uptimeSeconds: number
+  auth: {
+    type: string | null
+    hasCredentials: boolean
+  }
+  credentials: {
+    available: boolean
+    backend: string | null
+  }
+  config: {
+    valid: boolean
+    errors: ValidationIssue[]
+    warningCount: number
+  }
+}
+
+const startedAt = Date.now()
+
+export async function getHealthReport(): Promise<HealthReport> {
+  const authState = await getAuthState()
+
+  const manager = getCredentialManager()
+  let backend: string | null = null
+  try {
+    await manager.initialize()
+    backend = manager.getActiveBackendName()
+  } catch (error) {
+    console.error('[health] Credential store unavailable:', error)
+  }
+
+  const workspace = authState.workspace.active
+  const validation = validateAll(workspace?.id, workspace?.rootPath)
+
+  const healthy = authState.billing.hasCredentials && backend !== null && validation.valid
+  return {
+    status: healthy ? 'ok' : 'degraded',
+    timestamp: Date.now(),
+    uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+    auth: {
+      type: authState.billing.type,
+      hasCredentials: authState.billing.hasCredentials,
+    },
+    credentials: {
+      available: backend !== null,
+      backend,
+    },
+    config: {
+      valid: validation.valid,
+      errors: validation.errors,
+      warningCount: validation.warnings.length,
+    },
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Prometheus metrics for the webapp
+ *
+ * GET /api/metrics serves the text exposition format. Counters are kept in memory since the
+ * server started: turns and their duration, tool calls and failures by tool, agent errors by
+ * code (parseError's classification) and token usage and cost. Gauges are read when scraped -
+ * connected event clients, loaded sessions and agents, running and waiting turns, and the
+ * shared perf spans (collected when perf tracking or debug mode is on).
+ */
+
+import { getStats as getPerfStats } from '@craft-agent/shared/utils'
+import type { SessionTokenUsage } from '@craft-agent/shared/sessions'
+import { getClientCount } from './sse'
+import { getAgentPoolStatus } from './agent-pool'
+
+export type TurnOutcome = 'completed' | 'stopped' | 'error'
+
+// Turn duration histogram buckets, in seconds
+const TURN_DURATION_BUCKETS = [1, 5, 10, 30, 60, 120, 300, 600, 1800]
+
+const startedAt = Date.now()
+
+const turns = new Map<TurnOutcome, number>()
+const turnDurationBuckets = TURN_DURATION_BUCKETS.map(() => 0)
+let turnDurationCount = 0
+let turnDurationSum = 0
+
+const toolCalls = new Map<string, { calls: number; errors: number }>()
+const agentErrors = new Map<string, number>()
+const tokens = { input: 0, output: 0, cacheRead: 0, cacheCreation: 0 }
+let costUsd = 0
+
+// ============================================================
+// Recording
+// ============================================================
+
+export function recordTurn(outcome: TurnOutcome, durationMs: number): void {
+  turns.set(outcome, (turns.get(outcome) ?? 0) + 1)
+  const seconds = durationMs / 1000
+  TURN_DURATION_BUCKETS.forEach((bound, index) => {
+    if (seconds <= bound) turnDurationBuckets[index]!++
+  })
+  turnDurationCount++
+  turnDurationSum += seconds
+}
+
+export function recordToolCall(toolName: string, isError: boolean): void {
+  const counts = toolCalls.get(toolName) ?? { calls: 0, errors: 0 }
+  counts.calls++
+  if (isError) counts.errors++
+  toolCalls.set(toolName, counts)
+}
+
+/**
+ * Count an error the agent reported, by its ErrorCode
+ */
+export function recordAgentError(code: string): void {
+  agentErrors.set(code, (agentErrors.get(code) ?? 0) + 1)
+}
+
+export function recordTokenUsage(usage: SessionTokenUsage): void {
+  tokens.input += usage.inputTokens
+  tokens.output += usage.outputTokens
+  tokens.cacheRead += usage.cacheReadTokens ?? 0
+  tokens.cacheCreation += usage.cacheCreationTokens ?? 0
+  costUsd += usage.costUsd
+}
+
+// ============================================================
+// Exposition
+// ============================================================
+
+type Labels = Record<string, string>
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+function sample(name: string, value: number, labels?: Labels): string {
+  const pairs = Object.entries(labels ?? {}).map(([key, label]) => `${key}="${escapeLabel(label)}"`)
+  return `${name}${pairs.length > 0 ? `{${pairs.join(',')}}` : ''} ${value}`
+}
+
+/**
+ * Metrics in the Prometheus text format
+ */
+export function renderMetrics(): string {
+  const lines: string[] = []
+  const metric = (name: string, type: string, help: string, samples: string[]) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`, ...samples)
+  }
+  const pool = getAgentPoolStatus()
+
+  metric('craft_uptime_seconds', 'gauge', 'Seconds since the server started', [
+    sample('craft_uptime_seconds', Math.round((Date.now() - startedAt) / 1000)),
+  ])
+  metric('craft_process_memory_bytes', 'gauge', 'Server process memory', [
+    sample('craft_process_memory_bytes', pool.memory.rss, { type: 'rss' }),
+    sample('craft_process_memory_bytes', pool.memory.heapUsed, { type: 'heap_used' }),
+  ])
+  metric('craft_event_clients', 'gauge', 'Connected SSE and WebSocket clients', [
+    sample('craft_event_clients', getClientCount()),
+  ])
+  metric('craft_live_sessions', 'gauge', 'Sessions loaded in memory', [
+    sample('craft_live_sessions', pool.agents.length),
+  ])
+  metric('craft_live_agents', 'gauge', 'Loaded sessions with a created agent', [
+    sample('craft_live_agents', pool.agents.filter(agent => agent.agentLoaded).length),
+  ])
+  metric('craft_turns_in_progress', 'gauge', 'Turns running', [
+    sample('craft_turns_in_progress', pool.runningTurns),
+  ])
+  metric('craft_turns_waiting', 'gauge', 'Turns waiting for a free agent slot', [
+    sample('craft_turns_waiting', pool.waitingTurns),
+  ])
+
+  metric('craft_turns_total', 'counter', 'Finished turns by outcome', [...turns].map(([outcome, count]) =>
+    sample('craft_turns_total', count, { outcome })))
+  metric('craft_turn_duration_seconds', 'histogram', 'Time from a turn starting to run until it ends', [
+    ...TURN_DURATION_BUCKETS.map((bound, index) =>
+      sample('craft_turn_duration_seconds_bucket', turnDurationBuckets[index]!, { le: String(bound) })),
+    sample('craft_turn_duration_seconds_bucket', turnDurationCount, { le: '+Inf' }),
+    sample('craft_turn_duration_seconds_sum', turnDurationSum),
+    sample('craft_turn_duration_seconds_count', turnDurationCount),
+  ])
+
+  metric('craft_tool_calls_total', 'counter', 'Tool calls by tool', [...toolCalls].map(([tool, counts]) =>
+    sample('craft_tool_calls_total', counts.calls, { tool })))
+  metric('craft_tool_errors_total', 'counter', 'Tool calls that returned an error, by tool', [...toolCalls].map(([tool, counts]) =>
+    sample('craft_tool_errors_total', counts.errors, { tool })))
+  metric('craft_agent_errors_total', 'counter', 'Errors reported by agents, by error code', [...agentErrors].map(([code, count]) =>
+    sample('craft_agent_errors_total', count, { code })))
+
+  metric('craft_tokens_total', 'counter', 'Tokens used by finished turns', [
+    sample('craft_tokens_total', tokens.input, { type: 'input' }),
+    sample('craft_tokens_total', tokens.output, { type: 'output' }),
+    sample('craft_tokens_total', tokens.cacheRead, { type: 'cache_read' }),
+    sample('craft_tokens_total', tokens.cacheCreation, { type: 'cache_creation' }),
+  ])
+  metric('craft_cost_usd_total', 'counter', 'Cost of finished turns in USD', [
+    sample('craft_cost_usd_total', costUsd),
+  ])
+
+  const perfStats = [...getPerfStats()]
+  metric('craft_perf_duration_milliseconds', 'summary', 'Instrumented operations (perf spans)', perfStats.flatMap(([operation, stats]) => [
+    sample('craft_perf_duration_milliseconds', stats.p50Ms, { operation, quantile: '0.5' }),
+    sample('craft_perf_duration_milliseconds', stats.p95Ms, { operation, quantile: '0.95' }),
+    sample('craft_perf_duration_milliseconds_sum', stats.totalMs, { operation }),
+    sample('craft_perf_duration_milliseconds_count', stats.count, { operation }),
+  ]))
+
+  return lines.join('\n') + '\n'
+}
+
+// ============================================================
+// HTTP handler
+// ============================================================
+
+/**
+ * GET /api/metrics
+ */
+export function metricsHandler(corsHeaders: Record<string, string>): Response {
+  return new Response(renderMetrics(), {
+    headers: { ...corsHeaders, 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8', 'Cache-Control': 'no-cache' },
+  })
+}
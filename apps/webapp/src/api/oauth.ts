@@ -0,0 +1,347 @@
+/**
+ * OAuth in the browser
+ *
+ * The desktop app receives OAuth redirects on a temporary localhost server and opens the
+ * system browser itself. Here the user's browser may be on another machine, so the start
+ * RPCs return the authorization URL for the client to open, and providers redirect back to
+ * GET /oauth/callback/:provider on this server. The callback exchanges the code, stores the
+ * tokens for the user who started the flow and broadcasts an `oauth_complete` event.
+ *
+ * Claude OAuth works differently: its redirect lands on Anthropic's console, which shows a
+ * code the user pastes back into exchangeClaudeCode. Its state is kept per user here.
+ */
+
+import {
+  generatePKCE,
+  generateState,
+  generateCallbackPage,
+  createClaudeAuthorization,
+  exchangeClaudeCode as exchangeClaudeAuthorizationCode,
+  CraftOAuth,
+  getMcpBaseUrl,
+  buildGoogleAuthUrl,
+  exchangeGoogleCode,
+  getGoogleScopes,
+  isGoogleOAuthConfigured,
+  buildSlackAuthUrl,
+  exchangeSlackCode,
+  getSlackScopes,
+  isSlackOAuthConfigured,
+  buildMicrosoftAuthUrl,
+  exchangeMicrosoftCode,
+  getMicrosoftScopes,
+  isMicrosoftOAuthConfigured,
+  type ClaudeOAuthState,
+  type OAuthCallbacks,
+} from '@craft-agent/shared/auth'
+import { getCredentialManager } from '@craft-agent/shared/credentials'
+import { getSourceCredentialManager, type LoadedSource } from '@craft-agent/shared/sources'
+import { RpcError, type BroadcastFn } from './rpc-registry'
+import { getCurrentUser, runAsUser, type WebappUser } from './users'
+
+export type OAuthProvider = 'google' | 'slack' | 'microsoft' | 'mcp'
+
+// How long the user has to finish authorizing
+const FLOW_EXPIRY_MS = 10 * 60 * 1000
+// How long a finished flow's result can be fetched (clients that missed the event)
+const RESULT_TTL_MS = 5 * 60 * 1000
+
+/**
+ * A started flow - the client opens `authUrl` and waits for `oauth_complete` with this flowId
+ */
+export interface OAuthFlowStart {
+  flowId: string
+  authUrl: string
+}
+
+export interface OAuthFlowResult {
+  success: boolean
+  error?: string
+  /** Account the source was connected to (email, or the team name for Slack) */
+  email?: string
+  /** Workspace MCP flows hand the token to the client, which saves it with the onboarding config */
+  accessToken?: string
+  clientId?: string
+}
+
+interface PendingFlow {
+  provider: OAuthProvider
+  user?: WebappUser
+  expiresAt: number
+  /** Exchange the code and store the tokens */
+  complete: (code: string) => Promise<Omit<OAuthFlowResult, 'success'>>
+  /** Extra fields for the completion event (e.g. which source was connected) */
+  target: Record<string, string>
+  /** Called as the user who started the flow once it finished (successfully or not) */
+  onFinished?: (result: OAuthFlowResult) => void
+}
+
+// Keyed by the OAuth `state`, which doubles as the flow ID
+const pendingFlows = new Map<string, PendingFlow>()
+const finishedFlows = new Map<string, { userId?: string; result: OAuthFlowResult; expiresAt: number }>()
+
+let redirectBase = 'http://localhost:3001'
+
+/**
+ * Set the public address providers redirect back to (see CRAFT_WEBAPP_PUBLIC_URL in server.ts)
+ */
+export function setOAuthRedirectBase(baseUrl: string): void {
+  redirectBase = baseUrl.replace(/\/+$/, '')
+}
+
+function getRedirectUri(provider: OAuthProvider): string {
+  return `${redirectBase}/oauth/callback/${provider}`
+}
+
+function pruneFlows(): void {
+  const now = Date.now()
+  for (const [flowId, flow] of pendingFlows) {
+    if (flow.expiresAt < now) pendingFlows.delete(flowId)
+  }
+  for (const [flowId, finished] of finishedFlows) {
+    if (finished.expiresAt < now) finishedFlows.delete(flowId)
+  }
+}
+
+/**
+ * Wait for the provider to redirect back with `flowId` as the state, then `complete` the flow
+ * as the current user
+ */
+export function registerFlow(
+  flowId: string,
+  authUrl: string,
+  provider: OAuthProvider,
+  target: Record<string, string>,
+  complete: PendingFlow['complete'],
+  onFinished?: PendingFlow['onFinished']
+): OAuthFlowStart {
+  pruneFlows()
+  pendingFlows.set(flowId, {
+    provider,
+    user: getCurrentUser(),
+    expiresAt: Date.now() + FLOW_EXPIRY_MS,
+    complete,
+    target,
+    onFinished,
+  })
+  return { flowId, authUrl }
+}
+
+const oauthLog: OAuthCallbacks = {
+  onStatus: (message) => console.log(`[oauth] ${message}`),
+  onError: (error) => console.error(`[oauth] ${error}`),
+}
+
+// ============================================================
+// Source and workspace MCP flows
+// ============================================================
+
+/**
+ * Start connecting a source that uses OAuth (MCP OAuth, or a Google/Slack/Microsoft API).
+ * `onFinished` lets the session manager complete auth requests waiting for the source.
+ */
+export async function startSourceOAuth(
+  workspaceId: string,
+  source: LoadedSource,
+  onFinished?: PendingFlow['onFinished']
+): Promise<OAuthFlowStart> {
+  const credManager = getSourceCredentialManager()
+  const { slug } = source.config
+  const target = { workspaceId, sourceSlug: slug }
+
+  switch (source.config.provider) {
+    case 'google': {
+      if (!isGoogleOAuthConfigured()) {
+        throw new RpcError('not_implemented', 'Google OAuth not configured. Set GOOGLE_OAUTH_CLIENT_ID and GOOGLE_OAUTH_CLIENT_SECRET environment variables.')
+      }
+      const options = credManager.getGoogleOAuthOptions(source)
+      if (!options) {
+        throw new RpcError('invalid_args', `Cannot determine Google service for source '${slug}'. Set googleService ('gmail', 'calendar', or 'drive') in api config.`)
+      }
+      const { codeVerifier, codeChallenge } = generatePKCE()
+      const state = generateState()
+      const redirectUri = getRedirectUri('google')
+      const authUrl = buildGoogleAuthUrl({ scopes: getGoogleScopes(options), redirectUri, state, codeChallenge })
+      return registerFlow(state, authUrl, 'google', target, async (code) => {
+        const result = await exchangeGoogleCode(code, codeVerifier, redirectUri)
+        await credManager.saveOAuthTokens(source, { accessToken: result.accessToken!, refreshToken: result.refreshToken, expiresAt: result.expiresAt })
+        return { email: result.email }
+      }, onFinished)
+    }
+
+    case 'slack': {
+      if (!isSlackOAuthConfigured()) {
+        throw new RpcError('not_implemented', 'Slack OAuth not configured. Set SLACK_OAUTH_CLIENT_ID and SLACK_OAUTH_CLIENT_SECRET environment variables.')
+      }
+      const redirectUri = getRedirectUri('slack')
+      if (!redirectUri.startsWith('https://')) {
+        throw new RpcError('not_implemented', 'Slack only redirects to HTTPS addresses. Set CRAFT_WEBAPP_PUBLIC_URL to the https:// address of this server.')
+      }
+      const state = generateState()
+      const authUrl = buildSlackAuthUrl({ userScopes: getSlackScopes(credManager.getSlackOAuthOptions(source)), redirectUri, state })
+      return registerFlow(state, authUrl, 'slack', target, async (code) => {
+        const result = await exchangeSlackCode(code, redirectUri)
+        await credManager.saveOAuthTokens(source, { accessToken: result.accessToken!, refreshToken: result.refreshToken, expiresAt: result.expiresAt })
+        // Use teamName as the identifier (similar to email for Google)
+        return { email: result.teamName }
+      }, onFinished)
+    }
+
+    case 'microsoft': {
+      if (!isMicrosoftOAuthConfigured()) {
+        throw new RpcError('not_implemented', 'Microsoft OAuth not configured. Set MICROSOFT_OAUTH_CLIENT_ID environment variable.')
+      }
+      const options = credManager.getMicrosoftOAuthOptions(source)
+      if (!options) {
+        throw new RpcError('invalid_args', `Cannot determine Microsoft service for source '${slug}'. Set microsoftService ('outlook', 'calendar', 'onedrive', 'teams', or 'sharepoint') in api config.`)
+      }
+      const { codeVerifier, codeChallenge } = generatePKCE()
+      const state = generateState()
+      const redirectUri = getRedirectUri('microsoft')
+      const authUrl = buildMicrosoftAuthUrl({ scopes: getMicrosoftScopes(options), redirectUri, state, codeChallenge })
+      return registerFlow(state, authUrl, 'microsoft', target, async (code) => {
+        const result = await exchangeMicrosoftCode(code, codeVerifier, redirectUri)
+        await credManager.saveOAuthTokens(source, { accessToken: result.accessToken!, refreshToken: result.refreshToken, expiresAt: result.expiresAt })
+        return { email: result.email }
+      }, onFinished)
+    }
+  }
+
+  if (source.config.type === 'mcp' && source.config.mcp?.authType === 'oauth') {
+    if (!source.config.mcp.url) {
+      throw new RpcError('invalid_args', 'MCP URL not configured')
+    }
+    const oauth = new CraftOAuth({ mcpBaseUrl: getMcpBaseUrl(source.config.mcp.url) }, oauthLog)
+    const request = await oauth.prepareAuthorization(getRedirectUri('mcp'))
+    return registerFlow(request.state, request.authUrl, 'mcp', target, async (code) => {
+      const tokens = await oauth.exchangeAuthorizationCode(request, code)
+      await credManager.saveOAuthTokens(source, { ...tokens, clientId: request.clientId })
+      return {}
+    }, onFinished)
+  }
+
+  throw new RpcError('invalid_args', `Source ${slug} does not use OAuth authentication`)
+}
+
+/**
+ * Start authorizing the workspace's Craft MCP server during onboarding. The token is
+ * returned to the client, which saves it with saveOnboardingConfig as in the desktop app.
+ */
+export async function startWorkspaceMcpOAuth(mcpUrl: string): Promise<OAuthFlowStart> {
+  const oauth = new CraftOAuth({ mcpBaseUrl: getMcpBaseUrl(mcpUrl) }, oauthLog)
+  const request = await oauth.prepareAuthorization(getRedirectUri('mcp'))
+  return registerFlow(request.state, request.authUrl, 'mcp', { mcpUrl }, async (code) => {
+    const tokens = await oauth.exchangeAuthorizationCode(request, code)
+    return { accessToken: tokens.accessToken, clientId: request.clientId }
+  })
+}
+
+/**
+ * Result of a finished flow, or null while it is pending (or unknown to this user)
+ */
+export function getOAuthFlowResult(flowId: string): OAuthFlowResult | null {
+  pruneFlows()
+  const finished = finishedFlows.get(flowId)
+  if (!finished || finished.userId !== getCurrentUser()?.id) return null
+  return finished.result
+}
+
+function callbackPage(result: OAuthFlowResult): Response {
+  const html = generateCallbackPage({
+    title: result.success ? 'Authorization Successful' : 'Authorization Failed',
+    isSuccess: result.success,
+    errorDetail: result.error,
+  })
+  return new Response(html, {
+    status: result.success ? 200 : 400,
+    headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' },
+  })
+}
+
+/**
+ * GET /oauth/callback/:provider - the provider's redirect after the user authorized (or declined).
+ * Needs no login: the unguessable `state` identifies the flow and the user who started it.
+ */
+export async function oauthCallbackHandler(url: URL, provider: string, broadcast: BroadcastFn): Promise<Response> {
+  const flowId = url.searchParams.get('state') ?? ''
+  const flow = pendingFlows.get(flowId)
+  if (!flow || flow.provider !== provider) {
+    return callbackPage({ success: false, error: 'Unknown or expired authorization request. Please start again.' })
+  }
+  pendingFlows.delete(flowId)
+
+  const error = url.searchParams.get('error')
+  const code = url.searchParams.get('code')
+  let result: OAuthFlowResult
+  if (flow.expiresAt < Date.now()) {
+    result = { success: false, error: 'Authorization request expired. Please start again.' }
+  } else if (error) {
+    result = { success: false, error: url.searchParams.get('error_description') || error }
+  } else if (!code) {
+    result = { success: false, error: 'No authorization code received' }
+  } else {
+    try {
+      result = { success: true, ...await runAsUser(flow.user, () => flow.complete(code)) }
+    } catch (err) {
+      console.error(`[oauth] ${provider} token exchange failed:`, err)
+      result = { success: false, error: err instanceof Error ? err.message : String(err) }
+    }
+  }
+
+  finishedFlows.set(flowId, { userId: flow.user?.id, result, expiresAt: Date.now() + RESULT_TTL_MS })
+  runAsUser(flow.user, () => {
+    broadcast({ type: 'oauth_complete', flowId, provider, ...flow.target, ...result })
+    flow.onFinished?.(result)
+  })
+  return callbackPage(result)
+}
+
+// ============================================================
+// Claude OAuth (code pasted back by the user)
+// ============================================================
+
+// Per user ('' in single-user mode)
+const claudeStates = new Map<string, ClaudeOAuthState>()
+
+/**
+ * Login URL for Claude OAuth. Unlike the desktop app the browser isn't opened here - the client opens the URL.
+ */
+export function startClaudeOAuth(): { success: boolean; authUrl?: string } {
+  const { authUrl, oauthState } = createClaudeAuthorization()
+  claudeStates.set(getCurrentUser()?.id ?? '', oauthState)
+  return { success: true, authUrl }
+}
+
+export function hasClaudeOAuthState(): boolean {
+  const state = claudeStates.get(getCurrentUser()?.id ?? '')
+  return !!state && Date.now() < state.expiresAt
+}
+
+export function clearClaudeOAuthState(): { success: boolean } {
+  claudeStates.delete(getCurrentUser()?.id ?? '')
+  return { success: true }
+}
+
+/**
+ * Exchange the code shown on Anthropic's console and store the tokens
+ */
+export async function exchangeClaudeCode(code: string): Promise<{ success: boolean; token?: string; error?: string }> {
+  const key = getCurrentUser()?.id ?? ''
+  const oauthState = claudeStates.get(key)
+  if (!oauthState) {
+    return { success: false, error: 'No OAuth state found. Please start the authentication flow again.' }
+  }
+  try {
+    const tokens = await exchangeClaudeAuthorizationCode(code, undefined, oauthState)
+    claudeStates.delete(key)
+    await getCredentialManager().setClaudeOAuthCredentials({
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresAt: tokens.expiresAt,
+      source: 'native',
+    })
+    return { success: true, token: tokens.accessToken }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) }
+  }
+}
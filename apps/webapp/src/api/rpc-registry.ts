@@ -0,0 +1,140 @@
+/**
+ * RPC registry primitives
+ *
+ * Each RPC method is declared with zod schemas for its argument tuple and result, a
+ * handler, and flags used by the server (read-only methods skip CSRF checks, stubs
+ * report not_implemented). The method table itself lives in rpc.ts.
+ */
+
+import { z } from 'zod'
+import type { SessionEvent } from '../../../electron/src/shared/types'
+import type { SessionManager } from './session-manager'
+
+// ============================================================
+// Errors
+// ============================================================
+
+export type RpcErrorCode = 'not_found' | 'invalid_args' | 'not_implemented' | 'unauthorized' | 'conflict' | 'cancelled' | 'internal'
+
+const STATUS_BY_CODE: Record<RpcErrorCode, number> = {
+  not_found: 404,
+  invalid_args: 400,
+  not_implemented: 501,
+  unauthorized: 403,
+  conflict: 409,
+  // Client closed request
+  cancelled: 499,
+  internal: 500,
+}
+
+/**
+ * Error with a code the client can act on. Anything else thrown by a handler
+ * is reported as `internal`.
+ */
+export class RpcError extends Error {
+  readonly code: RpcErrorCode
+  readonly details?: unknown
+
+  constructor(code: RpcErrorCode, message: string, details?: unknown) {
+    super(message)
+    this.name = 'RpcError'
+    this.code = code
+    this.details = details
+  }
+
+  get status(): number {
+    return STATUS_BY_CODE[this.code]
+  }
+
+  toJSON(): { code: RpcErrorCode; message: string; details?: unknown } {
+    return { code: this.code, message: this.message, ...(this.details !== undefined ? { details: this.details } : {}) }
+  }
+}
+
+export function toRpcError(error: unknown): RpcError {
+  if (error instanceof RpcError) return error
+  return new RpcError('internal', error instanceof Error ? error.message : 'Unknown error')
+}
+
+// ============================================================
+// Method definitions
+// ============================================================
+
+// Type for broadcast function
+export type BroadcastFn = (event: SessionEvent) => void
+
+export interface RpcContext {
+  sm: SessionManager
+  broadcast: BroadcastFn
+  /** Aborted when the client cancels the call or disconnects */
+  signal?: AbortSignal
+}
+
+type ArgsSchema = z.ZodType<unknown[], unknown[]>
+
+export interface RpcMethod<A extends ArgsSchema = ArgsSchema, R extends z.ZodType = z.ZodType> {
+  /** Argument tuple, validated before the handler runs */
+  args: A
+  /** Result, validated before it is sent */
+  result: R
+  /** Only reads state - exempt from CSRF checks */
+  readOnly?: boolean
+  /** Set for methods the webapp doesn't support yet - the reason is returned to the client */
+  stub?: string
+  // Method syntax keeps the parameter bivariant, so any method fits the plain RpcMethod type
+  handler(args: z.output<A>, ctx: RpcContext): z.input<R> | Promise<z.input<R>>
+}
+
+export function defineMethod<A extends ArgsSchema, R extends z.ZodType>(method: RpcMethod<A, R>): RpcMethod<A, R> {
+  return method
+}
+
+/**
+ * Optional argument. JSON turns `undefined` inside the args array into null,
+ * so null is accepted and handed to the handler as undefined.
+ */
+export function optionalArg<T extends z.ZodType>(schema: T) {
+  return schema.nullish().transform(value => value ?? undefined)
+}
+
+// Arguments of stubs and no-ops aren't inspected
+const anyArgs = z.array(z.unknown())
+
+/**
+ * A method the webapp doesn't implement; calling it fails with not_implemented
+ */
+export function stubMethod(reason: string, options?: { readOnly?: boolean }): RpcMethod<typeof anyArgs, z.ZodNever> {
+  return {
+    args: anyArgs,
+    result: z.never(),
+    readOnly: options?.readOnly,
+    stub: reason,
+    handler: () => {
+      throw new RpcError('not_implemented', reason)
+    },
+  }
+}
+
+/**
+ * A method that has no effect in the browser (window chrome, dock badges, ...)
+ */
+export function noopMethod<R extends z.ZodType = z.ZodVoid>(
+  value?: z.input<R>,
+  result?: R,
+  options?: { readOnly?: boolean }
+): RpcMethod<typeof anyArgs, R> {
+  return {
+    args: anyArgs,
+    result: (result ?? z.void()) as R,
+    readOnly: options?.readOnly,
+    handler: () => value as z.input<R>,
+  }
+}
+
+/**
+ * Describe arguments for the introspection endpoint (custom types show as `{}`)
+ */
+export function describeArgs(schema: ArgsSchema): unknown {
+  const { $schema: _, ...jsonSchema } = z.toJSONSchema(schema, { unrepresentable: 'any', io: 'input' })
+  return jsonSchema
+}
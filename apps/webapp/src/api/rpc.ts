@@ -1,16 +1,29 @@
 /**
  * RPC handler - routes method calls to appropriate handlers
  * Mirrors Electron's ipcMain.handle pattern
+ *
+ * Methods are declared in the `rpcMethods` registry: zod schemas for the argument tuple
+ * and result, a handler, and whether the method is read-only or a stub. The web adapter
+ * types its rpc() calls from this registry.
  */
 
 import { homedir } from 'os'
 import { join } from 'path'
-import { existsSync, mkdirSync } from 'fs'
-import type { SessionEvent, Session, Workspace, SetupNeeds, AuthState, ApiSetupInfo } from '../../../electron/src/shared/types'
-import { 
-  getAuthType, 
-  loadStoredConfig, 
-  getModel, 
+import { existsSync } from 'fs'
+import { z } from 'zod'
+import type {
+  Session,
+  Workspace,
+  SetupNeeds,
+  AuthState,
+  ApiSetupInfo,
+  FileAttachment,
+  StoredAttachment,
+  SendMessageOptions,
+} from '../../../electron/src/shared/types'
+import {
+  getAuthType,
+  getModel,
   setModel,
   getAnthropicBaseUrl,
   getCustomModel,
@@ -21,166 +34,347 @@ import {
 } from '@craft-agent/shared/config'
 import { getAuthState, getSetupNeeds } from '@craft-agent/shared/auth'
 import { getCredentialManager } from '@craft-agent/shared/credentials'
-import { SessionManager } from './session-manager'
+import { getDefaultWorkspacesDir } from '@craft-agent/shared/workspaces'
+import { setAnthropicOptionsEnvResolver, type Plan } from '@craft-agent/shared/agent'
+import type { LoadedSource, FolderSourceConfig } from '@craft-agent/shared/sources'
+import type { LoadedSkill } from '@craft-agent/shared/skills'
+import type { LabelConfig } from '@craft-agent/shared/labels'
+import type { StatusConfig } from '@craft-agent/shared/statuses'
+import { validateViewExpression } from '@craft-agent/shared/views'
+import { isValidEntityColor, type EntityColor } from '@craft-agent/shared/colors'
+import { validateIconValue } from '@craft-agent/shared/utils/icon'
+import { SessionManager, type QueuedMessage } from './session-manager'
+import { setWorkspaceResolver } from './sse'
+import { listUsers, listAccountUsers, createUser, deleteUser } from './auth'
+import {
+  getCurrentUser,
+  runAsUser,
+  assertAdmin,
+  isMultiUserMode,
+  listSharedWorkspaces,
+  addSharedWorkspace,
+  setSharedWorkspaceUsers,
+  removeSharedWorkspace,
+  type SharedWorkspace,
+} from './users'
+import { generateThumbnail } from './attachments'
+import { getDefaultPermissionsConfig } from './sources'
+import type { SkillFile } from './skills'
+import type { SessionFile } from './session-files'
+import type { BackgroundJob } from './background-jobs'
+import { getAgentPoolStatus, type AgentPoolStatus } from './agent-pool'
+import { WORKSPACE_SETTING_KEYS, type WorkspaceSettings } from './workspace-settings'
+import {
+  startClaudeOAuth,
+  exchangeClaudeCode,
+  hasClaudeOAuthState,
+  clearClaudeOAuthState,
+  startWorkspaceMcpOAuth,
+  startSourceOAuth,
+  getOAuthFlowResult,
+} from './oauth'
+import { assertPathAllowed, type DirectoryListing } from './directories'
+import {
+  RpcError,
+  defineMethod,
+  stubMethod,
+  noopMethod,
+  describeArgs,
+  optionalArg,
+  type BroadcastFn,
+  type RpcMethod,
+} from './rpc-registry'
 
-// Type for broadcast function
-type BroadcastFn = (event: SessionEvent) => void
+// Session managers, one per user ('' in single-user mode)
+const sessionManagers = new Map<string, SessionManager>()
 
-// Default workspace directory
-const DEFAULT_WORKSPACES_DIR = join(homedir(), '.craft-agent', 'workspaces')
-
-// Ensure default directories exist
-if (!existsSync(DEFAULT_WORKSPACES_DIR)) {
-  mkdirSync(DEFAULT_WORKSPACES_DIR, { recursive: true })
-}
-
-// Initialize session manager (singleton)
-let sessionManager: SessionManager | null = null
-
-function getSessionManager(broadcast: BroadcastFn): SessionManager {
-  if (!sessionManager) {
-    sessionManager = new SessionManager(broadcast)
+/**
+ * The current user's session manager (see users.ts - requests run as their user)
+ */
+export function getSessionManager(broadcast: BroadcastFn): SessionManager {
+  const user = getCurrentUser()
+  let sm = sessionManagers.get(user?.id ?? '')
+  if (!sm) {
+    sm = new SessionManager(broadcast, user?.id)
+    sessionManagers.set(user?.id ?? '', sm)
   }
-  return sessionManager
+  return sm
 }
 
 /**
- * RPC method dispatcher
+ * Continue work a server restart interrupted, for every user. Called once at startup.
  */
-export async function rpcHandler(
-  method: string, 
-  args: unknown[],
-  broadcast: BroadcastFn
-): Promise<unknown> {
-  const sm = getSessionManager(broadcast)
-  
-  switch (method) {
-    // ============================================================
-    // Phase 0: Basic UI Loading APIs
-    // ============================================================
-    
-    case 'getSetupNeeds': {
-      const authState = await getAuthState()
-      return getSetupNeeds(authState)
-    }
-    
-    case 'getAuthState':
-      return getAuthState()
-    
-    case 'getWorkspaces':
-      return sm.getWorkspaces()
-    
-    case 'getSessions':
-      return sm.getSessions()
-    
-    case 'getModel':
-      return getModel()
-    
-    case 'setModel': {
-      const [model] = args as [string]
-      setModel(model)
-      return
+export async function resumeAfterRestart(broadcast: BroadcastFn): Promise<void> {
+  const users = isMultiUserMode() ? listAccountUsers() : [undefined]
+  for (const user of users) {
+    try {
+      await runAsUser(user, async () => {
+        const sm = getSessionManager(broadcast)
+        // Turns a restart cut short are marked first, so resumed plans don't clear the marker
+        await sm.recoverInterruptedTurns()
+        await sm.resumePendingPlanExecutions()
+      })
+    } catch (error) {
+      console.error(`[rpc] Failed to recover sessions interrupted by a restart${user ? ` for user ${user.id}` : ''}:`, error)
     }
-    
-    case 'getApiSetup': {
+  }
+}
+
+// Let SSE route workspace-level events to clients viewing the session's workspace
+setWorkspaceResolver((sessionId) => sessionManagers.get(getCurrentUser()?.id ?? '')?.getWorkspaceIdForSession(sessionId))
+
+// Agents run with the auth of the user they run for, not whatever is in process.env
+setAnthropicOptionsEnvResolver(() => {
+  const user = getCurrentUser()
+  return user ? sessionManagers.get(user.id)?.getAuthEnv() : undefined
+})
+
+// ============================================================
+// Shared schemas
+// ============================================================
+
+const none = z.tuple([])
+const id = z.string().min(1)
+const path = z.string().min(1)
+// Source/skill folder names
+const slug = z.string().regex(/^[a-zA-Z0-9][\w-]*$/, 'Invalid slug')
+// Shapes owned by the renderer - passed through without deep validation
+const opaque = <T>() => z.custom<T>(() => true)
+
+const notYetImplemented = (method: string) => `Method ${method} not yet implemented for webapp`
+
+const oauthFlowStart = z.object({ flowId: z.string(), authUrl: z.string() })
+const oauthFlowResult = z.object({
+  success: z.boolean(),
+  error: z.string().optional(),
+  email: z.string().optional(),
+  accessToken: z.string().optional(),
+  clientId: z.string().optional(),
+})
+
+const validationIssue = z.object({
+  file: z.string(),
+  path: z.string(),
+  message: z.string(),
+  severity: z.enum(['error', 'warning']),
+  suggestion: z.string().optional(),
+})
+const skillSaveResult = z.object({
+  saved: z.boolean(),
+  errors: z.array(validationIssue),
+  warnings: z.array(validationIssue),
+})
+
+const permissionMode = z.enum(['safe', 'ask', 'allow-all'])
+const thinkingLevel = z.enum(['off', 'think', 'max'])
+
+// Label, status and view fields - checked with the shared validators so errors name the field
+const entityColor = z.custom<EntityColor>(isValidEntityColor, 'Invalid color')
+const statusIcon = z.string().refine(icon => validateIconValue(icon, 'Status') !== undefined, 'Icon must be an emoji or URL')
+const labelValueType = z.enum(['string', 'number', 'date'])
+const statusCategory = z.enum(['open', 'closed'])
+const viewConfig = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1),
+  description: z.string().optional(),
+  color: entityColor.optional(),
+  expression: z.string().superRefine((expression, ctx) => {
+    const validation = validateViewExpression(expression)
+    if (!validation.valid) ctx.addIssue({ code: 'custom', message: validation.error ?? 'Invalid expression' })
+  }),
+})
+const viewList = z.array(viewConfig).superRefine((views, ctx) => {
+  const seen = new Set<string>()
+  views.forEach((view, index) => {
+    if (seen.has(view.id)) ctx.addIssue({ code: 'custom', path: [index, 'id'], message: `Duplicate view ID: ${view.id}` })
+    seen.add(view.id)
+  })
+})
+
+export const rpcMethods = {
+  // ============================================================
+  // Phase 0: Basic UI Loading APIs
+  // ============================================================
+
+  getSetupNeeds: defineMethod({
+    args: none,
+    result: opaque<SetupNeeds>(),
+    readOnly: true,
+    handler: async () => getSetupNeeds(await getAuthState()),
+  }),
+
+  getAuthState: defineMethod({
+    args: none,
+    result: opaque<AuthState>(),
+    readOnly: true,
+    handler: () => getAuthState(),
+  }),
+
+  getWorkspaces: defineMethod({
+    args: none,
+    result: z.array(opaque<Workspace>()),
+    readOnly: true,
+    handler: (_, { sm }) => sm.getWorkspaces(),
+  }),
+
+  getSessions: defineMethod({
+    args: none,
+    result: z.array(opaque<Session>()),
+    readOnly: true,
+    handler: (_, { sm }) => sm.getSessions(),
+  }),
+
+  getModel: defineMethod({
+    args: none,
+    result: z.string().nullable(),
+    readOnly: true,
+    handler: () => getModel(),
+  }),
+
+  setModel: defineMethod({
+    args: z.tuple([z.string().min(1)]),
+    result: z.void(),
+    handler: ([model]) => setModel(model),
+  }),
+
+  getApiSetup: defineMethod({
+    args: none,
+    result: opaque<ApiSetupInfo>(),
+    readOnly: true,
+    handler: async () => {
       const authType = getAuthType()
       const credManager = getCredentialManager()
       const hasCredential = await credManager.hasCredential(authType)
-      const baseUrl = getAnthropicBaseUrl()
-      const customModel = getCustomModel()
       return {
         authType,
         hasCredential,
-        anthropicBaseUrl: baseUrl,
-        customModel,
+        anthropicBaseUrl: getAnthropicBaseUrl(),
+        customModel: getCustomModel(),
       } satisfies ApiSetupInfo
-    }
-    
-    case 'getAllDrafts':
-      return getAllSessionDrafts()
-    
-    case 'getDraft': {
-      const [sessionId] = args as [string]
-      return getSessionDraft(sessionId)
-    }
-    
-    case 'setDraft': {
-      const [sessionId, text] = args as [string, string]
-      setSessionDraft(sessionId, text)
-      return
-    }
-    
-    case 'deleteDraft': {
-      const [sessionId] = args as [string]
-      deleteSessionDraft(sessionId)
-      return
-    }
-    
-    case 'getAppTheme':
-      // For webapp, return null (use default theme)
-      return null
-    
-    case 'getNotificationsEnabled':
-      // Web notifications are handled differently
-      return false
-    
-    case 'getSystemTheme':
-      // Cannot detect system theme server-side, let client handle it
-      return false
-    
-    case 'getHomeDir':
-      return homedir()
-    
-    case 'isDebugMode':
-      return process.env.DEBUG === 'true'
-    
-    case 'getVersions':
-      return { node: process.version, chrome: 'N/A', electron: 'N/A' }
-    
-    // ============================================================
-    // Window Management (stubs for webapp - single "window")
-    // ============================================================
-    
-    case 'getWindowWorkspace':
+    },
+  }),
+
+  getAllDrafts: defineMethod({
+    args: none,
+    result: z.record(z.string(), z.string()),
+    readOnly: true,
+    handler: () => getAllSessionDrafts(),
+  }),
+
+  getDraft: defineMethod({
+    args: z.tuple([id]),
+    result: z.string().nullable(),
+    readOnly: true,
+    handler: ([sessionId]) => getSessionDraft(sessionId),
+  }),
+
+  setDraft: defineMethod({
+    args: z.tuple([id, z.string()]),
+    result: z.void(),
+    handler: ([sessionId, text]) => setSessionDraft(sessionId, text),
+  }),
+
+  deleteDraft: defineMethod({
+    args: z.tuple([id]),
+    result: z.void(),
+    handler: ([sessionId]) => deleteSessionDraft(sessionId),
+  }),
+
+  // For webapp, return null (use default theme)
+  getAppTheme: noopMethod(null, z.null(), { readOnly: true }),
+
+  // Web notifications are handled differently
+  getNotificationsEnabled: noopMethod(false, z.boolean(), { readOnly: true }),
+
+  // Cannot detect system theme server-side, let client handle it
+  getSystemTheme: noopMethod(false, z.boolean(), { readOnly: true }),
+
+  getHomeDir: defineMethod({
+    args: none,
+    result: z.string(),
+    readOnly: true,
+    handler: () => homedir(),
+  }),
+
+  isDebugMode: defineMethod({
+    args: none,
+    result: z.boolean(),
+    readOnly: true,
+    handler: () => process.env.DEBUG === 'true',
+  }),
+
+  getVersions: defineMethod({
+    args: none,
+    result: z.object({ node: z.string(), chrome: z.string(), electron: z.string() }),
+    readOnly: true,
+    handler: () => ({ node: process.version, chrome: 'N/A', electron: 'N/A' }),
+  }),
+
+  // ============================================================
+  // Window Management (stubs for webapp - single "window")
+  // ============================================================
+
+  getWindowWorkspace: defineMethod({
+    args: none,
+    result: z.string().nullable(),
+    readOnly: true,
+    handler: (_, { sm }) => {
       // Return first workspace or null
       const workspaces = sm.getWorkspaces()
       return workspaces.length > 0 ? workspaces[0].id : null
-    
-    case 'getWindowMode':
-      return 'main'
-    
-    case 'openWorkspace':
-    case 'openSessionInNewWindow':
-    case 'switchWorkspace':
-    case 'closeWindow':
-    case 'confirmCloseWindow':
-    case 'setTrafficLightsVisible':
-      // No-op for webapp
-      return
-    
-    // ============================================================
-    // Session Management
-    // ============================================================
-    
-    case 'getSessionMessages': {
-      const [sessionId] = args as [string]
-      return sm.getSession(sessionId)
-    }
-    
-    case 'createSession': {
-      const [workspaceId, options] = args as [string, unknown]
-      return sm.createSession(workspaceId, options)
-    }
-    
-    case 'deleteSession': {
-      const [sessionId] = args as [string]
-      return sm.deleteSession(sessionId)
-    }
-    
-    case 'sendMessage': {
-      const [sessionId, message, attachments, storedAttachments, options] = args as [string, string, unknown, unknown, unknown]
+    },
+  }),
+
+  getWindowMode: noopMethod('main', z.string(), { readOnly: true }),
+
+  // No-op for webapp
+  openWorkspace: noopMethod(),
+  openSessionInNewWindow: noopMethod(),
+  switchWorkspace: noopMethod(),
+  closeWindow: noopMethod(),
+  confirmCloseWindow: noopMethod(),
+  setTrafficLightsVisible: noopMethod(),
+
+  // ============================================================
+  // Session Management
+  // ============================================================
+
+  getSessionMessages: defineMethod({
+    args: z.tuple([id]),
+    result: opaque<Session>().nullable(),
+    readOnly: true,
+    handler: ([sessionId], { sm }) => sm.getSession(sessionId),
+  }),
+
+  createSession: defineMethod({
+    args: z.tuple([
+      id,
+      optionalArg(z.looseObject({ name: z.string().optional(), workingDirectory: z.string().optional() })),
+    ]),
+    result: opaque<Session>(),
+    handler: ([workspaceId, options], { sm }) => sm.createSession(workspaceId, options),
+  }),
+
+  deleteSession: defineMethod({
+    args: z.tuple([id]),
+    result: z.void(),
+    handler: ([sessionId], { sm }) => sm.deleteSession(sessionId),
+  }),
+
+  /** While the session is processing the message is queued unless `delivery` says otherwise */
+  sendMessage: defineMethod({
+    args: z.tuple([
+      id,
+      z.string(),
+      optionalArg(z.array(opaque<FileAttachment>())),
+      optionalArg(z.array(opaque<StoredAttachment>())),
+      optionalArg(opaque<SendMessageOptions>()),
+      optionalArg(z.enum(['queue', 'interrupt', 'steer'])),
+    ]),
+    result: z.object({ started: z.literal(true) }),
+    handler: ([sessionId, message, attachments, storedAttachments, options, delivery], { sm, broadcast }) => {
       // Fire and forget - results come via SSE
-      sm.sendMessage(sessionId, message, attachments, storedAttachments, options).catch(err => {
+      sm.sendMessage(sessionId, message, attachments, storedAttachments, options, delivery).catch(err => {
         broadcast({
           type: 'error',
           sessionId,
@@ -191,306 +385,892 @@ export async function rpcHandler(
           sessionId,
         })
       })
-      return { started: true }
-    }
-    
-    case 'cancelProcessing': {
-      const [sessionId, silent] = args as [string, boolean | undefined]
-      return sm.cancelProcessing(sessionId, silent)
-    }
-    
-    case 'killShell': {
-      const [sessionId, shellId] = args as [string, string]
-      return sm.killShell(sessionId, shellId)
-    }
-    
-    case 'getTaskOutput': {
-      const [taskId] = args as [string]
-      return sm.getTaskOutput(taskId)
-    }
-    
-    case 'respondToPermission': {
-      const [sessionId, requestId, allowed, alwaysAllow] = args as [string, string, boolean, boolean]
-      return sm.respondToPermission(sessionId, requestId, allowed, alwaysAllow)
-    }
-    
-    case 'respondToCredential': {
-      const [sessionId, requestId, response] = args as [string, string, unknown]
-      return sm.respondToCredential(sessionId, requestId, response)
-    }
-    
-    case 'sessionCommand': {
-      const [sessionId, command] = args as [string, unknown]
-      return sm.handleSessionCommand(sessionId, command)
-    }
-    
-    case 'getPendingPlanExecution': {
-      const [sessionId] = args as [string]
-      return sm.getPendingPlanExecution(sessionId)
-    }
-    
-    // ============================================================
-    // Workspace Management
-    // ============================================================
-    
-    case 'createWorkspace': {
-      const [folderPath, name] = args as [string, string]
-      return sm.createWorkspace(folderPath, name)
-    }
-    
-    case 'checkWorkspaceSlug': {
-      const [slug] = args as [string]
-      const workspacePath = join(DEFAULT_WORKSPACES_DIR, slug)
+      return { started: true as const }
+    },
+  }),
+
+  getQueuedMessages: defineMethod({
+    args: z.tuple([id]),
+    result: z.array(opaque<QueuedMessage>()),
+    readOnly: true,
+    handler: ([sessionId], { sm }) => sm.getQueuedMessages(sessionId),
+  }),
+
+  updateQueuedMessage: defineMethod({
+    args: z.tuple([id, id, z.string().trim().min(1)]),
+    result: z.void(),
+    handler: ([sessionId, messageId, message], { sm }) => sm.updateQueuedMessage(sessionId, messageId, message),
+  }),
+
+  cancelQueuedMessage: defineMethod({
+    args: z.tuple([id, id]),
+    result: z.void(),
+    handler: ([sessionId, messageId], { sm }) => sm.cancelQueuedMessage(sessionId, messageId),
+  }),
+
+  cancelProcessing: defineMethod({
+    args: z.tuple([id, optionalArg(z.boolean())]),
+    result: z.void(),
+    handler: ([sessionId, silent], { sm }) => sm.cancelProcessing(sessionId, silent),
+  }),
+
+  killShell: defineMethod({
+    args: z.tuple([id, id]),
+    result: z.object({ success: z.boolean(), error: z.string().optional() }),
+    handler: ([sessionId, shellId], { sm }) => sm.killShell(sessionId, shellId),
+  }),
+
+  getTaskOutput: defineMethod({
+    args: z.tuple([id]),
+    result: z.string().nullable(),
+    readOnly: true,
+    handler: ([taskId], { sm }) => sm.getTaskOutput(taskId),
+  }),
+
+  /** Output streams as background_output events while a job runs */
+  getBackgroundJobs: defineMethod({
+    args: z.tuple([id]),
+    result: z.array(opaque<BackgroundJob>()),
+    readOnly: true,
+    handler: ([sessionId], { sm }) => sm.getBackgroundJobs(sessionId),
+  }),
+
+  respondToPermission: defineMethod({
+    args: z.tuple([id, id, z.boolean(), z.boolean()]),
+    result: z.boolean(),
+    handler: ([sessionId, requestId, allowed, alwaysAllow], { sm }) =>
+      sm.respondToPermission(sessionId, requestId, allowed, alwaysAllow),
+  }),
+
+  /** Saves the credential and resumes the agent - false if the request isn't pending */
+  respondToCredential: defineMethod({
+    args: z.tuple([id, id, z.object({
+      type: z.literal('credential'),
+      value: z.string().min(1).optional(),
+      username: z.string().min(1).optional(),
+      password: z.string().min(1).optional(),
+      cancelled: z.boolean(),
+    })]),
+    result: z.boolean(),
+    handler: ([sessionId, requestId, response], { sm }) => sm.respondToCredential(sessionId, requestId, response),
+  }),
+
+  sessionCommand: defineMethod({
+    args: z.tuple([id, z.looseObject({ type: z.string() })]),
+    result: z.unknown(),
+    handler: ([sessionId, command], { sm }) => sm.handleSessionCommand(sessionId, command),
+  }),
+
+  getPendingPlanExecution: defineMethod({
+    args: z.tuple([id]),
+    result: z.object({ planPath: z.string(), awaitingCompaction: z.boolean() }).nullable(),
+    readOnly: true,
+    handler: ([sessionId], { sm }) => sm.getPendingPlanExecution(sessionId),
+  }),
+
+  getPlan: defineMethod({
+    args: z.tuple([id, z.string().min(1)]),
+    result: opaque<Plan>(),
+    readOnly: true,
+    handler: ([sessionId, planPath], { sm }) => sm.getPlan(sessionId, planPath),
+  }),
+
+  /** With `compact` the conversation is compacted first and the plan runs afterwards */
+  acceptPlan: defineMethod({
+    args: z.tuple([id, z.string().min(1), optionalArg(z.boolean())]),
+    result: z.void(),
+    handler: ([sessionId, planPath, compact], { sm }) => sm.acceptPlan(sessionId, planPath, compact ?? false),
+  }),
+
+  refinePlan: defineMethod({
+    args: z.tuple([id, z.string().min(1), z.string().trim().min(1)]),
+    result: z.void(),
+    handler: ([sessionId, planPath, feedback], { sm }) => sm.refinePlan(sessionId, planPath, feedback),
+  }),
+
+  /** Continue a turn a server restart cut short (announced with turn_interrupted) */
+  resumeInterruptedTurn: defineMethod({
+    args: z.tuple([id]),
+    result: z.void(),
+    handler: ([sessionId], { sm }) => sm.resumeInterruptedTurn(sessionId),
+  }),
+
+  // ============================================================
+  // Workspace Management
+  // ============================================================
+
+  createWorkspace: defineMethod({
+    args: z.tuple([path, z.string().min(1)]),
+    result: opaque<Workspace>(),
+    handler: ([folderPath, name], { sm }) => sm.createWorkspace(folderPath, name),
+  }),
+
+  checkWorkspaceSlug: defineMethod({
+    args: z.tuple([z.string().min(1).regex(/^[^/\\]+$/, 'Slug must not contain path separators')]),
+    result: z.object({ exists: z.boolean(), path: z.string() }),
+    readOnly: true,
+    handler: ([slug]) => {
+      const workspacePath = join(getDefaultWorkspacesDir(), slug)
       return { exists: existsSync(workspacePath), path: workspacePath }
-    }
-    
-    // ============================================================
-    // File Operations (stubs - to be implemented)
-    // ============================================================
-    
-    case 'readFile':
-    case 'openFileDialog':
-    case 'readFileAttachment':
-    case 'storeAttachment':
-    case 'generateThumbnail':
-    case 'searchFiles':
-    case 'openFolderDialog':
-      throw new Error(`Method ${method} not yet implemented for webapp`)
-    
-    // ============================================================
-    // Theme & Notifications (stubs)
-    // ============================================================
-    
-    case 'getColorTheme':
-      return 'system'
-    
-    case 'setColorTheme':
-      return
-    
-    case 'loadPresetThemes':
-      return []
-    
-    case 'loadPresetTheme':
-      return null
-    
-    case 'setNotificationsEnabled':
-      return
-    
-    case 'showNotification':
-    case 'updateBadgeCount':
-    case 'clearBadgeCount':
-    case 'setDockIconWithBadge':
-    case 'broadcastThemePreferences':
-      return
-    
-    // ============================================================
-    // Shell Operations
-    // ============================================================
-    
-    case 'openUrl': {
-      // Can't open URLs from server - let client handle
-      return
-    }
-    
-    case 'openFile':
-    case 'showInFolder':
-      // Not applicable for webapp
-      return
-    
-    // ============================================================
-    // Auth & Onboarding
-    // ============================================================
-    
-    case 'showLogoutConfirmation':
-      return true // Always confirm in webapp
-    
-    case 'showDeleteSessionConfirmation':
-      return true // Always confirm in webapp
-    
-    case 'logout':
-      // Clear credentials
-      return
-    
-    case 'saveOnboardingConfig': {
-      const [config] = args as [unknown]
-      return sm.saveOnboardingConfig(config)
-    }
-    
-    case 'updateApiSetup': {
-      const [authType, credential, anthropicBaseUrl, customModel] = args as [string, string | undefined, string | null | undefined, string | null | undefined]
-      return sm.updateApiSetup(authType, credential, anthropicBaseUrl, customModel)
-    }
-    
-    case 'testApiConnection': {
-      const [apiKey, baseUrl, modelName] = args as [string, string | undefined, string | undefined]
-      return sm.testApiConnection(apiKey, baseUrl, modelName)
-    }
-    
-    // OAuth - not supported in webapp (API key only)
-    case 'startClaudeOAuth':
-    case 'exchangeClaudeCode':
-    case 'hasClaudeOAuthState':
-    case 'clearClaudeOAuthState':
-    case 'startWorkspaceMcpOAuth':
-      throw new Error('OAuth not supported in webapp mode. Please use API key authentication.')
-    
-    // ============================================================
-    // Sources, Skills, Labels, Views
-    // ============================================================
-    
-    case 'getSources': {
-      const [workspaceId] = args as [string]
-      return sm.getSources(workspaceId)
-    }
-    
-    case 'getSkills': {
-      const [workspaceId] = args as [string]
-      return sm.getSkills(workspaceId)
-    }
-    
-    case 'listLabels': {
-      const [workspaceId] = args as [string]
-      return sm.listLabels(workspaceId)
-    }
-    
-    case 'listStatuses': {
-      const [workspaceId] = args as [string]
-      return sm.listStatuses(workspaceId)
-    }
-    
-    case 'listViews': {
-      const [workspaceId] = args as [string]
-      return sm.listViews(workspaceId)
-    }
-    
-    // Stubs for other methods
-    case 'createSource':
-    case 'deleteSource':
-    case 'startSourceOAuth':
-    case 'saveSourceCredentials':
-    case 'getSourcePermissionsConfig':
-    case 'getWorkspacePermissionsConfig':
-    case 'getDefaultPermissionsConfig':
-    case 'getMcpTools':
-    case 'getSkillFiles':
-    case 'deleteSkill':
-    case 'openSkillInEditor':
-    case 'openSkillInFinder':
-    case 'createLabel':
-    case 'deleteLabel':
-    case 'reorderStatuses':
-    case 'saveViews':
-    case 'readWorkspaceImage':
-    case 'writeWorkspaceImage':
-      throw new Error(`Method ${method} not yet implemented for webapp`)
-    
-    // ============================================================
-    // Settings
-    // ============================================================
-    
-    case 'getWorkspaceSettings': {
-      const [workspaceId] = args as [string]
-      return sm.getWorkspaceSettings(workspaceId)
-    }
-    
-    case 'updateWorkspaceSetting': {
-      const [workspaceId, key, value] = args as [string, string, unknown]
-      return sm.updateWorkspaceSetting(workspaceId, key, value)
-    }
-    
-    case 'getSessionModel': {
-      const [sessionId, workspaceId] = args as [string, string]
-      return sm.getSessionModel(sessionId, workspaceId)
-    }
-    
-    case 'setSessionModel': {
-      const [sessionId, workspaceId, model] = args as [string, string, string | null]
-      return sm.setSessionModel(sessionId, workspaceId, model)
-    }
-    
-    case 'readPreferences':
-      return sm.readPreferences()
-    
-    case 'writePreferences': {
-      const [content] = args as [string]
-      return sm.writePreferences(content)
-    }
-    
-    // ============================================================
-    // Session Info Panel
-    // ============================================================
-    
-    case 'getSessionFiles': {
-      const [sessionId] = args as [string]
-      return sm.getSessionFiles(sessionId)
-    }
-    
-    case 'getSessionNotes': {
-      const [sessionId] = args as [string]
-      return sm.getSessionNotes(sessionId)
-    }
-    
-    case 'setSessionNotes': {
-      const [sessionId, content] = args as [string, string]
-      return sm.setSessionNotes(sessionId, content)
-    }
-    
-    case 'watchSessionFiles':
-    case 'unwatchSessionFiles':
-      // File watching not implemented for webapp
-      return
-    
-    // ============================================================
-    // Git Operations
-    // ============================================================
-    
-    case 'getGitBranch': {
-      const [dirPath] = args as [string]
-      return sm.getGitBranch(dirPath)
-    }
-    
-    case 'checkGitBash':
-      return { available: false, reason: 'Not applicable on this platform' }
-    
-    case 'browseForGitBash':
-    case 'setGitBashPath':
-      return null
-    
-    // ============================================================
-    // Auto-update (not applicable for webapp)
-    // ============================================================
-    
-    case 'checkForUpdates':
-    case 'getUpdateInfo':
-      return { available: false }
-    
-    case 'installUpdate':
-    case 'dismissUpdate':
-    case 'getDismissedUpdateVersion':
-      return null
-    
-    // ============================================================
-    // Logo URL
-    // ============================================================
-    
-    case 'getLogoUrl': {
-      const [serviceUrl, provider] = args as [string, string | undefined]
-      return sm.getLogoUrl(serviceUrl, provider)
-    }
-    
-    case 'getWindowFocusState':
-      return true // Always focused in webapp
-    
-    // ============================================================
-    // Debug
-    // ============================================================
-    
-    case 'debugLog': {
+    },
+  }),
+
+  // ============================================================
+  // File Operations
+  // ============================================================
+
+  readFile: defineMethod({
+    args: z.tuple([path]),
+    result: z.string(),
+    readOnly: true,
+    handler: ([filePath], { sm }) => sm.readFile(filePath),
+  }),
+
+  readFileAttachment: defineMethod({
+    args: z.tuple([path]),
+    result: opaque<FileAttachment>().nullable(),
+    readOnly: true,
+    handler: ([filePath], { sm }) => sm.readFileAttachment(filePath),
+  }),
+
+  storeAttachment: defineMethod({
+    args: z.tuple([id, z.looseObject({ type: z.string(), name: z.string().min(1), mimeType: z.string() })]),
+    result: opaque<StoredAttachment>(),
+    handler: ([sessionId, attachment], { sm }) => sm.storeAttachment(sessionId, attachment as FileAttachment),
+  }),
+
+  generateThumbnail: defineMethod({
+    args: z.tuple([z.string().min(1), z.string().min(1)]),
+    result: z.string().nullable(),
+    readOnly: true,
+    handler: ([base64, mimeType]) => generateThumbnail(base64, mimeType),
+  }),
+
+  listDirectory: defineMethod({
+    args: z.tuple([optionalArg(z.string()), optionalArg(z.object({ showHidden: z.boolean().optional() }))]),
+    result: opaque<DirectoryListing>(),
+    readOnly: true,
+    handler: ([dirPath, options], { sm }) => sm.listDirectory(dirPath, options),
+  }),
+
+  // The file and folder pickers run in the browser (see the web adapter)
+  openFileDialog: stubMethod('openFileDialog runs in the browser'),
+  openFolderDialog: stubMethod('openFolderDialog runs in the browser'),
+  searchFiles: stubMethod(notYetImplemented('searchFiles'), { readOnly: true }),
+
+  // ============================================================
+  // Theme & Notifications (stubs)
+  // ============================================================
+
+  getColorTheme: noopMethod('system', z.string(), { readOnly: true }),
+  setColorTheme: noopMethod(),
+  loadPresetThemes: noopMethod([], z.array(z.unknown()), { readOnly: true }),
+  loadPresetTheme: noopMethod(null, z.null(), { readOnly: true }),
+  setNotificationsEnabled: noopMethod(),
+  showNotification: noopMethod(),
+  updateBadgeCount: noopMethod(),
+  clearBadgeCount: noopMethod(),
+  setDockIconWithBadge: noopMethod(),
+  broadcastThemePreferences: noopMethod(),
+
+  // ============================================================
+  // Shell Operations
+  // ============================================================
+
+  // Can't open URLs or files from the server - the client handles them
+  openUrl: noopMethod(),
+  openFile: noopMethod(),
+  showInFolder: noopMethod(),
+
+  // ============================================================
+  // Auth & Onboarding
+  // ============================================================
+
+  // Always confirm in webapp
+  showLogoutConfirmation: noopMethod(true, z.boolean()),
+  showDeleteSessionConfirmation: noopMethod(true, z.boolean()),
+
+  logout: noopMethod(),
+
+  saveOnboardingConfig: defineMethod({
+    args: z.tuple([z.looseObject({
+      authType: z.string().optional(),
+      credential: z.string().optional(),
+      anthropicBaseUrl: z.string().nullable().optional(),
+      customModel: z.string().nullable().optional(),
+    })]),
+    result: z.unknown(),
+    handler: ([config], { sm }) => sm.saveOnboardingConfig(config),
+  }),
+
+  updateApiSetup: defineMethod({
+    args: z.tuple([
+      z.string().min(1),
+      optionalArg(z.string()),
+      z.string().nullable().optional(),
+      z.string().nullable().optional(),
+    ]),
+    result: z.void(),
+    handler: ([authType, credential, anthropicBaseUrl, customModel], { sm }) =>
+      sm.updateApiSetup(authType, credential, anthropicBaseUrl, customModel),
+  }),
+
+  testApiConnection: defineMethod({
+    args: z.tuple([z.string(), optionalArg(z.string()), optionalArg(z.string())]),
+    result: z.object({ success: z.boolean(), error: z.string().optional(), modelCount: z.number().optional() }),
+    handler: ([apiKey, baseUrl, modelName], { sm }) => sm.testApiConnection(apiKey, baseUrl, modelName),
+  }),
+
+  // ============================================================
+  // OAuth (redirects come back to /oauth/callback/:provider - see oauth.ts)
+  // ============================================================
+
+  startClaudeOAuth: defineMethod({
+    args: none,
+    result: z.object({ success: z.boolean(), authUrl: z.string().optional() }),
+    handler: () => startClaudeOAuth(),
+  }),
+
+  exchangeClaudeCode: defineMethod({
+    args: z.tuple([z.string().min(1)]),
+    result: z.object({ success: z.boolean(), token: z.string().optional(), error: z.string().optional() }),
+    handler: ([code]) => exchangeClaudeCode(code),
+  }),
+
+  hasClaudeOAuthState: defineMethod({
+    args: none,
+    result: z.boolean(),
+    readOnly: true,
+    handler: () => hasClaudeOAuthState(),
+  }),
+
+  clearClaudeOAuthState: defineMethod({
+    args: none,
+    result: z.object({ success: z.boolean() }),
+    handler: () => clearClaudeOAuthState(),
+  }),
+
+  startWorkspaceMcpOAuth: defineMethod({
+    args: z.tuple([z.url()]),
+    result: oauthFlowStart,
+    handler: ([mcpUrl]) => startWorkspaceMcpOAuth(mcpUrl),
+  }),
+
+  startSourceOAuth: defineMethod({
+    args: z.tuple([id, slug]),
+    result: oauthFlowStart,
+    // Auth requests of the agent waiting for this source resume once the flow finishes
+    handler: ([workspaceId, sourceSlug], { sm }) =>
+      startSourceOAuth(workspaceId, sm.getSource(workspaceId, sourceSlug), result => sm.completeSourceAuthRequests(workspaceId, sourceSlug, result)),
+  }),
+
+  /** Result of a flow whose `oauth_complete` event the client may have missed (null while pending) */
+  getOAuthResult: defineMethod({
+    args: z.tuple([id]),
+    result: oauthFlowResult.nullable(),
+    readOnly: true,
+    handler: ([flowId]) => getOAuthFlowResult(flowId),
+  }),
+
+  // ============================================================
+  // Sources, Skills, Labels, Views
+  // ============================================================
+
+  getSources: defineMethod({
+    args: z.tuple([id]),
+    result: z.array(opaque<LoadedSource>()),
+    readOnly: true,
+    handler: ([workspaceId], { sm }) => sm.getSources(workspaceId),
+  }),
+
+  getSkills: defineMethod({
+    args: z.tuple([id]),
+    result: z.array(opaque<LoadedSkill>()),
+    readOnly: true,
+    handler: ([workspaceId], { sm }) => sm.getSkills(workspaceId),
+  }),
+
+  getSkillFiles: defineMethod({
+    args: z.tuple([id, slug]),
+    result: z.array(opaque<SkillFile>()),
+    readOnly: true,
+    handler: ([workspaceId, skillSlug], { sm }) => sm.getSkillFiles(workspaceId, skillSlug),
+  }),
+
+  /** Text content of a file in the skill folder (path relative to the folder) */
+  readSkillFile: defineMethod({
+    args: z.tuple([id, slug, path]),
+    result: z.string(),
+    readOnly: true,
+    handler: ([workspaceId, skillSlug, filePath], { sm }) => sm.readSkillFile(workspaceId, skillSlug, filePath),
+  }),
+
+  /** SKILL.md is validated first - when invalid nothing is written and the issues are returned */
+  writeSkillFile: defineMethod({
+    args: z.tuple([id, slug, path, z.string()]),
+    result: skillSaveResult,
+    handler: ([workspaceId, skillSlug, filePath, content], { sm }) => sm.writeSkillFile(workspaceId, skillSlug, filePath, content),
+  }),
+
+  /** Creates a skeleton SKILL.md when no content is given */
+  createSkill: defineMethod({
+    args: z.tuple([id, slug, optionalArg(z.string())]),
+    result: skillSaveResult.extend({ skill: opaque<LoadedSkill>().optional() }),
+    handler: ([workspaceId, skillSlug, content], { sm }) => sm.createSkill(workspaceId, skillSlug, content),
+  }),
+
+  deleteSkill: defineMethod({
+    args: z.tuple([id, slug]),
+    result: z.void(),
+    handler: ([workspaceId, skillSlug], { sm }) => sm.deleteSkill(workspaceId, skillSlug),
+  }),
+
+  listLabels: defineMethod({
+    args: z.tuple([id]),
+    result: z.array(z.unknown()),
+    readOnly: true,
+    handler: ([workspaceId], { sm }) => sm.listLabels(workspaceId),
+  }),
+
+  listStatuses: defineMethod({
+    args: z.tuple([id]),
+    result: z.array(z.unknown()),
+    readOnly: true,
+    handler: ([workspaceId], { sm }) => sm.listStatuses(workspaceId),
+  }),
+
+  listViews: defineMethod({
+    args: z.tuple([id]),
+    result: z.array(z.unknown()),
+    readOnly: true,
+    handler: ([workspaceId], { sm }) => sm.listViews(workspaceId),
+  }),
+
+  createLabel: defineMethod({
+    args: z.tuple([id, z.object({
+      name: z.string().trim().min(1),
+      color: entityColor.optional(),
+      parentId: id.optional(),
+      valueType: labelValueType.optional(),
+    })]),
+    result: opaque<LabelConfig>(),
+    handler: ([workspaceId, input], { sm }) => sm.createLabel(workspaceId, input),
+  }),
+
+  /** A null valueType turns the label back into a plain (boolean) label */
+  updateLabel: defineMethod({
+    args: z.tuple([id, id, z.object({
+      name: z.string().trim().min(1).optional(),
+      color: entityColor.optional(),
+      valueType: labelValueType.nullable().optional(),
+    })]),
+    result: opaque<LabelConfig>(),
+    handler: ([workspaceId, labelId, updates], { sm }) => sm.updateLabel(workspaceId, labelId, updates),
+  }),
+
+  /** Also deletes child labels and removes them from sessions */
+  deleteLabel: defineMethod({
+    args: z.tuple([id, id]),
+    result: z.object({ stripped: z.number() }),
+    handler: ([workspaceId, labelId], { sm }) => sm.deleteLabel(workspaceId, labelId),
+  }),
+
+  /** A null parent moves the label to the root */
+  moveLabel: defineMethod({
+    args: z.tuple([id, id, id.nullable()]),
+    result: z.void(),
+    handler: ([workspaceId, labelId, parentId], { sm }) => sm.moveLabel(workspaceId, labelId, parentId),
+  }),
+
+  reorderLabels: defineMethod({
+    args: z.tuple([id, id.nullable(), z.array(id)]),
+    result: z.void(),
+    handler: ([workspaceId, parentId, orderedIds], { sm }) => sm.reorderLabels(workspaceId, parentId, orderedIds),
+  }),
+
+  createStatus: defineMethod({
+    args: z.tuple([id, z.object({
+      label: z.string().trim().min(1),
+      color: entityColor.optional(),
+      icon: statusIcon.optional(),
+      category: statusCategory,
+    })]),
+    result: opaque<StatusConfig>(),
+    handler: ([workspaceId, input], { sm }) => sm.createStatus(workspaceId, input),
+  }),
+
+  updateStatus: defineMethod({
+    args: z.tuple([id, id, z.object({
+      label: z.string().trim().min(1).optional(),
+      color: entityColor.optional(),
+      icon: statusIcon.optional(),
+      category: statusCategory.optional(),
+    })]),
+    result: opaque<StatusConfig>(),
+    handler: ([workspaceId, statusId, updates], { sm }) => sm.updateStatus(workspaceId, statusId, updates),
+  }),
+
+  /** Sessions in the deleted status move to 'todo' */
+  deleteStatus: defineMethod({
+    args: z.tuple([id, id]),
+    result: z.object({ migrated: z.number() }),
+    handler: ([workspaceId, statusId], { sm }) => sm.deleteStatus(workspaceId, statusId),
+  }),
+
+  reorderStatuses: defineMethod({
+    args: z.tuple([id, z.array(id)]),
+    result: z.void(),
+    handler: ([workspaceId, orderedIds], { sm }) => sm.reorderStatuses(workspaceId, orderedIds),
+  }),
+
+  resetStatuses: defineMethod({
+    args: z.tuple([id]),
+    result: z.void(),
+    handler: ([workspaceId], { sm }) => sm.resetStatuses(workspaceId),
+  }),
+
+  /** Replaces the workspace's views - each expression must compile */
+  saveViews: defineMethod({
+    args: z.tuple([id, viewList]),
+    result: z.void(),
+    handler: ([workspaceId, views], { sm }) => sm.saveViews(workspaceId, views),
+  }),
+
+  /** Check an expression while the user types it */
+  validateViewExpression: defineMethod({
+    args: z.tuple([z.string()]),
+    result: z.object({ valid: z.boolean(), error: z.string().optional() }),
+    readOnly: true,
+    handler: ([expression]) => validateViewExpression(expression),
+  }),
+
+  /** Validated against the source schema - failures list the offending fields in `details` */
+  createSource: defineMethod({
+    args: z.tuple([id, z.looseObject({ name: z.string().optional(), type: z.enum(['mcp', 'api', 'local']).optional() })]),
+    result: opaque<FolderSourceConfig>(),
+    handler: ([workspaceId, config], { sm }) => sm.createSource(workspaceId, config as Partial<FolderSourceConfig>),
+  }),
+
+  deleteSource: defineMethod({
+    args: z.tuple([id, slug]),
+    result: z.void(),
+    handler: ([workspaceId, sourceSlug], { sm }) => sm.deleteSource(workspaceId, sourceSlug),
+  }),
+
+  saveSourceCredentials: defineMethod({
+    args: z.tuple([id, slug, z.union([
+      z.string().min(1),
+      z.object({ username: z.string(), password: z.string() }),
+    ])]),
+    result: z.void(),
+    handler: ([workspaceId, sourceSlug, credential], { sm }) => sm.saveSourceCredentials(workspaceId, sourceSlug, credential),
+  }),
+
+  /** Runs the agent's source_test checks and records the connection status */
+  testSource: defineMethod({
+    args: z.tuple([id, slug]),
+    result: z.object({ success: z.boolean(), report: z.string() }),
+    handler: ([workspaceId, sourceSlug], { sm }) => sm.testSource(workspaceId, sourceSlug),
+  }),
+
+  getSourcePermissionsConfig: defineMethod({
+    args: z.tuple([id, slug]),
+    result: z.unknown(),
+    readOnly: true,
+    handler: ([workspaceId, sourceSlug], { sm }) => sm.getSourcePermissionsConfig(workspaceId, sourceSlug),
+  }),
+
+  getWorkspacePermissionsConfig: defineMethod({
+    args: z.tuple([id]),
+    result: z.unknown(),
+    readOnly: true,
+    handler: ([workspaceId], { sm }) => sm.getWorkspacePermissionsConfig(workspaceId),
+  }),
+
+  getDefaultPermissionsConfig: defineMethod({
+    args: none,
+    result: z.object({ config: z.unknown(), path: z.string() }),
+    readOnly: true,
+    handler: () => getDefaultPermissionsConfig(),
+  }),
+
+  getMcpTools: defineMethod({
+    args: z.tuple([id, slug]),
+    result: z.object({
+      success: z.boolean(),
+      error: z.string().optional(),
+      tools: z.array(z.object({ name: z.string(), description: z.string().optional(), allowed: z.boolean() })).optional(),
+    }),
+    readOnly: true,
+    handler: ([workspaceId, sourceSlug], { sm }) => sm.getMcpTools(workspaceId, sourceSlug),
+  }),
+
+  // Stubs for other methods
+  // Skills are edited in the browser (readSkillFile / writeSkillFile)
+  openSkillInEditor: stubMethod('Skills are edited in the browser'),
+  openSkillInFinder: stubMethod('Skills are edited in the browser'),
+  readWorkspaceImage: stubMethod(notYetImplemented('readWorkspaceImage'), { readOnly: true }),
+  writeWorkspaceImage: stubMethod(notYetImplemented('writeWorkspaceImage')),
+
+  // ============================================================
+  // Settings
+  // ============================================================
+
+  getWorkspaceSettings: defineMethod({
+    args: z.tuple([id]),
+    result: opaque<WorkspaceSettings>(),
+    readOnly: true,
+    handler: ([workspaceId], { sm }) => sm.getWorkspaceSettings(workspaceId),
+  }),
+
+  /** Values are validated per key; null clears a session default */
+  updateWorkspaceSetting: defineMethod({
+    args: z.tuple([id, z.enum(WORKSPACE_SETTING_KEYS), z.unknown()]),
+    result: z.void(),
+    handler: ([workspaceId, key, value], { sm }) => sm.updateWorkspaceSetting(workspaceId, key, value),
+  }),
+
+  getSessionModel: defineMethod({
+    args: z.tuple([id, id]),
+    result: z.string().nullable(),
+    readOnly: true,
+    handler: ([sessionId, workspaceId], { sm }) => sm.getSessionModel(sessionId, workspaceId),
+  }),
+
+  /** null reverts to the workspace default model */
+  setSessionModel: defineMethod({
+    args: z.tuple([id, id, z.string().min(1).nullable()]),
+    result: z.void(),
+    handler: ([sessionId, workspaceId, model], { sm }) => sm.setSessionModel(sessionId, workspaceId, model),
+  }),
+
+  getSessionThinkingLevel: defineMethod({
+    args: z.tuple([id]),
+    result: thinkingLevel,
+    readOnly: true,
+    handler: ([sessionId], { sm }) => sm.getSessionThinkingLevel(sessionId),
+  }),
+
+  setSessionThinkingLevel: defineMethod({
+    args: z.tuple([id, thinkingLevel]),
+    result: z.void(),
+    handler: ([sessionId, level], { sm }) => sm.setSessionThinkingLevel(sessionId, level),
+  }),
+
+  getSessionPermissionMode: defineMethod({
+    args: z.tuple([id]),
+    result: permissionMode,
+    readOnly: true,
+    handler: ([sessionId], { sm }) => sm.getSessionPermissionMode(sessionId),
+  }),
+
+  setSessionPermissionMode: defineMethod({
+    args: z.tuple([id, permissionMode]),
+    result: z.void(),
+    handler: ([sessionId, mode], { sm }) => sm.setSessionPermissionMode(sessionId, mode),
+  }),
+
+  /** Next of the workspace's cyclablePermissionModes - returns the new mode */
+  cycleSessionPermissionMode: defineMethod({
+    args: z.tuple([id]),
+    result: permissionMode,
+    handler: ([sessionId], { sm }) => sm.cycleSessionPermissionMode(sessionId),
+  }),
+
+  readPreferences: defineMethod({
+    args: none,
+    result: z.object({ content: z.string(), exists: z.boolean(), path: z.string() }),
+    readOnly: true,
+    handler: (_, { sm }) => sm.readPreferences(),
+  }),
+
+  writePreferences: defineMethod({
+    args: z.tuple([z.string()]),
+    result: z.object({ success: z.boolean(), error: z.string().optional() }),
+    handler: ([content], { sm }) => sm.writePreferences(content),
+  }),
+
+  // ============================================================
+  // Session Info Panel
+  // ============================================================
+
+  getSessionFiles: defineMethod({
+    args: z.tuple([id]),
+    result: z.array(opaque<SessionFile>()),
+    readOnly: true,
+    handler: ([sessionId], { sm }) => sm.getSessionFiles(sessionId),
+  }),
+
+  getSessionNotes: defineMethod({
+    args: z.tuple([id]),
+    result: z.string(),
+    readOnly: true,
+    handler: ([sessionId], { sm }) => sm.getSessionNotes(sessionId),
+  }),
+
+  setSessionNotes: defineMethod({
+    args: z.tuple([id, z.string()]),
+    result: z.void(),
+    handler: ([sessionId, content], { sm }) => sm.setSessionNotes(sessionId, content),
+  }),
+
+  /** Pushes session_file_added / _changed / _removed events until unwatched */
+  watchSessionFiles: defineMethod({
+    args: z.tuple([id]),
+    result: z.void(),
+    handler: ([sessionId], { sm }) => sm.watchSessionFiles(sessionId),
+  }),
+
+  unwatchSessionFiles: defineMethod({
+    args: z.tuple([id]),
+    result: z.void(),
+    handler: ([sessionId], { sm }) => sm.unwatchSessionFiles(sessionId),
+  }),
+
+  // ============================================================
+  // Git Operations
+  // ============================================================
+
+  getGitBranch: defineMethod({
+    args: z.tuple([path]),
+    result: z.string().nullable(),
+    readOnly: true,
+    handler: ([dirPath], { sm }) => sm.getGitBranch(dirPath),
+  }),
+
+  checkGitBash: noopMethod(
+    { available: false, reason: 'Not applicable on this platform' },
+    z.object({ available: z.boolean(), reason: z.string().optional() }),
+    { readOnly: true }
+  ),
+
+  browseForGitBash: noopMethod(null, z.null()),
+  setGitBashPath: noopMethod(null, z.null()),
+
+  // ============================================================
+  // Auto-update (not applicable for webapp)
+  // ============================================================
+
+  checkForUpdates: noopMethod({ available: false }, z.object({ available: z.boolean() }), { readOnly: true }),
+  getUpdateInfo: noopMethod({ available: false }, z.object({ available: z.boolean() }), { readOnly: true }),
+  installUpdate: noopMethod(null, z.null()),
+  dismissUpdate: noopMethod(null, z.null()),
+  getDismissedUpdateVersion: noopMethod(null, z.null(), { readOnly: true }),
+
+  // ============================================================
+  // Logo URL
+  // ============================================================
+
+  getLogoUrl: defineMethod({
+    args: z.tuple([z.string().min(1), optionalArg(z.string())]),
+    result: z.string().nullable(),
+    readOnly: true,
+    handler: ([serviceUrl, provider], { sm }) => sm.getLogoUrl(serviceUrl, provider),
+  }),
+
+  // Always focused in webapp
+  getWindowFocusState: noopMethod(true, z.boolean(), { readOnly: true }),
+
+  // ============================================================
+  // Users and shared workspaces (multi-user mode, admin only)
+  // ============================================================
+
+  getCurrentUser: defineMethod({
+    args: none,
+    result: z.object({ multiUser: z.boolean(), id: z.string().nullable(), admin: z.boolean() }),
+    readOnly: true,
+    handler: () => {
+      const user = getCurrentUser()
+      // Single-user mode: the one login owns the server
+      return { multiUser: isMultiUserMode(), id: user?.id ?? null, admin: user?.admin ?? true }
+    },
+  }),
+
+  listUsers: defineMethod({
+    args: none,
+    result: z.array(z.object({ id: z.string(), admin: z.boolean(), hasPassword: z.boolean() })),
+    readOnly: true,
+    handler: () => {
+      assertAdmin()
+      return listUsers()
+    },
+  }),
+
+  createUser: defineMethod({
+    args: z.tuple([id, optionalArg(z.object({ password: z.string().min(8).optional(), admin: z.boolean().optional() }))]),
+    result: z.object({ id: z.string(), accessToken: z.string() }),
+    handler: ([userId, options]) => {
+      assertAdmin()
+      return createUser(userId, options)
+    },
+  }),
+
+  deleteUser: defineMethod({
+    args: z.tuple([id]),
+    result: z.void(),
+    handler: ([userId]) => {
+      if (assertAdmin().id === userId) {
+        throw new RpcError('invalid_args', 'You cannot delete your own account')
+      }
+      deleteUser(userId)
+    },
+  }),
+
+  listSharedWorkspaces: defineMethod({
+    args: none,
+    result: z.array(opaque<SharedWorkspace>()),
+    readOnly: true,
+    handler: () => {
+      assertAdmin()
+      return listSharedWorkspaces()
+    },
+  }),
+
+  addSharedWorkspace: defineMethod({
+    args: z.tuple([path, z.string().min(1), z.array(id)]),
+    result: opaque<SharedWorkspace>(),
+    handler: ([rootPath, name, userIds]) => {
+      assertAdmin()
+      assertPathAllowed(rootPath)
+      return addSharedWorkspace(rootPath, name, userIds)
+    },
+  }),
+
+  setSharedWorkspaceUsers: defineMethod({
+    args: z.tuple([id, z.array(id)]),
+    result: opaque<SharedWorkspace>(),
+    handler: ([workspaceId, userIds]) => {
+      assertAdmin()
+      return setSharedWorkspaceUsers(workspaceId, userIds)
+    },
+  }),
+
+  removeSharedWorkspace: defineMethod({
+    args: z.tuple([id]),
+    result: z.void(),
+    handler: ([workspaceId]) => {
+      assertAdmin()
+      removeSharedWorkspace(workspaceId)
+    },
+  }),
+
+  // ============================================================
+  // Server
+  // ============================================================
+
+  /** Sessions loaded in memory across all users, with the turn limit and memory use */
+  listLiveAgents: defineMethod({
+    args: none,
+    result: opaque<AgentPoolStatus>(),
+    readOnly: true,
+    handler: () => {
+      // Single-user mode: the one login owns the server
+      if (isMultiUserMode()) assertAdmin()
+      return getAgentPoolStatus()
+    },
+  }),
+
+  // ============================================================
+  // Debug
+  // ============================================================
+
+  debugLog: defineMethod({
+    args: z.array(z.unknown()),
+    result: z.void(),
+    handler: (args) => {
       console.log('[renderer]', ...args)
-      return
+    },
+  }),
+} satisfies Record<string, RpcMethod>
+
+type RpcMethods = typeof rpcMethods
+
+export type RpcMethodName = keyof RpcMethods
+
+/** Arguments a client passes to a method */
+export type RpcArgs<M extends RpcMethodName> = z.input<RpcMethods[M]['args']> extends infer A extends unknown[] ? A : never
+
+/** Result a client receives from a method */
+export type RpcResult<M extends RpcMethodName> = z.output<RpcMethods[M]['result']>
+
+const methodTable: Record<string, RpcMethod> = rpcMethods
+
+function getMethod(method: string): RpcMethod | undefined {
+  return Object.hasOwn(methodTable, method) ? methodTable[method] : undefined
+}
+
+/**
+ * Whether a method is exempt from CSRF checks (read-only)
+ */
+export function isReadOnlyMethod(method: string): boolean {
+  return getMethod(method)?.readOnly === true
+}
+
+/**
+ * Describe the registered methods (served by GET /api/rpc/methods)
+ */
+export function listRpcMethods(): Array<{ name: string; readOnly: boolean; stub: string | null; args: unknown }> {
+  return Object.keys(rpcMethods).map(name => {
+    const method = getMethod(name)!
+    return {
+      name,
+      readOnly: method.readOnly === true,
+      stub: method.stub ?? null,
+      args: describeArgs(method.args),
     }
-    
-    default:
-      throw new Error(`Unknown RPC method: ${method}`)
+  })
+}
+
+/**
+ * Settle with a `cancelled` error as soon as the signal aborts. Handlers that don't
+ * check ctx.signal keep running - their result is discarded.
+ */
+function abortable<T>(promise: Promise<T>, method: string, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise
+  const cancelled = () => new RpcError('cancelled', `${method} was cancelled`)
+  if (signal.aborted) return Promise.reject(cancelled())
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(cancelled())
+    signal.addEventListener('abort', onAbort, { once: true })
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort))
+  })
+}
+
+/**
+ * RPC method dispatcher. Validates arguments and results against the registry;
+ * failures are thrown as RpcError.
+ */
+export async function rpcHandler(
+  method: string,
+  args: unknown,
+  broadcast: BroadcastFn,
+  signal?: AbortSignal
+): Promise<unknown> {
+  const definition = getMethod(method)
+  if (!definition) {
+    throw new RpcError('not_found', `Unknown RPC method: ${method}`)
+  }
+
+  const parsedArgs = definition.args.safeParse(args ?? [])
+  if (!parsedArgs.success) {
+    throw new RpcError(
+      'invalid_args',
+      `Invalid arguments for ${method}: ${z.prettifyError(parsedArgs.error)}`,
+      parsedArgs.error.issues.map(issue => ({ path: issue.path.map(String), message: issue.message }))
+    )
+  }
+
+  const sm = getSessionManager(broadcast)
+  const result = await abortable(
+    Promise.resolve().then(() => definition.handler(parsedArgs.data, { sm, broadcast, signal })),
+    method,
+    signal
+  )
+
+  const parsedResult = definition.result.safeParse(result)
+  if (!parsedResult.success) {
+    console.error(`[rpc] ${method} returned an unexpected result:`, z.prettifyError(parsedResult.error))
+    throw new RpcError('internal', `${method} returned an unexpected result`)
   }
+  return parsedResult.data
 }
@@ -0,0 +1,208 @@
+/**
+ * Session files and notes for the webapp
+ *
+ * A session folder holds the agent's plans, uploaded attachments, long responses and
+ * files downloaded by API tools. The info panel lists them and follows changes through
+ * a recursive fs.watch on the folder, so files written mid-turn appear right away.
+ * Notes are a markdown file in the same folder.
+ */
+
+import { existsSync, readdirSync, statSync, watch, type FSWatcher } from 'fs'
+import { readFile, writeFile } from 'fs/promises'
+import { basename, join, resolve, sep } from 'path'
+import { getSessionPath } from '@craft-agent/shared/sessions'
+import { attachmentResponse } from './attachments'
+import type { SessionManager } from './session-manager'
+
+const NOTES_FILE = 'notes.md'
+
+// Session state and notes have their own views - not shown as files
+const INTERNAL_FILES = new Set(['session.jsonl', NOTES_FILE])
+
+// Coalesce the bursts of events a single write produces
+const WATCH_DEBOUNCE_MS = 100
+
+/**
+ * A file or folder in a session folder. `path` is relative to the folder ('/'-separated).
+ */
+export interface SessionFile {
+  name: string
+  path: string
+  type: 'file' | 'directory'
+  size?: number
+  modifiedAt?: number
+  children?: SessionFile[]
+}
+
+export type SessionFileChange = 'added' | 'changed' | 'removed'
+
+function isListed(name: string): boolean {
+  return !name.startsWith('.') && !name.endsWith('.tmp') && !INTERNAL_FILES.has(name)
+}
+
+// ============================================================
+// Files
+// ============================================================
+
+function toSessionFile(absolutePath: string, relativePath: string): SessionFile | null {
+  try {
+    const stats = statSync(absolutePath)
+    const name = basename(relativePath)
+    if (stats.isDirectory()) {
+      return { name, path: relativePath, type: 'directory', modifiedAt: stats.mtimeMs, children: scanDirectory(absolutePath, relativePath) }
+    }
+    if (stats.isFile()) {
+      return { name, path: relativePath, type: 'file', size: stats.size, modifiedAt: stats.mtimeMs }
+    }
+  } catch {
+    // Removed while scanning
+  }
+  return null
+}
+
+function scanDirectory(dirPath: string, relativeDir: string): SessionFile[] {
+  const files: SessionFile[] = []
+  for (const entry of readdirSync(dirPath)) {
+    if (!isListed(entry)) continue
+    const file = toSessionFile(join(dirPath, entry), relativeDir ? `${relativeDir}/${entry}` : entry)
+    // Empty folders (plans/, downloads/ before first use) are left out
+    if (file && (file.type === 'file' || file.children!.length > 0)) {
+      files.push(file)
+    }
+  }
+  // Folders first, then by name
+  return files.sort((a, b) => a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'directory' ? -1 : 1)
+}
+
+/**
+ * Files in a session folder as a tree
+ */
+export function getSessionFiles(workspaceRootPath: string, sessionId: string): SessionFile[] {
+  const sessionDir = getSessionPath(workspaceRootPath, sessionId)
+  return existsSync(sessionDir) ? scanDirectory(sessionDir, '') : []
+}
+
+/**
+ * Resolve a listed file's path, or null if it isn't a file in the session folder
+ */
+export function resolveSessionFilePath(workspaceRootPath: string, sessionId: string, relativePath: string): string | null {
+  const sessionDir = getSessionPath(workspaceRootPath, sessionId)
+  const filePath = resolve(sessionDir, relativePath)
+  if (!filePath.startsWith(sessionDir + sep) || relativePath.split('/').some(part => !isListed(part))) {
+    return null
+  }
+  return existsSync(filePath) && statSync(filePath).isFile() ? filePath : null
+}
+
+// ============================================================
+// Notes
+// ============================================================
+
+export async function readSessionNotes(workspaceRootPath: string, sessionId: string): Promise<string> {
+  try {
+    return await readFile(join(getSessionPath(workspaceRootPath, sessionId), NOTES_FILE), 'utf-8')
+  } catch {
+    return ''
+  }
+}
+
+export async function writeSessionNotes(workspaceRootPath: string, sessionId: string, content: string): Promise<void> {
+  await writeFile(join(getSessionPath(workspaceRootPath, sessionId), NOTES_FILE), content, 'utf-8')
+}
+
+// ============================================================
+// Watching
+// ============================================================
+
+/**
+ * Watch a session folder, reporting each listed file that is added, changed or removed.
+ * Returns a function that stops watching.
+ */
+export function watchSessionFolder(
+  workspaceRootPath: string,
+  sessionId: string,
+  onChange: (change: SessionFileChange, path: string, file: SessionFile | null) => void
+): () => void {
+  const sessionDir = getSessionPath(workspaceRootPath, sessionId)
+  // Files reported so far and their modification times - folders are only tracked through their files
+  const known = new Map<string, number | undefined>()
+  const collect = (files: SessionFile[]) => files.forEach(file => {
+    if (file.type === 'file') known.set(file.path, file.modifiedAt)
+    if (file.children) collect(file.children)
+  })
+  collect(getSessionFiles(workspaceRootPath, sessionId))
+
+  const timers = new Map<string, ReturnType<typeof setTimeout>>()
+  const report = (path: string) => {
+    timers.delete(path)
+    const file = toSessionFile(join(sessionDir, path), path)
+    if (file?.type === 'file') {
+      // Already reported with its folder
+      if (known.has(path) && known.get(path) === file.modifiedAt) return
+      onChange(known.has(path) ? 'changed' : 'added', path, file)
+      known.set(path, file.modifiedAt)
+      return
+    }
+    if (file) {
+      // A folder moved in - report the files it brought
+      const before = new Set(known.keys())
+      collect([file])
+      for (const filePath of known.keys()) {
+        if (!before.has(filePath)) onChange('added', filePath, toSessionFile(join(sessionDir, filePath), filePath))
+      }
+      return
+    }
+    // Gone - a removed folder takes its files with it
+    for (const filePath of [...known.keys()]) {
+      if (filePath === path || filePath.startsWith(`${path}/`)) {
+        known.delete(filePath)
+        onChange('removed', filePath, null)
+      }
+    }
+  }
+
+  let watcher: FSWatcher
+  try {
+    watcher = watch(sessionDir, { recursive: true }, (_event, fileName) => {
+      if (!fileName) return
+      const path = fileName.toString().split(sep).join('/')
+      if (!path.split('/').every(isListed)) return
+      clearTimeout(timers.get(path))
+      timers.set(path, setTimeout(() => report(path), WATCH_DEBOUNCE_MS))
+    })
+  } catch (error) {
+    console.error(`[session-files] Failed to watch ${sessionDir}:`, error)
+    return () => {}
+  }
+  // The folder went away (session deleted) - nothing more to report
+  watcher.on('error', () => watcher.close())
+
+  return () => {
+    watcher.close()
+    for (const timer of timers.values()) clearTimeout(timer)
+    timers.clear()
+  }
+}
+
+// ============================================================
+// HTTP handler
+// ============================================================
+
+/**
+ * GET /api/session-files/<sessionId>/<path> - a file listed by getSessionFiles.
+ * Served like attachments (?download=1 forces a download), but never cached since
+ * plans and downloads are rewritten while the agent works.
+ */
+export function sessionFileHandler(url: URL, sm: SessionManager, corsHeaders: Record<string, string>): Response {
+  let filePath: string | null = null
+  try {
+    const [sessionId, ...pathParts] = url.pathname.slice('/api/session-files/'.length).split('/').map(decodeURIComponent)
+    filePath = sessionId && pathParts.length > 0 ? sm.getSessionFilePath(sessionId, pathParts.join('/')) : null
+  } catch {
+    // Malformed escape in the path, or unknown session
+  }
+  if (!filePath) {
+    return new Response('Not Found', { status: 404, headers: corsHeaders })
+  }
+  return attachmentResponse(filePath, url.searchParams.get('download') === '1', { ...corsHeaders, 'Cache-Control': 'no-cache' })
+}
@@ -4,8 +4,8 @@
  */
 
 import { homedir } from 'os'
-import { join } from 'path'
-import { existsSync, mkdirSync } from 'fs'
+import { join, relative, resolve, sep, isAbsolute } from 'path'
+import { existsSync, mkdirSync, readFileSync } from 'fs'
 import { readFile, writeFile } from 'fs/promises'
 import { execSync } from 'child_process'
 import type { SessionEvent, Session, Workspace, FileAttachment, StoredAttachment, SendMessageOptions, Message } from '../../../electron/src/shared/types'
@@ -24,33 +24,162 @@ import {
   setAuthType,
   getPreferencesPath,
   resolveModelId,
+  loadConfigDefaults,
+  DEFAULT_MODEL,
   type Workspace as ConfigWorkspace,
 } from '@craft-agent/shared/config'
 import {
   listSessions as listStoredSessions,
   loadSession as loadStoredSession,
-  saveSession as saveStoredSession,
   createSession as createStoredSession,
   deleteSession as deleteStoredSession,
   updateSessionMetadata,
   getSessionPath as getSessionStoragePath,
+  sessionPersistenceQueue,
+  loadPlanFromPath,
   type StoredSession,
+  type StoredMessage,
+  type SessionConfig,
+  type SessionMetadata,
+  type SessionTokenUsage,
 } from '@craft-agent/shared/sessions'
-import { loadWorkspaceSources, type LoadedSource } from '@craft-agent/shared/sources'
+import { loadWorkspaceSources, loadSource, type LoadedSource, type FolderSourceConfig } from '@craft-agent/shared/sources'
 import { loadWorkspaceSkills, type LoadedSkill } from '@craft-agent/shared/skills'
 import { listLabels } from '@craft-agent/shared/labels/storage'
-import { listStatuses } from '@craft-agent/shared/statuses'
-import { listViews } from '@craft-agent/shared/views/storage'
+import { createLabel, updateLabel, deleteLabel, moveLabel, reorderLabels } from '@craft-agent/shared/labels/crud'
+import {
+  findLabelById,
+  getDescendantIds,
+  extractLabelId,
+  type LabelConfig,
+  type CreateLabelInput,
+  type UpdateLabelInput,
+} from '@craft-agent/shared/labels'
+import {
+  listStatuses,
+  createStatus,
+  updateStatus,
+  deleteStatus,
+  reorderStatuses,
+  resetToDefaults as resetStatusesToDefaults,
+  type StatusConfig,
+  type CreateStatusInput,
+  type UpdateStatusInput,
+} from '@craft-agent/shared/statuses'
+import { listViews, saveViews } from '@craft-agent/shared/views/storage'
+import type { ViewConfig } from '@craft-agent/shared/views'
 import { getCredentialManager } from '@craft-agent/shared/credentials'
-import { CraftAgent, type AgentEvent, AbortReason, setPathToClaudeCodeExecutable, setInterceptorPath, setExecutable } from '@craft-agent/shared/agent'
-import { generateSessionTitle } from '@craft-agent/shared/utils'
+import { CraftAgent, parseError, type AgentEvent, type AuthRequest, type Plan, type RecoveryMessage, AbortReason, setPathToClaudeCodeExecutable, setInterceptorPath, setExecutable } from '@craft-agent/shared/agent'
+import { getPermissionMode, setPermissionMode } from '@craft-agent/shared/agent'
+import type { AgentEventUsage } from '@craft-agent/core/types'
+import { PERMISSION_MODE_ORDER, type PermissionMode } from '@craft-agent/shared/agent/modes'
+import { DEFAULT_THINKING_LEVEL, isValidThinkingLevel, type ThinkingLevel } from '@craft-agent/shared/agent/thinking-levels'
+import { generateSessionTitle, readFileAttachment } from '@craft-agent/shared/utils'
 import { getAuthState } from '@craft-agent/shared/auth'
+import { ensureDefaultWorkspacesDir } from '@craft-agent/shared/workspaces'
+import { listDirectory, assertPathAllowed, isPathAllowed, type DirectoryListing } from './directories'
+import { saveUploads, storeAttachment, resolveAttachmentPath, getAttachmentDisplayName } from './attachments'
+import {
+  createSource,
+  deleteSource,
+  saveSourceCredentials,
+  testSource,
+  getSourcePermissionsConfig,
+  getWorkspacePermissionsConfig,
+  getMcpTools,
+  type SourceCredential,
+  type CredentialResponse,
+  type McpToolInfo,
+} from './sources'
+import {
+  getSkillFiles,
+  readSkillFile,
+  writeSkillFile,
+  createSkill,
+  deleteSkill,
+  type SkillFile,
+  type SkillSaveResult,
+} from './skills'
+import {
+  getWorkspaceSettings,
+  getWorkspaceDefaults,
+  updateWorkspaceSetting,
+  type WorkspaceSettings,
+  type WorkspaceSettingKey,
+} from './workspace-settings'
+import {
+  getSessionFiles,
+  resolveSessionFilePath,
+  readSessionNotes,
+  writeSessionNotes,
+  watchSessionFolder,
+  type SessionFile,
+} from './session-files'
+import {
+  getJobOutputFile,
+  readJobOutput,
+  readJobOutputTail,
+  listDescendantProcesses,
+  isShellRunning,
+  killShellProcesses,
+  releaseShellProcess,
+  toBackgroundJob,
+  type BackgroundJob,
+  type TrackedBackgroundJob,
+} from './background-jobs'
+import {
+  registerLiveSession,
+  unregisterLiveSession,
+  touchLiveSession,
+  hasFreeTurnSlot,
+  acquireTurnSlot,
+  releaseTurnSlot,
+  cancelTurnWait,
+  type LiveSessionUsage,
+} from './agent-pool'
+import { recordTurn, recordToolCall, recordAgentError, recordTokenUsage } from './metrics'
+import { RpcError } from './rpc-registry'
+import { dropSessionEventLogs } from './sse'
+import { getSharedWorkspacesForUser, isSharedWorkspace, canAccessSharedWorkspace, getCurrentUser, runAsUser } from './users'
 
 // Type for broadcast function
 type BroadcastFn = (event: SessionEvent) => void
 
-// Default workspace directory
-const DEFAULT_WORKSPACES_DIR = join(homedir(), '.craft-agent', 'workspaces')
+// Auth env for an agent whose user hasn't configured any - never falls back to the server's own keys
+const NO_AUTH_ENV: Record<string, string | undefined> = {
+  ANTHROPIC_API_KEY: undefined,
+  ANTHROPIC_BASE_URL: undefined,
+  CLAUDE_CODE_OAUTH_TOKEN: undefined,
+}
+
+// Every running agent's ConfigWatcher reports the same skill change - broadcast once
+const SKILLS_CHANGED_DEBOUNCE_MS = 200
+
+// Session folders watched at once per user (see watchSessionFiles)
+const MAX_WATCHED_SESSIONS = 20
+
+// How often running background jobs are checked for new output
+const BACKGROUND_POLL_MS = 1000
+
+// Messages replayed to the agent when its SDK session can't be resumed
+const RECOVERY_MESSAGE_COUNT = 10
+
+// Marks the transcript where a restart cut a turn short - resumeInterruptedTurn looks for it
+const TURN_INTERRUPTED_ERROR = 'turn_interrupted'
+
+/**
+ * Run a shared label/status/view operation. Those report a missing item or a broken rule
+ * (deleting a fixed status, moving a label into its own child) as a plain Error.
+ */
+function runConfigOperation<T>(operation: () => T): T {
+  try {
+    return operation()
+  } catch (error) {
+    // File system errors stay internal
+    if (!(error instanceof Error) || 'code' in error) throw error
+    throw new RpcError(/not found/i.test(error.message) ? 'not_found' : 'invalid_args', error.message)
+  }
+}
 
 // Generate unique message ID
 function generateMessageId(): string {
@@ -60,7 +189,7 @@ function generateMessageId(): string {
 // Active agent sessions (for streaming)
 interface ManagedSession {
   id: string
-  session: Session
+  stored: StoredSession  // Persisted session state; messages live in `messages` below
   workspace: ConfigWorkspace
   agent?: CraftAgent
   isProcessing: boolean
@@ -70,47 +199,137 @@ interface ManagedSession {
   parentToolStack: string[]  // Stack of parent tool IDs for nesting
   toolToParentMap: Map<string, string>  // toolUseId -> parentToolUseId
   pendingTextParent?: string  // Parent tool ID for streaming text
+  processingUserId?: string  // User whose message is being processed (shared workspaces)
+  backgroundJobs: Map<string, TrackedBackgroundJob>  // shell/task ID -> job, kept across turns
+  messageQueue: PendingMessage[]  // Sent while a turn runs - each starts a turn once the previous one completes
+  backgroundPoll?: ReturnType<typeof setInterval>  // Streams output while jobs run
+  backgroundPolling?: boolean  // A poll is still reading output or processes - the next tick skips
+}
+
+/**
+ * How a message sent while the session is processing is delivered: after the current turn
+ * (default), instead of it (the turn is aborted), or into it as a steering note
+ */
+export type MessageDelivery = 'queue' | 'interrupt' | 'steer'
+
+/**
+ * A message waiting for the current turn to complete
+ */
+export interface QueuedMessage {
+  id: string
+  message: string
+  storedAttachments?: StoredAttachment[]
+  queuedAt: number
+}
+
+interface PendingMessage extends QueuedMessage {
+  attachments?: FileAttachment[]
+  continuesPlan?: boolean
+  /** Already in the transcript (an undelivered steering note) */
+  recorded?: boolean
+}
+
+function toQueuedMessage({ id, message, storedAttachments, queuedAt }: PendingMessage): QueuedMessage {
+  return { id, message, storedAttachments, queuedAt }
+}
+
+// Sessions of shared workspaces, held once for all users so that two users never run
+// separate agents (or keep diverging copies of the messages) for the same session
+const sharedManagedSessions: Map<string, ManagedSession> = new Map()
+
+/**
+ * Usage of a single turn in the session's usage format. `inputTokens` is the context the
+ * turn ended with (input plus cache), so it is also the current context size.
+ */
+function toTokenUsage(usage: AgentEventUsage): SessionTokenUsage {
+  return {
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    totalTokens: usage.inputTokens + usage.outputTokens,
+    contextTokens: usage.inputTokens,
+    costUsd: usage.costUsd ?? 0,
+    cacheReadTokens: usage.cacheReadTokens,
+    cacheCreationTokens: usage.cacheCreationTokens,
+    contextWindow: usage.contextWindow,
+  }
+}
+
+/**
+ * Add a turn's usage to the session totals. Context size and window are the latest turn's.
+ */
+function addTokenUsage(total: SessionTokenUsage | undefined, turn: SessionTokenUsage): SessionTokenUsage {
+  if (!total) return turn
+  return {
+    inputTokens: total.inputTokens + turn.inputTokens,
+    outputTokens: total.outputTokens + turn.outputTokens,
+    totalTokens: total.totalTokens + turn.totalTokens,
+    contextTokens: turn.contextTokens,
+    costUsd: total.costUsd + turn.costUsd,
+    cacheReadTokens: (total.cacheReadTokens ?? 0) + (turn.cacheReadTokens ?? 0),
+    cacheCreationTokens: (total.cacheCreationTokens ?? 0) + (turn.cacheCreationTokens ?? 0),
+    contextWindow: turn.contextWindow ?? total.contextWindow,
+  }
+}
+
+/**
+ * Convert runtime message to persisted format (role -> type, transient UI fields dropped)
+ */
+function messageToStored(message: Message): StoredMessage {
+  const { role, isStreaming, isPending, isQueued, infoLevel, ...rest } = message
+  return { ...rest, type: role }
 }
 
 /**
- * Convert stored session to API session format
+ * Convert persisted message back to runtime format
  */
-function storedToSession(stored: StoredSession, workspaceId: string): Session {
+function storedToMessage(stored: StoredMessage): Message {
+  const { type, ...rest } = stored
+  return { ...rest, role: type, timestamp: stored.timestamp ?? 0 }
+}
+
+/**
+ * Convert stored session (or list metadata) to API session format
+ */
+function storedToSession(stored: StoredSession | SessionConfig | SessionMetadata, workspaceId: string): Session {
   return {
     id: stored.id,
     workspaceId,
-    name: stored.title || 'New Chat',
+    name: stored.name || 'New Chat',
     createdAt: stored.createdAt,
-    updatedAt: stored.updatedAt,
-    messages: stored.messages?.map(m => ({
-      id: m.id,
-      role: m.role,
-      content: m.content,
-      timestamp: m.timestamp,
-      toolCalls: m.toolCalls,
-      toolResults: m.toolResults,
-      attachments: m.attachments,
-      thinkingContent: m.thinkingContent,
-    })) || [],
+    updatedAt: stored.lastUsedAt,
+    lastMessageAt: stored.lastMessageAt,
+    sdkSessionId: stored.sdkSessionId,
+    messages: 'messages' in stored ? stored.messages.map(storedToMessage) : [],
     isProcessing: false,
     isFlagged: stored.isFlagged || false,
     todoState: stored.todoState,
-    isUnread: stored.isUnread || false,
+    isUnread: stored.hasUnread || false,
     labels: stored.labels || [],
     workingDirectory: stored.workingDirectory,
+    model: stored.model,
+    thinkingLevel: stored.thinkingLevel,
+    permissionMode: stored.permissionMode,
+    tokenUsage: 'tokenUsage' in stored ? stored.tokenUsage : undefined,
   }
 }
 
 export class SessionManager {
   private broadcast: BroadcastFn
+  private userId?: string  // Owner in multi-user mode - the manager only runs inside that user's requests
   private managedSessions: Map<string, ManagedSession> = new Map()
+  private sessionWorkspaces: Map<string, string> = new Map()  // sessionId -> workspaceId
   private authInitialized: boolean = false
+  private authEnv: Record<string, string | undefined> | null = null
   private sdkInitialized: boolean = false
+  private skillsChangedTimers: Map<string, ReturnType<typeof setTimeout>> = new Map()  // workspaceId -> pending skills_changed
+  private fileWatchers: Map<string, { stop: () => void; refs: number }> = new Map()  // sessionId -> session folder watcher
   
-  constructor(broadcast: BroadcastFn) {
+  constructor(broadcast: BroadcastFn, userId?: string) {
     this.broadcast = broadcast
+    this.userId = userId
     // Ensure config is loaded
     loadStoredConfig()
+    ensureDefaultWorkspacesDir()
   }
   
   // ============================================================
@@ -129,7 +348,9 @@ export class SessionManager {
       // For webapp, we resolve relative to the current module
       const { createRequire } = require('module')
       const require_ = createRequire(import.meta.url || __filename)
-      const sdkPath = require_.resolve('@anthropic-ai/claude-agent-sdk/cli.js')
+      // The production build (scripts/build.ts) ships it next to the server bundle
+      const bundledSdkPath = join(import.meta.dir, 'claude-agent-sdk', 'cli.js')
+      const sdkPath = existsSync(bundledSdkPath) ? bundledSdkPath : require_.resolve('@anthropic-ai/claude-agent-sdk/cli.js')
       
       console.log(`[SessionManager] Setting SDK path: ${sdkPath}`)
       setPathToClaudeCodeExecutable(sdkPath)
@@ -152,7 +373,10 @@ export class SessionManager {
       // Try to set interceptor path (optional, for network error capture)
       // The interceptor is in packages/shared/src/network-interceptor.ts
       try {
-        const interceptorPath = join(__dirname, '../../../../packages/shared/src/network-interceptor.ts')
+        const bundledInterceptorPath = join(import.meta.dir, 'network-interceptor.ts')
+        const interceptorPath = existsSync(bundledInterceptorPath)
+          ? bundledInterceptorPath
+          : join(__dirname, '../../../../packages/shared/src/network-interceptor.ts')
         if (existsSync(interceptorPath)) {
           console.log(`[SessionManager] Setting interceptor path: ${interceptorPath}`)
           setInterceptorPath(interceptorPath)
@@ -186,50 +410,100 @@ export class SessionManager {
       
       console.log(`[SessionManager] Reinitializing auth with billing type: ${billing.type}`, customBaseUrl ? `(custom base URL: ${customBaseUrl})` : '')
       
+      // Keys left undefined are removed from the agent's environment
+      let env: Record<string, string | undefined> | null = null
+      
       // Priority 1: Custom base URL (Ollama, OpenRouter, etc.)
       if (customBaseUrl) {
-        process.env.ANTHROPIC_BASE_URL = customBaseUrl
-        delete process.env.CLAUDE_CODE_OAUTH_TOKEN
-        
         if (billing.apiKey) {
-          process.env.ANTHROPIC_API_KEY = billing.apiKey
           console.log(`[SessionManager] Using custom provider at ${customBaseUrl}`)
         } else {
           // Set a placeholder key for providers like Ollama that don't validate keys
-          process.env.ANTHROPIC_API_KEY = 'not-needed'
           console.warn('[SessionManager] Custom base URL configured but no API key set. Using placeholder key.')
         }
+        env = { ...NO_AUTH_ENV, ANTHROPIC_BASE_URL: customBaseUrl, ANTHROPIC_API_KEY: billing.apiKey || 'not-needed' }
       } else if (billing.type === 'oauth_token' && billing.claudeOAuthToken) {
         // Priority 2: Claude Max subscription via OAuth token
-        process.env.CLAUDE_CODE_OAUTH_TOKEN = billing.claudeOAuthToken
-        delete process.env.ANTHROPIC_API_KEY
-        delete process.env.ANTHROPIC_BASE_URL
+        env = { ...NO_AUTH_ENV, CLAUDE_CODE_OAUTH_TOKEN: billing.claudeOAuthToken }
         console.log('[SessionManager] Set Claude Max OAuth Token')
       } else if (billing.apiKey) {
         // Priority 3: API key with default Anthropic endpoint
-        process.env.ANTHROPIC_API_KEY = billing.apiKey
-        delete process.env.CLAUDE_CODE_OAUTH_TOKEN
-        delete process.env.ANTHROPIC_BASE_URL
+        env = { ...NO_AUTH_ENV, ANTHROPIC_API_KEY: billing.apiKey }
         console.log('[SessionManager] Set Anthropic API Key (prefix:', billing.apiKey.substring(0, 10) + '...)')
       } else {
         console.error('[SessionManager] No authentication configured!')
       }
       
+      if (env) {
+        this.authEnv = env
+        // Single-user mode: the process environment is ours, and diagnostics read it directly
+        if (!this.userId) {
+          for (const [key, value] of Object.entries(env)) {
+            if (value === undefined) {
+              delete process.env[key]
+            } else {
+              process.env[key] = value
+            }
+          }
+        }
+      }
+      
       this.authInitialized = true
     } catch (error) {
       console.error('[SessionManager] Error reinitializing auth:', error)
     }
   }
   
+  /**
+   * Auth env for this user's agents (multi-user mode - see setAnthropicOptionsEnvResolver)
+   */
+  getAuthEnv(): Record<string, string | undefined> {
+    return this.authEnv ?? NO_AUTH_ENV
+  }
+  
   // ============================================================
   // Workspace Management
   // ============================================================
   
   getWorkspaces(): Workspace[] {
-    return getWorkspaces()
+    return this.listWorkspaces()
+  }
+  
+  /**
+   * The user's own workspaces plus the shared workspaces they are a member of
+   */
+  private listWorkspaces(): ConfigWorkspace[] {
+    return [...getWorkspaces(), ...getSharedWorkspacesForUser(this.userId)]
+  }
+  
+  private findWorkspace(nameOrId: string): ConfigWorkspace | null {
+    return getWorkspaceByNameOrId(nameOrId)
+      ?? getSharedWorkspacesForUser(this.userId).find(workspace => workspace.id === nameOrId)
+      ?? null
+  }
+  
+  private requireWorkspace(nameOrId: string): ConfigWorkspace {
+    const workspace = this.findWorkspace(nameOrId)
+    if (!workspace) {
+      throw new RpcError('not_found', `Workspace not found: ${nameOrId}`)
+    }
+    return workspace
+  }
+  
+  /**
+   * Live session state, whether held by this manager or shared with other users. Shared
+   * sessions are only returned to current members of their workspace - membership can
+   * change after the session was loaded by someone else.
+   */
+  private getManaged(sessionId: string): ManagedSession | undefined {
+    const own = this.managedSessions.get(sessionId)
+    if (own) return own
+    const shared = sharedManagedSessions.get(sessionId)
+    return shared && canAccessSharedWorkspace(this.userId, shared.workspace.id) ? shared : undefined
   }
   
   createWorkspace(folderPath: string, name: string): Workspace {
+    assertPathAllowed(folderPath)
     const workspace = addWorkspace({ name, rootPath: folderPath })
     setActiveWorkspace(workspace.id)
     return workspace
@@ -240,13 +514,14 @@ export class SessionManager {
   // ============================================================
   
   getSessions(): Session[] {
-    const workspaces = getWorkspaces()
+    const workspaces = this.listWorkspaces()
     const allSessions: Session[] = []
     
     for (const workspace of workspaces) {
       try {
         const storedSessions = listStoredSessions(workspace.rootPath)
         for (const stored of storedSessions) {
+          this.sessionWorkspaces.set(stored.id, workspace.id)
           allSessions.push(storedToSession(stored, workspace.id))
         }
       } catch (err) {
@@ -261,44 +536,102 @@ export class SessionManager {
   }
   
   async getSession(sessionId: string): Promise<Session | null> {
-    const workspaces = getWorkspaces()
+    // A live session may have writes still queued - its in-memory state is authoritative
+    const managed = this.getManaged(sessionId)
+    if (managed) {
+      return {
+        ...storedToSession(this.toStoredSession(managed), managed.workspace.id),
+        isProcessing: managed.isProcessing,
+      }
+    }
     
-    for (const workspace of workspaces) {
+    const found = this.findStoredSession(sessionId)
+    return found ? storedToSession(found.stored, found.workspace.id) : null
+  }
+  
+  /**
+   * Load a session from disk, searching all workspaces
+   */
+  private findStoredSession(sessionId: string): { stored: StoredSession; workspace: ConfigWorkspace } | null {
+    for (const workspace of this.listWorkspaces()) {
       try {
-        const stored = await loadStoredSession(workspace.rootPath, sessionId)
+        const stored = loadStoredSession(workspace.rootPath, sessionId)
         if (stored) {
-          return storedToSession(stored, workspace.id)
+          this.sessionWorkspaces.set(sessionId, workspace.id)
+          return { stored, workspace }
         }
       } catch {
         // Not in this workspace
       }
     }
-    
     return null
   }
   
+  /**
+   * Look up which workspace a session belongs to (used to route workspace-level SSE events)
+   */
+  getWorkspaceIdForSession(sessionId: string): string | undefined {
+    const managed = this.getManaged(sessionId)
+    if (managed) return managed.workspace.id
+    
+    const cached = this.sessionWorkspaces.get(sessionId)
+    if (cached) return cached
+    
+    for (const workspace of this.listWorkspaces()) {
+      if (existsSync(getSessionStoragePath(workspace.rootPath, sessionId))) {
+        this.sessionWorkspaces.set(sessionId, workspace.id)
+        return workspace.id
+      }
+    }
+    return undefined
+  }
+  
   async createSession(workspaceId: string, options?: unknown): Promise<Session> {
-    const workspace = getWorkspaceByNameOrId(workspaceId)
+    const workspace = this.findWorkspace(workspaceId)
     if (!workspace) {
-      throw new Error(`Workspace not found: ${workspaceId}`)
+      throw new RpcError('not_found', `Workspace not found: ${workspaceId}`)
     }
     
-    const opts = options as { name?: string; workingDirectory?: string } | undefined
+    const opts = options as { name?: string; workingDirectory?: string; permissionMode?: PermissionMode } | undefined
+    // Model and thinking level defaults are applied when the agent starts, so changing
+    // them in the workspace settings also affects sessions that haven't chosen their own
+    const defaults = getWorkspaceDefaults(workspace.rootPath)
+    // The default comes from config.json, which the agent or other members can edit directly
+    const workingDirectory = opts?.workingDirectory || defaults.workingDirectory
+    if (workingDirectory) {
+      assertPathAllowed(workingDirectory)
+    }
     const stored = await createStoredSession(workspace.rootPath, {
       name: opts?.name,
-      workingDirectory: opts?.workingDirectory || workspace.rootPath,
+      workingDirectory: workingDirectory || workspace.rootPath,
+      permissionMode: opts?.permissionMode ?? defaults.permissionMode,
+      enabledSourceSlugs: defaults.enabledSourceSlugs,
     })
     
-    return storedToSession(stored, workspaceId)
+    const session = storedToSession(stored, workspace.id)
+    this.sessionWorkspaces.set(session.id, workspace.id)
+    this.broadcast({ type: 'session_created', sessionId: session.id, session })
+    return session
   }
   
   async deleteSession(sessionId: string): Promise<void> {
-    const workspaces = getWorkspaces()
+    const workspaces = this.listWorkspaces()
     
     for (const workspace of workspaces) {
       try {
         await deleteStoredSession(workspace.rootPath, sessionId)
+        sessionPersistenceQueue.cancel(sessionId)
+        this.stopWatchingSessionFiles(sessionId)
+        const managed = this.getManaged(sessionId)
+        clearInterval(managed?.backgroundPoll)
+        cancelTurnWait(sessionId)
+        managed?.agent?.dispose()
+        unregisterLiveSession(sessionId)
+        // Broadcast before forgetting the workspace so the event can still be routed
+        this.broadcast({ type: 'session_deleted', sessionId })
         this.managedSessions.delete(sessionId)
+        sharedManagedSessions.delete(sessionId)
+        this.sessionWorkspaces.delete(sessionId)
         return
       } catch {
         // Not in this workspace
@@ -306,44 +639,161 @@ export class SessionManager {
     }
   }
   
+  /**
+   * Look up the workspace a session belongs to
+   */
+  private getSessionWorkspace(sessionId: string): ConfigWorkspace {
+    const workspaceId = this.getWorkspaceIdForSession(sessionId)
+    const workspace = workspaceId ? this.findWorkspace(workspaceId) : null
+    if (!workspace) {
+      throw new RpcError('not_found', `Session not found: ${sessionId}`)
+    }
+    return workspace
+  }
+  
+  // ============================================================
+  // Attachments
+  // ============================================================
+  
+  /**
+   * Store files uploaded from the browser in the session's attachments folder
+   */
+  async uploadAttachments(sessionId: string, files: File[]): Promise<FileAttachment[]> {
+    const workspace = this.getSessionWorkspace(sessionId)
+    return saveUploads(workspace.rootPath, sessionId, files)
+  }
+  
+  async storeAttachment(sessionId: string, attachment: FileAttachment): Promise<StoredAttachment> {
+    const workspace = this.getSessionWorkspace(sessionId)
+    return storeAttachment(workspace.rootPath, sessionId, attachment)
+  }
+  
+  /**
+   * Path of a stored attachment file, or null if it doesn't exist
+   */
+  getAttachmentPath(sessionId: string, fileName: string): string | null {
+    const workspace = this.getSessionWorkspace(sessionId)
+    return resolveAttachmentPath(workspace.rootPath, sessionId, fileName)
+  }
+  
+  /**
+   * Read an uploaded file as an attachment. Only files in a session's attachments
+   * folder can be read - the browser never sees other server paths.
+   */
+  readFileAttachment(filePath: string): FileAttachment | null {
+    for (const workspace of this.listWorkspaces()) {
+      const parts = relative(join(workspace.rootPath, 'sessions'), resolve(filePath)).split(sep)
+      if (parts.length === 3 && parts[1] === 'attachments' && !parts[0]!.startsWith('..')) {
+        const attachmentPath = resolveAttachmentPath(workspace.rootPath, parts[0]!, parts[2]!)
+        if (!attachmentPath) return null
+        const attachment = readFileAttachment(attachmentPath)
+        return attachment && { ...attachment, name: getAttachmentDisplayName(attachmentPath), storedPath: attachmentPath }
+      }
+    }
+    throw new RpcError('unauthorized', `Access denied: ${filePath}`)
+  }
+  
+  /**
+   * Read a text file inside one of the workspaces
+   */
+  async readFile(filePath: string): Promise<string> {
+    const resolved = resolve(filePath)
+    const inWorkspace = this.listWorkspaces().some(workspace => {
+      const rel = relative(resolve(workspace.rootPath), resolved)
+      return rel !== '' && !rel.startsWith('..') && !isAbsolute(rel)
+    })
+    if (!inWorkspace) {
+      throw new RpcError('unauthorized', `Access denied: ${filePath}`)
+    }
+    return readFile(resolved, 'utf-8')
+  }
+  
   // ============================================================
   // Get or Create Managed Session
   // ============================================================
   
   private async getOrCreateManagedSession(sessionId: string): Promise<ManagedSession> {
-    let managed = this.managedSessions.get(sessionId)
+    let managed = this.getManaged(sessionId)
     if (managed) {
+      touchLiveSession(sessionId)
       return managed
     }
     
     // Find session and workspace
-    const session = await this.getSession(sessionId)
-    if (!session) {
-      throw new Error(`Session not found: ${sessionId}`)
-    }
-    
-    const workspace = getWorkspaceByNameOrId(session.workspaceId)
-    if (!workspace) {
-      throw new Error(`Workspace not found: ${session.workspaceId}`)
+    const found = this.findStoredSession(sessionId)
+    if (!found) {
+      throw new RpcError('not_found', `Session not found: ${sessionId}`)
     }
     
     // Create managed session
+    const { messages, ...stored } = found.stored
     managed = {
       id: sessionId,
-      session,
-      workspace,
+      stored: { ...stored, messages: [] },
+      workspace: found.workspace,
       isProcessing: false,
       streamingText: '',
-      messages: session.messages as Message[] || [],
+      messages: messages.map(storedToMessage),
       pendingTools: new Map(),
       parentToolStack: [],
       toolToParentMap: new Map(),
+      backgroundJobs: new Map(),
+      messageQueue: [],
     }
     
-    this.managedSessions.set(sessionId, managed)
+    const sessions = isSharedWorkspace(found.workspace.id) ? sharedManagedSessions : this.managedSessions
+    sessions.set(sessionId, managed)
+    
+    // Idle sessions are evicted by the agent pool, which runs outside any request
+    const loaded = managed
+    const user = getCurrentUser()
+    registerLiveSession(sessionId, {
+      workspaceId: found.workspace.id,
+      userId: this.userId,
+      describe: () => this.describeLiveSession(loaded),
+      isBusy: () => this.isSessionBusy(loaded),
+      evict: () => runAsUser(user, () => this.evictSession(loaded)),
+    })
     return managed
   }
   
+  private describeLiveSession(managed: ManagedSession): LiveSessionUsage {
+    return {
+      processing: managed.isProcessing,
+      agentLoaded: !!managed.agent,
+      queuedMessages: managed.messageQueue.length,
+      runningBackgroundJobs: [...managed.backgroundJobs.values()].filter(job => job.status === 'running').length,
+      messageCount: managed.messages.length,
+      contextTokens: managed.stored.tokenUsage?.contextTokens,
+    }
+  }
+  
+  private isSessionBusy(managed: ManagedSession): boolean {
+    return managed.isProcessing || managed.messageQueue.length > 0 ||
+      [...managed.backgroundJobs.values()].some(job => job.status === 'running')
+  }
+  
+  /**
+   * Drop an idle session from memory and dispose its agent. The next request loads it from
+   * disk again and a new agent resumes the SDK session.
+   */
+  private async evictSession(managed: ManagedSession): Promise<void> {
+    // Writes still waiting in the queue must land before the session can be reloaded
+    await sessionPersistenceQueue.flush(managed.id)
+    // Used again while flushing (looked up directly - the user who loaded it may have left a shared workspace)
+    const current = this.managedSessions.get(managed.id) ?? sharedManagedSessions.get(managed.id)
+    if (this.isSessionBusy(managed) || current !== managed) return
+    
+    console.log(`[SessionManager] Evicting idle session ${managed.id}`)
+    clearInterval(managed.backgroundPoll)
+    managed.agent?.dispose()
+    managed.agent = undefined
+    this.managedSessions.delete(managed.id)
+    sharedManagedSessions.delete(managed.id)
+    unregisterLiveSession(managed.id)
+    dropSessionEventLogs(managed.id)
+  }
+  
   // ============================================================
   // Get or Create Agent
   // ============================================================
@@ -353,36 +803,117 @@ export class SessionManager {
       return managed.agent
     }
     
-    // Load stored session to get session config
-    const storedSession = await loadStoredSession(managed.workspace.rootPath, managed.id)
-    
     console.log(`[SessionManager] Creating CraftAgent for session ${managed.id}`)
     console.log(`[SessionManager] Workspace: ${managed.workspace.rootPath}`)
-    console.log(`[SessionManager] Session config: ${JSON.stringify(storedSession ? { id: storedSession.id, sdkSessionId: storedSession.sdkSessionId } : null)}`)
+    console.log(`[SessionManager] Session config: ${JSON.stringify({ id: managed.stored.id, sdkSessionId: managed.stored.sdkSessionId })}`)
     
-    // Create CraftAgent
+    // Create CraftAgent (the session's own model and thinking level win over the workspace defaults)
+    const defaults = getWorkspaceDefaults(managed.workspace.rootPath)
+    // Sessions created before the workspace had a default mode pick it up now
+    managed.stored.permissionMode ??= defaults.permissionMode
     const agent = new CraftAgent({
       workspace: managed.workspace,
-      session: storedSession || undefined,
+      session: managed.stored,
+      model: defaults.model,
+      thinkingLevel: managed.stored.thinkingLevel ?? defaults.thinkingLevel,
       onSdkSessionIdUpdate: (sdkSessionId) => {
         console.log(`[SessionManager] SDK session ID updated: ${sdkSessionId}`)
+        // Persist right away so the conversation can be resumed even if the turn never completes
+        managed.stored.sdkSessionId = sdkSessionId
+        void this.flushSession(managed)
+      },
+      onSdkSessionIdCleared: () => {
+        console.log(`[SessionManager] SDK session ID cleared for session ${managed.id}`)
+        managed.stored.sdkSessionId = undefined
+        void this.flushSession(managed)
       },
+      getRecoveryMessages: () => this.getRecoveryMessages(managed),
     })
     
+    // Skill changes (editor saves, the agent itself, edits on disk) reach clients through the
+    // agent's ConfigWatcher - its callbacks run outside any request, so restore the user
+    const user = getCurrentUser()
+    const notifySkills = () => runAsUser(user, () => this.notifySkillsChanged(managed.workspace))
+    agent.onSkillChange = notifySkills
+    agent.onSkillsListChange = notifySkills
+    agent.onPermissionModeChange = (mode) => {
+      runAsUser(user, () => this.onAgentPermissionModeChange(managed, mode)).catch(error => {
+        console.error(`[SessionManager] Failed to save permission mode of session ${managed.id}:`, error)
+      })
+    }
+    agent.onAuthRequest = (request) => {
+      runAsUser(user, () => this.onAgentAuthRequest(managed, request))
+    }
+    agent.onPlanSubmitted = (planPath) => {
+      runAsUser(user, () => this.onAgentPlanSubmitted(managed, planPath))
+    }
+    
     managed.agent = agent
     return agent
   }
   
+  // ============================================================
+  // Persistence
+  // ============================================================
+  
+  /**
+   * Build the persisted form of a managed session
+   */
+  private toStoredSession(managed: ManagedSession): StoredSession {
+    return {
+      ...managed.stored,
+      messages: managed.messages.map(messageToStored),
+    }
+  }
+  
+  /**
+   * Queue a debounced write of the session to session.jsonl
+   */
+  private persistSession(managed: ManagedSession): void {
+    sessionPersistenceQueue.enqueue(this.toStoredSession(managed))
+  }
+  
+  /**
+   * Write the session to disk now (end of turn, SDK session ID change)
+   */
+  private async flushSession(managed: ManagedSession): Promise<void> {
+    this.persistSession(managed)
+    await sessionPersistenceQueue.flush(managed.id)
+  }
+  
+  /**
+   * Update session metadata. Live sessions are updated in memory and persisted through
+   * the queue, so a pending message write can't overwrite the change with stale metadata.
+   */
+  private async updateMetadata(
+    workspaceRootPath: string,
+    sessionId: string,
+    updates: Parameters<typeof updateSessionMetadata>[2]
+  ): Promise<void> {
+    const managed = this.getManaged(sessionId)
+    if (managed) {
+      Object.assign(managed.stored, updates)
+      await this.flushSession(managed)
+      return
+    }
+    await updateSessionMetadata(workspaceRootPath, sessionId, updates)
+  }
+  
   // ============================================================
   // Message Sending (Phase 1 - Full Implementation)
   // ============================================================
   
+  /**
+   * Send a message. While a turn runs it is queued, interrupts the turn or steers it (see MessageDelivery).
+   */
   async sendMessage(
     sessionId: string,
     message: string,
     attachments?: FileAttachment[],
     storedAttachments?: StoredAttachment[],
-    options?: SendMessageOptions
+    options?: SendMessageOptions,
+    delivery: MessageDelivery = 'queue',
+    continuesPlan = false  // Compaction and execution turns of an accepted plan
   ): Promise<void> {
     // Ensure SDK is initialized (paths to cli.js, etc.)
     this.initializeSdk()
@@ -394,48 +925,111 @@ export class SessionManager {
     
     const managed = await this.getOrCreateManagedSession(sessionId)
     
-    // If currently processing, abort previous
-    if (managed.isProcessing && managed.agent) {
-      console.log(`[SessionManager] Session ${sessionId} is processing, aborting previous`)
-      managed.agent.forceAbort(AbortReason.Redirect)
+    // In a shared workspace another member may be running the session - don't cut their turn short
+    if (managed.isProcessing && managed.processingUserId !== this.userId) {
+      throw new RpcError('conflict', `Session ${sessionId} is busy with another user's message`)
     }
     
-    // Create user message
-    const userMessage: Message = {
-      id: generateMessageId(),
-      role: 'user',
-      content: message,
-      timestamp: Date.now(),
-      attachments: storedAttachments,
+    if (managed.isProcessing) {
+      if (delivery === 'steer' && managed.agent) {
+        this.steerTurn(managed, message)
+        return
+      }
+      const pending: PendingMessage = { id: generateMessageId(), message, attachments, storedAttachments, queuedAt: Date.now(), continuesPlan }
+      if (delivery === 'interrupt') {
+        // Runs next - the aborted turn completes and starts it
+        console.log(`[SessionManager] Session ${sessionId} is processing, aborting it for the new message`)
+        managed.messageQueue.unshift(pending)
+        managed.agent?.forceAbort(AbortReason.Redirect)
+      } else {
+        managed.messageQueue.push(pending)
+      }
+      this.broadcastQueue(managed)
+      return
     }
-    managed.messages.push(userMessage)
     
-    // Emit user_message event
-    this.broadcast({
-      type: 'user_message',
-      sessionId,
-      message: userMessage,
-      status: 'accepted',
-    })
+    await this.runTurn(managed, { id: generateMessageId(), message, attachments, storedAttachments, queuedAt: Date.now(), continuesPlan })
+  }
+  
+  /**
+   * Run one turn, then the next queued message (unless the user stopped the turn)
+   */
+  private async runTurn(managed: ManagedSession, pending: PendingMessage): Promise<void> {
+    const sessionId = managed.id
+    const { message, attachments, storedAttachments } = pending
+    
+    // Anything else the user sends replaces a plan waiting to be executed
+    if (managed.stored.pendingPlanExecution && !pending.continuesPlan) {
+      managed.stored.pendingPlanExecution = undefined
+    }
+    
+    if (!pending.recorded) {
+      // Create user message
+      const userMessage: Message = {
+        id: pending.id,
+        role: 'user',
+        content: message,
+        timestamp: Date.now(),
+        attachments: storedAttachments,
+      }
+      managed.messages.push(userMessage)
+      managed.stored.lastMessageAt = userMessage.timestamp
+      this.persistSession(managed)
+      
+      // Emit user_message event
+      this.broadcast({
+        type: 'user_message',
+        sessionId,
+        message: userMessage,
+        status: 'accepted',
+      })
+    }
     
     // Set processing state
     managed.isProcessing = true
+    managed.processingUserId = this.userId
     managed.streamingText = ''
     managed.pendingTools.clear()
     managed.parentToolStack = []
     managed.toolToParentMap.clear()
     
-    // Get or create agent
-    const agent = await this.getOrCreateAgent(managed)
+    // Saved before the agent starts, so a restart mid-turn can tell the turn never finished
+    managed.stored.inFlightTurn = { messageId: pending.id, startedAt: Date.now() }
+    await this.flushSession(managed)
+    touchLiveSession(sessionId)
+    
+    // Wait while CRAFT_WEBAPP_MAX_CONCURRENT_AGENTS turns run - cancelProcessing ends the wait
+    if (!hasFreeTurnSlot()) {
+      this.broadcast({ type: 'turn_waiting', sessionId })
+    }
+    if (!await acquireTurnSlot(sessionId)) {
+      // Stopped while waiting - a plan waiting for this turn's compaction is dropped too
+      if (pending.continuesPlan && managed.stored.pendingPlanExecution) {
+        managed.stored.pendingPlanExecution = undefined
+        await this.flushSession(managed)
+      }
+      return
+    }
+    const turnStartedAt = Date.now()
     
     try {
+      // Get or create agent - inside the try so a failure still gives the slot back
+      const agent = await this.getOrCreateAgent(managed)
+      
       console.log(`[SessionManager] Starting chat for session: ${sessionId}`)
       console.log(`[SessionManager] Message: ${message}`)
       console.log(`[SessionManager] Agent model: ${agent.getModel()}`)
       
       // Process the message through the agent
       console.log(`[SessionManager] Calling agent.chat()...`)
-      const chatIterator = agent.chat(message, attachments)
+      // Send Claude the downscaled copy of images that were resized when stored
+      const chatAttachments = attachments?.map(attachment => {
+        const stored = storedAttachments?.find(s => s.storedPath === attachment.storedPath)
+        return stored?.wasResized && stored.resizedBase64
+          ? { ...attachment, base64: stored.resizedBase64, mimeType: 'image/png' }
+          : attachment
+      })
+      const chatIterator = agent.chat(message, chatAttachments)
       console.log(`[SessionManager] Got chat iterator, starting iteration...`)
       
       for await (const event of chatIterator) {
@@ -448,23 +1042,69 @@ export class SessionManager {
         // Handle complete event
         if (event.type === 'complete') {
           console.log(`[SessionManager] Chat completed for session: ${sessionId}`)
+          // cancelProcessing already cleared the flag - queued messages wait for the user
+          const stopped = !managed.isProcessing
           managed.isProcessing = false
+          managed.stored.inFlightTurn = undefined
+          releaseTurnSlot(sessionId)
+          touchLiveSession(sessionId)
+          recordTurn(stopped ? 'stopped' : 'completed', Date.now() - turnStartedAt)
+          this.completeBackgroundTasks(managed)
+          const turnUsage = event.usage ? toTokenUsage(event.usage) : undefined
+          if (turnUsage) {
+            managed.stored.tokenUsage = addTokenUsage(managed.stored.tokenUsage, turnUsage)
+            recordTokenUsage(turnUsage)
+          }
+          const pendingPlan = managed.stored.pendingPlanExecution
+          if (pendingPlan && stopped) {
+            // Stopping the /compact turn of "Accept & Compact" stops the execution too
+            managed.stored.pendingPlanExecution = undefined
+          } else if (pendingPlan?.awaitingCompaction) {
+            // The /compact turn of "Accept & Compact" is done
+            pendingPlan.awaitingCompaction = false
+          }
+          await this.flushSession(managed)
           this.broadcast({
             type: 'complete',
             sessionId,
+            tokenUsage: managed.stored.tokenUsage,
+            turnUsage,
           })
+          if (pendingPlan && !stopped) {
+            // The execution turn takes the queue over
+            this.broadcast({ type: 'compaction_complete', sessionId })
+            await this.executePlan(managed, pendingPlan.planPath)
+          } else if (!stopped) {
+            this.runNextQueued(managed)
+          }
           return
         }
       }
     } catch (error) {
       console.error(`[SessionManager] Error in sendMessage:`, error)
+      const stopped = !managed.isProcessing
       managed.isProcessing = false
+      managed.stored.inFlightTurn = undefined
+      releaseTurnSlot(sessionId)
+      recordTurn('error', Date.now() - turnStartedAt)
+      recordAgentError(parseError(error).code)
+      managed.agent?.setTemporaryClarifications(null)
+      // A plan waiting for a failed compaction isn't executed
+      managed.stored.pendingPlanExecution = undefined
       
       // Send error event
+      const errorText = error instanceof Error ? error.message : 'Unknown error'
+      managed.messages.push({
+        id: generateMessageId(),
+        role: 'error',
+        content: errorText,
+        timestamp: Date.now(),
+      })
+      await this.flushSession(managed)
       this.broadcast({
         type: 'error',
         sessionId,
-        error: error instanceof Error ? error.message : 'Unknown error',
+        error: errorText,
       })
       
       // Send complete event
@@ -472,7 +1112,88 @@ export class SessionManager {
         type: 'complete',
         sessionId,
       })
+      // Messages queued behind the failed turn still run
+      if (!stopped) {
+        this.runNextQueued(managed)
+      }
+    }
+  }
+  
+  // ============================================================
+  // Message Queue
+  // ============================================================
+  
+  getQueuedMessages(sessionId: string): QueuedMessage[] {
+    this.getSessionWorkspace(sessionId)
+    return (this.getManaged(sessionId)?.messageQueue ?? []).map(toQueuedMessage)
+  }
+  
+  updateQueuedMessage(sessionId: string, messageId: string, message: string): void {
+    const managed = this.getManaged(sessionId)
+    const queued = managed?.messageQueue.find(m => m.id === messageId)
+    if (!managed || !queued) {
+      throw new RpcError('not_found', `Queued message not found: ${messageId}`)
     }
+    queued.message = message
+    this.broadcastQueue(managed)
+  }
+  
+  cancelQueuedMessage(sessionId: string, messageId: string): void {
+    const managed = this.getManaged(sessionId)
+    const index = managed?.messageQueue.findIndex(m => m.id === messageId) ?? -1
+    if (!managed || index === -1) {
+      throw new RpcError('not_found', `Queued message not found: ${messageId}`)
+    }
+    managed.messageQueue.splice(index, 1)
+    this.broadcastQueue(managed)
+  }
+  
+  private broadcastQueue(managed: ManagedSession): void {
+    this.broadcast({ type: 'message_queue_changed', sessionId: managed.id, queue: managed.messageQueue.map(toQueuedMessage) })
+  }
+  
+  /**
+   * Start the next turn: a steering note the turn ended before delivering, else the oldest queued message
+   */
+  private runNextQueued(managed: ManagedSession): void {
+    const undelivered = managed.agent?.getTemporaryClarifications()
+    let next: PendingMessage | undefined
+    if (undelivered) {
+      managed.agent!.setTemporaryClarifications(null)
+      next = { id: generateMessageId(), message: undelivered, queuedAt: Date.now(), recorded: true }
+    } else {
+      next = managed.messageQueue.shift()
+      if (!next) return
+      this.broadcastQueue(managed)
+    }
+    this.runTurn(managed, next).catch(error => {
+      console.error(`[SessionManager] Failed to start queued message in session ${managed.id}:`, error)
+    })
+  }
+  
+  /**
+   * Add a note to the running turn. The agent sees it with its next tool result; if the
+   * turn ends first, the note starts the next turn.
+   */
+  private steerTurn(managed: ManagedSession, message: string): void {
+    const notes = [managed.agent!.getTemporaryClarifications(), message].filter(Boolean).join('\n\n')
+    managed.agent!.setTemporaryClarifications(notes)
+    
+    const userMessage: Message = {
+      id: generateMessageId(),
+      role: 'user',
+      content: message,
+      timestamp: Date.now(),
+    }
+    managed.messages.push(userMessage)
+    managed.stored.lastMessageAt = userMessage.timestamp
+    this.persistSession(managed)
+    this.broadcast({
+      type: 'user_message',
+      sessionId: managed.id,
+      message: userMessage,
+      status: 'steering',
+    })
   }
   
   // ============================================================
@@ -516,6 +1237,10 @@ export class SessionManager {
         managed.messages.push(assistantMessage)
         managed.streamingText = ''
         managed.pendingTextParent = undefined
+        if (!event.isIntermediate) {
+          managed.stored.lastMessageAt = assistantMessage.timestamp
+        }
+        this.persistSession(managed)
         
         this.broadcast({
           type: 'text_complete',
@@ -571,6 +1296,7 @@ export class SessionManager {
           parentToolUseId,
         }
         managed.messages.push(toolStartMessage)
+        this.persistSession(managed)
         
         this.broadcast({
           type: 'tool_start',
@@ -589,6 +1315,7 @@ export class SessionManager {
       case 'tool_result': {
         const toolName = managed.pendingTools.get(event.toolUseId) || 'unknown'
         managed.pendingTools.delete(event.toolUseId)
+        recordToolCall(toolName, event.isError)
         
         // Remove from parent stack if parent tool
         const PARENT_TOOLS = ['Task', 'TaskOutput']
@@ -609,6 +1336,7 @@ export class SessionManager {
           existingToolMsg.toolStatus = 'completed'
           existingToolMsg.isError = event.isError
         }
+        this.persistSession(managed)
         
         const finalParentToolUseId = existingToolMsg?.parentToolUseId || storedParentId
         
@@ -642,6 +1370,14 @@ export class SessionManager {
         break
         
       case 'error':
+        recordAgentError(parseError(event.message).code)
+        managed.messages.push({
+          id: generateMessageId(),
+          role: 'error',
+          content: event.message,
+          timestamp: Date.now(),
+        })
+        this.persistSession(managed)
         this.broadcast({
           type: 'error',
           sessionId,
@@ -681,12 +1417,84 @@ export class SessionManager {
       case 'typed_error':
         // Log typed errors with full details
         console.log(`[SessionManager] Typed error:`, JSON.stringify(event, null, 2))
-        this.broadcast({
+        recordAgentError(event.error.code)
+        managed.messages.push({
+          id: generateMessageId(),
+          role: 'error',
+          content: event.error.message,
+          timestamp: Date.now(),
+          errorCode: event.error.code,
+          errorTitle: event.error.title,
+          errorDetails: event.error.details,
+          errorOriginal: event.error.originalError,
+          errorCanRetry: event.error.canRetry,
+        })
+        this.persistSession(managed)
+        this.broadcast({
           type: 'error',
           sessionId,
-          error: (event as any).message || (event as any).error || 'Unknown typed error',
+          error: event.error.message || 'Unknown typed error',
+        })
+        break
+        
+      case 'usage_update': {
+        // Context size after each assistant message - the total is only updated once the turn completes
+        const tokenUsage = managed.stored.tokenUsage
+        if (tokenUsage) {
+          tokenUsage.contextTokens = event.usage.inputTokens
+          tokenUsage.contextWindow = event.usage.contextWindow ?? tokenUsage.contextWindow
+        }
+        this.broadcast({
+          type: 'usage_update',
+          sessionId,
+          tokenUsage: { inputTokens: event.usage.inputTokens, contextWindow: event.usage.contextWindow ?? tokenUsage?.contextWindow },
+        })
+        break
+      }
+      
+      case 'shell_backgrounded':
+      case 'task_backgrounded': {
+        const id = event.type === 'shell_backgrounded' ? event.shellId : event.taskId
+        const toolResult = managed.messages.find(m => m.toolUseId === event.toolUseId)?.toolResult
+        this.trackBackgroundJob(managed, {
+          id,
+          kind: event.type === 'shell_backgrounded' ? 'shell' : 'task',
+          toolUseId: event.toolUseId,
+          intent: event.intent,
+          command: event.type === 'shell_backgrounded' ? event.command : undefined,
+          status: 'running',
+          startedAt: Date.now(),
+          outputFile: getJobOutputFile(id, managed.stored.sdkCwd ?? getSessionStoragePath(managed.workspace.rootPath, sessionId), toolResult),
+          outputOffset: 0,
+        })
+        this.broadcast(event.type === 'shell_backgrounded'
+          ? { type: 'shell_backgrounded', sessionId, toolUseId: event.toolUseId, shellId: id, intent: event.intent, command: event.command }
+          : { type: 'task_backgrounded', sessionId, toolUseId: event.toolUseId, taskId: id, intent: event.intent })
+        break
+      }
+      
+      case 'task_progress': {
+        // Also reported for tools still running in the foreground - only background jobs are tracked
+        const job = [...managed.backgroundJobs.values()].find(j => j.toolUseId === event.toolUseId)
+        if (job) job.elapsedSeconds = event.elapsedSeconds
+        this.broadcast({
+          type: 'task_progress',
+          sessionId,
+          toolUseId: event.toolUseId,
+          elapsedSeconds: event.elapsedSeconds,
         })
         break
+      }
+      
+      case 'shell_killed': {
+        // The agent ran KillShell
+        const job = managed.backgroundJobs.get(event.shellId)
+        if (job?.status === 'running') {
+          this.finishBackgroundJob(managed, job, 'killed')
+        }
+        this.broadcast({ type: 'shell_killed', sessionId, shellId: event.shellId })
+        break
+      }
         
       default:
         // Log unhandled events with full details
@@ -699,10 +1507,21 @@ export class SessionManager {
   // ============================================================
   
   async cancelProcessing(sessionId: string, silent?: boolean): Promise<void> {
-    const managed = this.managedSessions.get(sessionId)
+    const managed = this.getManaged(sessionId)
+    if (managed?.isProcessing && cancelTurnWait(sessionId)) {
+      // Never started - nothing to abort
+      managed.isProcessing = false
+      managed.stored.inFlightTurn = undefined
+      await this.flushSession(managed)
+      if (!silent) {
+        this.broadcast({ type: 'complete', sessionId })
+      }
+      return
+    }
     if (managed?.agent && managed.isProcessing) {
       managed.agent.forceAbort(AbortReason.UserStop)
       managed.isProcessing = false
+      await this.flushSession(managed)
       
       if (!silent) {
         this.broadcast({
@@ -714,17 +1533,114 @@ export class SessionManager {
   }
   
   async killShell(sessionId: string, shellId: string): Promise<{ success: boolean; error?: string }> {
-    // TODO: Implement shell management
-    return { success: false, error: 'Not implemented' }
+    const managed = this.getManaged(sessionId)
+    const job = managed?.backgroundJobs.get(shellId)
+    if (!managed || job?.kind !== 'shell') {
+      return { success: false, error: `Shell not found: ${shellId}` }
+    }
+    if (job.status !== 'running') {
+      return { success: false, error: `Shell is not running: ${shellId}` }
+    }
+    if (!await killShellProcesses(job)) {
+      return { success: false, error: `No process found for shell: ${shellId}` }
+    }
+    this.finishBackgroundJob(managed, job, 'killed')
+    this.broadcast({ type: 'shell_killed', sessionId, shellId })
+    return { success: true }
   }
   
+  /**
+   * Latest output of a background shell or task in any of the user's sessions
+   */
   async getTaskOutput(taskId: string): Promise<string | null> {
-    // TODO: Implement task output
+    for (const managed of [...this.managedSessions.values(), ...sharedManagedSessions.values()]) {
+      const job = managed.backgroundJobs.get(taskId)
+      if (job && this.findWorkspace(managed.workspace.id)) {
+        return readJobOutputTail(job.outputFile)
+      }
+    }
     return null
   }
   
+  /**
+   * Background shells and tasks started in a session, running ones first
+   */
+  getBackgroundJobs(sessionId: string): BackgroundJob[] {
+    this.getSessionWorkspace(sessionId)
+    return [...(this.getManaged(sessionId)?.backgroundJobs.values() ?? [])]
+      .sort((a, b) => Number(b.status === 'running') - Number(a.status === 'running') || b.startedAt - a.startedAt)
+      .map(toBackgroundJob)
+  }
+  
+  private trackBackgroundJob(managed: ManagedSession, job: TrackedBackgroundJob): void {
+    managed.backgroundJobs.set(job.id, job)
+    if (managed.backgroundPoll) return
+    const user = getCurrentUser()
+    managed.backgroundPoll = setInterval(() => {
+      if (managed.backgroundPolling) return
+      managed.backgroundPolling = true
+      runAsUser(user, () => this.pollBackgroundJobs(managed))
+        .catch(error => {
+          console.error(`[SessionManager] Failed to poll background jobs of session ${managed.id}:`, error)
+        })
+        .finally(() => {
+          managed.backgroundPolling = false
+        })
+    }, BACKGROUND_POLL_MS)
+  }
+  
+  /**
+   * Stream new output of running jobs and notice shells that exited on their own
+   */
+  private async pollBackgroundJobs(managed: ManagedSession): Promise<void> {
+    const running = [...managed.backgroundJobs.values()].filter(job => job.status === 'running')
+    if (running.length === 0) {
+      clearInterval(managed.backgroundPoll)
+      managed.backgroundPoll = undefined
+      return
+    }
+    const processes = running.some(job => job.kind === 'shell') ? await listDescendantProcesses() : []
+    for (const job of running) {
+      await this.streamBackgroundOutput(managed, job)
+      if (job.kind === 'shell' && job.status === 'running' && !isShellRunning(job, processes)) {
+        this.finishBackgroundJob(managed, job, 'completed')
+      }
+    }
+  }
+  
+  /**
+   * Broadcast the next chunk of a job's output - the rest follows with later polls
+   */
+  private async streamBackgroundOutput(managed: ManagedSession, job: TrackedBackgroundJob): Promise<void> {
+    const { output, offset } = await readJobOutput(job.outputFile, job.outputOffset)
+    if (offset === job.outputOffset) return
+    job.outputOffset = offset
+    this.broadcast({ type: 'background_output', sessionId: managed.id, jobId: job.id, output })
+  }
+  
+  private finishBackgroundJob(managed: ManagedSession, job: TrackedBackgroundJob, status: 'completed' | 'killed'): void {
+    job.status = status
+    releaseShellProcess(job)
+    // Output written right before exiting goes first
+    void this.streamBackgroundOutput(managed, job).finally(() => {
+      this.broadcast({ type: 'background_job_updated', sessionId: managed.id, job: toBackgroundJob(job) })
+    })
+  }
+  
+  /**
+   * Background tasks are subagents of the turn - they are done once the turn completes.
+   * Shells keep running until they exit or are killed.
+   */
+  private completeBackgroundTasks(managed: ManagedSession): void {
+    for (const job of managed.backgroundJobs.values()) {
+      if (job.kind === 'task' && job.status === 'running') {
+        this.finishBackgroundJob(managed, job, 'completed')
+      }
+    }
+  }
+  
   async respondToPermission(sessionId: string, requestId: string, allowed: boolean, alwaysAllow: boolean): Promise<boolean> {
-    const managed = this.managedSessions.get(sessionId)
+    const managed = this.getManaged(sessionId)
     if (!managed?.agent) {
       return false
     }
@@ -734,9 +1650,118 @@ export class SessionManager {
     return true
   }
   
-  async respondToCredential(sessionId: string, requestId: string, response: unknown): Promise<boolean> {
-    // TODO: Implement credential handling
-    return false
+  /**
+   * Answer a pending auth request with the credential entered in the browser (or cancel it).
+   * The credential is saved like saveSourceCredentials, then the agent resumes with the outcome.
+   */
+  async respondToCredential(sessionId: string, requestId: string, response: CredentialResponse): Promise<boolean> {
+    // Also after a restart - the request stays pending in the session file
+    const managed = await this.getOrCreateManagedSession(sessionId)
+    const request = managed.messages.find(m => m.role === 'auth-request' && m.authRequestId === requestId)
+    if (request?.authStatus !== 'pending') {
+      return false
+    }
+    
+    if (response.cancelled) {
+      this.completeAuthRequest(managed, request, { success: false, cancelled: true })
+      return true
+    }
+    if (request.authRequestType !== 'credential') {
+      throw new RpcError('invalid_args', `Auth request ${requestId} is completed through OAuth, not a credential`)
+    }
+    
+    const credential: SourceCredential | undefined = request.authCredentialMode === 'basic'
+      ? response.username && response.password ? { username: response.username, password: response.password } : undefined
+      : response.value
+    if (!credential) {
+      const field = request.authCredentialMode === 'basic' ? (response.username ? 'password' : 'username') : 'value'
+      throw new RpcError('invalid_args', `Missing ${field}`, [{ path: [field], message: 'Required' }])
+    }
+    
+    try {
+      await saveSourceCredentials(this.getSource(managed.workspace.id, request.authSourceSlug!), credential)
+    } catch (error) {
+      this.completeAuthRequest(managed, request, { success: false, error: error instanceof Error ? error.message : String(error) })
+      return true
+    }
+    this.completeAuthRequest(managed, request, { success: true })
+    return true
+  }
+  
+  /**
+   * An OAuth flow for a source finished: complete the OAuth auth requests waiting for it
+   * in the workspace's loaded sessions, which resumes their agents
+   */
+  completeSourceAuthRequests(workspaceId: string, sourceSlug: string, result: { success: boolean; error?: string }): void {
+    if (!this.findWorkspace(workspaceId)) return
+    for (const managed of [...this.managedSessions.values(), ...sharedManagedSessions.values()]) {
+      if (managed.workspace.id !== workspaceId) continue
+      const request = managed.messages.find(m =>
+        m.role === 'auth-request' && m.authStatus === 'pending' && m.authRequestType !== 'credential' && m.authSourceSlug === sourceSlug)
+      if (request) {
+        this.completeAuthRequest(managed, request, { success: result.success, error: result.error })
+      }
+    }
+  }
+  
+  /**
+   * The agent asked for authentication (source_credential_prompt, OAuth triggers): show the
+   * request in the chat and stop the turn - it resumes once the user answers
+   */
+  private onAgentAuthRequest(managed: ManagedSession, request: AuthRequest): void {
+    const message: Message = {
+      id: generateMessageId(),
+      role: 'auth-request',
+      content: request.type === 'credential' && request.description ? request.description : `Authentication required for ${request.sourceName}`,
+      timestamp: Date.now(),
+      authRequestId: request.requestId,
+      authRequestType: request.type,
+      authSourceSlug: request.sourceSlug,
+      authSourceName: request.sourceName,
+      authStatus: 'pending',
+      ...(request.type === 'credential' && {
+        authCredentialMode: request.mode,
+        authHeaderName: request.headerName,
+        authLabels: request.labels,
+        authDescription: request.description,
+        authHint: request.hint,
+        authSourceUrl: request.sourceUrl,
+      }),
+    }
+    managed.messages.push(message)
+    this.persistSession(managed)
+    this.broadcast({ type: 'auth_request', sessionId: managed.id, message, request })
+    managed.agent?.forceAbort(AbortReason.AuthRequest)
+  }
+  
+  /**
+   * Record the outcome on the auth-request message and resume the agent with it
+   */
+  private completeAuthRequest(
+    managed: ManagedSession,
+    request: Message,
+    result: { success: boolean; cancelled?: boolean; error?: string }
+  ): void {
+    request.authStatus = result.success ? 'completed' : result.cancelled ? 'cancelled' : 'failed'
+    request.authError = result.error
+    this.persistSession(managed)
+    this.broadcast({
+      type: 'auth_completed',
+      sessionId: managed.id,
+      requestId: request.authRequestId,
+      sourceSlug: request.authSourceSlug,
+      ...result,
+    })
+    
+    const sourceName = request.authSourceName ?? request.authSourceSlug
+    const outcome = result.success
+      ? `Authentication completed for ${sourceName}. Credentials have been saved.`
+      : result.cancelled
+        ? `Authentication cancelled for ${sourceName}.`
+        : `Authentication failed for ${sourceName}: ${result.error}`
+    this.sendMessage(managed.id, outcome).catch(error => {
+      console.error(`[SessionManager] Failed to resume session ${managed.id} after authentication:`, error)
+    })
   }
   
   // ============================================================
@@ -747,35 +1772,54 @@ export class SessionManager {
     const cmd = command as { type: string; [key: string]: unknown }
     const session = await this.getSession(sessionId)
     if (!session) {
-      throw new Error(`Session not found: ${sessionId}`)
+      throw new RpcError('not_found', `Session not found: ${sessionId}`)
     }
     
-    const workspace = getWorkspaceByNameOrId(session.workspaceId)
+    const workspace = this.findWorkspace(session.workspaceId)
     if (!workspace) {
-      throw new Error(`Workspace not found: ${session.workspaceId}`)
+      throw new RpcError('not_found', `Workspace not found: ${session.workspaceId}`)
     }
     
     switch (cmd.type) {
       case 'flag':
-        await updateSessionMetadata(workspace.rootPath, sessionId, { isFlagged: true })
+        await this.updateMetadata(workspace.rootPath, sessionId, { isFlagged: true })
+        this.broadcast({ type: 'session_flagged', sessionId })
         return
       case 'unflag':
-        await updateSessionMetadata(workspace.rootPath, sessionId, { isFlagged: false })
+        await this.updateMetadata(workspace.rootPath, sessionId, { isFlagged: false })
+        this.broadcast({ type: 'session_unflagged', sessionId })
         return
       case 'rename':
-        await updateSessionMetadata(workspace.rootPath, sessionId, { title: cmd.name as string })
+        await this.updateMetadata(workspace.rootPath, sessionId, { name: cmd.name as string })
+        this.broadcast({ type: 'title_generated', sessionId, title: cmd.name as string })
         return
       case 'setTodoState':
-        await updateSessionMetadata(workspace.rootPath, sessionId, { todoState: cmd.state as string })
+        await this.updateMetadata(workspace.rootPath, sessionId, { todoState: cmd.state as string })
+        this.broadcast({ type: 'todo_state_changed', sessionId, todoState: cmd.state as string })
         return
       case 'markRead':
-        await updateSessionMetadata(workspace.rootPath, sessionId, { isUnread: false })
+        await this.updateMetadata(workspace.rootPath, sessionId, { hasUnread: false })
+        this.broadcast({ type: 'session_read_changed', sessionId, isUnread: false })
         return
       case 'markUnread':
-        await updateSessionMetadata(workspace.rootPath, sessionId, { isUnread: true })
+        await this.updateMetadata(workspace.rootPath, sessionId, { hasUnread: true })
+        this.broadcast({ type: 'session_read_changed', sessionId, isUnread: true })
         return
       case 'setLabels':
-        await updateSessionMetadata(workspace.rootPath, sessionId, { labels: cmd.labels as string[] })
+        await this.updateMetadata(workspace.rootPath, sessionId, { labels: cmd.labels as string[] })
+        this.broadcast({ type: 'labels_changed', sessionId, labels: cmd.labels as string[] })
+        return
+      case 'setPermissionMode':
+        if (!PERMISSION_MODE_ORDER.includes(cmd.mode as PermissionMode)) {
+          throw new RpcError('invalid_args', `Invalid permission mode: ${cmd.mode}`)
+        }
+        await this.setSessionPermissionMode(sessionId, cmd.mode as PermissionMode)
+        return
+      case 'setThinkingLevel':
+        if (!isValidThinkingLevel(cmd.level)) {
+          throw new RpcError('invalid_args', `Invalid thinking level: ${cmd.level}`)
+        }
+        await this.setSessionThinkingLevel(sessionId, cmd.level)
         return
       case 'showInFinder':
       case 'copyPath':
@@ -787,9 +1831,214 @@ export class SessionManager {
     }
   }
   
+  // ============================================================
+  // Plans
+  // ============================================================
+  
   async getPendingPlanExecution(sessionId: string): Promise<{ planPath: string; awaitingCompaction: boolean } | null> {
-    // TODO: Implement
-    return null
+    this.getSessionWorkspace(sessionId)
+    const managed = this.getManaged(sessionId)
+    if (managed) {
+      return managed.stored.pendingPlanExecution ?? null
+    }
+    return this.findStoredSession(sessionId)?.stored.pendingPlanExecution ?? null
+  }
+  
+  /**
+   * Parsed plan of a plan message in the session
+   */
+  async getPlan(sessionId: string, planPath: string): Promise<Plan> {
+    const managed = await this.getOrCreateManagedSession(sessionId)
+    return this.requirePlan(managed, planPath)
+  }
+  
+  /**
+   * Accept a submitted plan: leave Explore mode and execute it - right away, or with
+   * `compact` after compacting the conversation so the plan runs with a fresh context.
+   * The pending execution is saved, so a restart during compaction doesn't lose it;
+   * stopping the compaction, or its failing, drops it.
+   * Returns once the turn started - results come as session events.
+   */
+  async acceptPlan(sessionId: string, planPath: string, compact: boolean): Promise<void> {
+    const managed = await this.getOrCreateManagedSession(sessionId)
+    this.requirePlan(managed, planPath)
+    if (managed.isProcessing) {
+      throw new RpcError('conflict', `Session ${sessionId} is still processing`)
+    }
+    
+    if ((managed.stored.permissionMode ?? getPermissionMode(sessionId)) === 'safe') {
+      await this.setSessionPermissionMode(sessionId, 'ask')
+    }
+    if (!compact) {
+      await this.executePlan(managed, planPath)
+      return
+    }
+    managed.stored.pendingPlanExecution = { planPath, awaitingCompaction: true }
+    await this.flushSession(managed)
+    this.startPlanTurn(sessionId, '/compact')
+  }
+  
+  /**
+   * Ask the agent to revise its plan - the plan stays in Explore mode
+   */
+  async refinePlan(sessionId: string, planPath: string, feedback: string): Promise<void> {
+    const managed = await this.getOrCreateManagedSession(sessionId)
+    this.requirePlan(managed, planPath)
+    this.sendMessage(sessionId, feedback).catch(error => {
+      console.error(`[SessionManager] Failed to refine plan in session ${sessionId}:`, error)
+    })
+  }
+  
+  private requirePlan(managed: ManagedSession, planPath: string): Plan {
+    // Only plans the agent submitted in this session - not arbitrary files
+    const submitted = managed.messages.some(m => m.role === 'plan' && m.planPath === planPath)
+    const plan = submitted ? loadPlanFromPath(planPath) : null
+    if (!plan) {
+      throw new RpcError('not_found', `Plan not found: ${planPath}`)
+    }
+    return plan
+  }
+  
+  /**
+   * The agent called SubmitPlan: show the plan and stop the turn until the user reviews it
+   */
+  private onAgentPlanSubmitted(managed: ManagedSession, planPath: string): void {
+    let content: string
+    try {
+      content = readFileSync(planPath, 'utf-8')
+    } catch (error) {
+      console.error(`[SessionManager] Failed to read plan ${planPath}:`, error)
+      return
+    }
+    const message: Message = {
+      id: generateMessageId(),
+      role: 'plan',
+      content,
+      timestamp: Date.now(),
+      planPath,
+    }
+    managed.messages.push(message)
+    managed.stored.lastMessageAt = message.timestamp
+    this.persistSession(managed)
+    this.broadcast({ type: 'plan_submitted', sessionId: managed.id, message })
+    managed.agent?.forceAbort(AbortReason.PlanSubmitted)
+  }
+  
+  private async executePlan(managed: ManagedSession, planPath: string): Promise<void> {
+    managed.stored.pendingPlanExecution = undefined
+    await this.flushSession(managed)
+    this.startPlanTurn(managed.id, `Plan approved. Read the plan at ${planPath} and execute it.`)
+  }
+  
+  private startPlanTurn(sessionId: string, message: string): void {
+    this.sendMessage(sessionId, message, undefined, undefined, undefined, 'queue', true).catch(error => {
+      console.error(`[SessionManager] Plan execution failed in session ${sessionId}:`, error)
+    })
+  }
+  
+  /**
+   * Continue "Accept & Compact" executions a restart interrupted. If compaction hadn't
+   * finished it runs again - compacting twice is harmless, skipping it is not.
+   * Called once at server startup.
+   */
+  async resumePendingPlanExecutions(): Promise<void> {
+    for (const workspace of this.listWorkspaces()) {
+      let pending: SessionMetadata[]
+      try {
+        pending = listStoredSessions(workspace.rootPath).filter(session => session.pendingPlanExecution)
+      } catch {
+        continue
+      }
+      for (const session of pending) {
+        const { planPath, awaitingCompaction } = session.pendingPlanExecution!
+        console.log(`[SessionManager] Resuming plan execution for session ${session.id}`)
+        try {
+          const managed = await this.getOrCreateManagedSession(session.id)
+          if (managed.isProcessing) continue
+          if (awaitingCompaction) {
+            this.startPlanTurn(session.id, '/compact')
+          } else {
+            await this.executePlan(managed, planPath)
+          }
+        } catch (error) {
+          console.error(`[SessionManager] Failed to resume plan execution for session ${session.id}:`, error)
+        }
+      }
+    }
+  }
+  
+  // ============================================================
+  // Crash Recovery
+  // ============================================================
+  
+  /**
+   * Resume a turn a server restart cut short. The agent re-attaches to its SDK session;
+   * if that can't be resumed it starts over with the recent conversation as context.
+   */
+  async resumeInterruptedTurn(sessionId: string): Promise<void> {
+    const managed = await this.getOrCreateManagedSession(sessionId)
+    if (managed.messages.at(-1)?.errorCode !== TURN_INTERRUPTED_ERROR) {
+      throw new RpcError('conflict', `No interrupted turn to resume in session ${sessionId}`)
+    }
+    this.sendMessage(sessionId, 'Your previous response was interrupted by a server restart. Continue where you left off.').catch(error => {
+      console.error(`[SessionManager] Failed to resume interrupted turn in session ${sessionId}:`, error)
+    })
+  }
+  
+  /**
+   * Recent user messages and final responses, for when the SDK session can't be resumed.
+   * The message of the turn being retried is left out - the agent sends it itself.
+   */
+  private getRecoveryMessages(managed: ManagedSession): RecoveryMessage[] {
+    return managed.messages
+      .filter(m => (m.role === 'user' || (m.role === 'assistant' && !m.isIntermediate)) && m.content && m.id !== managed.stored.inFlightTurn?.messageId)
+      .slice(-RECOVERY_MESSAGE_COUNT)
+      .map(m => ({ type: m.role as RecoveryMessage['type'], content: m.content }))
+  }
+  
+  /**
+   * Mark turns that were running when the server stopped: tools left running are failed and
+   * an error message offers to resume (see resumeInterruptedTurn). Called once at server startup.
+   */
+  async recoverInterruptedTurns(): Promise<void> {
+    for (const workspace of this.listWorkspaces()) {
+      let interrupted: SessionMetadata[]
+      try {
+        interrupted = listStoredSessions(workspace.rootPath).filter(session => session.inFlightTurn)
+      } catch {
+        continue
+      }
+      for (const session of interrupted) {
+        try {
+          const managed = await this.getOrCreateManagedSession(session.id)
+          // Another member's manager already recovered this shared session
+          if (managed.isProcessing || !managed.stored.inFlightTurn) continue
+          console.log(`[SessionManager] Turn in session ${session.id} was interrupted by a restart`)
+          managed.stored.inFlightTurn = undefined
+          for (const m of managed.messages) {
+            if (m.role === 'tool' && (m.toolStatus === 'pending' || m.toolStatus === 'executing')) {
+              m.toolStatus = 'error'
+              m.toolResult ??= 'Interrupted by a server restart'
+              m.isError = true
+            }
+          }
+          const message: Message = {
+            id: generateMessageId(),
+            role: 'error',
+            content: 'The response was interrupted because the server restarted.',
+            timestamp: Date.now(),
+            errorCode: TURN_INTERRUPTED_ERROR,
+            errorTitle: 'Response interrupted',
+            errorCanRetry: true,
+          }
+          managed.messages.push(message)
+          await this.flushSession(managed)
+          this.broadcast({ type: 'turn_interrupted', sessionId: session.id, message })
+        } catch (error) {
+          console.error(`[SessionManager] Failed to recover interrupted turn in session ${session.id}:`, error)
+        }
+      }
+    }
   }
   
   // ============================================================
@@ -797,57 +2046,275 @@ export class SessionManager {
   // ============================================================
   
   getSources(workspaceId: string): LoadedSource[] {
-    const workspace = getWorkspaceByNameOrId(workspaceId)
+    const workspace = this.findWorkspace(workspaceId)
     if (!workspace) return []
     return loadWorkspaceSources(workspace.rootPath)
   }
   
+  getSource(workspaceId: string, sourceSlug: string): LoadedSource {
+    const source = loadSource(this.requireWorkspace(workspaceId).rootPath, sourceSlug)
+    if (!source) {
+      throw new RpcError('not_found', `Source not found: ${sourceSlug}`)
+    }
+    return source
+  }
+  
+  async createSource(workspaceId: string, config: Partial<FolderSourceConfig>): Promise<FolderSourceConfig> {
+    const workspace = this.requireWorkspace(workspaceId)
+    const created = await createSource(workspace.rootPath, config)
+    this.broadcastSourcesChanged(workspace)
+    return created
+  }
+  
+  async deleteSource(workspaceId: string, sourceSlug: string): Promise<void> {
+    await deleteSource(this.getSource(workspaceId, sourceSlug))
+    this.broadcastSourcesChanged(this.requireWorkspace(workspaceId))
+  }
+  
+  async saveSourceCredentials(workspaceId: string, sourceSlug: string, credential: SourceCredential): Promise<void> {
+    await saveSourceCredentials(this.getSource(workspaceId, sourceSlug), credential)
+    this.broadcastSourcesChanged(this.requireWorkspace(workspaceId))
+  }
+  
+  async testSource(workspaceId: string, sourceSlug: string): Promise<{ success: boolean; report: string }> {
+    const workspace = this.requireWorkspace(workspaceId)
+    this.getSource(workspaceId, sourceSlug)
+    const result = await testSource(workspace.rootPath, sourceSlug)
+    // The test records the connection status in the source's config
+    this.broadcastSourcesChanged(workspace)
+    return result
+  }
+  
+  getSourcePermissionsConfig(workspaceId: string, sourceSlug: string): unknown {
+    return getSourcePermissionsConfig(this.requireWorkspace(workspaceId).rootPath, sourceSlug)
+  }
+  
+  getWorkspacePermissionsConfig(workspaceId: string): unknown {
+    return getWorkspacePermissionsConfig(this.requireWorkspace(workspaceId).rootPath)
+  }
+  
+  async getMcpTools(workspaceId: string, sourceSlug: string): Promise<{ success: boolean; error?: string; tools?: McpToolInfo[] }> {
+    return getMcpTools(this.getSource(workspaceId, sourceSlug))
+  }
+  
+  /**
+   * Tell clients viewing the workspace to reload its sources (onSourcesChanged)
+   */
+  private broadcastSourcesChanged(workspace: ConfigWorkspace): void {
+    this.broadcast({ type: 'sources_changed', workspaceId: workspace.id, sources: loadWorkspaceSources(workspace.rootPath) })
+  }
+  
   getSkills(workspaceId: string): LoadedSkill[] {
-    const workspace = getWorkspaceByNameOrId(workspaceId)
+    const workspace = this.findWorkspace(workspaceId)
     if (!workspace) return []
     return loadWorkspaceSkills(workspace.rootPath)
   }
   
+  getSkillFiles(workspaceId: string, skillSlug: string): SkillFile[] {
+    return getSkillFiles(this.requireWorkspace(workspaceId).rootPath, skillSlug)
+  }
+  
+  async readSkillFile(workspaceId: string, skillSlug: string, filePath: string): Promise<string> {
+    return readSkillFile(this.requireWorkspace(workspaceId).rootPath, skillSlug, filePath)
+  }
+  
+  async writeSkillFile(workspaceId: string, skillSlug: string, filePath: string, content: string): Promise<SkillSaveResult> {
+    const workspace = this.requireWorkspace(workspaceId)
+    const result = await writeSkillFile(workspace.rootPath, skillSlug, filePath, content)
+    if (result.saved) {
+      this.notifySkillsChanged(workspace)
+    }
+    return result
+  }
+  
+  async createSkill(workspaceId: string, skillSlug: string, content?: string): Promise<SkillSaveResult & { skill?: LoadedSkill }> {
+    const workspace = this.requireWorkspace(workspaceId)
+    const result = await createSkill(workspace.rootPath, skillSlug, content)
+    if (result.saved) {
+      this.notifySkillsChanged(workspace)
+    }
+    return result
+  }
+  
+  deleteSkill(workspaceId: string, skillSlug: string): void {
+    const workspace = this.requireWorkspace(workspaceId)
+    deleteSkill(workspace.rootPath, skillSlug)
+    this.notifySkillsChanged(workspace)
+  }
+  
+  /**
+   * Tell clients viewing the workspace to reload its skills (onSkillsChanged)
+   */
+  private notifySkillsChanged(workspace: ConfigWorkspace): void {
+    clearTimeout(this.skillsChangedTimers.get(workspace.id))
+    this.skillsChangedTimers.set(workspace.id, setTimeout(() => {
+      this.skillsChangedTimers.delete(workspace.id)
+      this.broadcast({ type: 'skills_changed', workspaceId: workspace.id, skills: loadWorkspaceSkills(workspace.rootPath) })
+    }, SKILLS_CHANGED_DEBOUNCE_MS))
+  }
+  
   listLabels(workspaceId: string): unknown[] {
-    const workspace = getWorkspaceByNameOrId(workspaceId)
+    const workspace = this.findWorkspace(workspaceId)
     if (!workspace) return []
     return listLabels(workspace.rootPath)
   }
   
   listStatuses(workspaceId: string): unknown[] {
-    const workspace = getWorkspaceByNameOrId(workspaceId)
+    const workspace = this.findWorkspace(workspaceId)
     if (!workspace) return []
     return listStatuses(workspace.rootPath)
   }
   
   listViews(workspaceId: string): unknown[] {
-    const workspace = getWorkspaceByNameOrId(workspaceId)
+    const workspace = this.findWorkspace(workspaceId)
     if (!workspace) return []
     return listViews(workspace.rootPath)
   }
   
-  // ============================================================
-  // Settings
-  // ============================================================
+  createLabel(workspaceId: string, input: CreateLabelInput): LabelConfig {
+    const workspace = this.requireWorkspace(workspaceId)
+    const label = runConfigOperation(() => createLabel(workspace.rootPath, input))
+    this.broadcastConfigChanged('label_config_changed', workspace)
+    return label
+  }
   
-  getWorkspaceSettings(workspaceId: string): unknown {
-    const workspace = getWorkspaceByNameOrId(workspaceId)
-    if (!workspace) return null
-    // TODO: Load workspace-specific settings
-    return {}
+  /**
+   * A null valueType turns the label back into a plain (boolean) label
+   */
+  updateLabel(
+    workspaceId: string,
+    labelId: string,
+    updates: Omit<UpdateLabelInput, 'valueType'> & { valueType?: UpdateLabelInput['valueType'] | null }
+  ): LabelConfig {
+    const workspace = this.requireWorkspace(workspaceId)
+    // updateLabel clears valueType when it is given but falsy
+    const label = runConfigOperation(() => updateLabel(workspace.rootPath, labelId, updates as UpdateLabelInput))
+    this.broadcastConfigChanged('label_config_changed', workspace)
+    return label
   }
   
-  updateWorkspaceSetting(workspaceId: string, key: string, value: unknown): void {
-    // TODO: Implement
+  /**
+   * Delete a label and its descendants, removing them from every session
+   */
+  async deleteLabel(workspaceId: string, labelId: string): Promise<{ stripped: number }> {
+    const workspace = this.requireWorkspace(workspaceId)
+    const labels = listLabels(workspace.rootPath)
+    if (!findLabelById(labels, labelId)) {
+      throw new RpcError('not_found', `Label not found: ${labelId}`)
+    }
+    const removedIds = new Set([labelId, ...getDescendantIds(labels, labelId)])
+    const affected = listStoredSessions(workspace.rootPath)
+      .filter(session => session.labels?.some(entry => removedIds.has(extractLabelId(entry))))
+    
+    // Strip the labels before deleting them, so deleteLabel finds no session to rewrite
+    for (const session of affected) {
+      const remaining = (this.getManaged(session.id)?.stored.labels ?? session.labels ?? [])
+        .filter(entry => !removedIds.has(extractLabelId(entry)))
+      await this.updateMetadata(workspace.rootPath, session.id, { labels: remaining })
+      this.broadcast({ type: 'labels_changed', sessionId: session.id, labels: remaining })
+    }
+    runConfigOperation(() => deleteLabel(workspace.rootPath, labelId))
+    this.broadcastConfigChanged('label_config_changed', workspace)
+    return { stripped: affected.length }
   }
   
-  getSessionModel(sessionId: string, workspaceId: string): string | null {
-    // TODO: Implement session-specific model
-    return null
+  moveLabel(workspaceId: string, labelId: string, newParentId: string | null): void {
+    const workspace = this.requireWorkspace(workspaceId)
+    runConfigOperation(() => moveLabel(workspace.rootPath, labelId, newParentId))
+    this.broadcastConfigChanged('label_config_changed', workspace)
+  }
+  
+  reorderLabels(workspaceId: string, parentId: string | null, orderedIds: string[]): void {
+    const workspace = this.requireWorkspace(workspaceId)
+    runConfigOperation(() => reorderLabels(workspace.rootPath, parentId, orderedIds))
+    this.broadcastConfigChanged('label_config_changed', workspace)
+  }
+  
+  createStatus(workspaceId: string, input: CreateStatusInput): StatusConfig {
+    const workspace = this.requireWorkspace(workspaceId)
+    const status = runConfigOperation(() => createStatus(workspace.rootPath, input))
+    this.broadcastConfigChanged('status_config_changed', workspace)
+    return status
+  }
+  
+  updateStatus(workspaceId: string, statusId: string, updates: UpdateStatusInput): StatusConfig {
+    const workspace = this.requireWorkspace(workspaceId)
+    const status = runConfigOperation(() => updateStatus(workspace.rootPath, statusId, updates))
+    this.broadcastConfigChanged('status_config_changed', workspace)
+    return status
+  }
+  
+  /**
+   * Delete a status. Sessions in it move to 'todo'.
+   */
+  async deleteStatus(workspaceId: string, statusId: string): Promise<{ migrated: number }> {
+    const workspace = this.requireWorkspace(workspaceId)
+    const affected = listStoredSessions(workspace.rootPath).filter(session => session.todoState === statusId)
+    // Once the status is gone, listed sessions already read as 'todo' - deleteStatus rewrites none
+    runConfigOperation(() => deleteStatus(workspace.rootPath, statusId))
+    await this.moveSessionsToTodo(workspace, affected.map(session => session.id))
+    this.broadcastConfigChanged('status_config_changed', workspace)
+    return { migrated: affected.length }
+  }
+  
+  reorderStatuses(workspaceId: string, orderedIds: string[]): void {
+    const workspace = this.requireWorkspace(workspaceId)
+    runConfigOperation(() => reorderStatuses(workspace.rootPath, orderedIds))
+    this.broadcastConfigChanged('status_config_changed', workspace)
+  }
+  
+  /**
+   * Restore the default statuses. Sessions in a removed status move to 'todo'.
+   */
+  async resetStatuses(workspaceId: string): Promise<void> {
+    const workspace = this.requireWorkspace(workspaceId)
+    const sessions = listStoredSessions(workspace.rootPath)
+    runConfigOperation(() => resetStatusesToDefaults(workspace.rootPath))
+    const validIds = new Set(listStatuses(workspace.rootPath).map(status => status.id))
+    await this.moveSessionsToTodo(workspace, sessions
+      .filter(session => session.todoState && !validIds.has(session.todoState))
+      .map(session => session.id))
+    this.broadcastConfigChanged('status_config_changed', workspace)
+  }
+  
+  saveViews(workspaceId: string, views: ViewConfig[]): void {
+    const workspace = this.requireWorkspace(workspaceId)
+    runConfigOperation(() => saveViews(workspace.rootPath, views))
+    this.broadcastConfigChanged('view_config_changed', workspace)
+  }
+  
+  /**
+   * Shared label/status CRUD would rewrite session files without waiting for the writes
+   * (racing sessions held in memory), so session changes are made here instead
+   */
+  private async moveSessionsToTodo(workspace: ConfigWorkspace, sessionIds: string[]): Promise<void> {
+    for (const sessionId of sessionIds) {
+      await this.updateMetadata(workspace.rootPath, sessionId, { todoState: 'todo' })
+      this.broadcast({ type: 'todo_state_changed', sessionId, todoState: 'todo' })
+    }
+  }
+  
+  /**
+   * Tell clients viewing the workspace to reload its labels, statuses or views
+   * (onLabelsChanged / onStatusesChanged / onViewsChanged)
+   */
+  private broadcastConfigChanged(
+    type: 'label_config_changed' | 'status_config_changed' | 'view_config_changed',
+    workspace: ConfigWorkspace
+  ): void {
+    this.broadcast({ type, workspaceId: workspace.id })
+  }
+  
+  // ============================================================
+  // Settings
+  // ============================================================
+  
+  getWorkspaceSettings(workspaceId: string): WorkspaceSettings {
+    return getWorkspaceSettings(this.requireWorkspace(workspaceId).rootPath)
   }
   
-  setSessionModel(sessionId: string, workspaceId: string, model: string | null): void {
-    // TODO: Implement
+  updateWorkspaceSetting(workspaceId: string, key: WorkspaceSettingKey, value: unknown): void {
+    updateWorkspaceSetting(this.requireWorkspace(workspaceId).rootPath, key, value)
   }
   
   async readPreferences(): Promise<{ content: string; exists: boolean; path: string }> {
@@ -870,22 +2337,162 @@ export class SessionManager {
     }
   }
   
+  // ============================================================
+  // Session model, thinking level and permission mode
+  // ============================================================
+  
+  /**
+   * Session config from memory when live, otherwise from disk
+   */
+  private requireSessionConfig(sessionId: string): { config: SessionConfig; workspace: ConfigWorkspace } {
+    const managed = this.getManaged(sessionId)
+    if (managed) return { config: managed.stored, workspace: managed.workspace }
+    const found = this.findStoredSession(sessionId)
+    if (!found) {
+      throw new RpcError('not_found', `Session not found: ${sessionId}`)
+    }
+    return { config: found.stored, workspace: found.workspace }
+  }
+  
+  /**
+   * The session's own model (null when it follows the workspace default)
+   */
+  getSessionModel(sessionId: string, workspaceId: string): string | null {
+    return this.requireSessionConfig(sessionId).config.model ?? null
+  }
+  
+  /**
+   * Set the session's model (null reverts to the workspace default). A live agent
+   * switches on its next query.
+   */
+  async setSessionModel(sessionId: string, workspaceId: string, model: string | null): Promise<void> {
+    const { workspace } = this.requireSessionConfig(sessionId)
+    await this.updateMetadata(workspace.rootPath, sessionId, { model: model ?? undefined })
+    this.getManaged(sessionId)?.agent?.setModel(model ?? getWorkspaceDefaults(workspace.rootPath).model ?? DEFAULT_MODEL)
+    this.broadcast({ type: 'session_model_changed', sessionId, model })
+  }
+  
+  getSessionThinkingLevel(sessionId: string): ThinkingLevel {
+    const { config, workspace } = this.requireSessionConfig(sessionId)
+    return config.thinkingLevel ?? getWorkspaceDefaults(workspace.rootPath).thinkingLevel ?? DEFAULT_THINKING_LEVEL
+  }
+  
+  async setSessionThinkingLevel(sessionId: string, thinkingLevel: ThinkingLevel): Promise<void> {
+    const { workspace } = this.requireSessionConfig(sessionId)
+    await this.updateMetadata(workspace.rootPath, sessionId, { thinkingLevel })
+    this.getManaged(sessionId)?.agent?.setThinkingLevel(thinkingLevel)
+    this.broadcast({ type: 'thinking_level_changed', sessionId, thinkingLevel })
+  }
+  
+  getSessionPermissionMode(sessionId: string): PermissionMode {
+    const managed = this.getManaged(sessionId)
+    if (managed?.agent) return getPermissionMode(sessionId)
+    const { config, workspace } = this.requireSessionConfig(sessionId)
+    return config.permissionMode
+      ?? getWorkspaceDefaults(workspace.rootPath).permissionMode
+      ?? loadConfigDefaults().workspaceDefaults.permissionMode
+  }
+  
+  /**
+   * Set the permission mode. A live agent applies it to the next tool call.
+   */
+  async setSessionPermissionMode(sessionId: string, permissionMode: PermissionMode): Promise<void> {
+    const managed = this.getManaged(sessionId)
+    if (managed?.agent) {
+      // The agent's onPermissionModeChange persists and broadcasts the change
+      setPermissionMode(sessionId, permissionMode)
+      return
+    }
+    const { workspace } = this.requireSessionConfig(sessionId)
+    await this.updateMetadata(workspace.rootPath, sessionId, { permissionMode })
+    this.broadcast({ type: 'permission_mode_changed', sessionId, permissionMode })
+  }
+  
+  /**
+   * Switch to the next mode the workspace allows cycling through (SHIFT+TAB)
+   */
+  async cycleSessionPermissionMode(sessionId: string): Promise<PermissionMode> {
+    const { workspace } = this.requireSessionConfig(sessionId)
+    const configured = getWorkspaceDefaults(workspace.rootPath).cyclablePermissionModes
+    const modes = configured && new Set(configured).size >= 2 ? configured : PERMISSION_MODE_ORDER
+    const current = this.getSessionPermissionMode(sessionId)
+    // A mode outside the list (set directly) moves to the first one
+    const next = modes[(modes.indexOf(current) + 1) % modes.length] ?? modes[0]
+    await this.setSessionPermissionMode(sessionId, next)
+    return next
+  }
+  
+  /**
+   * Persist and announce a permission mode change made through the agent's mode state
+   */
+  private async onAgentPermissionModeChange(managed: ManagedSession, permissionMode: PermissionMode): Promise<void> {
+    if (managed.stored.permissionMode === permissionMode) return
+    managed.stored.permissionMode = permissionMode
+    await this.flushSession(managed)
+    this.broadcast({ type: 'permission_mode_changed', sessionId: managed.id, permissionMode })
+  }
+  
   // ============================================================
   // Session Info Panel
   // ============================================================
   
-  async getSessionFiles(sessionId: string): Promise<unknown[]> {
-    // TODO: Implement
-    return []
+  async getSessionFiles(sessionId: string): Promise<SessionFile[]> {
+    return getSessionFiles(this.getSessionWorkspace(sessionId).rootPath, sessionId)
+  }
+  
+  /**
+   * Path of a file listed by getSessionFiles, or null if there is no such file
+   */
+  getSessionFilePath(sessionId: string, relativePath: string): string | null {
+    return resolveSessionFilePath(this.getSessionWorkspace(sessionId).rootPath, sessionId, relativePath)
   }
   
   async getSessionNotes(sessionId: string): Promise<string> {
-    // TODO: Implement
-    return ''
+    return readSessionNotes(this.getSessionWorkspace(sessionId).rootPath, sessionId)
   }
   
   async setSessionNotes(sessionId: string, content: string): Promise<void> {
-    // TODO: Implement
+    await writeSessionNotes(this.getSessionWorkspace(sessionId).rootPath, sessionId, content)
+  }
+  
+  /**
+   * Start pushing session_file_added / _changed / _removed events for a session.
+   * Each watch call (one per open info panel) needs a matching unwatch.
+   */
+  watchSessionFiles(sessionId: string): void {
+    const existing = this.fileWatchers.get(sessionId)
+    if (existing) {
+      existing.refs++
+      // Most recently watched last, so the oldest watcher is the one evicted
+      this.fileWatchers.delete(sessionId)
+      this.fileWatchers.set(sessionId, existing)
+      return
+    }
+    
+    const workspace = this.getSessionWorkspace(sessionId)
+    const user = getCurrentUser()
+    const stop = watchSessionFolder(workspace.rootPath, sessionId, (change, path, file) => {
+      runAsUser(user, () => this.broadcast({ type: `session_file_${change}`, sessionId, path, file }))
+    })
+    this.fileWatchers.set(sessionId, { stop, refs: 1 })
+    
+    // Panels closed without unwatching (tab closed, connection lost) would keep watchers forever
+    if (this.fileWatchers.size > MAX_WATCHED_SESSIONS) {
+      const [oldestId] = this.fileWatchers.keys()
+      this.stopWatchingSessionFiles(oldestId!)
+    }
+  }
+  
+  unwatchSessionFiles(sessionId: string): void {
+    const watcher = this.fileWatchers.get(sessionId)
+    if (watcher && --watcher.refs <= 0) {
+      this.stopWatchingSessionFiles(sessionId)
+    }
+  }
+  
+  private stopWatchingSessionFiles(sessionId: string): void {
+    this.fileWatchers.get(sessionId)?.stop()
+    this.fileWatchers.delete(sessionId)
   }
   
   // ============================================================
@@ -975,6 +2582,8 @@ export class SessionManager {
   // ============================================================
   
   getGitBranch(dirPath: string): string | null {
+    // Don't run git in directories the client isn't allowed to browse
+    if (!isPathAllowed(dirPath)) return null
     try {
       const branch = execSync('git rev-parse --abbrev-ref HEAD', {
         cwd: dirPath,
@@ -987,6 +2596,17 @@ export class SessionManager {
     }
   }
   
+  // ============================================================
+  // Directory Browser
+  // ============================================================
+  
+  /**
+   * List subdirectories for the web folder picker (restricted to the browse roots)
+   */
+  listDirectory(dirPath?: string, options?: { showHidden?: boolean }): DirectoryListing {
+    return listDirectory(dirPath, (path) => this.getGitBranch(path), options)
+  }
+  
   // ============================================================
   // Logo URL
   // ============================================================
@@ -0,0 +1,198 @@
+/**
+ * Skill editing for the webapp
+ *
+ * The desktop app opens skills in the user's editor; the browser edits them in place
+ * instead. SKILL.md is validated with the same checks the agent's PreToolUse hook runs,
+ * and invalid content is not written so the skill never disappears from the list.
+ * Running agents see the change through their ConfigWatcher (onSkillChange).
+ */
+
+import { existsSync, lstatSync, mkdirSync, readdirSync, realpathSync, statSync } from 'fs'
+import { readFile, writeFile } from 'fs/promises'
+import { dirname, join, relative, resolve, sep } from 'path'
+import { validateSkillContent, type ValidationIssue } from '@craft-agent/shared/config'
+import { deleteSkill as deleteStoredSkill, loadSkill, skillExists, type LoadedSkill } from '@craft-agent/shared/skills'
+import { getWorkspaceSkillsPath } from '@craft-agent/shared/workspaces'
+import { RpcError } from './rpc-registry'
+
+const SKILL_FILE = 'SKILL.md'
+
+// Supporting files are text (scripts, templates, references) - anything larger isn't edited here
+const MAX_EDIT_SIZE = 1024 * 1024
+
+/**
+ * A file or folder in a skill directory (same shape as the desktop app's skill file tree)
+ */
+export interface SkillFile {
+  name: string
+  type: 'file' | 'directory'
+  size?: number
+  children?: SkillFile[]
+}
+
+/**
+ * Validation outcome of a save - issues are shown next to the editor
+ */
+export interface SkillSaveResult {
+  saved: boolean
+  errors: ValidationIssue[]
+  warnings: ValidationIssue[]
+}
+
+function getSkillDir(workspaceRootPath: string, slug: string): string {
+  return join(getWorkspaceSkillsPath(workspaceRootPath), slug)
+}
+
+/**
+ * Resolve a path inside a skill folder, rejecting anything that escapes it
+ */
+function resolveSkillPath(skillDir: string, filePath: string): string {
+  const resolved = resolve(skillDir, filePath)
+  if (!resolved.startsWith(skillDir + sep)) {
+    throw new RpcError('invalid_args', `Path is outside the skill folder: ${filePath}`)
+  }
+  // A symlink inside the folder mustn't lead out of it either - also for files that don't
+  // exist yet, which are created wherever their closest existing ancestor really is
+  let existing = resolved
+  while (!lstatSync(existing, { throwIfNoEntry: false })) {
+    existing = dirname(existing)
+  }
+  const realSkillDir = realpathSync(skillDir)
+  let realExisting: string
+  try {
+    realExisting = realpathSync(existing)
+  } catch {
+    // Dangling symlink
+    throw new RpcError('invalid_args', `Path is outside the skill folder: ${filePath}`)
+  }
+  if (realExisting !== realSkillDir && !realExisting.startsWith(realSkillDir + sep)) {
+    throw new RpcError('invalid_args', `Path is outside the skill folder: ${filePath}`)
+  }
+  return resolved
+}
+
+function requireSkillDir(workspaceRootPath: string, slug: string): string {
+  const skillDir = getSkillDir(workspaceRootPath, slug)
+  if (!existsSync(skillDir)) {
+    throw new RpcError('not_found', `Skill not found: ${slug}`)
+  }
+  return skillDir
+}
+
+// ============================================================
+// Files
+// ============================================================
+
+function scanDirectory(dirPath: string): SkillFile[] {
+  const files: SkillFile[] = []
+  for (const entry of readdirSync(dirPath, { withFileTypes: true })) {
+    if (entry.name.startsWith('.')) continue
+    const entryPath = join(dirPath, entry.name)
+    if (entry.isDirectory()) {
+      files.push({ name: entry.name, type: 'directory', children: scanDirectory(entryPath) })
+    } else if (entry.isFile()) {
+      files.push({ name: entry.name, type: 'file', size: statSync(entryPath).size })
+    }
+  }
+  // Folders first, then by name
+  return files.sort((a, b) => a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'directory' ? -1 : 1)
+}
+
+/**
+ * Files in a skill folder as a tree
+ */
+export function getSkillFiles(workspaceRootPath: string, slug: string): SkillFile[] {
+  return scanDirectory(requireSkillDir(workspaceRootPath, slug))
+}
+
+/**
+ * Read a text file from a skill folder (path relative to the folder)
+ */
+export async function readSkillFile(workspaceRootPath: string, slug: string, filePath: string): Promise<string> {
+  const absolutePath = resolveSkillPath(requireSkillDir(workspaceRootPath, slug), filePath)
+  if (!existsSync(absolutePath) || !statSync(absolutePath).isFile()) {
+    throw new RpcError('not_found', `File not found: ${filePath}`)
+  }
+  if (statSync(absolutePath).size > MAX_EDIT_SIZE) {
+    throw new RpcError('invalid_args', `File is too large to edit: ${filePath}`)
+  }
+  return readFile(absolutePath, 'utf-8')
+}
+
+/**
+ * Write a file in a skill folder. SKILL.md is validated first and left untouched if invalid.
+ */
+export async function writeSkillFile(
+  workspaceRootPath: string,
+  slug: string,
+  filePath: string,
+  content: string
+): Promise<SkillSaveResult> {
+  const skillDir = requireSkillDir(workspaceRootPath, slug)
+  const absolutePath = resolveSkillPath(skillDir, filePath)
+  if (Buffer.byteLength(content) > MAX_EDIT_SIZE) {
+    throw new RpcError('invalid_args', `File is too large: ${filePath}`)
+  }
+
+  if (relative(skillDir, absolutePath) === SKILL_FILE) {
+    const validation = validateSkillContent(content, slug)
+    if (!validation.valid) {
+      return { saved: false, errors: validation.errors, warnings: validation.warnings }
+    }
+  }
+
+  mkdirSync(dirname(absolutePath), { recursive: true })
+  await writeFile(absolutePath, content, 'utf-8')
+  return { saved: true, errors: [], warnings: [] }
+}
+
+// ============================================================
+// Create / delete
+// ============================================================
+
+function defaultSkillContent(slug: string): string {
+  const name = slug.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ')
+  return `---
+name: ${name}
+description: Describe what this skill does and when to use it
+---
+
+# ${name}
+
+(Add instructions for this skill here)
+`
+}
+
+/**
+ * Create a skill folder with a SKILL.md (a skeleton when no content is given)
+ */
+export async function createSkill(
+  workspaceRootPath: string,
+  slug: string,
+  content?: string
+): Promise<SkillSaveResult & { skill?: LoadedSkill }> {
+  if (skillExists(workspaceRootPath, slug)) {
+    throw new RpcError('conflict', `Skill already exists: ${slug}`)
+  }
+
+  const skillContent = content ?? defaultSkillContent(slug)
+  const validation = validateSkillContent(skillContent, slug)
+  if (!validation.valid) {
+    return { saved: false, errors: validation.errors, warnings: validation.warnings }
+  }
+
+  // A folder without SKILL.md isn't a skill yet - fill it in
+  const skillDir = getSkillDir(workspaceRootPath, slug)
+  mkdirSync(skillDir, { recursive: true })
+  await writeFile(join(skillDir, SKILL_FILE), skillContent, 'utf-8')
+  return { saved: true, errors: [], warnings: [], skill: loadSkill(workspaceRootPath, slug) ?? undefined }
+}
+
+export function deleteSkill(workspaceRootPath: string, slug: string): void {
+  if (!existsSync(getSkillDir(workspaceRootPath, slug))) {
+    throw new RpcError('not_found', `Skill not found: ${slug}`)
+  }
+  if (!deleteStoredSkill(workspaceRootPath, slug)) {
+    throw new RpcError('internal', `Failed to delete skill: ${slug}`)
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Source management for the webapp
+ *
+ * Creating, testing and deleting sources, storing their credentials and listing MCP tools
+ * go through the same shared helpers the desktop app and the agent's source tools use,
+ * so a source set up in the browser behaves exactly like one created by the agent.
+ */
+
+import { existsSync, readFileSync } from 'fs'
+import { join } from 'path'
+import { validateSourceConfigContent, type ValidationIssue } from '@craft-agent/shared/config'
+import {
+  createSource as createStoredSource,
+  deleteSource as deleteStoredSource,
+  generateSourceSlug,
+  getSourceCredentialManager,
+  markSourceAuthenticated,
+  type CreateSourceInput,
+  type FolderSourceConfig,
+  type LoadedSource,
+} from '@craft-agent/shared/sources'
+import {
+  createSourceTestTool,
+  getAppPermissionsDir,
+  getSourcePermissionsPath,
+  getWorkspacePermissionsPath,
+  permissionsConfigCache,
+} from '@craft-agent/shared/agent'
+import { CraftMcpClient, type McpClientConfig } from '@craft-agent/shared/mcp'
+import { RpcError } from './rpc-registry'
+
+/**
+ * A token, or username and password for basic auth
+ */
+export type SourceCredential = string | { username: string; password: string }
+
+/**
+ * The browser's answer to an agent's credential prompt (same shape as the desktop app's).
+ * `value` carries bearer/header/query credentials, basic auth uses `username` and `password`.
+ */
+export interface CredentialResponse {
+  type: 'credential'
+  value?: string
+  username?: string
+  password?: string
+  cancelled: boolean
+}
+
+export interface McpToolInfo {
+  name: string
+  description?: string
+  /** Allowed in Explore mode by the merged permissions */
+  allowed: boolean
+}
+
+// ============================================================
+// Create / delete
+// ============================================================
+
+function toIssueDetails(issues: ValidationIssue[]): { path: string[]; message: string; suggestion?: string }[] {
+  return issues.map(issue => ({
+    path: issue.path && issue.path !== 'root' ? issue.path.split('.') : [],
+    message: issue.message,
+    ...(issue.suggestion ? { suggestion: issue.suggestion } : {}),
+  }))
+}
+
+/**
+ * Validate and create a source. The config is checked against the source schema before
+ * anything is written, so a bad config fails with per-field invalid_args details.
+ */
+export async function createSource(workspaceRootPath: string, config: Partial<FolderSourceConfig>): Promise<FolderSourceConfig> {
+  const input: CreateSourceInput = {
+    name: config.name?.trim() || 'New Source',
+    provider: config.provider || 'custom',
+    type: config.type || 'mcp',
+    enabled: config.enabled ?? true,
+    mcp: config.mcp,
+    api: config.api,
+    local: config.local,
+    icon: config.icon,
+  }
+
+  // id, slug and timestamps are assigned by createSource - validate with the values it will use
+  const slug = generateSourceSlug(workspaceRootPath, input.name)
+  const now = Date.now()
+  const draft = { id: `${slug}_draft`, slug, createdAt: now, updatedAt: now, ...input }
+  const validation = validateSourceConfigContent(JSON.stringify(draft))
+  if (!validation.valid) {
+    throw new RpcError(
+      'invalid_args',
+      `Invalid source config: ${validation.errors.map(e => `${e.path}: ${e.message}`).join(', ')}`,
+      toIssueDetails(validation.errors)
+    )
+  }
+
+  return createStoredSource(workspaceRootPath, input)
+}
+
+/**
+ * Delete a source folder and its stored credentials
+ */
+export async function deleteSource(source: LoadedSource): Promise<void> {
+  await getSourceCredentialManager().delete(source)
+  deleteStoredSource(source.workspaceRootPath, source.config.slug)
+  permissionsConfigCache.invalidateSource(source.workspaceRootPath, source.config.slug)
+}
+
+// ============================================================
+// Credentials and testing
+// ============================================================
+
+/**
+ * Store a credential entered in the browser and mark the source authenticated
+ */
+export async function saveSourceCredentials(source: LoadedSource, credential: SourceCredential): Promise<void> {
+  const value = typeof credential === 'string' ? credential : JSON.stringify(credential)
+  if (typeof credential !== 'string' && source.config.api?.authType !== 'basic') {
+    throw new RpcError('invalid_args', `Source ${source.config.slug} doesn't use basic auth`)
+  }
+  await getSourceCredentialManager().save(source, { value })
+  markSourceAuthenticated(source.workspaceRootPath, source.config.slug)
+}
+
+/**
+ * Run the agent's source_test checks (schema, icon, connection, completeness).
+ * Updates the source's connection status; `report` is the tool's markdown output.
+ */
+export async function testSource(workspaceRootPath: string, sourceSlug: string): Promise<{ success: boolean; report: string }> {
+  const testTool = createSourceTestTool('', workspaceRootPath)
+  const result = await testTool.handler({ sourceSlug }, undefined)
+  const report = result.content
+    .map(block => block.type === 'text' ? block.text : '')
+    .filter(Boolean)
+    .join('\n')
+  return { success: !result.isError, report }
+}
+
+// ============================================================
+// Permissions
+// ============================================================
+
+function readJsonFile(path: string): unknown {
+  if (!existsSync(path)) return null
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'))
+  } catch (error) {
+    throw new RpcError('internal', `Invalid JSON in ${path}: ${error instanceof Error ? error.message : error}`)
+  }
+}
+
+/**
+ * Contents of a source's permissions.json (null when it has none)
+ */
+export function getSourcePermissionsConfig(workspaceRootPath: string, sourceSlug: string): unknown {
+  return readJsonFile(getSourcePermissionsPath(workspaceRootPath, sourceSlug))
+}
+
+/**
+ * Contents of the workspace permissions.json (null when it has none)
+ */
+export function getWorkspacePermissionsConfig(workspaceRootPath: string): unknown {
+  return readJsonFile(getWorkspacePermissionsPath(workspaceRootPath))
+}
+
+/**
+ * App-level default permissions and the file they are read from
+ */
+export function getDefaultPermissionsConfig(): { config: unknown; path: string } {
+  const path = join(getAppPermissionsDir(), 'default.json')
+  return { config: readJsonFile(path), path }
+}
+
+// ============================================================
+// MCP tools
+// ============================================================
+
+/**
+ * List an MCP source's tools, marking which ones Explore mode allows.
+ * Only connected sources are queried - run the source test first.
+ */
+export async function getMcpTools(source: LoadedSource): Promise<{ success: boolean; error?: string; tools?: McpToolInfo[] }> {
+  const { config, workspaceRootPath } = source
+  if (config.type !== 'mcp' || !config.mcp) {
+    return { success: false, error: 'Source is not an MCP server' }
+  }
+
+  switch (config.connectionStatus) {
+    case 'needs_auth':
+      return { success: false, error: 'Source requires authentication' }
+    case 'failed':
+      return { success: false, error: config.connectionError || 'Connection failed' }
+    case 'local_disabled':
+      return { success: false, error: 'Local MCP servers are disabled in this workspace' }
+    case 'untested':
+    case undefined:
+      return { success: false, error: 'Source has not been tested yet' }
+  }
+
+  let clientConfig: McpClientConfig
+  if (config.mcp.transport === 'stdio') {
+    if (!config.mcp.command) {
+      return { success: false, error: 'Source has no command' }
+    }
+    clientConfig = { transport: 'stdio', command: config.mcp.command, args: config.mcp.args, env: config.mcp.env }
+  } else {
+    if (!config.mcp.url) {
+      return { success: false, error: 'Source has no URL' }
+    }
+    const token = config.mcp.authType === 'none' ? null : await getSourceCredentialManager().getToken(source)
+    clientConfig = {
+      transport: 'http',
+      url: config.mcp.url,
+      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    }
+  }
+
+  const client = new CraftMcpClient(clientConfig)
+  try {
+    const tools = await client.listTools()
+    // No ConfigWatcher invalidates the cache here - pick up edited permissions.json files
+    permissionsConfigCache.invalidateWorkspace(workspaceRootPath)
+    permissionsConfigCache.invalidateSource(workspaceRootPath, config.slug)
+    const permissions = permissionsConfigCache.getMergedConfig({
+      workspaceRootPath,
+      activeSourceSlugs: [config.slug],
+    })
+    return {
+      success: true,
+      tools: tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        allowed: permissions.readOnlyMcpPatterns.some(pattern => pattern.test(`mcp__${config.slug}__${tool.name}`)),
+      })),
+    }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to list tools' }
+  } finally {
+    await client.close().catch(() => {})
+  }
+}
@@ -1,29 +1,298 @@
 /**
  * SSE (Server-Sent Events) handler for streaming SessionEvents
+ *
+ * Each connection has its own subscriptions: streaming events for a session only go
+ * to clients subscribed to that session, while workspace-level list updates (rename,
+ * flag, unread, processing state) also go to clients subscribed to the session's workspace.
+ * Events that name a workspace instead of a session (sources, skills, labels, statuses,
+ * views, permissions) only go to that workspace's subscribers.
+ *
+ * Session events carry IDs ("<bootId>:<sessionId>:<seq>", seq increasing per session) and
+ * the most recent ones are kept in a per-session ring buffer (bounded by count and size, and
+ * dropped when the session is unloaded, or when too many sessions have one). A reconnecting client sends its last seen IDs
+ * (Last-Event-ID header or ?lastEventIds=) and missed events are replayed.
+ * If the gap is larger than the buffer, a `resync_required` event tells the client to
+ * re-fetch the session via getSessionMessages.
+ *
+ * WebSocket clients (see ws.ts) register here too and share the same subscriptions,
+ * event IDs and replay - only how an event is written to the client differs.
+ *
+ * In multi-user mode every event also has a scope: the user whose request produced it, or
+ * the shared workspace its session belongs to. Clients only receive (and replay) events
+ * of their own user and of the shared workspaces that user is a member of.
  */
 
+import { z } from 'zod'
 import type { SessionEvent } from '../../../electron/src/shared/types'
+import { isMultiUserMode, getCurrentUser, isSharedWorkspace, canAccessSharedWorkspace, getSharedWorkspacesForUser } from './users'
 
-// Connected SSE clients
-const clients = new Set<ReadableStreamController<Uint8Array>>()
+/**
+ * Connected event client (SSE stream or WebSocket) and its subscriptions
+ */
+export interface EventClient {
+  id: string
+  /** Write one event (`data` is the JSON-encoded event) - throws if the client is gone */
+  send(data: string, eventId?: string): void
+  sessionIds: Set<string>
+  workspaceIds: Set<string>
+  /** Logged-in user (multi-user mode) */
+  userId?: string
+}
+
+// Connected clients, keyed by client ID
+const clients = new Map<string, EventClient>()
+
+/**
+ * Event types that update the session list - delivered to everyone viewing the workspace,
+ * not only to clients subscribed to the session itself
+ */
+const WORKSPACE_EVENT_TYPES = new Set<string>([
+  'user_message',
+  'complete',
+  'interrupted',
+  'title_generated',
+  'session_created',
+  'session_deleted',
+  'session_flagged',
+  'session_unflagged',
+  'session_read_changed',
+  'todo_state_changed',
+  'labels_changed',
+  'session_model_changed',
+  'permission_mode_changed',
+])
+
+// Number of recent events kept per session for replay, and the most they may add up to
+const EVENT_BUFFER_SIZE = 1000
+const EVENT_BUFFER_MAX_BYTES = 4 * 1024 * 1024
+
+// Buffers kept across all sessions - list actions (flag, rename, labels) on sessions that are
+// never loaded create buffers nothing else drops. The least recently active ones go first.
+const MAX_EVENT_LOGS = 500
+const EVENT_LOGS_MAX_BYTES = 64 * 1024 * 1024
+
+// Identifies this server process - sequence numbers restart with it, so IDs from a
+// previous process can never be replayed and always trigger a resync
+const BOOT_ID = Date.now().toString(36)
+
+// Ring buffer of recent events for one session
+interface SessionEventLog {
+  lastSeq: number
+  events: Array<{ seq: number; type: string; data: string }>
+  /** Total length of the buffered event data */
+  size: number
+}
+
+// Keyed by session ID, prefixed with the event scope in multi-user mode (see logKey).
+// Ordered from least to most recently active.
+const eventLogs = new Map<string, SessionEventLog>()
+// Total size of all buffers
+let eventLogsSize = 0
+
+// Resolves a session's workspace (set by the RPC layer, which owns the SessionManager)
+let resolveWorkspaceId: (sessionId: string) => string | undefined = () => undefined
+
+/**
+ * Register how to look up the workspace a session belongs to
+ */
+export function setWorkspaceResolver(resolver: (sessionId: string) => string | undefined): void {
+  resolveWorkspaceId = resolver
+}
+
+/**
+ * Subscription changes requested by a client
+ */
+export const subscriptionUpdate = z.object({
+  sessionIds: z.array(z.string()).optional(),
+  workspaceIds: z.array(z.string()).optional(),
+}).optional()
+
+export type SubscriptionUpdate = NonNullable<z.infer<typeof subscriptionUpdate>>
+
+const subscriptionRequest = z.object({
+  clientId: z.string(),
+  subscribe: subscriptionUpdate,
+  unsubscribe: subscriptionUpdate,
+})
+
+function parseIdList(value: string | null): string[] {
+  return value ? value.split(',').map(id => id.trim()).filter(Boolean) : []
+}
+
+function formatEventId(sessionId: string, seq: number): string {
+  return `${BOOT_ID}:${sessionId}:${seq}`
+}
+
+/**
+ * Parse an event ID into the session it belongs to and its sequence number.
+ * Returns seq = -1 for IDs issued by a previous server process.
+ */
+function parseEventId(eventId: string): { sessionId: string; seq: number } | null {
+  const parts = eventId.split(':')
+  if (parts.length !== 3 || !parts[1]) return null
+  const seq = Number(parts[2])
+  if (!Number.isInteger(seq)) return null
+  return { sessionId: parts[1], seq: parts[0] === BOOT_ID ? seq : -1 }
+}
+
+// ============================================================
+// Multi-user scopes
+// ============================================================
+
+/**
+ * Scope of an event being broadcast: its shared workspace, or the user whose request
+ * produced it. Undefined in single-user mode, where every client may see every event.
+ */
+function getEventScope(getWorkspaceId: () => string | undefined): string | undefined {
+  if (!isMultiUserMode()) return undefined
+  const workspaceId = getWorkspaceId()
+  if (workspaceId && isSharedWorkspace(workspaceId)) return `workspace:${workspaceId}`
+  return `user:${getCurrentUser()?.id}`
+}
+
+function canReceiveScope(client: EventClient, scope: string | undefined): boolean {
+  if (!scope) return true
+  if (scope.startsWith('workspace:')) return canAccessSharedWorkspace(client.userId, scope.slice('workspace:'.length))
+  return scope === `user:${client.userId}`
+}
+
+/**
+ * Scopes whose events a client may replay
+ */
+function getClientScopes(client: EventClient): Array<string | undefined> {
+  if (!isMultiUserMode()) return [undefined]
+  return [
+    `user:${client.userId}`,
+    ...getSharedWorkspacesForUser(client.userId).map(w => `workspace:${w.id}`),
+  ]
+}
+
+function logKey(scope: string | undefined, sessionId: string): string {
+  return scope ? `${scope}|${sessionId}` : sessionId
+}
+
+function encodeSseEvent(data: string, eventId?: string): Uint8Array {
+  const idLine = eventId ? `id: ${eventId}\n` : ''
+  return new TextEncoder().encode(`${idLine}data: ${data}\n\n`)
+}
+
+/**
+ * Build the events a reconnecting client missed for one session since `seq`
+ */
+function getReplayEvents(client: EventClient, sessionId: string, seq: number): Array<{ data: string; eventId?: string }> {
+  const log = getClientScopes(client)
+    .map(scope => eventLogs.get(logKey(scope, sessionId)))
+    .find(Boolean)
+  if (log && seq === log.lastSeq) return []
+
+  const oldestSeq = log?.events[0]?.seq ?? Infinity
+  const gapTooLarge = seq < 0 || !log || seq > log.lastSeq || oldestSeq > seq + 1
+  if (gapTooLarge) {
+    return [{ data: JSON.stringify({ type: 'resync_required', sessionId }) }]
+  }
+
+  return log.events
+    .filter(e => e.seq > seq)
+    .map(e => ({ data: e.data, eventId: formatEventId(sessionId, e.seq) }))
+}
+
+/**
+ * Connection parameters shared by SSE and WebSocket clients:
+ * ?sessions=a,b&workspaces=w for the initial subscriptions, and the last seen event per
+ * session - the browser's Last-Event-ID header plus client-tracked cursors (?lastEventIds=id1,id2)
+ */
+export function parseConnectParams(req: Request): { sessionIds: string[]; workspaceIds: string[]; lastEventIds: string[] } {
+  const url = new URL(req.url)
+  const lastEventIds = parseIdList(url.searchParams.get('lastEventIds'))
+  const lastEventIdHeader = req.headers.get('Last-Event-ID')
+  if (lastEventIdHeader) lastEventIds.push(lastEventIdHeader)
+  return {
+    sessionIds: parseIdList(url.searchParams.get('sessions')),
+    workspaceIds: parseIdList(url.searchParams.get('workspaces')),
+    lastEventIds,
+  }
+}
+
+/**
+ * Register a client: send the `connected` event, replay what it missed, then start
+ * delivering live events
+ */
+export function connectClient(client: EventClient, lastEventIds: string[]): void {
+  // Send initial connection event - the client uses clientId to manage subscriptions
+  client.send(JSON.stringify({ type: 'connected', clientId: client.id, timestamp: Date.now() }))
+
+  // Replay missed events before registering the client, so nothing interleaves
+  const cursors = new Map<string, number>()
+  for (const eventId of lastEventIds) {
+    const parsed = parseEventId(eventId)
+    if (!parsed) continue
+    const current = cursors.get(parsed.sessionId)
+    if (current === undefined || parsed.seq > current) {
+      cursors.set(parsed.sessionId, parsed.seq)
+    }
+  }
+  for (const [sessionId, seq] of cursors) {
+    // Only sessions this client is (still) subscribed to are replayed
+    if (!client.sessionIds.has(sessionId)) continue
+    for (const { data, eventId } of getReplayEvents(client, sessionId, seq)) {
+      client.send(data, eventId)
+    }
+  }
+
+  clients.set(client.id, client)
+}
+
+/**
+ * Stop delivering events to a client
+ */
+export function disconnectClient(clientId: string): void {
+  clients.delete(clientId)
+}
+
+/**
+ * Apply subscription changes for a client. Returns the resulting subscriptions,
+ * or null if the client is not connected (or belongs to another user).
+ */
+export function updateClientSubscriptions(
+  clientId: string,
+  subscribe?: SubscriptionUpdate,
+  unsubscribe?: SubscriptionUpdate,
+  userId?: string
+): { sessionIds: string[]; workspaceIds: string[] } | null {
+  const client = clients.get(clientId)
+  if (!client || client.userId !== userId) return null
+
+  for (const id of subscribe?.sessionIds ?? []) client.sessionIds.add(id)
+  for (const id of subscribe?.workspaceIds ?? []) client.workspaceIds.add(id)
+  for (const id of unsubscribe?.sessionIds ?? []) client.sessionIds.delete(id)
+  for (const id of unsubscribe?.workspaceIds ?? []) client.workspaceIds.delete(id)
+
+  return {
+    sessionIds: [...client.sessionIds],
+    workspaceIds: [...client.workspaceIds],
+  }
+}
 
 /**
  * Handle SSE connection
  */
-export function sseHandler(req: Request): Response {
-  const encoder = new TextEncoder()
-  
+export function sseHandler(req: Request, corsHeaders: Record<string, string>, userId?: string): Response {
+  const clientId = crypto.randomUUID()
+  const { sessionIds, workspaceIds, lastEventIds } = parseConnectParams(req)
+
   const stream = new ReadableStream<Uint8Array>({
     start(controller) {
-      clients.add(controller)
-      
-      // Send initial connection event
-      const data = JSON.stringify({ type: 'connected', timestamp: Date.now() })
-      controller.enqueue(encoder.encode(`data: ${data}\n\n`))
-      
+      connectClient({
+        id: clientId,
+        send: (data, eventId) => controller.enqueue(encodeSseEvent(data, eventId)),
+        sessionIds: new Set(sessionIds),
+        workspaceIds: new Set(workspaceIds),
+        userId,
+      }, lastEventIds)
+
       // Handle client disconnect via abort signal
       req.signal.addEventListener('abort', () => {
-        clients.delete(controller)
+        disconnectClient(clientId)
         try {
           controller.close()
         } catch {
@@ -33,6 +302,7 @@ export function sseHandler(req: Request): Response {
     },
     cancel() {
       // Client disconnected
+      disconnectClient(clientId)
     },
   })
 
@@ -41,27 +311,127 @@ export function sseHandler(req: Request): Response {
       'Content-Type': 'text/event-stream',
       'Cache-Control': 'no-cache',
       'Connection': 'keep-alive',
-      'Access-Control-Allow-Origin': '*',
+      ...corsHeaders,
     },
   })
 }
 
 /**
- * Broadcast a SessionEvent to all connected clients
+ * POST /api/events/subscriptions - body: { clientId, subscribe?, unsubscribe? }
+ */
+export async function subscriptionHandler(req: Request, corsHeaders: Record<string, string>, userId?: string): Promise<Response> {
+  const parsed = subscriptionRequest.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid subscription request' }, { status: 400, headers: corsHeaders })
+  }
+  const body = parsed.data
+
+  const result = updateClientSubscriptions(body.clientId, body.subscribe, body.unsubscribe, userId)
+  if (!result) {
+    return Response.json({ error: `Unknown SSE client: ${body.clientId}` }, { status: 404, headers: corsHeaders })
+  }
+
+  return Response.json({ result }, { headers: corsHeaders })
+}
+
+/**
+ * Whether a client should receive an event
+ */
+function isSubscribed(client: EventClient, event: SessionEvent, getWorkspaceId: () => string | undefined): boolean {
+  const sessionId = (event as { sessionId?: string }).sessionId
+  if (!sessionId) {
+    // Workspace events (sources_changed, labels_config_changed, ...) go to the workspace's
+    // subscribers; only events tied to neither are app-wide and go to everyone
+    const workspaceId = getWorkspaceId()
+    return !workspaceId || client.workspaceIds.has(workspaceId)
+  }
+  if (client.sessionIds.has(sessionId)) return true
+  if (!WORKSPACE_EVENT_TYPES.has(event.type)) return false
+  const workspaceId = getWorkspaceId()
+  return !!workspaceId && client.workspaceIds.has(workspaceId)
+}
+
+/**
+ * Record a session event in its ring buffer and assign it the next ID
+ */
+function recordEvent(key: string, sessionId: string, type: string, data: string): string {
+  const log = eventLogs.get(key) ?? { lastSeq: 0, events: [], size: 0 }
+  // Move to the end - the most recently active
+  eventLogs.delete(key)
+  eventLogs.set(key, log)
+
+  const seq = ++log.lastSeq
+  log.events.push({ seq, type, data })
+  log.size += data.length
+  eventLogsSize += data.length
+  // Keep at least the newest event, however large
+  while (log.events.length > 1 && (log.events.length > EVENT_BUFFER_SIZE || log.size > EVENT_BUFFER_MAX_BYTES)) {
+    const removed = log.events.shift()!.data.length
+    log.size -= removed
+    eventLogsSize -= removed
+  }
+
+  for (const oldest of eventLogs.keys()) {
+    if (oldest === key || (eventLogs.size <= MAX_EVENT_LOGS && eventLogsSize <= EVENT_LOGS_MAX_BYTES)) break
+    deleteEventLog(oldest)
+  }
+  return formatEventId(sessionId, seq)
+}
+
+function deleteEventLog(key: string): void {
+  const log = eventLogs.get(key)
+  if (!log) return
+  eventLogs.delete(key)
+  eventLogsSize -= log.size
+}
+
+/**
+ * Drop the replay buffers of a session (in every scope) - called when it is unloaded from
+ * memory. Clients that reconnect later get `resync_required` and re-fetch it.
+ */
+export function dropSessionEventLogs(sessionId: string): void {
+  for (const key of eventLogs.keys()) {
+    if (key === sessionId || key.endsWith(`|${sessionId}`)) deleteEventLog(key)
+  }
+}
+
+/**
+ * Send a SessionEvent to every client subscribed to it
  */
 export function broadcastEvent(event: SessionEvent): void {
-  const encoder = new TextEncoder()
+  const sessionId = (event as { sessionId?: string }).sessionId
   const data = JSON.stringify(event)
-  const message = encoder.encode(`data: ${data}\n\n`)
-  
-  for (const controller of clients) {
+
+  // Resolve the workspace lazily - in single-user mode streaming events never need it
+  let workspaceId: string | undefined
+  let resolved = false
+  const getWorkspaceId = () => {
+    if (!resolved) {
+      // Workspace-level events (e.g. sources_changed) name their workspace instead of a session
+      workspaceId = sessionId ? resolveWorkspaceId(sessionId) : (event as { workspaceId?: string }).workspaceId
+      resolved = true
+    }
+    return workspaceId
+  }
+
+  const scope = getEventScope(getWorkspaceId)
+  const eventId = sessionId ? recordEvent(logKey(scope, sessionId), sessionId, event.type, data) : undefined
+
+  for (const client of clients.values()) {
+    if (!canReceiveScope(client, scope)) continue
+    if (!isSubscribed(client, event, getWorkspaceId)) continue
     try {
-      controller.enqueue(message)
+      client.send(data, eventId)
     } catch {
-      // Client disconnected, remove from set
-      clients.delete(controller)
+      // Client disconnected, remove from map
+      clients.delete(client.id)
     }
   }
+
+  // A deleted session will never be replayed again
+  if (sessionId && event.type === 'session_deleted') {
+    deleteEventLog(logKey(scope, sessionId))
+  }
 }
 
 /**
@@ -0,0 +1,142 @@
+/**
+ * Frontend serving for production
+ *
+ * The server serves the Vite build (dist/renderer) itself, so one process runs the whole
+ * webapp. Paths that aren't files get index.html (the app routes on the client). Vite's
+ * hashed assets are cached for a year, everything else is revalidated with an ETag.
+ * Text responses are compressed with brotli or gzip, whichever the browser accepts; the
+ * compressed copies are kept in memory since the build never changes while running.
+ *
+ * Behind a reverse proxy on a sub-path (CRAFT_WEBAPP_BASE_PATH), index.html tells the app
+ * its base path through a <meta name="craft-base-path"> tag and a matching <base href>.
+ */
+
+import { existsSync, statSync } from 'fs'
+import { join, resolve, sep } from 'path'
+import { brotliCompressSync, gzipSync, constants as zlibConstants } from 'zlib'
+
+// Smaller responses aren't worth compressing
+const MIN_COMPRESS_BYTES = 1024
+
+// Vite emits built assets as assets/<name>-<hash>.<ext> - files copied from public/ keep their name
+const HASHED_ASSET = /^assets\/.*-[A-Za-z0-9_-]{8,}\.[a-z0-9]+$/
+
+const COMPRESSIBLE_TYPES = /^(text\/|application\/(javascript|json|xml|wasm|manifest\+json)|image\/svg\+xml)/
+
+type Encoding = 'br' | 'gzip'
+
+interface CachedFile {
+  mtimeMs: number
+  body: Uint8Array<ArrayBuffer>
+  type: string
+  etag: string
+  compressed: Map<Encoding, Uint8Array<ArrayBuffer>>
+}
+
+const cache = new Map<string, CachedFile>()
+
+/**
+ * Folder with the built frontend: CRAFT_WEBAPP_STATIC_DIR, next to the server bundle
+ * (dist/renderer beside dist/server.js) or the app's dist/renderer when running from source.
+ * Null when there is no build (development uses the Vite dev server).
+ */
+export function findStaticDir(): string | null {
+  const candidates = process.env.CRAFT_WEBAPP_STATIC_DIR
+    ? [resolve(process.env.CRAFT_WEBAPP_STATIC_DIR)]
+    : [join(import.meta.dir, 'renderer'), join(import.meta.dir, '..', '..', 'dist', 'renderer')]
+  return candidates.find(dir => existsSync(join(dir, 'index.html'))) ?? null
+}
+
+/**
+ * Normalize a base path to '' or '/path' (leading slash, no trailing slash)
+ */
+export function normalizeBasePath(basePath: string | undefined): string {
+  const trimmed = (basePath ?? '').trim().replace(/^\/+|\/+$/g, '')
+  return trimmed ? `/${trimmed}` : ''
+}
+
+function chooseEncoding(req: Request): Encoding | null {
+  const accepted = req.headers.get('Accept-Encoding') ?? ''
+  if (/\bbr\b/.test(accepted)) return 'br'
+  if (/\bgzip\b/.test(accepted)) return 'gzip'
+  return null
+}
+
+async function loadFile(filePath: string, mtimeMs: number, basePath: string): Promise<CachedFile> {
+  const cached = cache.get(filePath)
+  if (cached?.mtimeMs === mtimeMs) return cached
+
+  const file = Bun.file(filePath)
+  let body = new Uint8Array(await file.arrayBuffer())
+  if (filePath.endsWith('index.html')) {
+    // Also served for nested client routes - <base> keeps Vite's relative asset URLs working
+    const attribute = basePath.replace(/"/g, '&quot;')
+    const html = new TextDecoder().decode(body).replace('<head>',
+      `<head>\n  <base href="${attribute}/">\n  <meta name="craft-base-path" content="${attribute}">`)
+    body = new TextEncoder().encode(html)
+  }
+  const entry: CachedFile = {
+    mtimeMs,
+    body,
+    type: file.type,
+    etag: `"${Bun.hash(body).toString(36)}"`,
+    compressed: new Map(),
+  }
+  cache.set(filePath, entry)
+  return entry
+}
+
+function compress(entry: CachedFile, encoding: Encoding): Uint8Array<ArrayBuffer> {
+  let body = entry.compressed.get(encoding)
+  if (!body) {
+    body = encoding === 'br'
+      ? brotliCompressSync(entry.body, { params: { [zlibConstants.BROTLI_PARAM_QUALITY]: 9 } })
+      : gzipSync(entry.body, { level: 9 })
+    entry.compressed.set(encoding, body)
+  }
+  return body
+}
+
+/**
+ * Serve a GET/HEAD request for the frontend. `pathname` is relative to the base path.
+ * Returns null for missing files that shouldn't fall back to index.html (e.g. a stale asset).
+ */
+export async function staticFileResponse(req: Request, pathname: string, staticDir: string, basePath: string): Promise<Response | null> {
+  let relativePath: string
+  try {
+    relativePath = decodeURIComponent(pathname).replace(/^\/+/, '')
+  } catch {
+    return null
+  }
+  let filePath = resolve(staticDir, relativePath)
+  if (filePath !== staticDir && !filePath.startsWith(staticDir + sep)) return null
+
+  let stats = existsSync(filePath) ? statSync(filePath) : null
+  if (!stats?.isFile()) {
+    // Client-side routes have no extension - anything else really is missing
+    if (/\.[a-z0-9]+$/i.test(relativePath)) return null
+    relativePath = 'index.html'
+    filePath = join(staticDir, relativePath)
+    stats = statSync(filePath)
+  }
+
+  const entry = await loadFile(filePath, stats.mtimeMs, basePath)
+  const headers: Record<string, string> = {
+    'Content-Type': entry.type,
+    'Cache-Control': HASHED_ASSET.test(relativePath) ? 'public, max-age=31536000, immutable' : 'no-cache',
+    ETag: entry.etag,
+    Vary: 'Accept-Encoding',
+    'X-Content-Type-Options': 'nosniff',
+  }
+  if (req.headers.get('If-None-Match') === entry.etag) {
+    return new Response(null, { status: 304, headers })
+  }
+
+  let body = entry.body
+  const encoding = chooseEncoding(req)
+  if (encoding && body.length >= MIN_COMPRESS_BYTES && COMPRESSIBLE_TYPES.test(entry.type)) {
+    body = compress(entry, encoding)
+    headers['Content-Encoding'] = encoding
+  }
+  return new Response(req.method === 'HEAD' ? null : body, { headers })
+}
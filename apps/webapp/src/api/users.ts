@@ -0,0 +1,197 @@
+/**
+ * Multi-user mode
+ *
+ * With CRAFT_WEBAPP_MULTI_USER=1 every login belongs to a user (accounts live in auth.ts).
+ * Each user has their own config root - config.json, credentials.enc, drafts and the default
+ * workspaces directory - under ~/.craft-agent/webapp/users/<id>. Requests run inside
+ * runAsUser, which points the shared config and credential helpers at that root and
+ * selects the user's SessionManager (rpc.ts).
+ *
+ * Admins can share workspaces with a list of users. A shared workspace shows up in each
+ * member's workspace list, its sessions are held once for all members (session-manager.ts)
+ * and its events are delivered to every member (sse.ts).
+ */
+
+import { AsyncLocalStorage } from 'async_hooks'
+import { join, resolve } from 'path'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import {
+  CONFIG_DIR,
+  setConfigDirResolver,
+  generateWorkspaceId,
+  type Workspace as ConfigWorkspace,
+} from '@craft-agent/shared/config'
+import { createWorkspaceAtPath, isValidWorkspace } from '@craft-agent/shared/workspaces'
+import { RpcError } from './rpc-registry'
+
+const USERS_DIR = join(CONFIG_DIR, 'webapp', 'users')
+const SHARED_WORKSPACES_FILE = join(CONFIG_DIR, 'webapp', 'shared-workspaces.json')
+
+/**
+ * The user a request runs as
+ */
+export interface WebappUser {
+  id: string
+  admin: boolean
+  /** Config root for this user's config.json, credentials, drafts and workspaces */
+  configDir: string
+}
+
+/**
+ * A workspace that several users can access
+ */
+export interface SharedWorkspace extends ConfigWorkspace {
+  userIds: string[]
+}
+
+export function isMultiUserMode(): boolean {
+  const value = process.env.CRAFT_WEBAPP_MULTI_USER
+  return value === '1' || value === 'true'
+}
+
+/**
+ * Default config root for a user
+ */
+export function getUserConfigDir(userId: string): string {
+  return join(USERS_DIR, userId)
+}
+
+// ============================================================
+// Request scoping
+// ============================================================
+
+const currentUser = new AsyncLocalStorage<WebappUser>()
+
+// Everything that reads ~/.craft-agent (config, credentials, drafts, workspaces) follows the current user
+setConfigDirResolver(() => currentUser.getStore()?.configDir)
+
+/**
+ * Run `fn` as a user. Without a user (single-user mode) it runs against the default config root.
+ * The scope follows everything `fn` starts, including agent turns that outlive the request.
+ */
+export function runAsUser<T>(user: WebappUser | undefined, fn: () => T): T {
+  if (!user) return fn()
+  if (!existsSync(user.configDir)) {
+    mkdirSync(user.configDir, { recursive: true, mode: 0o700 })
+  }
+  return currentUser.run(user, fn)
+}
+
+/**
+ * The user the current request runs as (undefined in single-user mode)
+ */
+export function getCurrentUser(): WebappUser | undefined {
+  return currentUser.getStore()
+}
+
+/**
+ * Throw unless the current request may administer the server. In single-user mode
+ * there are no users to administer.
+ */
+export function assertAdmin(): WebappUser {
+  if (!isMultiUserMode()) {
+    throw new RpcError('not_implemented', 'Multi-user mode is off (set CRAFT_WEBAPP_MULTI_USER=1)')
+  }
+  const user = getCurrentUser()
+  if (!user?.admin) {
+    throw new RpcError('unauthorized', 'Only admins can manage users and shared workspaces')
+  }
+  return user
+}
+
+// ============================================================
+// Shared workspaces
+// ============================================================
+
+let sharedWorkspaces: SharedWorkspace[] | null = null
+
+function loadSharedWorkspaces(): SharedWorkspace[] {
+  if (sharedWorkspaces) return sharedWorkspaces
+  sharedWorkspaces = []
+  if (existsSync(SHARED_WORKSPACES_FILE)) {
+    try {
+      const data = JSON.parse(readFileSync(SHARED_WORKSPACES_FILE, 'utf-8')) as { workspaces?: SharedWorkspace[] }
+      sharedWorkspaces = data.workspaces ?? []
+    } catch (error) {
+      console.error('[Users] Failed to read shared workspaces:', error)
+    }
+  }
+  return sharedWorkspaces
+}
+
+function saveSharedWorkspaces(workspaces: SharedWorkspace[]): void {
+  const dir = join(CONFIG_DIR, 'webapp')
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true })
+  }
+  writeFileSync(SHARED_WORKSPACES_FILE, JSON.stringify({ workspaces }, null, 2), { mode: 0o600 })
+  sharedWorkspaces = workspaces
+}
+
+function getSharedWorkspace(workspaceId: string): SharedWorkspace {
+  const workspace = loadSharedWorkspaces().find(w => w.id === workspaceId)
+  if (!workspace) {
+    throw new RpcError('not_found', `Shared workspace not found: ${workspaceId}`)
+  }
+  return workspace
+}
+
+export function listSharedWorkspaces(): SharedWorkspace[] {
+  return isMultiUserMode() ? loadSharedWorkspaces() : []
+}
+
+export function isSharedWorkspace(workspaceId: string): boolean {
+  return listSharedWorkspaces().some(w => w.id === workspaceId)
+}
+
+export function canAccessSharedWorkspace(userId: string | undefined, workspaceId: string): boolean {
+  return !!userId && listSharedWorkspaces().some(w => w.id === workspaceId && w.userIds.includes(userId))
+}
+
+/**
+ * Shared workspaces a user is a member of, as plain workspaces
+ */
+export function getSharedWorkspacesForUser(userId: string | undefined): ConfigWorkspace[] {
+  if (!userId) return []
+  return listSharedWorkspaces()
+    .filter(w => w.userIds.includes(userId))
+    .map(({ userIds: _, ...workspace }) => workspace)
+}
+
+/**
+ * Share a folder with users, creating the workspace structure if needed
+ */
+export function addSharedWorkspace(rootPath: string, name: string, userIds: string[]): SharedWorkspace {
+  const workspaces = loadSharedWorkspaces()
+  const absolutePath = resolve(rootPath)
+  if (workspaces.some(w => w.rootPath === absolutePath)) {
+    throw new RpcError('invalid_args', `Already shared: ${absolutePath}`)
+  }
+  if (!isValidWorkspace(absolutePath)) {
+    createWorkspaceAtPath(absolutePath, name)
+  }
+
+  const workspace: SharedWorkspace = {
+    id: generateWorkspaceId(),
+    name,
+    rootPath: absolutePath,
+    createdAt: Date.now(),
+    userIds: [...new Set(userIds)],
+  }
+  saveSharedWorkspaces([...workspaces, workspace])
+  return workspace
+}
+
+export function setSharedWorkspaceUsers(workspaceId: string, userIds: string[]): SharedWorkspace {
+  const updated = { ...getSharedWorkspace(workspaceId), userIds: [...new Set(userIds)] }
+  saveSharedWorkspaces(loadSharedWorkspaces().map(w => w.id === workspaceId ? updated : w))
+  return updated
+}
+
+/**
+ * Stop sharing a workspace. Its folder and sessions are left on disk.
+ */
+export function removeSharedWorkspace(workspaceId: string): void {
+  getSharedWorkspace(workspaceId)
+  saveSharedWorkspaces(loadSharedWorkspaces().filter(w => w.id !== workspaceId))
+}
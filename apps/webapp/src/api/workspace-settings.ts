@@ -0,0 +1,114 @@
+/**
+ * Workspace settings for the webapp
+ *
+ * Settings live in the workspace folder's config.json (WorkspaceConfig): the workspace
+ * name, the defaults applied to new sessions and whether local (stdio) MCP servers may run.
+ * Keys and value shapes match the desktop app's getWorkspaceSettings / updateWorkspaceSetting.
+ */
+
+import { z } from 'zod'
+import { existsSync, statSync } from 'fs'
+import { loadWorkspaceConfig, saveWorkspaceConfig, type WorkspaceConfig } from '@craft-agent/shared/workspaces'
+import type { PermissionMode } from '@craft-agent/shared/agent/modes'
+import type { ThinkingLevel } from '@craft-agent/shared/agent/thinking-levels'
+import { RpcError } from './rpc-registry'
+import { assertPathAllowed } from './directories'
+
+export interface WorkspaceSettings {
+  name: string
+  model?: string
+  enabledSourceSlugs?: string[]
+  permissionMode?: PermissionMode
+  cyclablePermissionModes?: PermissionMode[]
+  thinkingLevel?: ThinkingLevel
+  workingDirectory?: string
+  /** localMcpServers.enabled (default true) */
+  localMcpEnabled: boolean
+}
+
+export type WorkspaceDefaults = NonNullable<WorkspaceConfig['defaults']>
+
+const permissionMode = z.enum(['safe', 'ask', 'allow-all'])
+
+// Defaults are cleared with null
+const settingSchemas = {
+  name: z.string().trim().min(1),
+  model: z.string().min(1).nullable(),
+  enabledSourceSlugs: z.array(z.string().min(1)).nullable(),
+  permissionMode: permissionMode.nullable(),
+  cyclablePermissionModes: z.array(permissionMode)
+    .refine(modes => new Set(modes).size >= 2, 'At least two different modes are required')
+    .nullable(),
+  thinkingLevel: z.enum(['off', 'think', 'max']).nullable(),
+  workingDirectory: z.string().min(1).nullable(),
+  localMcpEnabled: z.boolean(),
+} satisfies Record<keyof WorkspaceSettings, z.ZodType>
+
+export type WorkspaceSettingKey = keyof typeof settingSchemas
+
+export const WORKSPACE_SETTING_KEYS = Object.keys(settingSchemas) as [WorkspaceSettingKey, ...WorkspaceSettingKey[]]
+
+function requireWorkspaceConfig(workspaceRootPath: string): WorkspaceConfig {
+  const config = loadWorkspaceConfig(workspaceRootPath)
+  if (!config) {
+    throw new RpcError('not_found', `Workspace config not found: ${workspaceRootPath}`)
+  }
+  return config
+}
+
+/**
+ * Defaults for new sessions in the workspace (empty if it has no config)
+ */
+export function getWorkspaceDefaults(workspaceRootPath: string): WorkspaceDefaults {
+  return loadWorkspaceConfig(workspaceRootPath)?.defaults ?? {}
+}
+
+export function getWorkspaceSettings(workspaceRootPath: string): WorkspaceSettings {
+  const config = requireWorkspaceConfig(workspaceRootPath)
+  return {
+    name: config.name,
+    ...config.defaults,
+    localMcpEnabled: config.localMcpServers?.enabled ?? true,
+  }
+}
+
+/**
+ * Validate and save one setting. Invalid values fail with invalid_args naming the key.
+ */
+export function updateWorkspaceSetting(workspaceRootPath: string, key: WorkspaceSettingKey, value: unknown): void {
+  const parsed = settingSchemas[key].safeParse(value)
+  if (!parsed.success) {
+    const message = parsed.error.issues[0]?.message ?? 'Invalid value'
+    throw new RpcError('invalid_args', `Invalid value for ${key}: ${message}`, [{ path: [key], message }])
+  }
+
+  const config = requireWorkspaceConfig(workspaceRootPath)
+  const setting = parsed.data
+  switch (key) {
+    case 'name':
+      config.name = setting as string
+      break
+    case 'localMcpEnabled':
+      config.localMcpServers = { enabled: setting as boolean }
+      break
+    case 'workingDirectory':
+      if (setting !== null) {
+        assertPathAllowed(setting as string)
+        if (!existsSync(setting as string) || !statSync(setting as string).isDirectory()) {
+          throw new RpcError('invalid_args', `Not a directory: ${setting}`, [{ path: [key], message: 'Not a directory' }])
+        }
+      }
+      // falls through
+    default: {
+      const defaults: Record<string, unknown> = { ...config.defaults }
+      if (setting === null) {
+        delete defaults[key]
+      } else {
+        defaults[key] = setting
+      }
+      config.defaults = defaults as WorkspaceDefaults
+    }
+  }
+
+  saveWorkspaceConfig(workspaceRootPath, config)
+}
@@ -0,0 +1,165 @@
+/**
+ * WebSocket transport
+ *
+ * One socket carries both RPC calls and session events, as an alternative to
+ * POST /api/rpc plus the /api/events SSE stream. Messages are JSON text frames:
+ *
+ *   client → server
+ *     { type: 'rpc', id, method, args }                 call a method (answered in any order)
+ *     { type: 'cancel', id }                            cancel a call - answered with a `cancelled` error
+ *     { type: 'subscribe', subscribe?, unsubscribe? }   same as POST /api/events/subscriptions
+ *
+ *   server → client
+ *     { type: 'result', id, result } | { type: 'result', id, error: { code, message } }
+ *     { type: 'event', id?, event }                     a SessionEvent, with its replay ID as on SSE
+ *     { type: 'subscriptions', sessionIds, workspaceIds }
+ *
+ * Initial subscriptions and replay cursors are passed on the URL as for SSE. A client that
+ * can't keep up is disconnected at the backpressure limit and catches up by replay on reconnect.
+ */
+
+import type { ServerWebSocket, WebSocketHandler } from 'bun'
+import { z } from 'zod'
+import { rpcHandler } from './rpc'
+import { RpcError, toRpcError, type BroadcastFn } from './rpc-registry'
+import { connectClient, disconnectClient, updateClientSubscriptions, parseConnectParams, subscriptionUpdate } from './sse'
+import { isAuthValid, type AuthContext } from './auth'
+import { runAsUser } from './users'
+
+// Buffered bytes before a slow client is disconnected
+const BACKPRESSURE_LIMIT = 4 * 1024 * 1024
+
+// Close codes (4000-4999 are reserved for applications)
+const CLOSE_UNAUTHORIZED = 4401
+const CLOSE_PROTOCOL_ERROR = 1002
+
+/**
+ * Per-connection state, attached at upgrade
+ */
+export interface WsData {
+  clientId: string
+  auth: AuthContext
+  sessionIds: string[]
+  workspaceIds: string[]
+  lastEventIds: string[]
+  /** In-flight RPC calls, keyed by request ID */
+  pending: Map<string, AbortController>
+}
+
+const clientMessage = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('rpc'), id: z.string().min(1), method: z.string(), args: z.unknown() }),
+  z.object({ type: z.literal('cancel'), id: z.string().min(1) }),
+  z.object({ type: z.literal('subscribe'), subscribe: subscriptionUpdate, unsubscribe: subscriptionUpdate }),
+])
+
+/**
+ * Connection state for an authenticated upgrade request
+ */
+export function createWsData(req: Request, auth: AuthContext): WsData {
+  return {
+    clientId: crypto.randomUUID(),
+    auth,
+    ...parseConnectParams(req),
+    pending: new Map(),
+  }
+}
+
+function send(ws: ServerWebSocket<WsData>, message: string): void {
+  // Returns 0 if the socket is closed - nothing to do, close() cleans up
+  ws.send(message)
+}
+
+async function handleRpc(
+  ws: ServerWebSocket<WsData>,
+  id: string,
+  method: string,
+  args: unknown,
+  broadcast: BroadcastFn
+): Promise<void> {
+  const { pending } = ws.data
+  if (pending.has(id)) {
+    send(ws, JSON.stringify({ type: 'result', id, error: new RpcError('invalid_args', `Duplicate request ID: ${id}`).toJSON() }))
+    return
+  }
+
+  const controller = new AbortController()
+  pending.set(id, controller)
+  try {
+    const result = await runAsUser(ws.data.auth.user, () => rpcHandler(method, args, broadcast, controller.signal))
+    send(ws, JSON.stringify({ type: 'result', id, result }))
+  } catch (error) {
+    const rpcError = toRpcError(error)
+    if (rpcError.code === 'internal') {
+      console.error('[ws]', error)
+    }
+    send(ws, JSON.stringify({ type: 'result', id, error: rpcError.toJSON() }))
+  } finally {
+    pending.delete(id)
+  }
+}
+
+/**
+ * Bun websocket handlers for /api/ws
+ */
+export function createWebSocketHandler(broadcast: BroadcastFn): WebSocketHandler<WsData> {
+  return {
+    backpressureLimit: BACKPRESSURE_LIMIT,
+    closeOnBackpressureLimit: true,
+
+    open(ws) {
+      const { clientId, sessionIds, workspaceIds, lastEventIds } = ws.data
+      connectClient({
+        id: clientId,
+        send: (data, eventId) => {
+          const idField = eventId ? `,"id":${JSON.stringify(eventId)}` : ''
+          if (ws.send(`{"type":"event"${idField},"event":${data}}`) === 0) {
+            throw new Error('WebSocket closed')
+          }
+        },
+        sessionIds: new Set(sessionIds),
+        workspaceIds: new Set(workspaceIds),
+        userId: ws.data.auth.user?.id,
+      }, lastEventIds)
+    },
+
+    message(ws, raw) {
+      // Logging out (or the login session expiring) ends the socket too
+      if (!isAuthValid(ws.data.auth)) {
+        ws.close(CLOSE_UNAUTHORIZED, 'Unauthorized')
+        return
+      }
+
+      let parsed: z.infer<typeof clientMessage>
+      try {
+        parsed = clientMessage.parse(JSON.parse(typeof raw === 'string' ? raw : raw.toString('utf-8')))
+      } catch {
+        ws.close(CLOSE_PROTOCOL_ERROR, 'Invalid message')
+        return
+      }
+
+      switch (parsed.type) {
+        case 'rpc':
+          void handleRpc(ws, parsed.id, parsed.method, parsed.args, broadcast)
+          return
+        case 'cancel':
+          ws.data.pending.get(parsed.id)?.abort()
+          return
+        case 'subscribe': {
+          const result = updateClientSubscriptions(ws.data.clientId, parsed.subscribe, parsed.unsubscribe, ws.data.auth.user?.id)
+          if (result) {
+            send(ws, JSON.stringify({ type: 'subscriptions', ...result }))
+          }
+          return
+        }
+      }
+    },
+
+    close(ws) {
+      disconnectClient(ws.data.clientId)
+      for (const controller of ws.data.pending.values()) {
+        controller.abort()
+      }
+      ws.data.pending.clear()
+    },
+  }
+}
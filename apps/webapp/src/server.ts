@@ -1,32 +1,94 @@
 /**
  * Webapp backend server for Craft Agents
- * Provides /api/rpc for method calls and /api/events for SSE streaming
+ * Provides /api/rpc for method calls and /api/events for SSE streaming,
+ * or both over one WebSocket at /api/ws. In production it also serves the built frontend.
  */
 
 import { serve } from 'bun'
-import { homedir } from 'os'
-import { join } from 'path'
-import { rpcHandler } from './api/rpc'
-import { sseHandler, broadcastEvent } from './api/sse'
+import { getDefaultWorkspacesDir } from '@craft-agent/shared/workspaces'
+import { rpcHandler, isReadOnlyMethod, getSessionManager, listRpcMethods, resumeAfterRestart } from './api/rpc'
+import { RpcError, toRpcError } from './api/rpc-registry'
+import { uploadHandler, downloadHandler } from './api/attachments'
+import { sessionFileHandler } from './api/session-files'
+import { metricsHandler } from './api/metrics'
+import { getHealthReport } from './api/health'
+import { findStaticDir, normalizeBasePath, staticFileResponse } from './api/static-files'
+import { sseHandler, subscriptionHandler, broadcastEvent } from './api/sse'
+import { createWebSocketHandler, createWsData } from './api/ws'
+import { runAsUser, isMultiUserMode } from './api/users'
+import { oauthCallbackHandler, setOAuthRedirectBase } from './api/oauth'
+import {
+  initializeAuth,
+  authenticate,
+  verifyCsrf,
+  isOriginAllowed,
+  getCorsHeaders,
+  loginHandler,
+  logoutHandler,
+  sessionInfoHandler,
+  loginPageHandler,
+} from './api/auth'
 
 const PORT = process.env.PORT ? parseInt(process.env.PORT) : 3001
+// Interface to listen on (all interfaces by default)
+const HOST = process.env.HOST || undefined
+// Path prefix when a reverse proxy forwards a sub-path (e.g. /agents) without stripping it
+const BASE_PATH = normalizeBasePath(process.env.CRAFT_WEBAPP_BASE_PATH)
+// Serve HTTPS (and WSS) directly - PEM certificate chain and private key files
+const TLS_CERT = process.env.CRAFT_WEBAPP_TLS_CERT
+const TLS_KEY = process.env.CRAFT_WEBAPP_TLS_KEY
+const PROTOCOL = TLS_CERT ? 'https' : 'http'
+// Address browsers reach this server at - OAuth providers redirect back to it
+const PUBLIC_URL = process.env.CRAFT_WEBAPP_PUBLIC_URL || `${PROTOCOL}://localhost:${PORT}${BASE_PATH}`
+// Built frontend, if any (development uses the Vite dev server)
+const STATIC_DIR = findStaticDir()
 
-// Initialize default workspace path
-const DEFAULT_WORKSPACES_DIR = join(homedir(), '.craft-agent', 'workspaces')
+if (!TLS_CERT !== !TLS_KEY) {
+  console.error('CRAFT_WEBAPP_TLS_CERT and CRAFT_WEBAPP_TLS_KEY must be set together')
+  process.exit(1)
+}
 
 console.log(`Starting Craft Agent webapp server...`)
-console.log(`  Default workspaces directory: ${DEFAULT_WORKSPACES_DIR}`)
+// In multi-user mode each user has their own (see api/users.ts)
+if (!isMultiUserMode()) {
+  console.log(`  Default workspaces directory: ${getDefaultWorkspacesDir()}`)
+}
+
+await initializeAuth()
+setOAuthRedirectBase(PUBLIC_URL)
 
 const server = serve({
   port: PORT,
-  async fetch(req) {
+  hostname: HOST,
+  tls: TLS_CERT && TLS_KEY ? { cert: Bun.file(TLS_CERT), key: Bun.file(TLS_KEY) } : undefined,
+  websocket: createWebSocketHandler(broadcastEvent),
+  async fetch(req, server) {
     const url = new URL(req.url)
-    
-    // CORS headers for development
-    const corsHeaders = {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
+
+    // Every route lives under the base path - match the rest without it
+    if (BASE_PATH) {
+      if (url.pathname === BASE_PATH) {
+        return new Response(null, { status: 308, headers: { Location: `${BASE_PATH}/${url.search}` } })
+      }
+      if (!url.pathname.startsWith(`${BASE_PATH}/`)) {
+        return new Response('Not Found', { status: 404 })
+      }
+      url.pathname = url.pathname.slice(BASE_PATH.length)
+    }
+
+    // CORS headers - only for allowlisted origins
+    const corsHeaders = getCorsHeaders(req, PORT)
+    const json = (body: unknown, status = 200) => Response.json(body, { status, headers: corsHeaders })
+    const withCors = (response: Response) => {
+      for (const [key, value] of Object.entries(corsHeaders)) {
+        response.headers.set(key, value)
+      }
+      return response
+    }
+
+    // Reject cross-origin requests from origins that are not on the allowlist
+    if (!isOriginAllowed(req, PORT)) {
+      return json({ error: 'Origin not allowed' }, 403)
     }
 
     // Handle preflight
@@ -34,35 +96,133 @@ const server = serve({
       return new Response(null, { status: 204, headers: corsHeaders })
     }
 
+    // Login page and auth endpoints (no authentication required)
+    if (url.pathname === '/login' && req.method === 'GET') {
+      return loginPageHandler(req, PORT)
+    }
+
+    if (url.pathname === '/api/auth/login' && req.method === 'POST') {
+      return withCors(await loginHandler(req, server.requestIP(req)?.address ?? 'unknown'))
+    }
+
+    // OAuth redirects from providers (the flow's `state` identifies the user)
+    if (url.pathname.startsWith('/oauth/callback/') && req.method === 'GET') {
+      return oauthCallbackHandler(url, url.pathname.slice('/oauth/callback/'.length), broadcastEvent)
+    }
+
+    // EventSource and WebSocket can't set headers - they may pass the token on the URL
+    const auth = authenticate(req, { allowQueryToken: url.pathname === '/api/events' || url.pathname === '/api/ws' })
+
+    // Health check - open to probes, with credential and config checks for logged-in requests
+    if (url.pathname === '/api/health') {
+      if (!auth) {
+        return json({ status: 'ok', timestamp: Date.now() })
+      }
+      return json(await runAsUser(auth.user, () => getHealthReport()))
+    }
+
+    if (url.pathname === '/api/auth/session' && req.method === 'GET') {
+      return withCors(sessionInfoHandler(auth))
+    }
+
+    // Everything below requires authentication - opening the app leads to the login page
+    if (!auth) {
+      if (STATIC_DIR && req.method === 'GET' && !url.pathname.startsWith('/api/')) {
+        const next = encodeURIComponent(`${BASE_PATH}${url.pathname}${url.search}`)
+        return new Response(null, { status: 302, headers: { Location: `${BASE_PATH}/login?next=${next}` } })
+      }
+      return json({ error: 'Unauthorized' }, 401)
+    }
+
+    if (url.pathname === '/api/auth/logout' && req.method === 'POST') {
+      if (!verifyCsrf(req, auth)) {
+        return json({ error: 'Invalid CSRF token' }, 403)
+      }
+      return withCors(logoutHandler(req, auth, server.requestIP(req)?.address ?? 'unknown'))
+    }
+
+    // Prometheus metrics cover all users - admins only in multi-user mode
+    if (url.pathname === '/api/metrics' && req.method === 'GET') {
+      if (isMultiUserMode() && !auth.user?.admin) {
+        return json({ error: 'Forbidden' }, 403)
+      }
+      return metricsHandler(corsHeaders)
+    }
+
     // SSE endpoint for streaming events
     if (url.pathname === '/api/events' && req.method === 'GET') {
-      return sseHandler(req)
+      return sseHandler(req, corsHeaders, auth.user?.id)
+    }
+
+    // WebSocket carrying RPC calls and events (the Origin check above guards against
+    // cross-site sockets; cookie logins must also pass their CSRF token as ?csrf_token=)
+    if (url.pathname === '/api/ws' && req.method === 'GET') {
+      if (!verifyCsrf(req, auth, { allowQueryToken: true })) {
+        return json({ error: 'Invalid CSRF token' }, 403)
+      }
+      if (server.upgrade(req, { data: createWsData(req, auth) })) {
+        return
+      }
+      return json({ error: 'Expected a WebSocket upgrade' }, 400)
+    }
+
+    // Subscribe/unsubscribe an SSE connection to sessions and workspaces
+    if (url.pathname === '/api/events/subscriptions' && req.method === 'POST') {
+      if (!verifyCsrf(req, auth)) {
+        return json({ error: 'Invalid CSRF token' }, 403)
+      }
+      return subscriptionHandler(req, corsHeaders, auth.user?.id)
+    }
+
+    // Attachment upload (multipart) and download
+    if (url.pathname === '/api/attachments' && req.method === 'POST') {
+      if (!verifyCsrf(req, auth)) {
+        return json({ error: 'Invalid CSRF token' }, 403)
+      }
+      return runAsUser(auth.user, () => uploadHandler(req, getSessionManager(broadcastEvent), corsHeaders))
+    }
+
+    if (url.pathname.startsWith('/api/attachments/') && req.method === 'GET') {
+      return runAsUser(auth.user, () => downloadHandler(url, getSessionManager(broadcastEvent), corsHeaders))
+    }
+
+    if (url.pathname.startsWith('/api/session-files/') && req.method === 'GET') {
+      return runAsUser(auth.user, () => sessionFileHandler(url, getSessionManager(broadcastEvent), corsHeaders))
     }
 
     // RPC endpoint for method calls
     if (url.pathname === '/api/rpc' && req.method === 'POST') {
       try {
-        const body = await req.json() as { method: string; args: unknown[] }
-        const result = await rpcHandler(body.method, body.args, broadcastEvent)
-        return new Response(JSON.stringify({ result }), {
-          status: 200,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        })
+        const body = await req.json().catch(() => null) as { method?: unknown; args?: unknown } | null
+        if (!body || typeof body.method !== 'string') {
+          throw new RpcError('invalid_args', 'Request body must be {"method": string, "args": unknown[]}')
+        }
+        const { method, args } = body
+        if (!isReadOnlyMethod(method) && !verifyCsrf(req, auth)) {
+          throw new RpcError('unauthorized', 'Invalid CSRF token')
+        }
+        const result = await runAsUser(auth.user, () => rpcHandler(method, args, broadcastEvent, req.signal))
+        return json({ result })
       } catch (error) {
-        const message = error instanceof Error ? error.message : 'Unknown error'
-        return new Response(JSON.stringify({ error: message }), {
-          status: 500,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        })
+        const rpcError = toRpcError(error)
+        if (rpcError.code === 'internal') {
+          console.error('[rpc]', error)
+        }
+        return json({ error: rpcError.toJSON() }, rpcError.status)
       }
     }
 
-    // Health check
-    if (url.pathname === '/api/health') {
-      return new Response(JSON.stringify({ status: 'ok', timestamp: Date.now() }), {
-        status: 200,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      })
+    // Registered RPC methods, their argument schemas and which are stubs
+    if (url.pathname === '/api/rpc/methods' && req.method === 'GET') {
+      return json({ methods: listRpcMethods() })
+    }
+
+    // Built frontend, with index.html for the app's own routes
+    if (STATIC_DIR && (req.method === 'GET' || req.method === 'HEAD') && !url.pathname.startsWith('/api/')) {
+      const response = await staticFileResponse(req, url.pathname, STATIC_DIR, BASE_PATH)
+      if (response) {
+        return response
+      }
     }
 
     // 404 for unknown routes
@@ -70,7 +230,15 @@ const server = serve({
   },
 })
 
-console.log(`Craft Agent webapp server running at http://localhost:${server.port}`)
+console.log(`Craft Agent webapp server running at ${PROTOCOL}://${HOST ?? 'localhost'}:${server.port}${BASE_PATH}`)
+if (STATIC_DIR) {
+  console.log(`  Serving frontend from ${STATIC_DIR}`)
+}
+
+// In the background - resumed turns can run for a while
+resumeAfterRestart(broadcastEvent).catch(error => {
+  console.error('[server] Failed to resume work interrupted by a restart:', error)
+})
 
 // Export for programmatic use
 export { server, broadcastEvent }
@@ -48,7 +48,7 @@ export default defineConfig({
     // Proxy API calls to backend server
     proxy: {
       '/api': {
-        target: 'http://localhost:3001',
+        target: process.env.VITE_API_URL || 'http://localhost:3001',
         changeOrigin: true,
       },
     },
@@ -51,6 +51,7 @@ import type { ValidationIssue } from '../config/validators.ts';
 import { detectConfigFileType, validateConfigFileContent, formatValidationResult } from '../config/validators.ts';
 import { type ThinkingLevel, getThinkingTokens, DEFAULT_THINKING_LEVEL } from './thinking-levels.ts';
 import type { LoadedSource } from '../sources/types.ts';
+import type { LoadedSkill } from '../skills/types.ts';
 import { sourceNeedsAuthentication } from '../sources/credential-manager.ts';
 
 // Re-export permission mode functions for application usage
@@ -443,6 +444,13 @@ export class CraftAgent {
   // Callback when the sources list changes (add/remove)
   public onSourcesListChange: ((sources: LoadedSource[]) => void) | null = null;
 
+  // Callback when a skill's SKILL.md changes (null if deleted)
+  // Skills themselves are reloaded by the SDK on every query, so this is for UI updates
+  public onSkillChange: ((slug: string, skill: LoadedSkill | null) => void) | null = null;
+
+  // Callback when the skills list changes (add/remove)
+  public onSkillsListChange: ((skills: LoadedSkill[]) => void) | null = null;
+
   // Callback when config file validation fails
   public onConfigValidationError: ((file: string, errors: ValidationIssue[]) => void) | null = null;
 
@@ -521,6 +529,14 @@ export class CraftAgent {
         debug('[CraftAgent] Sources list changed:', sources.length);
         this.onSourcesListChange?.(sources);
       },
+      onSkillChange: (slug, skill) => {
+        debug('[CraftAgent] Skill changed:', slug, skill ? 'updated' : 'deleted');
+        this.onSkillChange?.(slug, skill);
+      },
+      onSkillsListChange: (skills) => {
+        debug('[CraftAgent] Skills list changed:', skills.length);
+        this.onSkillsListChange?.(skills);
+      },
       onValidationError: (file, result) => {
         debug('[CraftAgent] Config validation error:', file, result.errors);
         this.onConfigValidationError?.(file, result.errors);
@@ -1435,10 +1451,28 @@ export class CraftAgent {
               return { continue: true };
             }],
           }],
-          // NOTE: PostToolUse hook was removed because updatedMCPToolOutput is not a valid SDK output field.
+          // NOTE: PostToolUse is not used to shrink tool output - updatedMCPToolOutput is not a valid SDK output field.
           // For API tools (api_*), summarization happens in api-tools.ts.
           // For external MCP servers (stdio/HTTP), we cannot modify their output - they're responsible
           // for their own size management via pagination or filtering.
+          // It only delivers temporary clarifications (mid-turn steering) with the next tool result.
+          PostToolUse: [{
+            hooks: [async () => {
+              const clarifications = this.temporaryClarifications;
+              if (!clarifications) {
+                return { continue: true };
+              }
+              this.temporaryClarifications = null;
+              debug(`[PostToolUse] Delivering temporary clarifications (${clarifications.length} chars)`);
+              return {
+                continue: true,
+                hookSpecificOutput: {
+                  hookEventName: 'PostToolUse' as const,
+                  additionalContext: `The user sent this while you were working - take it into account from now on:\n${clarifications}`,
+                },
+              };
+            }],
+          }],
 
           // ═══════════════════════════════════════════════════════════════════════════
           // SUBAGENT HOOKS: Logging only - parent tracking uses SDK's parent_tool_use_id
@@ -3357,13 +3391,21 @@ Please continue the conversation naturally from where we left off.
   }
 
   /**
-   * Set temporary clarifications that are injected into the system prompt
-   * but not yet persisted to the Craft document
+   * Set temporary clarifications (e.g. a steering note the user sent mid-turn).
+   * They reach the model with the next tool result (PostToolUse additionalContext)
+   * and are cleared once delivered.
    */
   setTemporaryClarifications(text: string | null): void {
     this.temporaryClarifications = text;
   }
 
+  /**
+   * Clarifications not delivered yet (null once a tool result carried them)
+   */
+  getTemporaryClarifications(): string | null {
+    return this.temporaryClarifications;
+  }
+
   /**
    * Get filtered source MCP servers based on local MCP setting
    * @returns Object with filtered servers and names of any skipped stdio servers
@@ -3433,6 +3475,8 @@ Please continue the conversation naturally from where we left off.
     this.onAuthRequest = null;
     this.onSourceChange = null;
     this.onSourcesListChange = null;
+    this.onSkillChange = null;
+    this.onSkillsListChange = null;
     this.onConfigValidationError = null;
     this.onSourceActivationRequest = null;
 
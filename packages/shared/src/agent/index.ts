@@ -6,6 +6,7 @@ export * from './options.ts';
 export {
   // Tool factories (creates session-scoped tools)
   createSubmitPlanTool,
+  createSourceTestTool,
   // Session-scoped tools provider
   getSessionScopedTools,
   cleanupSessionScopedTools,
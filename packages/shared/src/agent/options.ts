@@ -6,6 +6,7 @@ import { debug } from "../utils/debug";
 declare const CRAFT_AGENT_CLI_VERSION: string | undefined;
 
 let optionsEnv: Record<string, string> = {};
+let optionsEnvResolver: (() => Record<string, string | undefined> | undefined) | null = null;
 let customPathToClaudeCodeExecutable: string | null = null;
 let customInterceptorPath: string | null = null;
 let customExecutable: string | null = null;
@@ -14,6 +15,30 @@ export function setAnthropicOptionsEnv(env: Record<string, string>) {
     optionsEnv = env;
 }
 
+/**
+ * Resolve extra env for the SDK subprocess on each call, layered over process.env and
+ * setAnthropicOptionsEnv. Keys set to undefined are removed. Lets a host running agents
+ * for several users (the webapp's multi-user mode) pass each user's auth without
+ * touching process.env.
+ */
+export function setAnthropicOptionsEnvResolver(resolver: (() => Record<string, string | undefined> | undefined) | null) {
+    optionsEnvResolver = resolver;
+}
+
+function withResolvedEnv(env: Record<string, string | undefined>): Record<string, string | undefined> {
+    const resolved = optionsEnvResolver?.();
+    if (!resolved) return env;
+    const result = { ...env };
+    for (const [key, value] of Object.entries(resolved)) {
+        if (value === undefined) {
+            delete result[key];
+        } else {
+            result[key] = value;
+        }
+    }
+    return result;
+}
+
 /**
  * Override the path to the Claude Code executable (cli.js from the SDK).
  * This is needed when the SDK is bundled (e.g., in Electron) and can't auto-detect the path.
@@ -60,12 +85,12 @@ export function getDefaultOptions(): Partial<Options> {
             // Use custom executable if set, otherwise default to 'bun'
             executable: (customExecutable || 'bun') as 'bun',
             executableArgs,
-            env: {
+            env: withResolvedEnv({
                 ...process.env,
                 ... optionsEnv,
                 // Propagate debug mode from argv flag OR existing env var
                 CRAFT_DEBUG: (process.argv.includes('--debug') || process.env.CRAFT_DEBUG === '1') ? '1' : '0',
-            }
+            }),
         };
     }
 
@@ -79,22 +104,22 @@ export function getDefaultOptions(): Partial<Options> {
             executable: process.execPath as 'bun',
             // Inject network interceptor into SDK subprocess for API error capture and MCP schema injection
             executableArgs: [envFileFlag, '--preload', join(baseDir, 'network-interceptor.ts')],
-            env: {
+            env: withResolvedEnv({
                 ...process.env,
                 BUN_BE_BUN: '1',
                 ... optionsEnv,
                 // Propagate debug mode from argv flag OR existing env var
                 CRAFT_DEBUG: (process.argv.includes('--debug') || process.env.CRAFT_DEBUG === '1') ? '1' : '0',
-            }
+            }),
         }
     }
     return {
         executableArgs: [envFileFlag],
-        env: {
+        env: withResolvedEnv({
             ... process.env,
             ... optionsEnv,
             // Propagate debug mode from argv flag OR existing env var
             CRAFT_DEBUG: (process.argv.includes('--debug') || process.env.CRAFT_DEBUG === '1') ? '1' : '0',
-        }
+        }),
     };
 }
\ No newline at end of file
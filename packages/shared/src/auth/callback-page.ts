@@ -8,6 +8,18 @@ import { CRAFT_LOGO_HTML } from '../branding.ts';
 
 export type AppType = 'terminal' | 'electron';
 
+/**
+ * Escape text for HTML - error details come from the redirect's query string
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 /**
  * Generate a minimal, clean callback page matching the app's design system.
  * Logo at top, status message in a card below.
@@ -25,7 +37,7 @@ export function generateCallbackPage(options: {
   const statusMessage = isSuccess
     ? 'Authorization successful'
     : errorDetail
-      ? `Authorization failed: ${errorDetail}`
+      ? `Authorization failed: ${escapeHtml(errorDetail)}`
       : 'Authorization failed';
 
   // Generate deeplink redirect and auto-close for success
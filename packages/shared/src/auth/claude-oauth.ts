@@ -7,8 +7,9 @@
  *
  * Based on: https://github.com/grll/claude-code-login
  */
-import { randomBytes, createHash } from 'node:crypto'
+import { randomBytes } from 'node:crypto'
 import { CLAUDE_OAUTH_CONFIG } from './claude-oauth-config'
+import { generatePKCE } from './pkce'
 
 // Dynamic import for 'open' to handle ESM/CJS interop in bundled code
 async function openUrl(url: string): Promise<void> {
@@ -50,34 +51,19 @@ function generateState(): string {
 }
 
 /**
- * Generate PKCE code verifier and challenge
- */
-function generatePKCE(): { codeVerifier: string; codeChallenge: string } {
-  const codeVerifier = randomBytes(32).toString('base64url')
-  const codeChallenge = createHash('sha256')
-    .update(codeVerifier)
-    .digest('base64url')
-  return { codeVerifier, codeChallenge }
-}
-
-/**
- * Start the OAuth flow by generating the login URL and opening the browser
+ * Generate the login URL and the state needed to exchange the code later,
+ * without storing or opening anything
  *
- * Returns the authorization URL that was opened. The user will authenticate
- * and then need to copy the authorization code from the callback page.
+ * For callers that keep their own state (e.g. one flow per web user) and pass
+ * it back to exchangeClaudeCode.
  */
-export async function startClaudeOAuth(
-  onStatus?: (message: string) => void
-): Promise<string> {
-  onStatus?.('Generating authentication URL...')
-
+export function createClaudeAuthorization(): { authUrl: string; oauthState: ClaudeOAuthState } {
   // Generate secure random values
   const state = generateState()
   const { codeVerifier, codeChallenge } = generatePKCE()
 
-  // Store state for later verification
   const now = Date.now()
-  currentOAuthState = {
+  const oauthState: ClaudeOAuthState = {
     state,
     codeVerifier,
     timestamp: now,
@@ -96,7 +82,23 @@ export async function startClaudeOAuth(
     state,
   })
 
-  const authUrl = `${CLAUDE_AUTH_URL}?${params.toString()}`
+  return { authUrl: `${CLAUDE_AUTH_URL}?${params.toString()}`, oauthState }
+}
+
+/**
+ * Start the OAuth flow by generating the login URL and opening the browser
+ *
+ * Returns the authorization URL that was opened. The user will authenticate
+ * and then need to copy the authorization code from the callback page.
+ */
+export async function startClaudeOAuth(
+  onStatus?: (message: string) => void
+): Promise<string> {
+  onStatus?.('Generating authentication URL...')
+
+  // Store state for later verification
+  const { authUrl, oauthState } = createClaudeAuthorization()
+  currentOAuthState = oauthState
 
   // Open browser
   onStatus?.('Opening browser for authentication...')
@@ -133,19 +135,25 @@ export function clearOAuthState(): void {
  * Exchange an authorization code for tokens
  *
  * Call this after the user has authenticated and copied the authorization code
- * from the callback page.
+ * from the callback page. Uses the state stored by startClaudeOAuth unless
+ * `explicitState` is given.
  */
 export async function exchangeClaudeCode(
   authorizationCode: string,
-  onStatus?: (message: string) => void
+  onStatus?: (message: string) => void,
+  explicitState?: ClaudeOAuthState
 ): Promise<ClaudeTokens> {
+  // Flows started with createClaudeAuthorization pass their own state; the stored
+  // state is only cleared for flows started with startClaudeOAuth
+  const oauthState = explicitState ?? currentOAuthState
+
   // Verify we have valid state
-  if (!currentOAuthState) {
+  if (!oauthState) {
     throw new Error('No OAuth state found. Please start the authentication flow again.')
   }
 
-  if (Date.now() > currentOAuthState.expiresAt) {
-    clearOAuthState()
+  if (Date.now() > oauthState.expiresAt) {
+    if (!explicitState) clearOAuthState()
     throw new Error('OAuth state expired (older than 10 minutes). Please try again.')
   }
 
@@ -159,8 +167,8 @@ export async function exchangeClaudeCode(
     client_id: CLAUDE_CLIENT_ID,
     code: cleanedCode,
     redirect_uri: REDIRECT_URI,
-    code_verifier: currentOAuthState.codeVerifier,
-    state: currentOAuthState.state,
+    code_verifier: oauthState.codeVerifier,
+    state: oauthState.state,
   }
 
   try {
@@ -198,7 +206,7 @@ export async function exchangeClaudeCode(
     }
 
     // Clear state after successful exchange
-    clearOAuthState()
+    if (!explicitState) clearOAuthState()
 
     onStatus?.('Authentication successful!')
 
@@ -13,8 +13,8 @@
 
 import { URL } from 'url';
 import open from 'open';
-import { randomBytes, createHash } from 'crypto';
 import { createCallbackServer, type AppType } from './callback-server.ts';
+import { generatePKCE, generateState } from './pkce.ts';
 import { type GoogleService } from '../sources/types.ts';
 
 // Re-export GoogleService type for convenient access
@@ -83,22 +83,6 @@ export interface GoogleOAuthResult {
   error?: string;
 }
 
-/**
- * Generate PKCE code verifier and challenge
- */
-function generatePKCE(): { verifier: string; challenge: string } {
-  const verifier = randomBytes(32).toString('base64url');
-  const challenge = createHash('sha256').update(verifier).digest('base64url');
-  return { verifier, challenge };
-}
-
-/**
- * Generate random state for CSRF protection
- */
-function generateState(): string {
-  return randomBytes(16).toString('hex');
-}
-
 /**
  * Exchange authorization code for tokens
  */
@@ -221,6 +205,50 @@ export function getGoogleScopes(options: GoogleOAuthOptions): string[] {
   return GOOGLE_SERVICE_SCOPES.gmail;
 }
 
+/**
+ * Build the Google consent URL for a redirect URI.
+ * The caller keeps `state` and the PKCE verifier until the redirect arrives.
+ */
+export function buildGoogleAuthUrl(params: {
+  scopes: string[];
+  redirectUri: string;
+  state: string;
+  codeChallenge: string;
+}): string {
+  const authUrl = new URL(GOOGLE_AUTH_URL);
+  authUrl.searchParams.set('client_id', GOOGLE_CLIENT_ID);
+  authUrl.searchParams.set('redirect_uri', params.redirectUri);
+  authUrl.searchParams.set('response_type', 'code');
+  authUrl.searchParams.set('scope', params.scopes.join(' '));
+  authUrl.searchParams.set('state', params.state);
+  authUrl.searchParams.set('code_challenge', params.codeChallenge);
+  authUrl.searchParams.set('code_challenge_method', 'S256');
+  authUrl.searchParams.set('access_type', 'offline'); // Request refresh token
+  authUrl.searchParams.set('prompt', 'consent'); // Always show consent to get refresh token
+  return authUrl.toString();
+}
+
+/**
+ * Exchange an authorization code from the Google redirect for tokens + email.
+ * `redirectUri` must match the one in the consent URL.
+ */
+export async function exchangeGoogleCode(
+  code: string,
+  codeVerifier: string,
+  redirectUri: string
+): Promise<GoogleOAuthResult> {
+  const tokens = await exchangeCodeForTokens(code, codeVerifier, redirectUri);
+  const email = await getUserEmail(tokens.accessToken);
+
+  return {
+    success: true,
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
+    expiresAt: tokens.expiresIn ? Date.now() + tokens.expiresIn * 1000 : undefined,
+    email,
+  };
+}
+
 /**
  * Start Google OAuth flow
  *
@@ -266,20 +294,8 @@ export async function startGoogleOAuth(
     const callbackServer = await createCallbackServer({ appType });
     const redirectUri = `${callbackServer.url}/callback`;
 
-    // Build authorization URL
-    const authUrl = new URL(GOOGLE_AUTH_URL);
-    authUrl.searchParams.set('client_id', GOOGLE_CLIENT_ID);
-    authUrl.searchParams.set('redirect_uri', redirectUri);
-    authUrl.searchParams.set('response_type', 'code');
-    authUrl.searchParams.set('scope', scopes.join(' '));
-    authUrl.searchParams.set('state', state);
-    authUrl.searchParams.set('code_challenge', pkce.challenge);
-    authUrl.searchParams.set('code_challenge_method', 'S256');
-    authUrl.searchParams.set('access_type', 'offline'); // Request refresh token
-    authUrl.searchParams.set('prompt', 'consent'); // Always show consent to get refresh token
-
     // Open browser for authorization
-    await open(authUrl.toString());
+    await open(buildGoogleAuthUrl({ scopes, redirectUri, state, codeChallenge: pkce.codeChallenge }));
 
     // Wait for callback
     const callback = await callbackServer.promise;
@@ -309,19 +325,7 @@ export async function startGoogleOAuth(
       };
     }
 
-    // Exchange code for tokens
-    const tokens = await exchangeCodeForTokens(code, pkce.verifier, redirectUri);
-
-    // Get user email
-    const email = await getUserEmail(tokens.accessToken);
-
-    return {
-      success: true,
-      accessToken: tokens.accessToken,
-      refreshToken: tokens.refreshToken,
-      expiresAt: tokens.expiresIn ? Date.now() + tokens.expiresIn * 1000 : undefined,
-      email,
-    };
+    return await exchangeGoogleCode(code, pkce.codeVerifier, redirectUri);
   } catch (error) {
     return {
       success: false,
@@ -16,8 +16,8 @@
 
 import { URL } from 'url';
 import open from 'open';
-import { randomBytes, createHash } from 'crypto';
 import { createCallbackServer, type AppType } from './callback-server.ts';
+import { generatePKCE, generateState } from './pkce.ts';
 import { type MicrosoftService } from '../sources/types.ts';
 
 // Re-export MicrosoftService type for convenient access
@@ -103,22 +103,6 @@ export interface MicrosoftOAuthResult {
   error?: string;
 }
 
-/**
- * Generate PKCE code verifier and challenge
- */
-function generatePKCE(): { verifier: string; challenge: string } {
-  const verifier = randomBytes(32).toString('base64url');
-  const challenge = createHash('sha256').update(verifier).digest('base64url');
-  return { verifier, challenge };
-}
-
-/**
- * Generate random state for CSRF protection
- */
-function generateState(): string {
-  return randomBytes(16).toString('hex');
-}
-
 /**
  * Exchange authorization code for tokens
  */
@@ -253,6 +237,52 @@ export function getMicrosoftScopes(options: MicrosoftOAuthOptions): string[] {
   return MICROSOFT_SERVICE_SCOPES.outlook;
 }
 
+/**
+ * Build the Microsoft consent URL for a redirect URI.
+ * The caller keeps `state` and the PKCE verifier until the redirect arrives.
+ */
+export function buildMicrosoftAuthUrl(params: {
+  scopes: string[];
+  redirectUri: string;
+  state: string;
+  codeChallenge: string;
+}): string {
+  const authUrl = new URL(MICROSOFT_AUTH_URL);
+  authUrl.searchParams.set('client_id', MICROSOFT_CLIENT_ID);
+  authUrl.searchParams.set('redirect_uri', params.redirectUri);
+  authUrl.searchParams.set('response_type', 'code');
+  authUrl.searchParams.set('scope', params.scopes.join(' '));
+  authUrl.searchParams.set('state', params.state);
+  authUrl.searchParams.set('code_challenge', params.codeChallenge);
+  authUrl.searchParams.set('code_challenge_method', 'S256');
+  // Response mode 'query' returns code in URL query params (default for authorization_code)
+  authUrl.searchParams.set('response_mode', 'query');
+  // Prompt 'consent' forces consent screen to ensure we get refresh token
+  authUrl.searchParams.set('prompt', 'consent');
+  return authUrl.toString();
+}
+
+/**
+ * Exchange an authorization code from the Microsoft redirect for tokens + email.
+ * `redirectUri` must match the one in the consent URL.
+ */
+export async function exchangeMicrosoftCode(
+  code: string,
+  codeVerifier: string,
+  redirectUri: string
+): Promise<MicrosoftOAuthResult> {
+  const tokens = await exchangeCodeForTokens(code, codeVerifier, redirectUri);
+  const email = await getUserEmail(tokens.accessToken);
+
+  return {
+    success: true,
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
+    expiresAt: tokens.expiresIn ? Date.now() + tokens.expiresIn * 1000 : undefined,
+    email,
+  };
+}
+
 /**
  * Start Microsoft OAuth flow
  *
@@ -298,22 +328,8 @@ export async function startMicrosoftOAuth(
     const callbackServer = await createCallbackServer({ appType });
     const redirectUri = `${callbackServer.url}/callback`;
 
-    // Build authorization URL
-    const authUrl = new URL(MICROSOFT_AUTH_URL);
-    authUrl.searchParams.set('client_id', MICROSOFT_CLIENT_ID);
-    authUrl.searchParams.set('redirect_uri', redirectUri);
-    authUrl.searchParams.set('response_type', 'code');
-    authUrl.searchParams.set('scope', scopes.join(' '));
-    authUrl.searchParams.set('state', state);
-    authUrl.searchParams.set('code_challenge', pkce.challenge);
-    authUrl.searchParams.set('code_challenge_method', 'S256');
-    // Response mode 'query' returns code in URL query params (default for authorization_code)
-    authUrl.searchParams.set('response_mode', 'query');
-    // Prompt 'consent' forces consent screen to ensure we get refresh token
-    authUrl.searchParams.set('prompt', 'consent');
-
     // Open browser for authorization
-    await open(authUrl.toString());
+    await open(buildMicrosoftAuthUrl({ scopes, redirectUri, state, codeChallenge: pkce.codeChallenge }));
 
     // Wait for callback
     const callback = await callbackServer.promise;
@@ -343,19 +359,7 @@ export async function startMicrosoftOAuth(
       };
     }
 
-    // Exchange code for tokens
-    const tokens = await exchangeCodeForTokens(code, pkce.verifier, redirectUri);
-
-    // Get user email
-    const email = await getUserEmail(tokens.accessToken);
-
-    return {
-      success: true,
-      accessToken: tokens.accessToken,
-      refreshToken: tokens.refreshToken,
-      expiresAt: tokens.expiresIn ? Date.now() + tokens.expiresIn * 1000 : undefined,
-      email,
-    };
+    return await exchangeMicrosoftCode(code, pkce.codeVerifier, redirectUri);
   } catch (error) {
     return {
       success: false,
@@ -1,8 +1,8 @@
 import { createServer, type Server } from 'http';
 import { URL } from 'url';
 import open from 'open';
-import { randomBytes, createHash } from 'crypto';
 import { generateCallbackPage } from './callback-page.ts';
+import { generatePKCE, generateState } from './pkce.ts';
 
 export interface OAuthConfig {
   mcpBaseUrl: string; // e.g., http://localhost:3000/v1/links/abc123
@@ -20,6 +20,19 @@ export interface OAuthCallbacks {
   onError: (error: string) => void;
 }
 
+/**
+ * A prepared authorization request - everything needed to finish the flow
+ * once the redirect with the code arrives
+ */
+export interface McpAuthorizationRequest {
+  authUrl: string;
+  state: string;
+  codeVerifier: string;
+  clientId: string;
+  redirectUri: string;
+  tokenEndpoint: string;
+}
+
 // Port range for OAuth callback server - tries ports sequentially until one is available
 const CALLBACK_PORT_START = 8914;
 const CALLBACK_PORT_END = 8924;
@@ -61,18 +74,6 @@ function checkPortAvailable(port: number): Promise<boolean> {
   });
 }
 
-// Generate PKCE code verifier and challenge
-function generatePKCE(): { verifier: string; challenge: string } {
-  const verifier = randomBytes(32).toString('base64url');
-  const challenge = createHash('sha256').update(verifier).digest('base64url');
-  return { verifier, challenge };
-}
-
-// Generate random state for CSRF protection
-function generateState(): string {
-  return randomBytes(16).toString('hex');
-}
-
 export class CraftOAuth {
   private config: OAuthConfig;
   private server: Server | null = null;
@@ -104,12 +105,10 @@ export class CraftOAuth {
   }
 
   // Register OAuth client dynamically
-  private async registerClient(registrationEndpoint: string, port: number): Promise<{
+  private async registerClient(registrationEndpoint: string, redirectUri: string): Promise<{
     client_id: string;
     client_secret?: string;
   }> {
-    const redirectUri = `http://localhost:${port}${CALLBACK_PATH}`;
-
     const response = await fetch(registrationEndpoint, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
@@ -139,10 +138,8 @@ export class CraftOAuth {
     code: string,
     codeVerifier: string,
     clientId: string,
-    port: number
+    redirectUri: string
   ): Promise<OAuthTokens> {
-    const redirectUri = `http://localhost:${port}${CALLBACK_PATH}`;
-
     const params = new URLSearchParams({
       grant_type: 'authorization_code',
       code,
@@ -251,6 +248,31 @@ export class CraftOAuth {
       throw error;
     }
 
+    const request = await this.prepareAuthorization(`http://localhost:${port}${CALLBACK_PATH}`);
+
+    // Start local server to receive callback
+    this.callbacks.onStatus(`Starting callback server on port ${port}...`);
+    const codePromise = this.startCallbackServer(request.state, port);
+
+    // Open browser for authorization
+    this.callbacks.onStatus('Opening browser for authorization...');
+    await open(request.authUrl);
+
+    // Wait for the authorization code
+    this.callbacks.onStatus('Waiting for you to authorize in browser...');
+    const authCode = await codePromise;
+    this.callbacks.onStatus('Authorization code received!');
+
+    const tokens = await this.exchangeAuthorizationCode(request, authCode);
+    return { tokens, clientId: request.clientId };
+  }
+
+  /**
+   * Discover the server's endpoints, register a client for `redirectUri` and build
+   * the authorization URL. The caller delivers the user to `authUrl` and receives
+   * the redirect itself (see authenticate() for the local callback server).
+   */
+  async prepareAuthorization(redirectUri: string): Promise<McpAuthorizationRequest> {
     // Get server metadata
     let metadata;
     try {
@@ -267,7 +289,7 @@ export class CraftOAuth {
     if (metadata.registration_endpoint) {
       this.callbacks.onStatus(`Registering client at ${metadata.registration_endpoint}...`);
       try {
-        const client = await this.registerClient(metadata.registration_endpoint, port);
+        const client = await this.registerClient(metadata.registration_endpoint, redirectUri);
         clientId = client.client_id;
         this.callbacks.onStatus(`Registered as client: ${clientId}`);
       } catch (error) {
@@ -284,7 +306,6 @@ export class CraftOAuth {
     // Generate PKCE and state
     const pkce = generatePKCE();
     const state = generateState();
-    const redirectUri = `http://localhost:${port}${CALLBACK_PATH}`;
     this.callbacks.onStatus('Generated PKCE challenge and state');
 
     // Build authorization URL
@@ -293,34 +314,33 @@ export class CraftOAuth {
     authUrl.searchParams.set('client_id', clientId);
     authUrl.searchParams.set('redirect_uri', redirectUri);
     authUrl.searchParams.set('state', state);
-    authUrl.searchParams.set('code_challenge', pkce.challenge);
+    authUrl.searchParams.set('code_challenge', pkce.codeChallenge);
     authUrl.searchParams.set('code_challenge_method', 'S256');
 
-    // Start local server to receive callback
-    this.callbacks.onStatus(`Starting callback server on port ${port}...`);
-    const codePromise = this.startCallbackServer(state, port);
-
-    // Open browser for authorization
-    this.callbacks.onStatus('Opening browser for authorization...');
-    await open(authUrl.toString());
-
-    // Wait for the authorization code
-    this.callbacks.onStatus('Waiting for you to authorize in browser...');
-    const authCode = await codePromise;
-    this.callbacks.onStatus('Authorization code received!');
+    return {
+      authUrl: authUrl.toString(),
+      state,
+      codeVerifier: pkce.codeVerifier,
+      clientId,
+      redirectUri,
+      tokenEndpoint: metadata.token_endpoint,
+    };
+  }
 
-    // Exchange code for tokens
+  /**
+   * Exchange the code from the redirect of a prepared request for tokens
+   */
+  async exchangeAuthorizationCode(request: McpAuthorizationRequest, code: string): Promise<OAuthTokens> {
     this.callbacks.onStatus('Exchanging authorization code for tokens...');
     const tokens = await this.exchangeCodeForTokens(
-      metadata.token_endpoint,
-      authCode,
-      pkce.verifier,
-      clientId,
-      port
+      request.tokenEndpoint,
+      code,
+      request.codeVerifier,
+      request.clientId,
+      request.redirectUri
     );
     this.callbacks.onStatus('Tokens received successfully!');
-
-    return { tokens, clientId };
+    return tokens;
   }
 
   // Start local HTTP server to receive OAuth callback
@@ -13,8 +13,8 @@
 
 import { URL } from 'url';
 import open from 'open';
-import { randomBytes } from 'crypto';
 import { createCallbackServer, type AppType } from './callback-server.ts';
+import { generateState } from './pkce.ts';
 import type { SlackService } from '../sources/types.ts';
 
 // Re-export for convenience
@@ -93,13 +93,6 @@ export interface SlackOAuthResult {
   error?: string;
 }
 
-/**
- * Generate random state for CSRF protection
- */
-function generateState(): string {
-  return randomBytes(16).toString('hex');
-}
-
 /**
  * Exchange authorization code for tokens
  * Slack uses HTTP Basic auth for token exchange
@@ -232,6 +225,43 @@ export function getSlackScopes(options: SlackOAuthOptions): string[] {
   return SLACK_SERVICE_SCOPES.full;
 }
 
+/**
+ * Build the Slack consent URL for a redirect URI (Slack requires HTTPS redirects).
+ * The caller keeps `state` until the redirect arrives.
+ */
+export function buildSlackAuthUrl(params: {
+  userScopes: string[];
+  redirectUri: string;
+  state: string;
+}): string {
+  // Use user_scope (not scope) to get a user token instead of bot token
+  const authUrl = new URL(SLACK_AUTH_URL);
+  authUrl.searchParams.set('client_id', SLACK_CLIENT_ID);
+  authUrl.searchParams.set('redirect_uri', params.redirectUri);
+  authUrl.searchParams.set('state', params.state);
+  // user_scope = authenticate as user, scope = install bot
+  authUrl.searchParams.set('user_scope', params.userScopes.join(','));
+  return authUrl.toString();
+}
+
+/**
+ * Exchange an authorization code from the Slack redirect for a user token + workspace info.
+ * `redirectUri` must match the one in the consent URL.
+ */
+export async function exchangeSlackCode(code: string, redirectUri: string): Promise<SlackOAuthResult> {
+  const tokens = await exchangeCodeForTokens(code, redirectUri);
+
+  return {
+    success: true,
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
+    expiresAt: tokens.expiresIn ? Date.now() + tokens.expiresIn * 1000 : undefined,
+    teamId: tokens.teamId,
+    teamName: tokens.teamName,
+    userId: tokens.userId,
+  };
+}
+
 /**
  * Start Slack OAuth flow for USER authentication
  *
@@ -281,17 +311,8 @@ export async function startSlackOAuth(options: SlackOAuthOptions = {}): Promise<
     // The relay redirects: https://agents.craft.do/auth/slack/callback → http://localhost:{port}/callback
     const redirectUri = `https://agents.craft.do/auth/slack/callback?port=${port}`;
 
-    // Build authorization URL
-    // Use user_scope (not scope) to get a user token instead of bot token
-    const authUrl = new URL(SLACK_AUTH_URL);
-    authUrl.searchParams.set('client_id', SLACK_CLIENT_ID);
-    authUrl.searchParams.set('redirect_uri', redirectUri);
-    authUrl.searchParams.set('state', state);
-    // user_scope = authenticate as user, scope = install bot
-    authUrl.searchParams.set('user_scope', userScopes.join(','));
-
     // Open browser for authorization
-    await open(authUrl.toString());
+    await open(buildSlackAuthUrl({ userScopes, redirectUri, state }));
 
     // Wait for callback
     const callback = await callbackServer.promise;
@@ -321,18 +342,7 @@ export async function startSlackOAuth(options: SlackOAuthOptions = {}): Promise<
       };
     }
 
-    // Exchange code for tokens
-    const tokens = await exchangeCodeForTokens(code, redirectUri);
-
-    return {
-      success: true,
-      accessToken: tokens.accessToken,
-      refreshToken: tokens.refreshToken,
-      expiresAt: tokens.expiresIn ? Date.now() + tokens.expiresIn * 1000 : undefined,
-      teamId: tokens.teamId,
-      teamName: tokens.teamName,
-      userId: tokens.userId,
-    };
+    return await exchangeSlackCode(code, redirectUri);
   } catch (error) {
     return {
       success: false,
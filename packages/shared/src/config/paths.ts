@@ -17,3 +17,23 @@ import { join } from 'path';
 // Allow override via environment variable for multi-instance dev
 // Falls back to default ~/.craft-agent/ for production and non-numbered dev folders
 export const CONFIG_DIR = process.env.CRAFT_CONFIG_DIR || join(homedir(), '.craft-agent');
+
+// Optional per-call override (see setConfigDirResolver)
+let configDirResolver: (() => string | undefined) | null = null;
+
+/**
+ * Let a host serve several config roots from one process (e.g. the webapp's multi-user
+ * mode, where each user has their own config, credentials and drafts). The resolver is
+ * consulted on every config access and returns the active root, or undefined for CONFIG_DIR.
+ */
+export function setConfigDirResolver(resolver: (() => string | undefined) | null): void {
+  configDirResolver = resolver;
+}
+
+/**
+ * The active config directory. Use this instead of CONFIG_DIR for anything read or
+ * written at runtime, so per-user roots are respected.
+ */
+export function getConfigDir(): string {
+  return configDirResolver?.() ?? CONFIG_DIR;
+}
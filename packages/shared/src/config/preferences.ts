@@ -1,7 +1,7 @@
 import { existsSync, readFileSync, writeFileSync } from 'fs';
 import { join } from 'path';
 import { ensureConfigDir } from './storage.ts';
-import { CONFIG_DIR } from './paths.ts';
+import { getConfigDir } from './paths.ts';
 
 export interface UserLocation {
   city?: string;
@@ -33,14 +33,15 @@ export interface UserPreferences {
   updatedAt?: number;
 }
 
-const PREFERENCES_FILE = join(CONFIG_DIR, 'preferences.json');
+// Resolved on each use - the config directory may be scoped per user (see paths.ts)
+const preferencesFile = () => join(getConfigDir(), 'preferences.json');
 
 export function loadPreferences(): UserPreferences {
   try {
-    if (!existsSync(PREFERENCES_FILE)) {
+    if (!existsSync(preferencesFile())) {
       return {};
     }
-    const content = readFileSync(PREFERENCES_FILE, 'utf-8');
+    const content = readFileSync(preferencesFile(), 'utf-8');
     return JSON.parse(content) as UserPreferences;
   } catch {
     return {};
@@ -50,7 +51,7 @@ export function loadPreferences(): UserPreferences {
 export function savePreferences(prefs: UserPreferences): void {
   ensureConfigDir();
   prefs.updatedAt = Date.now();
-  writeFileSync(PREFERENCES_FILE, JSON.stringify(prefs, null, 2), 'utf-8');
+  writeFileSync(preferencesFile(), JSON.stringify(prefs, null, 2), 'utf-8');
 }
 
 export function updatePreferences(updates: Partial<UserPreferences>): UserPreferences {
@@ -72,7 +73,7 @@ export function updatePreferences(updates: Partial<UserPreferences>): UserPrefer
 }
 
 export function getPreferencesPath(): string {
-  return PREFERENCES_FILE;
+  return preferencesFile();
 }
 
 /**
@@ -163,7 +164,7 @@ export function formatPreferencesDisplay(): string {
   }
 
   lines.push('**How to update:** Just tell the assistant (e.g., "My name is Alex" or "I\'m in London, GMT timezone").');
-  lines.push(`**Config file:** \`${PREFERENCES_FILE}\``);
+  lines.push(`**Config file:** \`${preferencesFile()}\``);
 
   return lines.join('\n');
 }
@@ -11,14 +11,14 @@ import {
 import { findIconFile } from '../utils/icon.ts';
 import { initializeDocs } from '../docs/index.ts';
 import { expandPath, toPortablePath } from '../utils/paths.ts';
-import { CONFIG_DIR } from './paths.ts';
+import { getConfigDir } from './paths.ts';
 import type { StoredAttachment, StoredMessage } from '@craft-agent/core/types';
 import type { Plan } from '../agent/plan-types.ts';
 import type { PermissionMode } from '../agent/mode-manager.ts';
 import { BUNDLED_CONFIG_DEFAULTS, type ConfigDefaults } from './config-defaults-schema.ts';
 
 // Re-export CONFIG_DIR for convenience (centralized in paths.ts)
-export { CONFIG_DIR } from './paths.ts';
+export { CONFIG_DIR, getConfigDir, setConfigDirResolver } from './paths.ts';
 
 // Re-export base types from core (single source of truth)
 export type {
@@ -48,16 +48,17 @@ export interface StoredConfig {
   dismissedUpdateVersion?: string;  // Version that user dismissed (skip notifications for this version)
 }
 
-const CONFIG_FILE = join(CONFIG_DIR, 'config.json');
-const CONFIG_DEFAULTS_FILE = join(CONFIG_DIR, 'config-defaults.json');
+// Resolved on each use - the config directory may be scoped per user (see paths.ts)
+const configFile = () => join(getConfigDir(), 'config.json');
+const configDefaultsFile = () => join(getConfigDir(), 'config-defaults.json');
 
 /**
  * Load config defaults from file, or use bundled defaults as fallback.
  */
 export function loadConfigDefaults(): ConfigDefaults {
   try {
-    if (existsSync(CONFIG_DEFAULTS_FILE)) {
-      const content = readFileSync(CONFIG_DEFAULTS_FILE, 'utf-8');
+    if (existsSync(configDefaultsFile())) {
+      const content = readFileSync(configDefaultsFile(), 'utf-8');
       return JSON.parse(content) as ConfigDefaults;
     }
   } catch {
@@ -70,7 +71,7 @@ export function loadConfigDefaults(): ConfigDefaults {
  * Ensure config-defaults.json exists (copy from bundled if not).
  */
 export function ensureConfigDefaults(bundledDefaultsPath?: string): void {
-  if (existsSync(CONFIG_DEFAULTS_FILE)) {
+  if (existsSync(configDefaultsFile())) {
     return; // Already exists, don't overwrite
   }
 
@@ -78,7 +79,7 @@ export function ensureConfigDefaults(bundledDefaultsPath?: string): void {
   if (bundledDefaultsPath && existsSync(bundledDefaultsPath)) {
     try {
       const content = readFileSync(bundledDefaultsPath, 'utf-8');
-      writeFileSync(CONFIG_DEFAULTS_FILE, content, 'utf-8');
+      writeFileSync(configDefaultsFile(), content, 'utf-8');
       return;
     } catch {
       // Fall through to write bundled defaults
@@ -87,15 +88,16 @@ export function ensureConfigDefaults(bundledDefaultsPath?: string): void {
 
   // Fallback: write bundled defaults directly
   writeFileSync(
-    CONFIG_DEFAULTS_FILE,
+    configDefaultsFile(),
     JSON.stringify(BUNDLED_CONFIG_DEFAULTS, null, 2),
     'utf-8'
   );
 }
 
 export function ensureConfigDir(bundledResourcesDir?: string): void {
-  if (!existsSync(CONFIG_DIR)) {
-    mkdirSync(CONFIG_DIR, { recursive: true });
+  const configDir = getConfigDir();
+  if (!existsSync(configDir)) {
+    mkdirSync(configDir, { recursive: true });
   }
   // Initialize bundled docs (creates ~/.craft-agent/docs/ with sources.md, agents.md, permissions.md)
   initializeDocs();
@@ -109,10 +111,10 @@ export function ensureConfigDir(bundledResourcesDir?: string): void {
 
 export function loadStoredConfig(): StoredConfig | null {
   try {
-    if (!existsSync(CONFIG_FILE)) {
+    if (!existsSync(configFile())) {
       return null;
     }
-    const content = readFileSync(CONFIG_FILE, 'utf-8');
+    const content = readFileSync(configFile(), 'utf-8');
     const config = JSON.parse(content) as StoredConfig;
 
     // Must have workspaces array
@@ -175,7 +177,7 @@ export function saveConfig(config: StoredConfig): void {
     })),
   };
 
-  writeFileSync(CONFIG_FILE, JSON.stringify(storageConfig, null, 2), 'utf-8');
+  writeFileSync(configFile(), JSON.stringify(storageConfig, null, 2), 'utf-8');
 }
 
 export async function updateApiKey(newApiKey: string): Promise<boolean> {
@@ -269,7 +271,7 @@ export function setNotificationsEnabled(enabled: boolean): void {
 // Permission settings are now stored per-workspace in workspace config.json (defaults.permissionMode, defaults.cyclablePermissionModes)
 
 export function getConfigPath(): string {
-  return CONFIG_FILE;
+  return configFile();
 }
 
 /**
@@ -278,18 +280,18 @@ export function getConfigPath(): string {
  */
 export async function clearAllConfig(): Promise<void> {
   // Delete config file
-  if (existsSync(CONFIG_FILE)) {
-    rmSync(CONFIG_FILE);
+  if (existsSync(configFile())) {
+    rmSync(configFile());
   }
 
   // Delete credentials file
-  const credentialsFile = join(CONFIG_DIR, 'credentials.enc');
+  const credentialsFile = join(getConfigDir(), 'credentials.enc');
   if (existsSync(credentialsFile)) {
     rmSync(credentialsFile);
   }
 
   // Optionally: Delete workspace data (conversations)
-  const workspacesDir = join(CONFIG_DIR, 'workspaces');
+  const workspacesDir = join(getConfigDir(), 'workspaces');
   if (existsSync(workspacesDir)) {
     rmSync(workspacesDir, { recursive: true });
   }
@@ -524,10 +526,10 @@ export async function removeWorkspace(workspaceId: string): Promise<boolean> {
 // Workspace Conversation Persistence
 // ============================================
 
-const WORKSPACES_DIR = join(CONFIG_DIR, 'workspaces');
+const workspaceDataDir = () => join(getConfigDir(), 'workspaces');
 
 function ensureWorkspaceDir(workspaceId: string): string {
-  const dir = join(WORKSPACES_DIR, workspaceId);
+  const dir = join(workspaceDataDir(), workspaceId);
   if (!existsSync(dir)) {
     mkdirSync(dir, { recursive: true });
   }
@@ -602,7 +604,7 @@ export function saveWorkspaceConversation(
 
 // Load workspace conversation
 export function loadWorkspaceConversation(workspaceId: string): WorkspaceConversation | null {
-  const filePath = join(WORKSPACES_DIR, workspaceId, 'conversation.json');
+  const filePath = join(workspaceDataDir(), workspaceId, 'conversation.json');
 
   try {
     if (!existsSync(filePath)) {
@@ -617,12 +619,12 @@ export function loadWorkspaceConversation(workspaceId: string): WorkspaceConvers
 
 // Get workspace data directory path
 export function getWorkspaceDataPath(workspaceId: string): string {
-  return join(WORKSPACES_DIR, workspaceId);
+  return join(workspaceDataDir(), workspaceId);
 }
 
 // Clear workspace conversation
 export function clearWorkspaceConversation(workspaceId: string): void {
-  const filePath = join(WORKSPACES_DIR, workspaceId, 'conversation.json');
+  const filePath = join(workspaceDataDir(), workspaceId, 'conversation.json');
   if (existsSync(filePath)) {
     writeFileSync(filePath, '{}', 'utf-8');
   }
@@ -652,7 +654,7 @@ export function saveWorkspacePlan(workspaceId: string, plan: Plan): void {
  * Returns null if no plan exists.
  */
 export function loadWorkspacePlan(workspaceId: string): Plan | null {
-  const filePath = join(WORKSPACES_DIR, workspaceId, 'plan.json');
+  const filePath = join(workspaceDataDir(), workspaceId, 'plan.json');
 
   try {
     if (!existsSync(filePath)) {
@@ -670,7 +672,7 @@ export function loadWorkspacePlan(workspaceId: string): Plan | null {
  * Called when user runs /clear or cancels a plan.
  */
 export function clearWorkspacePlan(workspaceId: string): void {
-  const filePath = join(WORKSPACES_DIR, workspaceId, 'plan.json');
+  const filePath = join(workspaceDataDir(), workspaceId, 'plan.json');
   if (existsSync(filePath)) {
     rmSync(filePath);
   }
@@ -681,7 +683,7 @@ export function clearWorkspacePlan(workspaceId: string): void {
 // Persists input text per session across app restarts
 // ============================================
 
-const DRAFTS_FILE = join(CONFIG_DIR, 'drafts.json');
+const draftsFile = () => join(getConfigDir(), 'drafts.json');
 
 interface DraftsData {
   drafts: Record<string, string>;
@@ -693,10 +695,10 @@ interface DraftsData {
  */
 function loadDraftsData(): DraftsData {
   try {
-    if (!existsSync(DRAFTS_FILE)) {
+    if (!existsSync(draftsFile())) {
       return { drafts: {}, updatedAt: 0 };
     }
-    const content = readFileSync(DRAFTS_FILE, 'utf-8');
+    const content = readFileSync(draftsFile(), 'utf-8');
     return JSON.parse(content) as DraftsData;
   } catch {
     return { drafts: {}, updatedAt: 0 };
@@ -709,7 +711,7 @@ function loadDraftsData(): DraftsData {
 function saveDraftsData(data: DraftsData): void {
   ensureConfigDir();
   data.updatedAt = Date.now();
-  writeFileSync(DRAFTS_FILE, JSON.stringify(data, null, 2), 'utf-8');
+  writeFileSync(draftsFile(), JSON.stringify(data, null, 2), 'utf-8');
 }
 
 /**
@@ -758,15 +760,15 @@ export function getAllSessionDrafts(): Record<string, string> {
 import type { ThemeOverrides, ThemeFile, PresetTheme } from './theme.ts';
 import { readdirSync } from 'fs';
 
-const APP_THEME_FILE = join(CONFIG_DIR, 'theme.json');
-const APP_THEMES_DIR = join(CONFIG_DIR, 'themes');
+const appThemeFile = () => join(getConfigDir(), 'theme.json');
+const appThemesDir = () => join(getConfigDir(), 'themes');
 
 /**
  * Get the app-level themes directory.
  * Preset themes are stored at ~/.craft-agent/themes/
  */
 export function getAppThemesDir(): string {
-  return APP_THEMES_DIR;
+  return appThemesDir();
 }
 
 /**
@@ -774,10 +776,10 @@ export function getAppThemesDir(): string {
  */
 export function loadAppTheme(): ThemeOverrides | null {
   try {
-    if (!existsSync(APP_THEME_FILE)) {
+    if (!existsSync(appThemeFile())) {
       return null;
     }
-    const content = readFileSync(APP_THEME_FILE, 'utf-8');
+    const content = readFileSync(appThemeFile(), 'utf-8');
     return JSON.parse(content) as ThemeOverrides;
   } catch {
     return null;
@@ -789,7 +791,7 @@ export function loadAppTheme(): ThemeOverrides | null {
  */
 export function saveAppTheme(theme: ThemeOverrides): void {
   ensureConfigDir();
-  writeFileSync(APP_THEME_FILE, JSON.stringify(theme, null, 2), 'utf-8');
+  writeFileSync(appThemeFile(), JSON.stringify(theme, null, 2), 'utf-8');
 }
 
 
@@ -14,15 +14,16 @@
 import { z } from 'zod';
 import { existsSync, readFileSync, readdirSync, statSync } from 'fs';
 import { join } from 'path';
-import { CONFIG_DIR } from './paths.ts';
+import { getConfigDir } from './paths.ts';
 import { EntityColorSchema } from '../colors/validate.ts';
 
 // ============================================================
 // Config Directory
 // ============================================================
 
-const CONFIG_FILE = join(CONFIG_DIR, 'config.json');
-const PREFERENCES_FILE = join(CONFIG_DIR, 'preferences.json');
+// Resolved on each use - the config directory may be scoped per user (see paths.ts)
+const configFile = () => join(getConfigDir(), 'config.json');
+const preferencesFile = () => join(getConfigDir(), 'preferences.json');
 
 // ============================================================
 // Validation Result Types
@@ -111,7 +112,7 @@ export function validateConfig(): ValidationResult {
   const warnings: ValidationIssue[] = [];
 
   // Check if file exists
-  if (!existsSync(CONFIG_FILE)) {
+  if (!existsSync(configFile())) {
     return {
       valid: false,
       errors: [{
@@ -128,7 +129,7 @@ export function validateConfig(): ValidationResult {
   // Parse JSON
   let content: unknown;
   try {
-    const raw = readFileSync(CONFIG_FILE, 'utf-8');
+    const raw = readFileSync(configFile(), 'utf-8');
     content = JSON.parse(raw);
   } catch (e) {
     return {
@@ -181,7 +182,7 @@ export function validatePreferences(): ValidationResult {
   const warnings: ValidationIssue[] = [];
 
   // Check if file exists (preferences are optional)
-  if (!existsSync(PREFERENCES_FILE)) {
+  if (!existsSync(preferencesFile())) {
     return {
       valid: true,
       errors: [],
@@ -197,7 +198,7 @@ export function validatePreferences(): ValidationResult {
   // Parse JSON
   let content: unknown;
   try {
-    const raw = readFileSync(PREFERENCES_FILE, 'utf-8');
+    const raw = readFileSync(preferencesFile(), 'utf-8');
     content = JSON.parse(raw);
   } catch (e) {
     return {
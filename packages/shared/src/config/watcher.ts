@@ -19,7 +19,7 @@
 import { watch, existsSync, readdirSync, statSync, readFileSync, mkdirSync } from 'fs';
 import { join, dirname, basename, relative } from 'path';
 import type { FSWatcher } from 'fs';
-import { CONFIG_DIR } from './paths.ts';
+import { getConfigDir } from './paths.ts';
 import { debug } from '../utils/debug.ts';
 import { perf } from '../utils/perf.ts';
 import { loadStoredConfig, type StoredConfig } from './storage.ts';
@@ -55,9 +55,6 @@ import type { ThemeOverrides, PresetTheme } from './theme.ts';
 // Constants
 // ============================================================
 
-const CONFIG_FILE = join(CONFIG_DIR, 'config.json');
-const PREFERENCES_FILE = join(CONFIG_DIR, 'preferences.json');
-
 // Debounce delay in milliseconds
 const DEBOUNCE_MS = 100;
 
@@ -149,12 +146,13 @@ export interface ConfigWatcherCallbacks {
  * Load preferences from file
  */
 export function loadPreferences(): UserPreferences | null {
-  if (!existsSync(PREFERENCES_FILE)) {
+  const preferencesFile = join(getConfigDir(), 'preferences.json');
+  if (!existsSync(preferencesFile)) {
     return null;
   }
 
   try {
-    const content = readFileSync(PREFERENCES_FILE, 'utf-8');
+    const content = readFileSync(preferencesFile, 'utf-8');
     return JSON.parse(content) as UserPreferences;
   } catch (error) {
     debug('[ConfigWatcher] Error loading preferences', error);
@@ -183,12 +181,15 @@ export class ConfigWatcher {
   private knownThemes: Set<string> = new Set();
 
   // Computed paths
+  private configDir: string;
   private workspaceDir: string;
   private sourcesDir: string;
   private skillsDir: string;
 
   constructor(workspaceIdOrPath: string, callbacks: ConfigWatcherCallbacks) {
     this.callbacks = callbacks;
+    // Captured now - the config directory may be scoped to the user creating the watcher
+    this.configDir = getConfigDir();
     // Support both workspace ID and workspace root path
     // Paths contain '/' or '\\' (Windows) while IDs don't
     const isPath = workspaceIdOrPath.includes('/') || workspaceIdOrPath.includes('\\');
@@ -294,13 +295,13 @@ export class ConfigWatcher {
    */
   private watchGlobalConfigs(): void {
     // Ensure config directory exists
-    if (!existsSync(CONFIG_DIR)) {
-      mkdirSync(CONFIG_DIR, { recursive: true });
+    if (!existsSync(this.configDir)) {
+      mkdirSync(this.configDir, { recursive: true });
     }
 
     try {
       // Watch the config directory for changes to config.json, preferences.json, and theme.json
-      const watcher = watch(CONFIG_DIR, (eventType, filename) => {
+      const watcher = watch(this.configDir, (eventType, filename) => {
         if (!filename) return;
 
         if (filename === 'config.json') {
@@ -313,7 +314,7 @@ export class ConfigWatcher {
       });
 
       this.watchers.push(watcher);
-      debug('[ConfigWatcher] Watching global configs:', CONFIG_DIR);
+      debug('[ConfigWatcher] Watching global configs:', this.configDir);
     } catch (error) {
       debug('[ConfigWatcher] Error watching global configs:', error);
     }
@@ -2,6 +2,7 @@
  * Secure Storage Backend
  *
  * Stores credentials in an encrypted file at ~/.craft-agent/credentials.enc
+ * (or credentials.enc in another directory, for per-user config roots).
  * Uses AES-256-GCM for authenticated encryption.
  *
  * Encryption key is derived from OS-native hardware UUID using PBKDF2:
@@ -40,9 +41,9 @@ import type { CredentialBackend } from './types.ts';
 import type { CredentialId, StoredCredential } from '../types.ts';
 import { credentialIdToAccount, accountToCredentialId } from '../types.ts';
 
-// File location
-const CREDENTIALS_DIR = join(homedir(), '.craft-agent');
-const CREDENTIALS_FILE = join(CREDENTIALS_DIR, 'credentials.enc');
+// Default file location
+const DEFAULT_CREDENTIALS_DIR = join(homedir(), '.craft-agent');
+const CREDENTIALS_FILENAME = 'credentials.enc';
 
 // File format constants
 const MAGIC_BYTES = Buffer.from('CRAFT01\0');
@@ -116,6 +117,14 @@ export class SecureStorageBackend implements CredentialBackend {
   private encryptionKey: Buffer | null = null;
   private salt: Buffer | null = null;
 
+  private readonly credentialsDir: string;
+  private readonly credentialsFile: string;
+
+  constructor(credentialsDir: string = DEFAULT_CREDENTIALS_DIR) {
+    this.credentialsDir = credentialsDir;
+    this.credentialsFile = join(credentialsDir, CREDENTIALS_FILENAME);
+  }
+
   async isAvailable(): Promise<boolean> {
     // File backend is always available - we can always write to filesystem
     return true;
@@ -191,11 +200,11 @@ export class SecureStorageBackend implements CredentialBackend {
     // Return cached store if available
     if (this.cachedStore) return this.cachedStore;
 
-    if (!existsSync(CREDENTIALS_FILE)) return null;
+    if (!existsSync(this.credentialsFile)) return null;
 
     let fileData: Buffer;
     try {
-      fileData = readFileSync(CREDENTIALS_FILE);
+      fileData = readFileSync(this.credentialsFile);
     } catch {
       return null;
     }
@@ -268,8 +277,8 @@ export class SecureStorageBackend implements CredentialBackend {
 
   private async saveStore(store: CredentialStore): Promise<void> {
     // Ensure directory exists
-    if (!existsSync(CREDENTIALS_DIR)) {
-      mkdirSync(CREDENTIALS_DIR, { recursive: true, mode: 0o700 });
+    if (!existsSync(this.credentialsDir)) {
+      mkdirSync(this.credentialsDir, { recursive: true, mode: 0o700 });
     }
 
     // Use existing salt or generate new one
@@ -300,7 +309,7 @@ export class SecureStorageBackend implements CredentialBackend {
     const fileData = Buffer.concat([header, iv, authTag, ciphertext]);
 
     // Write with restrictive permissions (owner read/write only)
-    writeFileSync(CREDENTIALS_FILE, fileData, { mode: 0o600 });
+    writeFileSync(this.credentialsFile, fileData, { mode: 0o600 });
     this.cachedStore = store;
   }
 
@@ -338,8 +347,8 @@ export class SecureStorageBackend implements CredentialBackend {
   private handleCorruptedFile(): void {
     // Delete corrupted file - user will need to re-enter credentials
     try {
-      if (existsSync(CREDENTIALS_FILE)) {
-        unlinkSync(CREDENTIALS_FILE);
+      if (existsSync(this.credentialsFile)) {
+        unlinkSync(this.credentialsFile);
       }
     } catch {
       // Ignore deletion errors
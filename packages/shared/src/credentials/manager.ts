@@ -9,6 +9,7 @@ import type { CredentialBackend } from './backends/types.ts';
 import type { CredentialId, CredentialType, StoredCredential } from './types.ts';
 import { SecureStorageBackend } from './backends/secure-storage.ts';
 import { debug } from '../utils/debug.ts';
+import { CONFIG_DIR, getConfigDir } from '../config/paths.ts';
 
 export class CredentialManager {
   private backends: CredentialBackend[] = [];
@@ -16,6 +17,11 @@ export class CredentialManager {
   private initialized = false;
   private initPromise: Promise<void> | null = null;
 
+  /**
+   * @param credentialsDir - Directory holding credentials.enc (defaults to ~/.craft-agent)
+   */
+  constructor(private readonly credentialsDir?: string) {}
+
   /**
    * Explicitly initialize the credential manager.
    * This is optional - methods auto-initialize via ensureInitialized().
@@ -48,7 +54,7 @@ export class CredentialManager {
 
   private async _doInitialize(): Promise<void> {
     const potentialBackends: CredentialBackend[] = [
-      new SecureStorageBackend(),
+      new SecureStorageBackend(this.credentialsDir),
     ];
 
     // Check which backends are available
@@ -274,10 +280,21 @@ export class CredentialManager {
   }
 }
 
-// Singleton instance
+// Singleton instance for the default config directory
 let manager: CredentialManager | null = null;
+// Managers for per-user config roots (see setConfigDirResolver), keyed by directory
+const scopedManagers = new Map<string, CredentialManager>();
 
 export function getCredentialManager(): CredentialManager {
+  const configDir = getConfigDir();
+  if (configDir !== CONFIG_DIR) {
+    let scoped = scopedManagers.get(configDir);
+    if (!scoped) {
+      scoped = new CredentialManager(configDir);
+      scopedManagers.set(configDir, scoped);
+    }
+    return scoped;
+  }
   if (!manager) {
     manager = new CredentialManager();
   }
@@ -0,0 +1,164 @@
+/**
+ * Tests for session JSONL persistence
+ *
+ * These tests verify that sessions written by the webapp survive a write/read cycle:
+ * - messages and lastMessageAt, also from the header alone when listing sessions
+ * - a truncated last line (a write cut short) only loses that line
+ * - thinkingLevel
+ * - pendingPlanExecution (plans accepted with "Accept & Compact")
+ * - tokenUsage accumulated over the session's turns
+ * - inFlightTurn (turns interrupted by a restart)
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, mkdirSync, rmSync, readFileSync, appendFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { writeSessionJsonl, readSessionJsonl, readSessionHeader } from '../jsonl.ts';
+import { listSessions } from '../storage.ts';
+import type { StoredSession } from '../types.ts';
+
+let workspaceRoot: string;
+
+beforeEach(() => {
+  workspaceRoot = mkdtempSync(join(tmpdir(), 'jsonl-test-'));
+});
+
+afterEach(() => {
+  rmSync(workspaceRoot, { recursive: true, force: true });
+});
+
+function makeSession(overrides: Partial<StoredSession> = {}): StoredSession {
+  return {
+    id: '261019-test-session',
+    workspaceRootPath: workspaceRoot,
+    createdAt: 1000,
+    lastUsedAt: 2000,
+    lastMessageAt: 1500,
+    tokenUsage: { inputTokens: 0, outputTokens: 0, totalTokens: 0, contextTokens: 0, costUsd: 0 },
+    messages: [
+      { id: 'msg-1', type: 'user', content: 'Hello', timestamp: 1400 },
+      { id: 'msg-2', type: 'assistant', content: 'Hi there', timestamp: 1500 },
+    ],
+    ...overrides,
+  };
+}
+
+function writeToWorkspace(session: StoredSession): string {
+  const dir = join(workspaceRoot, 'sessions', session.id);
+  mkdirSync(dir, { recursive: true });
+  const file = join(dir, 'session.jsonl');
+  writeSessionJsonl(file, session);
+  return file;
+}
+
+describe('session JSONL round-trip', () => {
+  it('keeps the messages and lastMessageAt', () => {
+    const session = makeSession();
+    const loaded = readSessionJsonl(writeToWorkspace(session))!;
+
+    expect(loaded.lastMessageAt).toBe(1500);
+    expect(loaded.messages).toEqual(session.messages);
+  });
+
+  it('summarizes the messages in the header line', () => {
+    const header = readSessionHeader(writeToWorkspace(makeSession()))!;
+
+    expect(header.messageCount).toBe(2);
+    expect(header.lastFinalMessageId).toBe('msg-2');
+  });
+
+  it('skips a truncated last line instead of losing the session', () => {
+    const file = writeToWorkspace(makeSession());
+    appendFileSync(file, '{"id":"msg-3","type":"assis');
+    const loaded = readSessionJsonl(file)!;
+
+    expect(loaded.messages.map(m => m.id)).toEqual(['msg-1', 'msg-2']);
+    expect(loaded.lastMessageAt).toBe(1500);
+  });
+
+  it('lists the session from its header', () => {
+    const session = makeSession();
+    writeToWorkspace(session);
+    const [metadata] = listSessions(workspaceRoot);
+
+    expect(metadata?.id).toBe(session.id);
+    expect(metadata?.lastMessageAt).toBe(1500);
+  });
+});
+
+describe('thinkingLevel', () => {
+  it('survives a write/read cycle and is listed', () => {
+    const session = makeSession({ thinkingLevel: 'think' });
+    const loaded = readSessionJsonl(writeToWorkspace(session))!;
+    const [metadata] = listSessions(workspaceRoot);
+
+    expect(loaded.thinkingLevel).toBe('think');
+    expect(metadata?.thinkingLevel).toBe('think');
+  });
+});
+
+describe('pendingPlanExecution', () => {
+  it('survives a write/read cycle and is listed', () => {
+    const pendingPlanExecution = { planPath: join(workspaceRoot, 'plans', 'plan.md'), awaitingCompaction: true };
+    const file = writeToWorkspace(makeSession({ pendingPlanExecution }));
+    const [metadata] = listSessions(workspaceRoot);
+
+    expect(readSessionJsonl(file)!.pendingPlanExecution).toEqual(pendingPlanExecution);
+    expect(readSessionHeader(file)!.pendingPlanExecution?.awaitingCompaction).toBe(true);
+    expect(metadata?.pendingPlanExecution).toEqual(pendingPlanExecution);
+  });
+
+  it('stays unset once cleared', () => {
+    const file = writeToWorkspace(makeSession({ pendingPlanExecution: undefined }));
+
+    expect(readSessionJsonl(file)!.pendingPlanExecution).toBeUndefined();
+    expect(readFileSync(file, 'utf-8').split('\n')[0]).not.toContain('pendingPlanExecution');
+  });
+});
+
+describe('tokenUsage', () => {
+  it('keeps the accumulated usage, cost and context window', () => {
+    const tokenUsage = {
+      inputTokens: 120,
+      outputTokens: 80,
+      totalTokens: 200,
+      contextTokens: 150,
+      costUsd: 0.25,
+      cacheReadTokens: 30,
+      cacheCreationTokens: 10,
+      contextWindow: 200000,
+    };
+    const file = writeToWorkspace(makeSession({ tokenUsage }));
+    const [metadata] = listSessions(workspaceRoot);
+
+    expect(readSessionJsonl(file)!.tokenUsage).toEqual(tokenUsage);
+    expect(readSessionHeader(file)!.tokenUsage.costUsd).toBe(0.25);
+    expect(metadata?.tokenUsage).toEqual(tokenUsage);
+  });
+});
+
+describe('inFlightTurn', () => {
+  it('survives a write/read cycle and is listed', () => {
+    const inFlightTurn = { messageId: 'msg-1', startedAt: 1400 };
+    const file = writeToWorkspace(makeSession({ inFlightTurn }));
+    const [metadata] = listSessions(workspaceRoot);
+
+    expect(readSessionJsonl(file)!.inFlightTurn).toEqual(inFlightTurn);
+    expect(readSessionHeader(file)!.inFlightTurn).toEqual(inFlightTurn);
+    expect(metadata?.inFlightTurn).toEqual(inFlightTurn);
+  });
+
+  it('stays unset once the turn ended', () => {
+    const file = writeToWorkspace(makeSession({ inFlightTurn: undefined }));
+
+    expect(readSessionJsonl(file)!.inFlightTurn).toBeUndefined();
+    expect(readFileSync(file, 'utf-8').split('\n')[0]).not.toContain('inFlightTurn');
+  });
+
+  it('is still found when the last line was cut short', () => {
+    const file = writeToWorkspace(makeSession({ inFlightTurn: { messageId: 'msg-1', startedAt: 1400 } }));
+    appendFileSync(file, '{"id":"msg-3","type":"assis');
+
+    expect(readSessionJsonl(file)!.inFlightTurn?.messageId).toBe('msg-1');
+  });
+});
@@ -60,6 +60,7 @@ export function readSessionJsonl(sessionFile: string): StoredSession | null {
       workspaceRootPath: expandPath(header.workspaceRootPath),
       createdAt: header.createdAt,
       lastUsedAt: header.lastUsedAt,
+      lastMessageAt: header.lastMessageAt,
       name: header.name,
       sdkSessionId: header.sdkSessionId,
       isFlagged: header.isFlagged,
@@ -74,6 +75,9 @@ export function readSessionJsonl(sessionFile: string): StoredSession | null {
       sharedUrl: header.sharedUrl,
       sharedId: header.sharedId,
       model: header.model,
+      thinkingLevel: header.thinkingLevel,
+      pendingPlanExecution: header.pendingPlanExecution,
+      inFlightTurn: header.inFlightTurn,
       messages,
       tokenUsage: header.tokenUsage,
     };
@@ -131,6 +135,9 @@ export function createSessionHeader(session: StoredSession): SessionHeader {
     sharedUrl: session.sharedUrl,
     sharedId: session.sharedId,
     model: session.model,
+    thinkingLevel: session.thinkingLevel,
+    pendingPlanExecution: session.pendingPlanExecution,
+    inFlightTurn: session.inFlightTurn,
     // Pre-computed fields
     messageCount: session.messages.length,
     lastMessageRole: extractLastMessageRole(session.messages),
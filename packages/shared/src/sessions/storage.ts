@@ -388,6 +388,7 @@ function headerToMetadata(header: SessionHeader, workspaceRootPath: string): Ses
       workingDirectory: workingDir,
       sdkCwd,
       model: header.model,
+      thinkingLevel: header.thinkingLevel,
       // Shared viewer state - must be included for persistence across app restarts
       sharedUrl: header.sharedUrl,
       sharedId: header.sharedId,
@@ -398,6 +399,10 @@ function headerToMetadata(header: SessionHeader, workspaceRootPath: string): Ses
       lastFinalMessageId: header.lastFinalMessageId,
       // Explicit unread flag - single source of truth for NEW badge (state machine approach)
       hasUnread: header.hasUnread,
+      // Lets a restarted app find plans still waiting to be executed
+      pendingPlanExecution: header.pendingPlanExecution,
+      // Lets a restarted app find turns it was running when it stopped
+      inFlightTurn: header.inFlightTurn,
     };
   } catch {
     return null;
@@ -502,6 +507,7 @@ export async function updateSessionMetadata(
     | 'sharedUrl'
     | 'sharedId'
     | 'model'
+    | 'thinkingLevel'
   >>
 ): Promise<void> {
   const session = loadSession(workspaceRootPath, sessionId);
@@ -518,7 +524,8 @@ export async function updateSessionMetadata(
   if ('hasUnread' in updates) session.hasUnread = updates.hasUnread;
   if ('sharedUrl' in updates) session.sharedUrl = updates.sharedUrl;
   if ('sharedId' in updates) session.sharedId = updates.sharedId;
-  if (updates.model !== undefined) session.model = updates.model;
+  if ('model' in updates) session.model = updates.model;
+  if ('thinkingLevel' in updates) session.thinkingLevel = updates.thinkingLevel;
 
   await saveSession(session);
 }
@@ -106,6 +106,15 @@ export interface SessionConfig {
     /** Whether we're still waiting for compaction to complete */
     awaitingCompaction: boolean;
   };
+  /**
+   * Turn in progress - set when a turn starts and cleared when it ends.
+   * Still set at startup means the process died mid-turn.
+   */
+  inFlightTurn?: {
+    /** User message that started the turn */
+    messageId: string;
+    startedAt: number;
+  };
 }
 
 /**
@@ -175,6 +184,15 @@ export interface SessionHeader {
     /** Whether we're still waiting for compaction to complete */
     awaitingCompaction: boolean;
   };
+  /**
+   * Turn in progress - set when a turn starts and cleared when it ends.
+   * Still set at startup means the process died mid-turn.
+   */
+  inFlightTurn?: {
+    /** User message that started the turn */
+    messageId: string;
+    startedAt: number;
+  };
   // Pre-computed fields for fast list loading
   /** Number of messages in session */
   messageCount: number;
@@ -239,4 +257,8 @@ export interface SessionMetadata {
   hasUnread?: boolean;
   /** Token usage statistics (from JSONL header, available without loading messages) */
   tokenUsage?: SessionTokenUsage;
+  /** Plan accepted with "Accept & Compact" but not executed yet (see SessionConfig) */
+  pendingPlanExecution?: SessionConfig['pendingPlanExecution'];
+  /** Turn that was running when the session was last written (see SessionConfig) */
+  inFlightTurn?: SessionConfig['inFlightTurn'];
 }
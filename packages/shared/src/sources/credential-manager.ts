@@ -368,17 +368,7 @@ export class SourceCredentialManager {
 
       const { tokens, clientId } = await oauth.authenticate();
 
-      // Save the credentials
-      await this.save(source, {
-        value: tokens.accessToken,
-        refreshToken: tokens.refreshToken,
-        expiresAt: tokens.expiresAt,
-        clientId,
-        tokenType: tokens.tokenType,
-      });
-
-      // Mark source as authenticated in config.json
-      markSourceAuthenticated(source.workspaceRootPath, source.config.slug);
+      await this.saveOAuthTokens(source, { ...tokens, clientId });
 
       return { success: true };
     } catch (error) {
@@ -401,53 +391,29 @@ export class SourceCredentialManager {
     callbacks: OAuthCallbacks
   ): Promise<AuthResult> {
     try {
-      // Determine service/scopes from config
-      const api = source.config.api;
-      let service: GoogleService | undefined;
-      let scopes: string[] | undefined;
-
-      if (api?.googleScopes && api.googleScopes.length > 0) {
-        // Custom scopes take precedence
-        scopes = api.googleScopes;
-      } else if (api?.googleService) {
-        // Use predefined service scopes
-        service = api.googleService;
-      } else {
-        // Infer from baseUrl
-        service = inferGoogleServiceFromUrl(api?.baseUrl);
-        if (!service) {
-          return {
-            success: false,
-            error: `Cannot determine Google service for source '${source.config.slug}'. Set googleService ('gmail', 'calendar', or 'drive') in api config.`,
-          };
-        }
+      const options = this.getGoogleOAuthOptions(source);
+      if (!options) {
+        return {
+          success: false,
+          error: `Cannot determine Google service for source '${source.config.slug}'. Set googleService ('gmail', 'calendar', or 'drive') in api config.`,
+        };
       }
 
-      const serviceName = service || 'Google API';
+      const serviceName = options.service || 'Google API';
       callbacks.onStatus(`Starting ${serviceName} OAuth flow...`);
 
-      const options: GoogleOAuthOptions = {
-        service,
-        scopes,
-        appType: 'electron',
-      };
-
       const result: GoogleOAuthResult = await startGoogleOAuth(options);
 
       if (!result.success) {
         return { success: false, error: result.error || 'Google OAuth failed' };
       }
 
-      // Save the credentials
-      await this.save(source, {
-        value: result.accessToken!,
+      await this.saveOAuthTokens(source, {
+        accessToken: result.accessToken!,
         refreshToken: result.refreshToken,
         expiresAt: result.expiresAt,
       });
 
-      // Mark source as authenticated in config.json
-      markSourceAuthenticated(source.workspaceRootPath, source.config.slug);
-
       callbacks.onStatus(`${serviceName} authentication successful`);
       return { success: true, email: result.email };
     } catch (error) {
@@ -470,47 +436,22 @@ export class SourceCredentialManager {
     callbacks: OAuthCallbacks
   ): Promise<AuthResult> {
     try {
-      // Determine service/scopes from config
-      const api = source.config.api;
-      let service: SlackService | undefined;
-      let userScopes: string[] | undefined;
-
-      if (api?.slackUserScopes && api.slackUserScopes.length > 0) {
-        // Custom scopes take precedence
-        userScopes = api.slackUserScopes;
-      } else if (api?.slackService) {
-        // Use predefined service scopes
-        service = api.slackService;
-      } else {
-        // Infer from baseUrl (defaults to 'full')
-        service = inferSlackServiceFromUrl(api?.baseUrl) || 'full';
-      }
-
-      const serviceName = service ? `Slack ${service}` : 'Slack';
+      const options = this.getSlackOAuthOptions(source);
+      const serviceName = options.service ? `Slack ${options.service}` : 'Slack';
       callbacks.onStatus(`Starting ${serviceName} OAuth flow...`);
 
-      const options: SlackOAuthOptions = {
-        service,
-        userScopes,
-        appType: 'electron',
-      };
-
       const result: SlackOAuthResult = await startSlackOAuth(options);
 
       if (!result.success) {
         return { success: false, error: result.error || 'Slack OAuth failed' };
       }
 
-      // Save the credentials
-      await this.save(source, {
-        value: result.accessToken!,
+      await this.saveOAuthTokens(source, {
+        accessToken: result.accessToken!,
         refreshToken: result.refreshToken,
         expiresAt: result.expiresAt,
       });
 
-      // Mark source as authenticated in config.json
-      markSourceAuthenticated(source.workspaceRootPath, source.config.slug);
-
       callbacks.onStatus(`${serviceName} authentication successful`);
       // Use teamName as the identifier (similar to email for Google)
       return { success: true, email: result.teamName };
@@ -534,53 +475,29 @@ export class SourceCredentialManager {
     callbacks: OAuthCallbacks
   ): Promise<AuthResult> {
     try {
-      // Determine service/scopes from config
-      const api = source.config.api;
-      let service: MicrosoftService | undefined;
-      let scopes: string[] | undefined;
-
-      if (api?.microsoftScopes && api.microsoftScopes.length > 0) {
-        // Custom scopes take precedence
-        scopes = api.microsoftScopes;
-      } else if (api?.microsoftService) {
-        // Use predefined service scopes
-        service = api.microsoftService;
-      } else {
-        // Infer from baseUrl
-        service = inferMicrosoftServiceFromUrl(api?.baseUrl);
-        if (!service) {
-          return {
-            success: false,
-            error: `Cannot determine Microsoft service for source '${source.config.slug}'. Set microsoftService ('outlook', 'calendar', 'onedrive', 'teams', or 'sharepoint') in api config.`,
-          };
-        }
+      const options = this.getMicrosoftOAuthOptions(source);
+      if (!options) {
+        return {
+          success: false,
+          error: `Cannot determine Microsoft service for source '${source.config.slug}'. Set microsoftService ('outlook', 'calendar', 'onedrive', 'teams', or 'sharepoint') in api config.`,
+        };
       }
 
-      const serviceName = service || 'Microsoft API';
+      const serviceName = options.service || 'Microsoft API';
       callbacks.onStatus(`Starting ${serviceName} OAuth flow...`);
 
-      const options: MicrosoftOAuthOptions = {
-        service,
-        scopes,
-        appType: 'electron',
-      };
-
       const result: MicrosoftOAuthResult = await startMicrosoftOAuth(options);
 
       if (!result.success) {
         return { success: false, error: result.error || 'Microsoft OAuth failed' };
       }
 
-      // Save the credentials
-      await this.save(source, {
-        value: result.accessToken!,
+      await this.saveOAuthTokens(source, {
+        accessToken: result.accessToken!,
         refreshToken: result.refreshToken,
         expiresAt: result.expiresAt,
       });
 
-      // Mark source as authenticated in config.json
-      markSourceAuthenticated(source.workspaceRootPath, source.config.slug);
-
       callbacks.onStatus(`${serviceName} authentication successful`);
       return { success: true, email: result.email };
     } catch (error) {
@@ -590,6 +507,81 @@ export class SourceCredentialManager {
     }
   }
 
+  /**
+   * Save tokens from a completed OAuth flow and mark the source as authenticated.
+   * Used by authenticate() and by callers that run the redirect themselves (e.g. the webapp).
+   */
+  async saveOAuthTokens(
+    source: LoadedSource,
+    tokens: Omit<OAuthTokens, 'tokenType'> & { tokenType?: string; clientId?: string }
+  ): Promise<void> {
+    await this.save(source, {
+      value: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresAt: tokens.expiresAt,
+      clientId: tokens.clientId,
+      tokenType: tokens.tokenType,
+    });
+
+    // Mark source as authenticated in config.json
+    markSourceAuthenticated(source.workspaceRootPath, source.config.slug);
+  }
+
+  /**
+   * Google service/scopes for a source:
+   * - provider: "google" with googleService field
+   * - provider: "google" with custom googleScopes
+   * - Inferred from baseUrl (e.g., gmail.googleapis.com → gmail)
+   *
+   * Returns null if the service can't be determined.
+   */
+  getGoogleOAuthOptions(source: LoadedSource): GoogleOAuthOptions | null {
+    const api = source.config.api;
+    if (api?.googleScopes && api.googleScopes.length > 0) {
+      // Custom scopes take precedence
+      return { scopes: api.googleScopes, appType: 'electron' };
+    }
+    // Use predefined service scopes, or infer from baseUrl
+    const service: GoogleService | undefined = api?.googleService || inferGoogleServiceFromUrl(api?.baseUrl);
+    return service ? { service, appType: 'electron' } : null;
+  }
+
+  /**
+   * Slack service/scopes for a source:
+   * - provider: "slack" with slackService field
+   * - provider: "slack" with custom slackBotScopes/slackUserScopes
+   * - Inferred from baseUrl (slack.com → full)
+   */
+  getSlackOAuthOptions(source: LoadedSource): SlackOAuthOptions {
+    const api = source.config.api;
+    if (api?.slackUserScopes && api.slackUserScopes.length > 0) {
+      // Custom scopes take precedence
+      return { userScopes: api.slackUserScopes, appType: 'electron' };
+    }
+    // Use predefined service scopes, or infer from baseUrl (defaults to 'full')
+    const service: SlackService = api?.slackService || inferSlackServiceFromUrl(api?.baseUrl) || 'full';
+    return { service, appType: 'electron' };
+  }
+
+  /**
+   * Microsoft service/scopes for a source:
+   * - provider: "microsoft" with microsoftService field
+   * - provider: "microsoft" with custom microsoftScopes
+   * - Inferred from baseUrl (e.g., graph.microsoft.com → outlook)
+   *
+   * Returns null if the service can't be determined.
+   */
+  getMicrosoftOAuthOptions(source: LoadedSource): MicrosoftOAuthOptions | null {
+    const api = source.config.api;
+    if (api?.microsoftScopes && api.microsoftScopes.length > 0) {
+      // Custom scopes take precedence
+      return { scopes: api.microsoftScopes, appType: 'electron' };
+    }
+    // Use predefined service scopes, or infer from baseUrl
+    const service: MicrosoftService | undefined = api?.microsoftService || inferMicrosoftServiceFromUrl(api?.baseUrl);
+    return service ? { service, appType: 'electron' } : null;
+  }
+
   /**
    * Refresh token for a source
    *
@@ -22,6 +22,7 @@ import { expandPath, toPortablePath } from '../utils/paths.ts';
 import { getDefaultStatusConfig, saveStatusConfig, ensureDefaultIconFiles } from '../statuses/storage.ts';
 import { getDefaultLabelConfig, saveLabelConfig } from '../labels/storage.ts';
 import { loadConfigDefaults } from '../config/storage.ts';
+import { CONFIG_DIR as APP_CONFIG_DIR, getConfigDir } from '../config/paths.ts';
 import { DEFAULT_MODEL } from '../config/models.ts';
 import type {
   WorkspaceConfig,
@@ -38,18 +39,21 @@ const DEFAULT_WORKSPACES_DIR = join(CONFIG_DIR, 'workspaces');
 // ============================================================
 
 /**
- * Get the default workspaces directory (~/.craft-agent/workspaces/)
+ * Get the default workspaces directory (~/.craft-agent/workspaces/, or workspaces/
+ * under a per-user config root - see setConfigDirResolver)
  */
 export function getDefaultWorkspacesDir(): string {
-  return DEFAULT_WORKSPACES_DIR;
+  const configDir = getConfigDir();
+  return configDir === APP_CONFIG_DIR ? DEFAULT_WORKSPACES_DIR : join(configDir, 'workspaces');
 }
 
 /**
  * Ensure default workspaces directory exists
  */
 export function ensureDefaultWorkspacesDir(): void {
-  if (!existsSync(DEFAULT_WORKSPACES_DIR)) {
-    mkdirSync(DEFAULT_WORKSPACES_DIR, { recursive: true });
+  const workspacesDir = getDefaultWorkspacesDir();
+  if (!existsSync(workspacesDir)) {
+    mkdirSync(workspacesDir, { recursive: true });
   }
 }
 
@@ -59,7 +63,7 @@ export function ensureDefaultWorkspacesDir(): void {
  * @returns Absolute path to workspace root in default location
  */
 export function getWorkspacePath(workspaceId: string): string {
-  return join(DEFAULT_WORKSPACES_DIR, workspaceId);
+  return join(getDefaultWorkspacesDir(), workspaceId);
 }
 
 /**
@@ -364,17 +368,18 @@ export function renameWorkspaceFolder(rootPath: string, newName: string): boolea
  */
 export function discoverWorkspacesInDefaultLocation(): string[] {
   const discovered: string[] = [];
+  const workspacesDir = getDefaultWorkspacesDir();
 
-  if (!existsSync(DEFAULT_WORKSPACES_DIR)) {
+  if (!existsSync(workspacesDir)) {
     return discovered;
   }
 
   try {
-    const entries = readdirSync(DEFAULT_WORKSPACES_DIR, { withFileTypes: true });
+    const entries = readdirSync(workspacesDir, { withFileTypes: true });
     for (const entry of entries) {
       if (!entry.isDirectory()) continue;
 
-      const rootPath = join(DEFAULT_WORKSPACES_DIR, entry.name);
+      const rootPath = join(workspacesDir, entry.name);
       if (isValidWorkspace(rootPath)) {
         discovered.push(rootPath);
       }